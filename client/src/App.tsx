@@ -11,6 +11,7 @@ import { Header } from "@/components/layout/header";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { NotificationBell } from "@/components/notification-bell";
 import { ViewAsDropdown } from "@/components/view-as-dropdown";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
 import { ViewAsProvider, useViewAs } from "@/contexts/view-as-context";
 import { useAuth } from "@/hooks/useAuth";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -23,6 +24,9 @@ import ParentSignup from "@/pages/auth/parent-signup";
 import StaffProposal from "@/pages/auth/staff-proposal";
 import StaffLogin from "@/pages/auth/staff-login";
 import Login from "@/pages/auth/login";
+import ForgotPassword from "@/pages/auth/forgot-password";
+import ResetPassword from "@/pages/auth/reset-password";
+import VerifyEmail from "@/pages/auth/verify-email";
 import mcecLogo from "@assets/MCEC_Transparent_Logo_1765615854771.jpg";
 import StudentDashboard from "@/pages/student/dashboard";
 import StudentCourses from "@/pages/student/courses";
@@ -54,10 +58,13 @@ import AdminCourses from "@/pages/admin/courses";
 import AdminSettings from "@/pages/admin/settings";
 import SuperAdminUsers from "@/pages/admin/super-admin-users";
 import AdminWallets from "@/pages/admin/wallets";
+import AdminRates from "@/pages/admin/rates";
 import Announcements from "@/pages/announcements";
 import ChatPage from "@/pages/chat";
 import ReportsPage from "@/pages/reports";
 import DisputesPage from "@/pages/disputes";
+import AccountSettings from "@/pages/settings";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
 
 function LoadingScreen() {
   return (
@@ -123,6 +130,45 @@ function PendingAccountScreen() {
   );
 }
 
+// Shown until a user who must use two-factor authentication has enrolled
+function TwoFactorSetupScreen() {
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="mx-auto flex h-20 max-w-7xl items-center justify-between px-4 md:px-8">
+          <div className="flex items-center gap-3">
+            <img src={mcecLogo} alt="MCEC Logo" className="h-20 object-contain" data-testid="img-logo" />
+          </div>
+          <div className="flex items-center gap-2">
+            <ThemeToggle />
+            <Button variant="outline" asChild data-testid="button-logout">
+              <a href="/api/logout">
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign Out
+              </a>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-4 p-4">
+        <div className="w-full max-w-xl text-center">
+          <h1 className="font-heading text-2xl font-bold" data-testid="text-two-factor-required-title">
+            Set up two-factor authentication
+          </h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Your account has access to sensitive areas, so a code from an authenticator app is required
+            before you can continue.
+          </p>
+        </div>
+        <div className="w-full max-w-xl">
+          <TwoFactorSettings />
+        </div>
+      </main>
+    </div>
+  );
+}
+
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
   const sidebarStyle = {
     "--sidebar-width": "16rem",
@@ -134,6 +180,7 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
       <div className="flex h-screen w-full">
         <AppSidebar />
         <div className="flex flex-1 flex-col overflow-hidden">
+          <ImpersonationBanner />
           <header className="sticky top-0 z-50 flex h-14 items-center justify-between gap-4 border-b bg-background px-4">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <div className="flex items-center gap-2">
@@ -161,6 +208,7 @@ function StudentRoutes() {
       <Route path="/grades" component={StudentGrades} />
       <Route path="/scheduling" component={StudentScheduling} />
       <Route path="/calendar" component={CalendarPage} />
+      <Route path="/settings" component={AccountSettings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -178,6 +226,7 @@ function ParentRoutes() {
       <Route path="/grades" component={StudentGrades} />
       <Route path="/invoices" component={ParentInvoices} />
       <Route path="/attendance" component={ParentAttendance} />
+      <Route path="/settings" component={AccountSettings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -196,6 +245,7 @@ function TutorRoutes() {
       <Route path="/tutor/students" component={TutorStudents} />
       <Route path="/tutor/availability" component={TutorAvailability} />
       <Route path="/tutor/proposals" component={TutorProposals} />
+      <Route path="/settings" component={AccountSettings} />
       <Route path="/calendar" component={CalendarPage} />
       <Route path="/announcements" component={Announcements} />
       <Route component={NotFound} />
@@ -215,6 +265,7 @@ function ManagerRoutes() {
       <Route path="/manager/courses" component={ManagerCourses} />
       <Route path="/manager/courses/:courseId" component={ManagerCourseDetail} />
       <Route path="/manager/wallets" component={AdminWallets} />
+      <Route path="/settings" component={AccountSettings} />
       <Route path="/announcements" component={Announcements} />
       <Route component={NotFound} />
     </Switch>
@@ -233,9 +284,11 @@ function AdminRoutes() {
       <Route path="/admin/wallets" component={AdminWallets} />
       <Route path="/admin/invoices" component={AdminInvoices} />
       <Route path="/admin/payroll" component={AdminPayroll} />
+      <Route path="/admin/rates" component={AdminRates} />
       <Route path="/admin/staff-approval" component={AdminStaffApproval} />
       <Route path="/admin/courses" component={AdminCourses} />
       <Route path="/admin/settings" component={AdminSettings} />
+      <Route path="/settings" component={AccountSettings} />
       <Route path="/admin/super-admin" component={SuperAdminUsers} />
       <Route path="/announcements" component={Announcements} />
       <Route component={NotFound} />
@@ -277,6 +330,9 @@ export function AppRouter() {
         <Route path="/auth/parent-signup" component={ParentSignup} />
         <Route path="/auth/staff-proposal" component={StaffProposal} />
         <Route path="/auth/staff-login" component={StaffLogin} />
+        <Route path="/auth/forgot-password" component={ForgotPassword} />
+        <Route path="/auth/reset-password" component={ResetPassword} />
+        <Route path="/auth/verify-email" component={VerifyEmail} />
         <Route component={NotFound} />
       </Switch>
     );
@@ -284,6 +340,8 @@ export function AppRouter() {
     content = <Landing />;
   } else if (user.status === "pending") {
     content = <PendingAccountScreen />;
+  } else if (user.twoFactorSetupRequired) {
+    content = <TwoFactorSetupScreen />;
   } else if (user.status === "rejected") {
     content = (
       <div className="min-h-screen bg-background flex flex-col">
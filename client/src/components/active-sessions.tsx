@@ -0,0 +1,146 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Laptop, LogOut, Smartphone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/schema";
+
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /iPhone|iPad|Android|Mobile/.test(userAgent);
+}
+
+// Lists where an account is signed in. Without a userId it shows the current
+// user's own sessions; with one it is the admin view of that user's sessions.
+export function ActiveSessions({ userId }: { userId?: string }) {
+  const { toast } = useToast();
+  const baseUrl = userId ? `/api/users/${userId}/sessions` : "/api/auth/sessions";
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: [baseUrl],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [baseUrl] });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => apiRequest("DELETE", `${baseUrl}/${sessionId}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Session signed out" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not sign out session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () =>
+      userId ? apiRequest("DELETE", baseUrl) : apiRequest("POST", "/api/auth/sessions/revoke-others"),
+    onSuccess: () => {
+      refresh();
+      toast({ title: userId ? "Signed out everywhere" : "Other sessions signed out" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not sign out sessions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions?.filter((s) => !s.current) ?? [];
+  const canRevokeAll = userId ? (sessions?.length ?? 0) > 0 : otherSessions.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="font-heading text-xl">Where You're Signed In</CardTitle>
+            <CardDescription>
+              {userId
+                ? "Devices currently signed in to this account."
+                : "Devices currently signed in to your account. Sign out any you don't recognise."}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeAllMutation.mutate()}
+            disabled={!canRevokeAll || revokeAllMutation.isPending}
+            data-testid="button-revoke-all-sessions"
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            {userId ? "Sign Out Everywhere" : "Sign Out Others"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !sessions?.length ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-sessions">
+            No active sessions.
+          </p>
+        ) : (
+          sessions.map((session) => {
+            const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Laptop;
+            return (
+              <div
+                key={session.id}
+                className="flex items-center gap-3 rounded-md border p-3"
+                data-testid={`session-${session.id}`}
+              >
+                <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{describeDevice(session.userAgent)}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ipAddress ?? "Unknown IP"}
+                    {" · "}
+                    {session.lastSeenAt
+                      ? `Last seen ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`
+                      : "Last seen unknown"}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AUDIT_ENTITY_TYPES,
+  formatAuditChanges,
+  type AuditChanges,
+  type AuditEntityType,
+} from "@shared/auditPolicy";
+import type { AuditLogWithDetails, User } from "@shared/schema";
+
+const ALL = "all";
+
+type AuditFilters = {
+  entityType: string;
+  actorId: string;
+  from: string;
+  to: string;
+};
+
+// Dates are picked as local calendar days; the range covers the whole "to" day
+function toQueryString(filters: AuditFilters): string {
+  const params = new URLSearchParams();
+  if (filters.entityType !== ALL) params.set("entityType", filters.entityType);
+  if (filters.actorId !== ALL) params.set("actorId", filters.actorId);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+function userLabel(user: Pick<User, "firstName" | "lastName" | "email"> | null | undefined): string {
+  if (!user) return "System";
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Unknown";
+}
+
+// Filterable audit trail for super admins, with a CSV export of the same filters
+export function AuditLogViewer({ users }: { users: User[] }) {
+  const [filters, setFilters] = useState<AuditFilters>({ entityType: ALL, actorId: ALL, from: "", to: "" });
+  const queryString = toQueryString(filters);
+
+  const { data: logs, isLoading } = useQuery<AuditLogWithDetails[]>({
+    queryKey: ["/api/super-admin/audit-logs", queryString],
+    queryFn: async () => {
+      const res = await fetch(`/api/super-admin/audit-logs?${queryString}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      return res.json();
+    },
+  });
+
+  // Only staff accounts can perform audited actions
+  const actors = users.filter((user) => user.isSuperAdmin || ["admin", "manager", "tutor"].includes(user.role));
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  const setFilter = (key: keyof AuditFilters, value: string) => setFilters((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Audit Logs</CardTitle>
+          <CardDescription>
+            Administrative changes to users, grades, wallets, payments, invoices, payouts and reports
+          </CardDescription>
+        </div>
+        <Button variant="outline" asChild data-testid="button-export-audit-logs">
+          <a href={`/api/super-admin/audit-logs/export?${queryString}`} download>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1">
+            <Label>Entity</Label>
+            <Select value={filters.entityType} onValueChange={(value) => setFilter("entityType", value)}>
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All entities</SelectItem>
+                {Object.entries(AUDIT_ENTITY_TYPES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Actor</Label>
+            <Select value={filters.actorId} onValueChange={(value) => setFilter("actorId", value)}>
+              <SelectTrigger data-testid="select-audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                {actors.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>{userLabel(user)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilter("from", e.target.value)}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilter("to", e.target.value)}
+              data-testid="input-audit-to"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Performed By</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs?.map((log) => {
+                  const changes = formatAuditChanges(log.changes as AuditChanges | null);
+                  const target = log.targetUserId ? usersById.get(log.targetUserId) : undefined;
+                  return (
+                    <TableRow key={log.id} data-testid={`row-audit-${log.id}`}>
+                      <TableCell>
+                        <Badge variant="outline">{log.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {log.entityType ? (
+                          <>
+                            <div>{AUDIT_ENTITY_TYPES[log.entityType as AuditEntityType] ?? log.entityType}</div>
+                            <div className="font-mono text-xs text-muted-foreground">{log.entityId?.slice(0, 8)}</div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                        {target && <div className="text-xs text-muted-foreground">{userLabel(target)}</div>}
+                      </TableCell>
+                      <TableCell className="max-w-md text-xs">
+                        {changes.length > 0 ? (
+                          <ul className="space-y-0.5">
+                            {changes.map((change) => (
+                              <li key={change} className="break-words">{change}</li>
+                            ))}
+                          </ul>
+                        ) : log.previousValue || log.newValue ? (
+                          <span>{log.previousValue || "(empty)"} -&gt; {log.newValue || "(empty)"}</span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{userLabel(log.performedBy)}</TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {log.createdAt ? format(new Date(log.createdAt), "MMM d, yyyy h:mm a") : "-"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {(!logs || logs.length === 0) && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      No audit logs found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
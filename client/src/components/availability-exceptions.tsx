@@ -0,0 +1,465 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { CalendarOff, CalendarPlus, Plus, Trash2, TriangleAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RescheduleDialog } from "@/components/reschedule-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  AvailabilityExceptionType,
+  TutorAvailabilityException,
+  TutoringSessionWithDetails,
+} from "@shared/schema";
+import { fromZonedTime, toZonedTime } from "@shared/timeZonePolicy";
+
+const EXCEPTIONS_KEY = ["/api/tutor/availability-exceptions"];
+
+const EXCEPTION_LABELS: Record<AvailabilityExceptionType, string> = {
+  time_off: "Time off",
+  extra_hours: "Extra hours",
+};
+
+type ExceptionForm = {
+  type: AvailabilityExceptionType;
+  startDate: string;
+  endDate: string;
+  allDay: boolean;
+  startTime: string;
+  endTime: string;
+  reason: string;
+};
+
+type CreateExceptionResponse = {
+  exception: TutorAvailabilityException;
+  conflicts: TutoringSessionWithDetails[];
+};
+
+function emptyForm(timeZone: string): ExceptionForm {
+  const today = format(toZonedTime(new Date(), timeZone), "yyyy-MM-dd");
+  return { type: "time_off", startDate: today, endDate: today, allDay: true, startTime: "09:00", endTime: "17:00", reason: "" };
+}
+
+// Form fields are wall-clock dates and times in the tutor's zone; all-day time
+// off runs to midnight after the last day
+function toExceptionRange(form: ExceptionForm, timeZone: string): { startTime: Date; endTime: Date } {
+  const at = (date: string, time: string) => fromZonedTime(new Date(`${date}T${time}`), timeZone);
+  if (form.type === "extra_hours") {
+    return { startTime: at(form.startDate, form.startTime), endTime: at(form.startDate, form.endTime) };
+  }
+  if (form.allDay) {
+    const dayAfter = format(addDays(new Date(`${form.endDate}T00:00`), 1), "yyyy-MM-dd");
+    return { startTime: at(form.startDate, "00:00"), endTime: at(dayAfter, "00:00") };
+  }
+  return { startTime: at(form.startDate, form.startTime), endTime: at(form.endDate, form.endTime) };
+}
+
+function formatExceptionRange(exception: TutorAvailabilityException, timeZone: string): string {
+  const start = toZonedTime(exception.startTime, timeZone);
+  const end = toZonedTime(exception.endTime, timeZone);
+  const isMidnight = (date: Date) => date.getHours() === 0 && date.getMinutes() === 0;
+  if (isMidnight(start) && isMidnight(end)) {
+    const lastDay = addDays(end, -1);
+    return lastDay.toDateString() === start.toDateString()
+      ? format(start, "EEE, MMM d, yyyy")
+      : `${format(start, "MMM d")} - ${format(lastDay, "MMM d, yyyy")}`;
+  }
+  if (start.toDateString() === end.toDateString()) {
+    return `${format(start, "EEE, MMM d, yyyy")} ${format(start, "h:mm a")} - ${format(end, "h:mm a")}`;
+  }
+  return `${format(start, "MMM d, h:mm a")} - ${format(end, "MMM d, yyyy h:mm a")}`;
+}
+
+// Scheduled sessions that clash with new time off; the tutor can offer the
+// student new times or cancel outright
+function TimeOffConflictsDialog({
+  conflicts,
+  onClose,
+}: {
+  conflicts: TutoringSessionWithDetails[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { formatTime } = useTimeZone();
+  const [resolved, setResolved] = useState<Set<string>>(new Set());
+  const [rescheduling, setRescheduling] = useState<TutoringSessionWithDetails | null>(null);
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) =>
+      apiRequest("PATCH", `/api/tutoring-sessions/${id}/cancel`, { reason: "Tutor time off" }),
+    onSuccess: (_, id) => {
+      setResolved((current) => new Set(current).add(id));
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
+      toast({ title: "Session cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const remaining = conflicts.filter((session) => !resolved.has(session.id));
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TriangleAlert className="h-5 w-5 text-amber-500" />
+            Sessions During Your Time Off
+          </DialogTitle>
+          <DialogDescription>
+            These sessions are already scheduled while you are away. Offer your students new times or cancel them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {remaining.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">All conflicting sessions have been handled.</p>
+          ) : (
+            remaining.map((session) => (
+              <div
+                key={session.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3"
+                data-testid={`time-off-conflict-${session.id}`}
+              >
+                <div className="text-sm">
+                  <div className="font-medium">{session.course?.title}</div>
+                  <div className="text-muted-foreground">
+                    {formatTime(session.scheduledStartTime, "EEE, MMM d, h:mm a")}
+                    {session.student && ` with ${session.student.firstName} ${session.student.lastName}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {!session.isGroupSession && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={cancelMutation.isPending}
+                      onClick={() => setRescheduling(session)}
+                      data-testid={`button-reschedule-conflict-${session.id}`}
+                    >
+                      Reschedule
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate(session.id)}
+                    data-testid={`button-cancel-conflict-${session.id}`}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-close-conflicts">
+            {remaining.length === 0 ? "Done" : "Decide later"}
+          </Button>
+        </DialogFooter>
+        <RescheduleDialog
+          session={rescheduling}
+          onClose={() => setRescheduling(null)}
+          onSent={() => rescheduling && setResolved((current) => new Set(current).add(rescheduling.id))}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Dated changes to the weekly schedule: blocked-out time off and one-off extra hours
+export function AvailabilityExceptionsCard() {
+  const { toast } = useToast();
+  const { timeZone } = useTimeZone();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<ExceptionForm>(() => emptyForm(timeZone));
+  const [conflicts, setConflicts] = useState<TutoringSessionWithDetails[]>([]);
+
+  const { data: exceptions, isLoading } = useQuery<TutorAvailabilityException[]>({
+    queryKey: EXCEPTIONS_KEY,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ExceptionForm) => {
+      const { startTime, endTime } = toExceptionRange(data, timeZone);
+      const res = await apiRequest("POST", "/api/tutor/availability-exceptions", {
+        type: data.type,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        reason: data.reason || null,
+      });
+      return res.json() as Promise<CreateExceptionResponse>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: EXCEPTIONS_KEY });
+      setIsDialogOpen(false);
+      toast({
+        title: result.exception.type === "time_off" ? "Time off added" : "Extra hours added",
+        description: result.conflicts.length > 0
+          ? `${result.conflicts.length} scheduled session(s) overlap this time off.`
+          : undefined,
+      });
+      setConflicts(result.conflicts);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/tutor/availability-exceptions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: EXCEPTIONS_KEY });
+      toast({ title: "Exception removed" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove exception.", variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("GET", `/api/tutor/availability-exceptions/${id}/conflicts`);
+      return res.json() as Promise<TutoringSessionWithDetails[]>;
+    },
+    onSuccess: (result) => {
+      if (result.length === 0) {
+        toast({ title: "No conflicts", description: "No scheduled sessions fall in this time off." });
+      }
+      setConflicts(result);
+    },
+  });
+
+  const openDialog = () => {
+    setForm(emptyForm(timeZone));
+    setIsDialogOpen(true);
+  };
+
+  const upcoming = (exceptions || []).filter((exception) => new Date(exception.endTime) > new Date());
+  const showTimes = form.type === "extra_hours" || !form.allDay;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Time Off & Extra Hours</CardTitle>
+          <CardDescription>
+            Block out holidays or exam weeks, or open extra hours on a specific date.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={openDialog} data-testid="button-add-exception">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Exception
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-exceptions">
+            No upcoming time off or extra hours.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {upcoming.map((exception) => (
+              <div
+                key={exception.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3"
+                data-testid={`availability-exception-${exception.id}`}
+              >
+                <div className="flex items-center gap-3">
+                  {exception.type === "time_off" ? (
+                    <CalendarOff className="h-4 w-4 text-amber-500" />
+                  ) : (
+                    <CalendarPlus className="h-4 w-4 text-purple-500" />
+                  )}
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatExceptionRange(exception, timeZone)}</span>
+                      <Badge variant={exception.type === "time_off" ? "secondary" : "outline"} className="text-xs">
+                        {EXCEPTION_LABELS[exception.type]}
+                      </Badge>
+                    </div>
+                    {exception.reason && <div className="text-sm text-muted-foreground">{exception.reason}</div>}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  {exception.type === "time_off" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate(exception.id)}
+                      data-testid={`button-review-exception-${exception.id}`}
+                    >
+                      Check sessions
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(exception.id)}
+                    data-testid={`button-delete-exception-${exception.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Exception</DialogTitle>
+            <DialogDescription>Change your availability for specific dates. Times are in {timeZone}.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm({ ...form, type: value as AvailabilityExceptionType })}
+              >
+                <SelectTrigger data-testid="select-exception-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="time_off">Time off (not available)</SelectItem>
+                  <SelectItem value="extra_hours">Extra hours (available)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className={form.type === "time_off" ? "grid grid-cols-2 gap-4" : "grid gap-2"}>
+              <div className="grid gap-2">
+                <Label htmlFor="exception-start-date">{form.type === "time_off" ? "From" : "Date"}</Label>
+                <Input
+                  id="exception-start-date"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({
+                    ...form,
+                    startDate: e.target.value,
+                    endDate: form.endDate < e.target.value ? e.target.value : form.endDate,
+                  })}
+                  data-testid="input-exception-start-date"
+                />
+              </div>
+              {form.type === "time_off" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="exception-end-date">To</Label>
+                  <Input
+                    id="exception-end-date"
+                    type="date"
+                    min={form.startDate}
+                    value={form.endDate}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    data-testid="input-exception-end-date"
+                  />
+                </div>
+              )}
+            </div>
+
+            {form.type === "time_off" && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="exception-all-day"
+                  checked={form.allDay}
+                  onCheckedChange={(checked) => setForm({ ...form, allDay: checked })}
+                  data-testid="switch-exception-all-day"
+                />
+                <Label htmlFor="exception-all-day">All day</Label>
+              </div>
+            )}
+
+            {showTimes && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="exception-start-time">Start Time</Label>
+                  <Input
+                    id="exception-start-time"
+                    type="time"
+                    step={900}
+                    value={form.startTime}
+                    onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                    data-testid="input-exception-start-time"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="exception-end-time">End Time</Label>
+                  <Input
+                    id="exception-end-time"
+                    type="time"
+                    step={900}
+                    value={form.endTime}
+                    onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                    data-testid="input-exception-end-time"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="exception-reason">Reason (optional)</Label>
+              <Input
+                id="exception-reason"
+                maxLength={200}
+                placeholder="e.g. Exam week"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                data-testid="input-exception-reason"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} data-testid="button-cancel-exception">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(form)}
+              disabled={createMutation.isPending || !form.startDate || !form.endDate}
+              data-testid="button-save-exception"
+            >
+              {createMutation.isPending ? "Saving..." : "Add"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TimeOffConflictsDialog conflicts={conflicts} onClose={() => setConflicts([])} />
+    </Card>
+  );
+}
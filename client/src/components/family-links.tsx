@@ -0,0 +1,425 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Link2, Star, Trash2, UserPlus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MAX_RELATIONSHIP_LENGTH, RELATIONSHIP_SUGGESTIONS } from "@shared/parentLinkPolicy";
+import type { ParentChildWithDetails, ParentLinksOverview, PublicParentLinkRequest, User } from "@shared/schema";
+
+type LinkUser = Pick<User, "id" | "role">;
+
+function displayName(user: (Pick<User, "firstName" | "lastName"> & { email?: string | null }) | null | undefined): string {
+  if (!user) return "Unknown user";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown user";
+}
+
+function RelationshipInput({ value, onChange, id }: { value: string; onChange: (value: string) => void; id: string }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>Relationship (optional)</Label>
+      <Input
+        id={id}
+        list={`${id}-suggestions`}
+        value={value}
+        maxLength={MAX_RELATIONSHIP_LENGTH}
+        placeholder="e.g. Mother, Guardian"
+        onChange={(e) => onChange(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+      <datalist id={`${id}-suggestions`}>
+        {RELATIONSHIP_SUGGESTIONS.map((label) => (
+          <option key={label} value={label} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
+
+// Parent-child links for a parent or student. Without `manage` it is the
+// signed-in user's own view (invite codes, link requests); with it, the admin
+// view of another user's links.
+export function FamilyLinks({ user, manage = false }: { user: LinkUser; manage?: boolean }) {
+  const { toast } = useToast();
+  const isParent = user.role === "parent";
+  const overviewUrl = manage ? `/api/users/${user.id}/parent-links` : "/api/parent-links";
+
+  const [relationship, setRelationship] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [studentEmail, setStudentEmail] = useState("");
+  const [issuedCode, setIssuedCode] = useState<{ code: string; expiresAt: string } | null>(null);
+  const [linkUserId, setLinkUserId] = useState("");
+
+  const { data, isLoading } = useQuery<ParentLinksOverview>({
+    queryKey: [overviewUrl],
+  });
+
+  // Admins pick the other side of a new link from the user list
+  const { data: allUsers } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: manage,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [overviewUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/parent/children"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createCodeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/parent-links/invite-codes", { relationship });
+      return res.json() as Promise<{ code: string; expiresAt: string }>;
+    },
+    onSuccess: (issued) => {
+      setIssuedCode(issued);
+      setRelationship("");
+      refresh();
+    },
+    onError: onError("Could not create invite code"),
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/parent-links/redeem", { code: inviteCode, relationship }),
+    onSuccess: () => {
+      setInviteCode("");
+      setRelationship("");
+      refresh();
+      toast({ title: "Child linked to your account" });
+    },
+    onError: onError("Could not use invite code"),
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/parent-links/requests", { studentEmail, relationship }),
+    onSuccess: () => {
+      setStudentEmail("");
+      setRelationship("");
+      refresh();
+      toast({ title: "Link request sent", description: "The student will be asked to confirm it." });
+    },
+    onError: onError("Could not send link request"),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: string; accept: boolean }) =>
+      apiRequest("POST", `/api/parent-links/requests/${id}/${accept ? "accept" : "decline"}`),
+    onSuccess: (_, { accept }) => {
+      refresh();
+      toast({ title: accept ? "Parent linked to your account" : "Link request declined" });
+    },
+    onError: onError("Could not respond to link request"),
+  });
+
+  const cancelRequestMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/parent-links/requests/${id}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Request cancelled" });
+    },
+    onError: onError("Could not cancel request"),
+  });
+
+  const primaryMutation = useMutation({
+    mutationFn: async ({ link, isPrimaryBilling }: { link: ParentChildWithDetails; isPrimaryBilling: boolean }) =>
+      manage
+        ? apiRequest("PATCH", `/api/parent-children/${link.id}`, { isPrimaryBilling })
+        : apiRequest("PATCH", `/api/parent-links/${link.id}`, { isPrimaryBilling: true }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Primary billing contact updated" });
+    },
+    onError: onError("Could not update billing contact"),
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/parent-children/${id}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Link removed" });
+    },
+    onError: onError("Could not remove link"),
+  });
+
+  const adminLinkMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/parent-children", {
+        parentId: isParent ? user.id : linkUserId,
+        childId: isParent ? linkUserId : user.id,
+        relationship,
+      }),
+    onSuccess: () => {
+      setLinkUserId("");
+      setRelationship("");
+      refresh();
+      toast({ title: "Link created" });
+    },
+    onError: onError("Could not create link"),
+  });
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Code copied" });
+    } catch {
+      toast({ title: "Could not copy code", variant: "destructive" });
+    }
+  };
+
+  const links = data?.links ?? [];
+  const requests = data?.requests ?? [];
+  const linkedIds = new Set(links.map((link) => (isParent ? link.childId : link.parentId)));
+  const linkCandidates = (allUsers ?? []).filter(
+    (u) => u.role === (isParent ? "student" : "parent") && u.isActive && !linkedIds.has(u.id),
+  );
+
+  const renderRequest = (request: PublicParentLinkRequest) => {
+    const incoming = !manage && !isParent && !request.isInviteCode;
+    const canCancel = manage || request.initiatedById === user.id;
+    const description = request.isInviteCode
+      ? "Invite code"
+      : isParent
+        ? `Waiting for ${displayName(request.student)}`
+        : `${displayName(request.parent)} wants to link as your parent`;
+
+    return (
+      <div
+        key={request.id}
+        className="flex flex-wrap items-center gap-3 rounded-md border border-dashed p-3"
+        data-testid={`parent-link-request-${request.id}`}
+      >
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{description}</span>
+            {request.relationship && <Badge variant="outline">{request.relationship}</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Expires {format(new Date(request.expiresAt), "MMM d, yyyy")}
+          </p>
+        </div>
+        {incoming && (
+          <>
+            <Button
+              size="sm"
+              onClick={() => respondMutation.mutate({ id: request.id, accept: true })}
+              disabled={respondMutation.isPending}
+              data-testid={`button-accept-link-${request.id}`}
+            >
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => respondMutation.mutate({ id: request.id, accept: false })}
+              disabled={respondMutation.isPending}
+              data-testid={`button-decline-link-${request.id}`}
+            >
+              Decline
+            </Button>
+          </>
+        )}
+        {canCancel && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => cancelRequestMutation.mutate(request.id)}
+            disabled={cancelRequestMutation.isPending}
+            data-testid={`button-cancel-link-request-${request.id}`}
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-heading text-xl">{isParent ? "Linked Children" : "Linked Parents"}</CardTitle>
+        <CardDescription>
+          {manage
+            ? "Admins can link, unlink and choose the primary billing contact directly."
+            : isParent
+              ? "Link a child with the invite code they give you, or ask them to confirm by their email."
+              : "Give a parent an invite code, or confirm a parent's request to link to your account."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-3">
+            {links.length === 0 && requests.length === 0 && (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-parent-links">
+                {isParent ? "No children linked yet." : "No parents linked yet."}
+              </p>
+            )}
+            {links.map((link) => {
+              const other = isParent ? link.child : link.parent;
+              return (
+                <div
+                  key={link.id}
+                  className="flex flex-wrap items-center gap-3 rounded-md border p-3"
+                  data-testid={`parent-link-${link.id}`}
+                >
+                  <Link2 className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{displayName(other)}</span>
+                      {link.relationship && <Badge variant="outline">{link.relationship}</Badge>}
+                      {link.isPrimaryBilling && <Badge variant="secondary">Primary billing</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{other.email}</p>
+                  </div>
+                  {(manage || (isParent && !link.isPrimaryBilling)) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => primaryMutation.mutate({ link, isPrimaryBilling: !link.isPrimaryBilling })}
+                      disabled={primaryMutation.isPending}
+                      data-testid={`button-primary-billing-${link.id}`}
+                    >
+                      <Star className="mr-2 h-4 w-4" />
+                      {link.isPrimaryBilling ? "Unset Primary" : "Make Primary Billing"}
+                    </Button>
+                  )}
+                  {manage && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => unlinkMutation.mutate(link.id)}
+                      disabled={unlinkMutation.isPending}
+                      data-testid={`button-unlink-${link.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            {requests.map(renderRequest)}
+          </div>
+        )}
+
+        {issuedCode && (
+          <div className="rounded-md bg-muted p-4" data-testid="panel-invite-code">
+            <p className="text-sm text-muted-foreground">
+              Share this code with your parent. It works once and expires{" "}
+              {format(new Date(issuedCode.expiresAt), "MMM d, yyyy")}. It will not be shown again.
+            </p>
+            <div className="mt-2 flex items-center gap-2">
+              <span className="font-mono text-2xl font-bold tracking-widest" data-testid="text-invite-code">
+                {issuedCode.code}
+              </span>
+              <Button size="icon" variant="ghost" onClick={() => copyCode(issuedCode.code)} data-testid="button-copy-invite-code">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {manage ? (
+          <div className="space-y-3 border-t pt-4">
+            <div className="space-y-1">
+              <Label>{isParent ? "Link a student" : "Link a parent"}</Label>
+              <Select value={linkUserId} onValueChange={setLinkUserId}>
+                <SelectTrigger data-testid="select-link-user">
+                  <SelectValue placeholder={isParent ? "Choose a student" : "Choose a parent"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {linkCandidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {displayName(candidate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <RelationshipInput id="admin-link-relationship" value={relationship} onChange={setRelationship} />
+            <Button
+              onClick={() => adminLinkMutation.mutate()}
+              disabled={!linkUserId || adminLinkMutation.isPending}
+              data-testid="button-admin-link"
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              Link
+            </Button>
+          </div>
+        ) : isParent ? (
+          <div className="space-y-3 border-t pt-4">
+            <RelationshipInput id="parent-link-relationship" value={relationship} onChange={setRelationship} />
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="parent-invite-code">Invite code</Label>
+                <Input
+                  id="parent-invite-code"
+                  value={inviteCode}
+                  placeholder="ABCD-EFGH"
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  data-testid="input-invite-code"
+                />
+              </div>
+              <Button
+                onClick={() => redeemMutation.mutate()}
+                disabled={!inviteCode.trim() || redeemMutation.isPending}
+                data-testid="button-redeem-invite-code"
+              >
+                Link Child
+              </Button>
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="parent-link-email">Or request by your child's email</Label>
+                <Input
+                  id="parent-link-email"
+                  type="email"
+                  value={studentEmail}
+                  placeholder="student@example.com"
+                  onChange={(e) => setStudentEmail(e.target.value)}
+                  data-testid="input-link-student-email"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => requestMutation.mutate()}
+                disabled={!studentEmail.trim() || requestMutation.isPending}
+                data-testid="button-request-link"
+              >
+                Send Request
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 border-t pt-4">
+            <RelationshipInput id="student-link-relationship" value={relationship} onChange={setRelationship} />
+            <Button
+              onClick={() => createCodeMutation.mutate()}
+              disabled={createCodeMutation.isPending}
+              data-testid="button-create-invite-code"
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              {createCodeMutation.isPending ? "Creating..." : "Create Invite Code"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { UserCheck, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth, type AuthUser } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ImpersonationSummary } from "@shared/schema";
+
+function ImpersonationBar({ user, impersonation }: { user: AuthUser; impersonation: ImpersonationSummary }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isExiting, setIsExiting] = useState(false);
+
+  // The server ends the impersonation at its time limit; refetch then so the UI follows
+  useEffect(() => {
+    const remaining = new Date(impersonation.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      queryClient.invalidateQueries();
+    }, Math.max(remaining, 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [impersonation.expiresAt]);
+
+  const exit = async () => {
+    setIsExiting(true);
+    try {
+      await apiRequest("POST", "/api/impersonation/stop");
+      queryClient.clear();
+      setLocation("/admin/super-admin");
+    } catch (error: any) {
+      toast({ title: "Could not return to your account", description: error.message, variant: "destructive" });
+    } finally {
+      setIsExiting(false);
+    }
+  };
+
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "this user";
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm font-medium text-amber-950"
+      role="status"
+      data-testid="banner-impersonation"
+    >
+      <div className="flex items-center gap-2">
+        <UserCheck className="h-4 w-4" />
+        <span>
+          {impersonation.impersonatorName} is signed in as {name} ({user.role})
+          {impersonation.allowWrites ? " with changes allowed" : " in read-only mode"}
+          {" "}until {format(new Date(impersonation.expiresAt), "h:mm a")}. Every action is audited.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="secondary"
+        onClick={exit}
+        disabled={isExiting}
+        data-testid="button-exit-impersonation"
+      >
+        <LogOut className="mr-2 h-4 w-4" />
+        {isExiting ? "Returning..." : "Return to My Account"}
+      </Button>
+    </div>
+  );
+}
+
+export function ImpersonationBanner() {
+  const { user } = useAuth();
+  if (!user?.impersonation) return null;
+  return <ImpersonationBar user={user} impersonation={user.impersonation} />;
+}
@@ -16,8 +16,10 @@ import {
   UserCheck,
   LogOut,
   Shield,
+  ShieldCheck,
   MessageSquare,
   AlertTriangle,
+  Tags,
 } from "lucide-react";
 import {
   Sidebar,
@@ -33,14 +35,13 @@ import {
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/hooks/useAuth";
 import { useViewAs } from "@/contexts/view-as-context";
+import { canAccessNavItem, type NavAccess } from "@/lib/navigation";
 import type { UserRole } from "@shared/schema";
 
-interface NavItem {
+interface NavItem extends NavAccess {
   title: string;
   url: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles: UserRole[];
-  superAdminOnly?: boolean;
 }
 
 const navItems: NavItem[] = [
@@ -169,36 +170,49 @@ const navItems: NavItem[] = [
     url: "/manager/wallets",
     icon: Clock,
     roles: ["manager"],
+    permission: "wallets.view",
   },
   {
     title: "User Management",
     url: "/admin/users",
     icon: UserCog,
     roles: ["admin"],
+    permission: "users.manage",
   },
   {
     title: "Hours Wallets",
     url: "/admin/wallets",
     icon: Clock,
     roles: ["admin"],
+    permission: "wallets.view",
   },
   {
     title: "Invoices",
     url: "/admin/invoices",
     icon: FileText,
     roles: ["admin"],
+    permission: "invoices.view",
   },
   {
     title: "Payroll",
     url: "/admin/payroll",
     icon: Wallet,
     roles: ["admin"],
+    permission: "payroll.view",
+  },
+  {
+    title: "Rate Cards",
+    url: "/admin/rates",
+    icon: Tags,
+    roles: ["admin"],
+    permission: "rates.view",
   },
   {
     title: "Staff Approval",
     url: "/admin/staff-approval",
     icon: UserCheck,
     roles: ["admin"],
+    permission: "staff.approve",
   },
   {
     title: "All Courses",
@@ -218,6 +232,12 @@ const navItems: NavItem[] = [
     icon: Settings,
     roles: ["admin"],
   },
+  {
+    title: "Account Security",
+    url: "/settings",
+    icon: ShieldCheck,
+    roles: ["student", "parent", "tutor", "manager", "admin"],
+  },
   {
     title: "Super Admin",
     url: "/admin/super-admin",
@@ -236,18 +256,13 @@ export function AppSidebar() {
 
   const effectiveRole = user?.isSuperAdmin && viewAsRole ? viewAsRole : (user?.role || "student");
 
-  const filteredItems = navItems.filter((item) => {
-    if (item.superAdminOnly) {
-      return user.isSuperAdmin;
-    }
-    return item.roles.includes(effectiveRole as UserRole);
-  });
+  const filteredItems = navItems.filter((item) => canAccessNavItem(item, user, effectiveRole as UserRole));
 
   const mainItems = filteredItems.filter(
-    (item) => !["Settings", "Announcements", "Super Admin"].includes(item.title)
+    (item) => !["Settings", "Account Security", "Announcements", "Super Admin"].includes(item.title)
   );
   const secondaryItems = filteredItems.filter((item) =>
-    ["Settings", "Announcements", "Super Admin"].includes(item.title)
+    ["Settings", "Account Security", "Announcements", "Super Admin"].includes(item.title)
   );
 
   return (
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  MAX_ADMIN_LEVEL,
+  MIN_ADMIN_LEVEL,
+  type Permission,
+  type PermissionMap,
+} from "@shared/permissionPolicy";
+import type { UserRole } from "@shared/schema";
+
+type PermissionSettings = {
+  permissions: Record<Permission, string>;
+  map: PermissionMap;
+  defaults: PermissionMap;
+};
+
+const ROLES: UserRole[] = ["student", "parent", "tutor", "manager", "admin"];
+const LEVELS = Array.from({ length: MAX_ADMIN_LEVEL - MIN_ADMIN_LEVEL + 1 }, (_, i) => MIN_ADMIN_LEVEL + i);
+
+// Edits the role-to-permission map: each column is a grant for a role at or
+// above an admin level, each row a named permission
+export function PermissionEditor() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PermissionMap>([]);
+  const [newRole, setNewRole] = useState<UserRole>("admin");
+  const [newLevel, setNewLevel] = useState(String(MIN_ADMIN_LEVEL));
+
+  const { data, isLoading } = useQuery<PermissionSettings>({
+    queryKey: ["/api/super-admin/permissions"],
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.map);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (map: PermissionMap) => apiRequest("PUT", "/api/super-admin/permissions", { map }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/super-admin/permissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/super-admin/audit-logs"] });
+      toast({ title: "Permissions updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update permissions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const permissionKeys = Object.keys(data.permissions) as Permission[];
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(data.map);
+  const hasNewGrant = draft.some((g) => g.role === newRole && g.minAdminLevel === Number(newLevel));
+
+  const togglePermission = (index: number, permission: Permission, checked: boolean) => {
+    setDraft((grants) =>
+      grants.map((grant, i) => {
+        if (i !== index) return grant;
+        const permissions = checked
+          ? [...grant.permissions, permission]
+          : grant.permissions.filter((p) => p !== permission);
+        return { ...grant, permissions };
+      })
+    );
+  };
+
+  const addGrant = () => {
+    setDraft((grants) => [...grants, { role: newRole, minAdminLevel: Number(newLevel), permissions: [] }]);
+  };
+
+  const removeGrant = (index: number) => {
+    setDraft((grants) => grants.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>Permissions</CardTitle>
+            <CardDescription>
+              Each column grants permissions to a role at or above an admin level. Super Admins always hold
+              every permission. Changes are recorded in the audit log.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDraft(data.defaults)}
+              data-testid="button-permissions-defaults"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Defaults
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(draft)}
+              disabled={!isDirty || saveMutation.isPending}
+              data-testid="button-save-permissions"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={newRole} onValueChange={(value) => setNewRole(value as UserRole)}>
+            <SelectTrigger className="w-36" data-testid="select-grant-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((role) => (
+                <SelectItem key={role} value={role}>{role}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newLevel} onValueChange={setNewLevel}>
+            <SelectTrigger className="w-36" data-testid="select-grant-level">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEVELS.map((level) => (
+                <SelectItem key={level} value={String(level)}>Level {level}+</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={addGrant} disabled={hasNewGrant} data-testid="button-add-grant">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Grant
+          </Button>
+        </div>
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {draft.map((grant, index) => (
+                  <TableHead key={`${grant.role}-${grant.minAdminLevel}`} className="text-center">
+                    <div className="flex items-center justify-center gap-1">
+                      <span className="capitalize">{grant.role}</span>
+                      <span className="text-xs text-muted-foreground">L{grant.minAdminLevel}+</span>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => removeGrant(index)}
+                        data-testid={`button-remove-grant-${grant.role}-${grant.minAdminLevel}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {permissionKeys.map((permission) => (
+                <TableRow key={permission} data-testid={`row-permission-${permission}`}>
+                  <TableCell>
+                    <div className="font-mono text-sm">{permission}</div>
+                    <div className="text-xs text-muted-foreground">{data.permissions[permission]}</div>
+                  </TableCell>
+                  {draft.map((grant, index) => (
+                    <TableCell key={`${grant.role}-${grant.minAdminLevel}`} className="text-center">
+                      <Checkbox
+                        checked={grant.permissions.includes(permission)}
+                        onCheckedChange={(checked) => togglePermission(index, permission, checked === true)}
+                        data-testid={`checkbox-${grant.role}-${grant.minAdminLevel}-${permission}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { addDays, addMinutes, differenceInMinutes, format } from "date-fns";
+import { Plus, Trash2, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionRescheduleRequest } from "@shared/schema";
+import {
+  LATE_CHANGE_NOTICE_MINUTES,
+  MAX_RESCHEDULE_OPTIONS,
+  getRescheduleChargeMinutes,
+  getScheduledMinutes,
+} from "@shared/reschedulePolicy";
+import { fromZonedTime, toZonedTime } from "@shared/timeZonePolicy";
+
+type ReschedulableSession = {
+  id: string;
+  tutorId: string;
+  scheduledStartTime: Date | string;
+  scheduledEndTime: Date | string;
+  scheduledMinutes: number | null;
+};
+
+type OptionForm = { date: string; time: string };
+
+function RescheduleForm({
+  session,
+  counterTo,
+  onClose,
+  onSent,
+}: {
+  session: ReschedulableSession;
+  counterTo?: SessionRescheduleRequest | null;
+  onClose: () => void;
+  onSent?: () => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { timeZone, formatTime } = useTimeZone();
+  const durationMinutes = differenceInMinutes(new Date(session.scheduledEndTime), new Date(session.scheduledStartTime));
+  const nextDay = addDays(toZonedTime(session.scheduledStartTime, timeZone), 1);
+  const [options, setOptions] = useState<OptionForm[]>([
+    { date: format(nextDay, "yyyy-MM-dd"), time: format(nextDay, "HH:mm") },
+  ]);
+  const [message, setMessage] = useState("");
+
+  // Counters keep the charge fixed when the first request was made
+  const lateChargeMinutes = counterTo
+    ? counterTo.lateChargeMinutes
+    : getRescheduleChargeMinutes(getScheduledMinutes(session), session.scheduledStartTime, new Date(), user?.id === session.tutorId);
+
+  // Each option is a wall-clock start in the viewer's zone; the session keeps its length
+  const toProposedTime = (option: OptionForm) => {
+    const startTime = fromZonedTime(new Date(`${option.date}T${option.time}`), timeZone);
+    return { startTime, endTime: addMinutes(startTime, durationMinutes) };
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const proposedTimes = options.map(toProposedTime);
+      return counterTo
+        ? apiRequest("POST", `/api/reschedule-requests/${counterTo.id}/counter`, { proposedTimes, message: message || undefined })
+        : apiRequest("POST", `/api/tutoring-sessions/${session.id}/reschedule-requests`, { proposedTimes, reason: message || undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reschedule-requests"] });
+      toast({
+        title: counterTo ? "Counter-proposal sent" : "Reschedule requested",
+        description: "The other participant has been notified.",
+      });
+      onSent?.();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateOption = (index: number, updates: Partial<OptionForm>) =>
+    setOptions((current) => current.map((option, i) => (i === index ? { ...option, ...updates } : option)));
+
+  const isComplete = options.every((option) => option.date && option.time);
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{counterTo ? "Suggest Other Times" : "Reschedule Session"}</DialogTitle>
+        <DialogDescription>
+          Currently {formatTime(session.scheduledStartTime, "EEE, MMM d 'at' h:mm a")}. Offer up to{" "}
+          {MAX_RESCHEDULE_OPTIONS} new times ({durationMinutes} minutes each); the other participant picks one.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4 py-2">
+        {options.map((option, index) => (
+          <div key={index} className="flex items-end gap-2" data-testid={`reschedule-option-${index}`}>
+            <div className="grid flex-1 gap-1">
+              <Label htmlFor={`reschedule-date-${index}`}>Option {index + 1}</Label>
+              <Input
+                id={`reschedule-date-${index}`}
+                type="date"
+                value={option.date}
+                onChange={(e) => updateOption(index, { date: e.target.value })}
+                data-testid={`input-reschedule-date-${index}`}
+              />
+            </div>
+            <Input
+              type="time"
+              step={900}
+              className="w-32"
+              value={option.time}
+              onChange={(e) => updateOption(index, { time: e.target.value })}
+              data-testid={`input-reschedule-time-${index}`}
+            />
+            {options.length > 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setOptions((current) => current.filter((_, i) => i !== index))}
+                data-testid={`button-remove-reschedule-option-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {options.length < MAX_RESCHEDULE_OPTIONS && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOptions((current) => [...current, { ...current[current.length - 1] }])}
+            data-testid="button-add-reschedule-option"
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add another time
+          </Button>
+        )}
+        <div className="grid gap-1">
+          <Label htmlFor="reschedule-message">{counterTo ? "Message (optional)" : "Reason (optional)"}</Label>
+          <Textarea
+            id="reschedule-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            data-testid="input-reschedule-message"
+          />
+        </div>
+        {lateChargeMinutes > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-500/50 p-3 text-sm" data-testid="text-late-change-warning">
+            <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+            <span>
+              This change was asked for less than {LATE_CHANGE_NOTICE_MINUTES / 60} hours before the session, so{" "}
+              {lateChargeMinutes} minutes will be charged to the student's wallet if it is accepted.
+            </span>
+          </div>
+        )}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} data-testid="button-cancel-reschedule">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => submitMutation.mutate()}
+          disabled={!isComplete || submitMutation.isPending}
+          data-testid="button-submit-reschedule"
+        >
+          {submitMutation.isPending ? "Sending..." : counterTo ? "Send Counter-Proposal" : "Send Request"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+// Proposes new times for a 1:1 session, or counter-proposes against a request
+export function RescheduleDialog({
+  session,
+  counterTo,
+  onClose,
+  onSent,
+}: {
+  session: ReschedulableSession | null;
+  counterTo?: SessionRescheduleRequest | null;
+  onClose: () => void;
+  onSent?: () => void;
+}) {
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        {session && <RescheduleForm session={session} counterTo={counterTo} onClose={onClose} onSent={onSent} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RescheduleDialog } from "@/components/reschedule-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionRescheduleRequestWithDetails } from "@shared/schema";
+import type { RescheduleOption } from "@shared/reschedulePolicy";
+
+const REQUESTS_KEY = ["/api/reschedule-requests"];
+
+type ResponseAction =
+  | { requestId: string; action: "accept"; optionIndex: number }
+  | { requestId: string; action: "decline" | "withdraw" };
+
+// Pending reschedule requests: incoming ones can be accepted, countered or
+// declined; the user's own can be withdrawn. Hidden when there are none.
+export function RescheduleRequestsCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { formatTime } = useTimeZone();
+  const [counterTo, setCounterTo] = useState<SessionRescheduleRequestWithDetails | null>(null);
+
+  const { data: requests } = useQuery<SessionRescheduleRequestWithDetails[]>({
+    queryKey: REQUESTS_KEY,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (response: ResponseAction) =>
+      apiRequest(
+        "POST",
+        `/api/reschedule-requests/${response.requestId}/${response.action}`,
+        response.action === "accept" ? { optionIndex: response.optionIndex } : {},
+      ),
+    onSuccess: (_, response) => {
+      queryClient.invalidateQueries({ queryKey: REQUESTS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
+      const titles = { accept: "Session rescheduled", decline: "Request declined", withdraw: "Request withdrawn" };
+      toast({ title: titles[response.action] });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: REQUESTS_KEY });
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!requests || requests.length === 0) return null;
+
+  return (
+    <Card data-testid="card-reschedule-requests">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5" />
+          Reschedule Requests
+        </CardTitle>
+        <CardDescription>Times are shown in your time zone.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => {
+          const incoming = request.recipientId === user?.id;
+          const options = request.proposedTimes as RescheduleOption[];
+          return (
+            <div key={request.id} className="space-y-2 rounded-md border p-3" data-testid={`reschedule-request-${request.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">{request.session.course?.title}</p>
+                <Badge variant="outline">{incoming ? "Needs your answer" : "Awaiting reply"}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {incoming ? `${request.requestedBy.firstName} ${request.requestedBy.lastName} wants to move` : "You asked to move"}{" "}
+                {formatTime(request.session.scheduledStartTime, "EEE, MMM d 'at' h:mm a")}
+                {request.counterOfId && " (counter-proposal)"}
+              </p>
+              {request.reason && <p className="text-xs italic text-muted-foreground">"{request.reason}"</p>}
+              {request.lateChargeMinutes > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  Late change: {request.lateChargeMinutes} minutes will be charged to the student if accepted.
+                </p>
+              )}
+              <div className="space-y-1">
+                {options.map((option, index) => (
+                  <div key={option.startTime} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {formatTime(option.startTime, "EEE, MMM d, h:mm a")} - {formatTime(option.endTime, "h:mm a")}
+                    </span>
+                    {incoming && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={respondMutation.isPending}
+                        onClick={() => respondMutation.mutate({ requestId: request.id, action: "accept", optionIndex: index })}
+                        data-testid={`button-accept-reschedule-${request.id}-${index}`}
+                      >
+                        Accept
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 pt-1">
+                {incoming ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={respondMutation.isPending}
+                      onClick={() => setCounterTo(request)}
+                      data-testid={`button-counter-reschedule-${request.id}`}
+                    >
+                      Suggest Other Times
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={respondMutation.isPending}
+                      onClick={() => respondMutation.mutate({ requestId: request.id, action: "decline" })}
+                      data-testid={`button-decline-reschedule-${request.id}`}
+                    >
+                      Decline
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ requestId: request.id, action: "withdraw" })}
+                    data-testid={`button-withdraw-reschedule-${request.id}`}
+                  >
+                    Withdraw
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+      <RescheduleDialog session={counterTo?.session ?? null} counterTo={counterTo} onClose={() => setCounterTo(null)} />
+    </Card>
+  );
+}
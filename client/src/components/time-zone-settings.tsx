@@ -0,0 +1,85 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Globe } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatSessionTime, listTimeZones } from "@shared/timeZonePolicy";
+
+// The zone used for every session time, availability slot and notification the user sees
+export function TimeZoneSettings() {
+  const { toast } = useToast();
+  const { timeZone } = useTimeZone();
+  const [selected, setSelected] = useState<string | null>(null);
+  const zones = useMemo(() => listTimeZones(), []);
+  const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const value = selected ?? timeZone;
+
+  const saveMutation = useMutation({
+    mutationFn: async (zone: string) => apiRequest("PATCH", "/api/auth/user/time-zone", { timeZone: zone }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setSelected(null);
+      toast({ title: "Time zone updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Time Zone
+        </CardTitle>
+        <CardDescription>
+          Session times, availability and notifications are shown in this zone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          <Label>Your time zone</Label>
+          <Select value={value} onValueChange={setSelected}>
+            <SelectTrigger data-testid="select-time-zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {zones.map((zone) => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground" data-testid="text-time-zone-now">
+            Now: {formatSessionTime(new Date(), value)}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => saveMutation.mutate(value)}
+            disabled={value === timeZone || saveMutation.isPending}
+            data-testid="button-save-time-zone"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+          {deviceZone && deviceZone !== value && (
+            <Button variant="outline" onClick={() => setSelected(deviceZone)} data-testid="button-use-device-time-zone">
+              Use this device's zone ({deviceZone})
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ShieldCheck, ShieldAlert, KeyRound, Copy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type TwoFactorStatus = {
+  available: boolean;
+  required: boolean;
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="recovery-codes">
+      <p className="text-sm text-muted-foreground">
+        Store these recovery codes somewhere safe. Each one signs you in once if you lose access to your
+        authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} data-testid={`text-recovery-code-${code}`}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={copyCodes} data-testid="button-copy-recovery-codes">
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button onClick={onDone} data-testid="button-recovery-codes-done">
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings({ onEnabled }: { onEnabled?: () => void }) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa/status"],
+  });
+
+  const refreshStatus = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start setup", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshStatus();
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not enable two-factor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/2fa/disable", { code }),
+    onSuccess: () => {
+      setCode("");
+      refreshStatus();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not disable two-factor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshStatus();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not regenerate codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const finishRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    onEnabled?.();
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (!status?.available) {
+    return null;
+  }
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-code">Authentication code</Label>
+      <Input
+        id="two-factor-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className="max-w-xs"
+        data-testid="input-two-factor-code"
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+            {status.enabled ? (
+              <ShieldCheck className="h-5 w-5 text-primary" />
+            ) : (
+              <ShieldAlert className="h-5 w-5 text-primary" />
+            )}
+          </div>
+          <div className="flex-1">
+            <CardTitle className="font-heading text-xl">Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {status.required
+                ? "Required for your account. Sign-ins need a code from your authenticator app."
+                : "Add a code from an authenticator app to your staff sign-in."}
+            </CardDescription>
+          </div>
+          <Badge variant={status.enabled ? "default" : "secondary"} data-testid="badge-two-factor-status">
+            {status.enabled ? "On" : "Off"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <RecoveryCodeList codes={recoveryCodes} onDone={finishRecoveryCodes} />
+        ) : setup ? (
+          <div className="space-y-4" data-testid="two-factor-setup">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with Google Authenticator, Microsoft Authenticator or a similar app, then
+              enter the six-digit code it shows.
+            </p>
+            <img
+              src={setup.qrCodeDataUrl}
+              alt="Two-factor QR code"
+              className="h-48 w-48 rounded-md border bg-white p-2"
+              data-testid="img-two-factor-qr"
+            />
+            <p className="text-xs text-muted-foreground">
+              Can't scan it? Enter this key instead:{" "}
+              <span className="font-mono text-foreground" data-testid="text-two-factor-secret">{setup.secret}</span>
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={enableMutation.isPending || code.trim().length === 0}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Verify and Enable"}
+              </Button>
+              <Button variant="ghost" onClick={() => setSetup(null)} data-testid="button-cancel-two-factor">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-remaining">
+              <KeyRound className="mr-1 inline h-4 w-4" />
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} remaining
+            </p>
+            {codeInput}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending || code.trim().length === 0}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={disableMutation.isPending || code.trim().length === 0}
+                  data-testid="button-disable-two-factor"
+                >
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            data-testid="button-setup-two-factor"
+          >
+            {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
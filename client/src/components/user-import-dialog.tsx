@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, FileUp, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  USER_IMPORT_COLUMNS,
+  buildImportReportCsv,
+  type UserImportRowResult,
+} from "@shared/userImportPolicy";
+
+type ImportSummary = {
+  created: number;
+  matched: number;
+  linksCreated: number;
+  enrollmentsCreated: number;
+  invitationsSent: number;
+};
+
+type ImportResponse = { rows: UserImportRowResult[]; summary?: ImportSummary; message?: string };
+
+const TEMPLATE_ROWS = [
+  USER_IMPORT_COLUMNS.join(","),
+  "parent@example.com,Pat,Example,parent,+15551234567,,,",
+  "student@example.com,Sam,Example,student,,parent@example.com,Mother,Mathematics;Physics",
+];
+
+function downloadCsv(fileName: string, csv: string) {
+  const url = window.URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+// Row-level errors come back with a 400, so the rows are read whatever the status
+async function postImportFile(url: string, file: File): Promise<ImportResponse> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+    body: file,
+    credentials: "include",
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok && !body.rows?.length) {
+    throw new Error(body.message || `${res.status}: ${res.statusText}`);
+  }
+  return body;
+}
+
+export function UserImportDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setResult(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (selected: File) => postImportFile("/api/users/import/preview", selected),
+    onSuccess: setResult,
+    onError: (error: Error) => {
+      toast({ title: "Could not read file", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (selected: File) => postImportFile("/api/users/import", selected),
+    onSuccess: (response) => {
+      setResult(response);
+      if (response.summary) {
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+        toast({
+          title: "Import complete",
+          description: `${response.summary.created} created, ${response.summary.matched} matched`,
+        });
+      } else {
+        toast({ title: "Nothing was imported", description: response.message, variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rows = result?.rows ?? [];
+  const errorCount = rows.filter((row) => row.errors.length > 0).length;
+  const summary = result?.summary;
+  const canImport = !!file && rows.length > 0 && errorCount === 0 && !summary;
+
+  const selectFile = (selected: File | undefined) => {
+    setResult(null);
+    setFile(selected ?? null);
+    if (selected) previewMutation.mutate(selected);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-users">
+          <Upload className="mr-2 h-4 w-4" />
+          Import Users
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="font-heading">Import Users</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one user per row. Existing users are matched by email; new accounts
+            get an invitation email. Nothing is imported unless every row is valid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+            data-testid="input-import-file"
+          />
+          <Button
+            variant="ghost"
+            onClick={() => downloadCsv("user-import-template.csv", TEMPLATE_ROWS.join("\r\n"))}
+            data-testid="button-import-template"
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Template
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Roles: student or parent (blank means student). Separate several parent emails or courses with
+          semicolons; courses can be given by title or ID.
+        </p>
+
+        {previewMutation.isPending && <p className="text-sm text-muted-foreground">Checking file...</p>}
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-import-status">
+              {summary ? (
+                <span>
+                  Imported: {summary.created} created, {summary.matched} matched, {summary.linksCreated} parent
+                  links, {summary.enrollmentsCreated} enrollments, {summary.invitationsSent} invitations sent.
+                </span>
+              ) : errorCount > 0 ? (
+                <span className="text-destructive">
+                  {errorCount} of {rows.length} rows have errors. Fix them and upload the file again.
+                </span>
+              ) : (
+                <span>All {rows.length} rows are valid.</span>
+              )}
+            </div>
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Parents</TableHead>
+                    <TableHead>Courses</TableHead>
+                    <TableHead>Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.rowNumber} data-testid={`row-import-${row.rowNumber}`}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.email}</TableCell>
+                      <TableCell className="capitalize">{row.role}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <Badge variant="destructive">Error</Badge>
+                        ) : row.action === "match" ? (
+                          <Badge variant="secondary">{summary ? "Matched" : "Match"}</Badge>
+                        ) : (
+                          <Badge>{summary ? "Created" : "Create"}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.parentEmails.length}</TableCell>
+                      <TableCell>{row.courseIds.length}</TableCell>
+                      <TableCell className="text-xs text-destructive">{row.errors.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          {rows.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => downloadCsv("user-import-report.csv", buildImportReportCsv(rows))}
+              data-testid="button-download-import-report"
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download Report
+            </Button>
+          )}
+          <Button
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!canImport || importMutation.isPending}
+            data-testid="button-run-import"
+          >
+            {importMutation.isPending ? "Importing..." : rows.length > 0 ? `Import ${rows.length} Users` : "Import Users"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,19 @@
 import { useQuery } from "@tanstack/react-query";
 import { getQueryFn } from "@/lib/queryClient";
-import type { User } from "@shared/schema";
+import type { ImpersonationSummary, User } from "@shared/schema";
+import type { Permission } from "@shared/permissionPolicy";
+
+// The server flags sessions that must enrol in two-factor authentication before going further,
+// resolves the user's named permissions from the current permission map, and describes any
+// super-admin impersonation in progress
+export type AuthUser = User & {
+  twoFactorSetupRequired?: boolean;
+  permissions?: Permission[];
+  impersonation?: ImpersonationSummary | null;
+};
 
 export function useAuth() {
-  const { data: user, isLoading, error } = useQuery<User | null>({
+  const { data: user, isLoading, error } = useQuery<AuthUser | null>({
     queryKey: ["/api/auth/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
     retry: false,
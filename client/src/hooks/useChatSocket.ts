@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CHAT_SOCKET_PATH } from "@shared/messagingPolicy";
+
+export type ChatSocketReceipt = {
+  id: string;
+  messageId: string;
+  userId: string;
+  deliveredAt: string | null;
+  readAt: string | null;
+};
+
+export type ChatSocketServerEvent =
+  | {
+      type: "message";
+      message: { id: string; threadId: string; senderId: string; content: string; createdAt: string };
+    }
+  | { type: "typing"; threadId: string; userId: string }
+  | { type: "receipt"; threadId: string; receipts: ChatSocketReceipt[] };
+
+export type ChatSocketClientEvent =
+  | { type: "typing"; threadId: string }
+  | { type: "read"; threadId: string }
+  | { type: "delivered"; threadId: string; messageIds: string[] };
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Keeps a chat WebSocket open while the page is mounted, reconnecting with backoff
+export function useChatSocket(onEvent: (event: ChatSocketServerEvent) => void) {
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    let closedByUs = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}${CHAT_SOCKET_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setIsConnected(true);
+      };
+      socket.onmessage = (message) => {
+        try {
+          onEventRef.current(JSON.parse(message.data));
+        } catch {
+          // Ignore malformed frames
+        }
+      };
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (closedByUs) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      closedByUs = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, []);
+
+  const send = useCallback((event: ChatSocketClientEvent) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(event));
+    return true;
+  }, []);
+
+  return { isConnected, send };
+}
@@ -0,0 +1,12 @@
+import { useAuth } from "@/hooks/useAuth";
+import { formatInTimeZone, resolveTimeZone } from "@shared/timeZonePolicy";
+
+// Times are shown in the signed-in user's preferred zone, not the browser's
+export function useTimeZone() {
+  const { user } = useAuth();
+  const timeZone = resolveTimeZone(user?.timeZone);
+  return {
+    timeZone,
+    formatTime: (date: Date | string, pattern: string) => formatInTimeZone(date, timeZone, pattern),
+  };
+}
@@ -1,3 +1,26 @@
+import type { UserRole } from "@shared/schema";
+import type { Permission } from "@shared/permissionPolicy";
+
+type PermissionHolder = { isSuperAdmin: boolean; permissions?: Permission[] };
+
+// Mirrors requirePermission on the server; the permission list comes from /api/auth/user
+export function userCan(user: PermissionHolder | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return user.isSuperAdmin || (user.permissions ?? []).includes(permission);
+}
+
+export type NavAccess = {
+  roles: UserRole[];
+  permission?: Permission;
+  superAdminOnly?: boolean;
+};
+
+export function canAccessNavItem(item: NavAccess, user: PermissionHolder, effectiveRole: UserRole): boolean {
+  if (item.superAdminOnly) return user.isSuperAdmin;
+  if (!item.roles.includes(effectiveRole)) return false;
+  return !item.permission || userCan(user, item.permission);
+}
+
 export function normalizeAppPath(target?: string | null): string | null {
   if (!target) return null;
 
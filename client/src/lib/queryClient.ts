@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { UploadPurpose } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,6 +24,34 @@ export async function apiRequest(
   return res;
 }
 
+export type UploadedFile = {
+  id: string;
+  url: string;
+  purpose: string;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+};
+
+// Sends the file bytes as the request body; the returned url goes into the record's file field
+export async function uploadFile(
+  file: File,
+  purpose: UploadPurpose,
+): Promise<UploadedFile> {
+  const res = await fetch(`/api/uploads?purpose=${purpose}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,7 +1,7 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { FileText, Search, Download, Eye, Check, X, Clock, AlertCircle, DollarSign, MoreHorizontal } from "lucide-react";
+import { FileText, Search, Download, Eye, Check, X, Clock, AlertCircle, DollarSign, MoreHorizontal, PlayCircle } from "lucide-react";
 import { useState } from "react";
-import { format } from "date-fns";
+import { format, subMonths } from "date-fns";
 import { EmptyState } from "@/components/empty-state";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -44,8 +44,40 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { userCan } from "@/lib/navigation";
 import type { InvoiceWithDetails, InvoicePayment } from "@shared/schema";
 
+interface BillingRunLine {
+  courseId: string;
+  courseTitle: string;
+  description: string;
+  usedMinutes: number;
+  walletBalanceMinutes: number;
+  minutesToAdd: number;
+  hours: string;
+  hourlyRate: string;
+  discountPercent: number;
+  amount: string;
+}
+
+interface BillingRunResult {
+  period: { label: string; start: string; end: string };
+  dryRun: boolean;
+  invoices: {
+    parentId: string;
+    parentName: string;
+    studentId: string;
+    studentName: string;
+    currency: string;
+    subtotal: string;
+    lines: BillingRunLine[];
+    invoiceNumber?: string;
+  }[];
+  skippedDuplicates: { studentId: string; studentName: string; invoiceId: string; invoiceNumber: string }[];
+  skipped: { studentId: string; studentName: string; reason: string }[];
+}
+
 type InvoiceStatus = "draft" | "awaiting_payment" | "partial" | "paid" | "overdue" | "disputed" | "cancelled";
 type PaymentVerificationStatus = "pending" | "verified" | "rejected";
 
@@ -474,12 +506,194 @@ function InvoiceDetailDialog({
   );
 }
 
+function BillingRunDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [currency, setCurrency] = useState("ZAR");
+  const [result, setResult] = useState<BillingRunResult | null>(null);
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await apiRequest("POST", "/api/invoices/billing-run", {
+        period,
+        currency,
+        dryRun,
+      });
+      return (await res.json()) as BillingRunResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+        toast({
+          title: "Billing run complete",
+          description: `${data.invoices.length} draft invoices created.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run billing.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setResult(null);
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Monthly Billing Run</DialogTitle>
+          <DialogDescription>
+            Preview draft invoices for each child from completed and missed sessions and wallet top-ups,
+            priced from the rate cards. Children already invoiced for the period are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="billing-period">Billing month</Label>
+            <Input
+              id="billing-period"
+              type="month"
+              value={period}
+              onChange={(e) => {
+                setPeriod(e.target.value);
+                setResult(null);
+              }}
+              data-testid="input-billing-period"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="billing-currency">Currency</Label>
+            <Select
+              value={currency}
+              onValueChange={(value) => {
+                setCurrency(value);
+                setResult(null);
+              }}
+            >
+              <SelectTrigger id="billing-currency" data-testid="select-billing-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ZAR">ZAR</SelectItem>
+                <SelectItem value="USD">USD</SelectItem>
+                <SelectItem value="GBP">GBP</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {result && (
+          <div className="max-h-80 space-y-4 overflow-y-auto" data-testid="billing-run-result">
+            {result.invoices.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Parent / Student</TableHead>
+                    <TableHead>Lines</TableHead>
+                    <TableHead className="text-right">Subtotal</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.invoices.map((invoice) => (
+                    <TableRow key={invoice.studentId} data-testid={`billing-row-${invoice.studentId}`}>
+                      <TableCell>
+                        <p className="font-medium">{invoice.parentName}</p>
+                        <p className="text-sm text-muted-foreground">{invoice.studentName}</p>
+                        {invoice.invoiceNumber && (
+                          <Badge variant="outline" className="mt-1">{invoice.invoiceNumber}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {invoice.lines.map((line) => (
+                          <p key={line.courseId} className="text-sm">
+                            {line.courseTitle}: {line.hours}h @ {formatCurrency(line.hourlyRate, invoice.currency)}
+                            {line.discountPercent > 0 && ` (${line.discountPercent}% off)`}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(invoice.subtotal, invoice.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">No invoices to generate for this period.</p>
+            )}
+
+            {result.skippedDuplicates.length > 0 && (
+              <div>
+                <p className="mb-1 text-sm font-medium">Already invoiced ({result.skippedDuplicates.length})</p>
+                {result.skippedDuplicates.map((dup) => (
+                  <p key={dup.studentId} className="text-sm text-muted-foreground">
+                    {dup.studentName} - {dup.invoiceNumber}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {result.skipped.length > 0 && (
+              <div>
+                <p className="mb-1 text-sm font-medium">Not billed ({result.skipped.length})</p>
+                {result.skipped.map((item, index) => (
+                  <p key={`${item.studentId}-${index}`} className="text-sm text-muted-foreground">
+                    {item.studentName} - {item.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => runMutation.mutate(true)}
+            disabled={runMutation.isPending}
+            data-testid="button-preview-billing"
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          <Button
+            onClick={() => runMutation.mutate(false)}
+            disabled={runMutation.isPending || !result?.dryRun || result.invoices.length === 0}
+            data-testid="button-commit-billing"
+          >
+            <PlayCircle className="mr-2 h-4 w-4" />
+            Create Draft Invoices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function AdminInvoices() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedInvoice, setSelectedInvoice] = useState<InvoiceWithDetails | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
+  const [billingRunOpen, setBillingRunOpen] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isFinance = userCan(user, "invoices.write");
 
   const { data: invoices, isLoading } = useQuery<InvoiceWithDetails[]>({
     queryKey: ["/api/invoices"],
@@ -516,15 +730,25 @@ export default function AdminInvoices() {
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-6 md:px-8 md:py-8">
-      <div className="mb-8">
-        <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
-          Invoice Management
-        </h1>
-        <p className="mt-1 text-muted-foreground">
-          Manage invoices and verify payments
-        </p>
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
+            Invoice Management
+          </h1>
+          <p className="mt-1 text-muted-foreground">
+            Manage invoices and verify payments
+          </p>
+        </div>
+        {isFinance && (
+          <Button onClick={() => setBillingRunOpen(true)} data-testid="button-billing-run">
+            <PlayCircle className="mr-2 h-4 w-4" />
+            Billing Run
+          </Button>
+        )}
       </div>
 
+      <BillingRunDialog open={billingRunOpen} onOpenChange={setBillingRunOpen} />
+
       <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardContent className="pt-6">
@@ -1,7 +1,7 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Wallet, Search, Download, Eye, Check, Clock, AlertTriangle, MoreHorizontal, Users } from "lucide-react";
+import { Wallet, Search, Download, Eye, Check, Clock, AlertTriangle, MoreHorizontal, Users, PlayCircle } from "lucide-react";
 import { useState } from "react";
-import { format } from "date-fns";
+import { format, subMonths } from "date-fns";
 import { EmptyState } from "@/components/empty-state";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -42,11 +42,31 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { userCan } from "@/lib/navigation";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { PayoutWithDetails } from "@shared/schema";
 
 type PayoutStatus = "draft" | "approved" | "paid" | "on_hold";
 
+interface PayrollRunResult {
+  period: { label: string; start: string; end: string };
+  dryRun: boolean;
+  payouts: {
+    tutorId: string;
+    tutorName: string;
+    currency: string;
+    totalMinutes: number;
+    grossAmount: string;
+    lines: { sessionId: string; courseTitle: string; studentName: string; minutes: number; amount: string }[];
+    payoutId?: string;
+    addedToExisting?: boolean;
+    flagsCreated?: number;
+  }[];
+  alreadyPaidSessions: number;
+  skipped: { tutorId: string; tutorName: string; sessionId: string; reason: string }[];
+}
+
 function formatCurrency(amount: string | number, currency: string = "ZAR"): string {
   const num = typeof amount === "string" ? parseFloat(amount) : amount;
   return new Intl.NumberFormat("en-ZA", {
@@ -341,12 +361,184 @@ function PayoutDetailDialog({
   );
 }
 
+function PayrollRunDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [currency, setCurrency] = useState("ZAR");
+  const [result, setResult] = useState<PayrollRunResult | null>(null);
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await apiRequest("POST", "/api/payouts/payroll-run", { period, currency, dryRun });
+      return (await res.json()) as PayrollRunResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/payouts"] });
+        toast({
+          title: "Payroll run complete",
+          description: `${data.payouts.length} draft payouts created or updated.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run payroll.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setResult(null);
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Payroll Run</DialogTitle>
+          <DialogDescription>
+            Preview a draft payout for each tutor from completed and missed sessions, priced from the tutor pay rates.
+            Sessions already on a payout are never included again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="payroll-period">Payroll month</Label>
+            <Input
+              id="payroll-period"
+              type="month"
+              value={period}
+              onChange={(e) => {
+                setPeriod(e.target.value);
+                setResult(null);
+              }}
+              data-testid="input-payroll-period"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="payroll-currency">Currency</Label>
+            <Select
+              value={currency}
+              onValueChange={(value) => {
+                setCurrency(value);
+                setResult(null);
+              }}
+            >
+              <SelectTrigger id="payroll-currency" data-testid="select-payroll-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ZAR">ZAR</SelectItem>
+                <SelectItem value="USD">USD</SelectItem>
+                <SelectItem value="GBP">GBP</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {result && (
+          <div className="max-h-80 space-y-4 overflow-y-auto" data-testid="payroll-run-result">
+            {result.payouts.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tutor</TableHead>
+                    <TableHead className="text-right">Sessions</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.payouts.map((payout) => (
+                    <TableRow key={payout.tutorId} data-testid={`payroll-row-${payout.tutorId}`}>
+                      <TableCell>
+                        <p className="font-medium">{payout.tutorName}</p>
+                        {payout.addedToExisting && (
+                          <Badge variant="outline" className="mt-1">Added to existing draft</Badge>
+                        )}
+                        {!!payout.flagsCreated && (
+                          <Badge variant="destructive" className="ml-1 mt-1">
+                            {payout.flagsCreated} flag{payout.flagsCreated > 1 ? "s" : ""}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{payout.lines.length}</TableCell>
+                      <TableCell className="text-right">{formatMinutes(payout.totalMinutes)}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(payout.grossAmount, payout.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">No sessions to pay out for this period.</p>
+            )}
+
+            {result.alreadyPaidSessions > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {result.alreadyPaidSessions} session{result.alreadyPaidSessions > 1 ? "s are" : " is"} already on a payout.
+              </p>
+            )}
+
+            {result.skipped.length > 0 && (
+              <div>
+                <p className="mb-1 text-sm font-medium">Not paid ({result.skipped.length})</p>
+                {result.skipped.map((item) => (
+                  <p key={item.sessionId} className="text-sm text-muted-foreground">
+                    {item.tutorName} - {item.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => runMutation.mutate(true)}
+            disabled={runMutation.isPending}
+            data-testid="button-preview-payroll"
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          <Button
+            onClick={() => runMutation.mutate(false)}
+            disabled={runMutation.isPending || !result?.dryRun || result.payouts.length === 0}
+            data-testid="button-commit-payroll"
+          >
+            <PlayCircle className="mr-2 h-4 w-4" />
+            Create Draft Payouts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function AdminPayroll() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedPayout, setSelectedPayout] = useState<PayoutWithDetails | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
+  const [payrollRunOpen, setPayrollRunOpen] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isFinance = userCan(user, "payroll.approve");
 
   const { data: payouts, isLoading } = useQuery<PayoutWithDetails[]>({
     queryKey: ["/api/payouts"],
@@ -398,15 +590,25 @@ export default function AdminPayroll() {
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-6 md:px-8 md:py-8">
-      <div className="mb-8">
-        <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
-          Payroll Management
-        </h1>
-        <p className="mt-1 text-muted-foreground">
-          Manage tutor payouts and approve payslips
-        </p>
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
+            Payroll Management
+          </h1>
+          <p className="mt-1 text-muted-foreground">
+            Manage tutor payouts and approve payslips
+          </p>
+        </div>
+        {isFinance && (
+          <Button onClick={() => setPayrollRunOpen(true)} data-testid="button-payroll-run">
+            <PlayCircle className="mr-2 h-4 w-4" />
+            Payroll Run
+          </Button>
+        )}
       </div>
 
+      <PayrollRunDialog open={payrollRunOpen} onOpenChange={setPayrollRunOpen} />
+
       <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardContent className="pt-6">
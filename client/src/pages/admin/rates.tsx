@@ -0,0 +1,478 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Tags } from "lucide-react";
+import { useState } from "react";
+import { format } from "date-fns";
+import { EmptyState } from "@/components/empty-state";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { userCan } from "@/lib/navigation";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { findEffectiveEntry } from "@shared/ratePolicy";
+import type {
+  Course,
+  CourseRateWithCourse,
+  StudentRateDiscountWithDetails,
+  TutorPayRateWithDetails,
+  User,
+} from "@shared/schema";
+
+type RateKind = "course-rates" | "tutor-pay-rates" | "student-discounts";
+
+const ALL_COURSES = "all";
+
+function formatCurrency(amount: string | number, currency: string = "ZAR"): string {
+  const num = typeof amount === "string" ? parseFloat(amount) : amount;
+  return new Intl.NumberFormat("en-ZA", {
+    style: "currency",
+    currency,
+  }).format(num);
+}
+
+function userName(user: User | null | undefined): string {
+  if (!user) return "Unknown";
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Unknown";
+}
+
+// Entries sharing a scope key form one history; the one in effect today is "Current"
+function getRateStatus<T extends { id: string; effectiveFrom: Date | string }>(
+  entry: T,
+  entries: T[],
+  scopeKey: (e: T) => string,
+): { label: string; variant: "default" | "secondary" | "outline" } {
+  const now = new Date();
+  if (new Date(entry.effectiveFrom) > now) {
+    return { label: "Scheduled", variant: "secondary" };
+  }
+  const current = findEffectiveEntry(entries.filter((e) => scopeKey(e) === scopeKey(entry)), now);
+  return current?.id === entry.id
+    ? { label: "Current", variant: "default" }
+    : { label: "Superseded", variant: "outline" };
+}
+
+function RateStatusBadge({ status }: { status: { label: string; variant: "default" | "secondary" | "outline" } }) {
+  return <Badge variant={status.variant}>{status.label}</Badge>;
+}
+
+function AddRateDialog({
+  kind,
+  open,
+  onOpenChange,
+}: {
+  kind: RateKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [personId, setPersonId] = useState("");
+  const [courseId, setCourseId] = useState(kind === "course-rates" ? "" : ALL_COURSES);
+  const [currency, setCurrency] = useState("ZAR");
+  const [value, setValue] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reason, setReason] = useState("");
+
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    enabled: open,
+  });
+
+  const personRole = kind === "tutor-pay-rates" ? "tutor" : "student";
+  const { data: people } = useQuery<User[]>({
+    queryKey: ["/api/users/role", personRole],
+    enabled: open && kind !== "course-rates",
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const scopedCourseId = courseId === ALL_COURSES ? null : courseId;
+      const effective = new Date(`${effectiveFrom}T00:00:00`).toISOString();
+      const body =
+        kind === "course-rates"
+          ? { courseId, currency, hourlyRate: parseFloat(value), effectiveFrom: effective }
+          : kind === "tutor-pay-rates"
+            ? { tutorId: personId, courseId: scopedCourseId, currency, hourlyRate: parseFloat(value), effectiveFrom: effective }
+            : {
+                studentId: personId,
+                courseId: scopedCourseId,
+                discountPercent: parseFloat(value),
+                effectiveFrom: effective,
+                reason: reason || undefined,
+              };
+      return apiRequest("POST", `/api/rate-cards/${kind}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rate-cards", kind] });
+      toast({ title: "Rate saved", description: "The new entry has been added to the rate history." });
+      setValue("");
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save rate.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const title =
+    kind === "course-rates" ? "Add Course Rate" : kind === "tutor-pay-rates" ? "Add Tutor Pay Rate" : "Add Student Discount";
+  const canSubmit =
+    !!value &&
+    !!effectiveFrom &&
+    !!courseId &&
+    (kind === "course-rates" || !!personId) &&
+    !createMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Existing entries are kept. The new entry applies to sessions on or after its effective date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          {kind !== "course-rates" && (
+            <div className="grid gap-2">
+              <Label>{kind === "tutor-pay-rates" ? "Tutor" : "Student"}</Label>
+              <Select value={personId} onValueChange={setPersonId}>
+                <SelectTrigger data-testid="select-rate-person">
+                  <SelectValue placeholder={`Select ${personRole}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {people?.map((person) => (
+                    <SelectItem key={person.id} value={person.id}>
+                      {userName(person)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label>Course</Label>
+            <Select value={courseId} onValueChange={setCourseId}>
+              <SelectTrigger data-testid="select-rate-course">
+                <SelectValue placeholder="Select course" />
+              </SelectTrigger>
+              <SelectContent>
+                {kind !== "course-rates" && <SelectItem value={ALL_COURSES}>All courses</SelectItem>}
+                {courses?.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {kind !== "student-discounts" && (
+              <div className="grid gap-2">
+                <Label>Currency</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger data-testid="select-rate-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ZAR">ZAR</SelectItem>
+                    <SelectItem value="USD">USD</SelectItem>
+                    <SelectItem value="GBP">GBP</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="rate-value">{kind === "student-discounts" ? "Discount (%)" : "Hourly rate"}</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                min={0}
+                max={kind === "student-discounts" ? 100 : undefined}
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                data-testid="input-rate-value"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="rate-effective-from">Effective from</Label>
+              <Input
+                id="rate-effective-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                data-testid="input-rate-effective-from"
+              />
+            </div>
+          </div>
+          {kind === "student-discounts" && (
+            <div className="grid gap-2">
+              <Label htmlFor="rate-reason">Reason</Label>
+              <Input
+                id="rate-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Sibling discount"
+                data-testid="input-rate-reason"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => createMutation.mutate()} disabled={!canSubmit} data-testid="button-save-rate">
+            {createMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LoadingRows() {
+  return (
+    <div className="space-y-4">
+      <Skeleton className="h-12 w-full" />
+      <Skeleton className="h-12 w-full" />
+      <Skeleton className="h-12 w-full" />
+    </div>
+  );
+}
+
+function CourseRatesTable() {
+  const { data: rates, isLoading } = useQuery<CourseRateWithCourse[]>({
+    queryKey: ["/api/rate-cards", "course-rates"],
+  });
+
+  if (isLoading) return <LoadingRows />;
+  if (!rates || rates.length === 0) {
+    return (
+      <EmptyState
+        icon={<Tags className="h-8 w-8" />}
+        title="No course rates"
+        description="Add a course rate so sessions can be invoiced."
+        testId="empty-course-rates"
+      />
+    );
+  }
+
+  const scopeKey = (r: CourseRateWithCourse) => `${r.courseId}:${r.currency}`;
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Course</TableHead>
+          <TableHead className="text-right">Hourly Rate</TableHead>
+          <TableHead>Effective From</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rates.map((rate) => (
+          <TableRow key={rate.id} data-testid={`course-rate-row-${rate.id}`}>
+            <TableCell className="font-medium">{rate.course?.title}</TableCell>
+            <TableCell className="text-right">{formatCurrency(rate.hourlyRate, rate.currency)}</TableCell>
+            <TableCell>{format(new Date(rate.effectiveFrom), "MMM d, yyyy")}</TableCell>
+            <TableCell>
+              <RateStatusBadge status={getRateStatus(rate, rates, scopeKey)} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function TutorPayRatesTable() {
+  const { data: rates, isLoading } = useQuery<TutorPayRateWithDetails[]>({
+    queryKey: ["/api/rate-cards", "tutor-pay-rates"],
+  });
+
+  if (isLoading) return <LoadingRows />;
+  if (!rates || rates.length === 0) {
+    return (
+      <EmptyState
+        icon={<Tags className="h-8 w-8" />}
+        title="No tutor pay rates"
+        description="Add a pay rate so tutor payouts can be calculated."
+        testId="empty-tutor-pay-rates"
+      />
+    );
+  }
+
+  const scopeKey = (r: TutorPayRateWithDetails) => `${r.tutorId}:${r.courseId ?? ALL_COURSES}:${r.currency}`;
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Tutor</TableHead>
+          <TableHead>Course</TableHead>
+          <TableHead className="text-right">Hourly Rate</TableHead>
+          <TableHead>Effective From</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rates.map((rate) => (
+          <TableRow key={rate.id} data-testid={`tutor-rate-row-${rate.id}`}>
+            <TableCell className="font-medium">{userName(rate.tutor)}</TableCell>
+            <TableCell>{rate.course?.title ?? "All courses"}</TableCell>
+            <TableCell className="text-right">{formatCurrency(rate.hourlyRate, rate.currency)}</TableCell>
+            <TableCell>{format(new Date(rate.effectiveFrom), "MMM d, yyyy")}</TableCell>
+            <TableCell>
+              <RateStatusBadge status={getRateStatus(rate, rates, scopeKey)} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function StudentDiscountsTable() {
+  const { data: discounts, isLoading } = useQuery<StudentRateDiscountWithDetails[]>({
+    queryKey: ["/api/rate-cards", "student-discounts"],
+  });
+
+  if (isLoading) return <LoadingRows />;
+  if (!discounts || discounts.length === 0) {
+    return (
+      <EmptyState
+        icon={<Tags className="h-8 w-8" />}
+        title="No student discounts"
+        description="Discounts reduce the course rate on a student's invoices."
+        testId="empty-student-discounts"
+      />
+    );
+  }
+
+  const scopeKey = (d: StudentRateDiscountWithDetails) => `${d.studentId}:${d.courseId ?? ALL_COURSES}`;
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Student</TableHead>
+          <TableHead>Course</TableHead>
+          <TableHead className="text-right">Discount</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Effective From</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {discounts.map((discount) => (
+          <TableRow key={discount.id} data-testid={`student-discount-row-${discount.id}`}>
+            <TableCell className="font-medium">{userName(discount.student)}</TableCell>
+            <TableCell>{discount.course?.title ?? "All courses"}</TableCell>
+            <TableCell className="text-right">{parseFloat(discount.discountPercent)}%</TableCell>
+            <TableCell className="text-muted-foreground">{discount.reason || "-"}</TableCell>
+            <TableCell>{format(new Date(discount.effectiveFrom), "MMM d, yyyy")}</TableCell>
+            <TableCell>
+              <RateStatusBadge status={getRateStatus(discount, discounts, scopeKey)} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function AdminRates() {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<RateKind>("course-rates");
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const isFinance = userCan(user, "rates.write");
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-6 md:px-8 md:py-8">
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
+            Rate Cards
+          </h1>
+          <p className="mt-1 text-muted-foreground">
+            Course billing rates, tutor pay rates and student discounts, with full history
+          </p>
+        </div>
+        {isFinance && (
+          <Button onClick={() => setDialogOpen(true)} data-testid="button-add-rate">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Entry
+          </Button>
+        )}
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as RateKind)}>
+        <TabsList>
+          <TabsTrigger value="course-rates" data-testid="tab-course-rates">Course Rates</TabsTrigger>
+          <TabsTrigger value="tutor-pay-rates" data-testid="tab-tutor-pay-rates">Tutor Pay Rates</TabsTrigger>
+          <TabsTrigger value="student-discounts" data-testid="tab-student-discounts">Student Discounts</TabsTrigger>
+        </TabsList>
+
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="font-heading text-xl">
+              {activeTab === "course-rates"
+                ? "Course Rates"
+                : activeTab === "tutor-pay-rates"
+                  ? "Tutor Pay Rates"
+                  : "Student Discounts"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <TabsContent value="course-rates" className="mt-0">
+              <CourseRatesTable />
+            </TabsContent>
+            <TabsContent value="tutor-pay-rates" className="mt-0">
+              <TutorPayRatesTable />
+            </TabsContent>
+            <TabsContent value="student-discounts" className="mt-0">
+              <StudentDiscountsTable />
+            </TabsContent>
+          </CardContent>
+        </Card>
+      </Tabs>
+
+      {dialogOpen && (
+        <AddRateDialog kind={activeTab} open={dialogOpen} onOpenChange={setDialogOpen} />
+      )}
+    </div>
+  );
+}
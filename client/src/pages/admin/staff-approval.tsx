@@ -28,6 +28,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { userCan } from "@/lib/navigation";
 import type { StaffRoleRequestWithDetails } from "@shared/schema";
 import { format } from "date-fns";
 
@@ -40,7 +41,7 @@ export default function StaffApproval() {
 
   const { data: requests, isLoading, error } = useQuery<StaffRoleRequestWithDetails[]>({
     queryKey: ["/api/staff/proposals"],
-    enabled: !!user && user.role === "admin" && (user.adminLevel ?? 0) >= 3,
+    enabled: userCan(user, "staff.approve"),
   });
 
   const approveMutation = useMutation({
@@ -122,7 +123,7 @@ export default function StaffApproval() {
     return variants[role] || "outline";
   };
 
-  if (!user || user.role !== "admin" || (user.adminLevel ?? 0) < 3) {
+  if (!userCan(user, "staff.approve")) {
     return (
       <div className="mx-auto max-w-7xl px-4 py-6 md:px-8 md:py-8">
         <Card>
@@ -130,7 +131,7 @@ export default function StaffApproval() {
             <EmptyState
               icon={<AlertCircle className="h-8 w-8" />}
               title="Access Denied"
-              description="You need Admin Level 3 or higher to access this page."
+              description="You need the staff approval permission to access this page."
               testId="empty-access-denied"
             />
           </CardContent>
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -6,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Select,
@@ -38,9 +41,12 @@ import {
   History,
   User,
   Crown,
+  KeyRound,
+  UserCheck,
 } from "lucide-react";
+import { PermissionEditor } from "@/components/permission-editor";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
 import type { User as UserType } from "@shared/schema";
-import { format } from "date-fns";
 
 const roleColors: Record<string, string> = {
   student: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
@@ -50,19 +56,14 @@ const roleColors: Record<string, string> = {
   admin: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
 };
 
-interface AuditLog {
-  id: number;
-  action: string;
-  targetUserId: string;
-  performedById: string;
-  details: string;
-  createdAt: string;
-}
-
 export default function SuperAdminUsers() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [editingUser, setEditingUser] = useState<UserType | null>(null);
+  const [impersonatingUser, setImpersonatingUser] = useState<UserType | null>(null);
+  const [impersonationWrites, setImpersonationWrites] = useState(false);
+  const [impersonationMinutes, setImpersonationMinutes] = useState("30");
+  const [, setLocation] = useLocation();
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean;
     userId: string;
@@ -74,10 +75,6 @@ export default function SuperAdminUsers() {
     queryKey: ["/api/super-admin/users"],
   });
 
-  const { data: auditLogs, isLoading: logsLoading } = useQuery<AuditLog[]>({
-    queryKey: ["/api/super-admin/audit-logs"],
-  });
-
   const updateRoleMutation = useMutation({
     mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
       return apiRequest("PATCH", `/api/super-admin/users/${userId}/role`, { role });
@@ -122,6 +119,41 @@ export default function SuperAdminUsers() {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("POST", `/api/super-admin/users/${userId}/two-factor/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/super-admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/super-admin/audit-logs"] });
+      toast({ title: "Two-factor authentication reset" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reset two-factor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async ({ userId, allowWrites, minutes }: { userId: string; allowWrites: boolean; minutes: number }) => {
+      return apiRequest("POST", `/api/super-admin/users/${userId}/impersonate`, { allowWrites, minutes });
+    },
+    onSuccess: () => {
+      setImpersonatingUser(null);
+      // Everything cached so far belongs to the super admin's own view
+      queryClient.clear();
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to sign in as user", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openImpersonation = (user: UserType) => {
+    setImpersonationWrites(false);
+    setImpersonationMinutes("30");
+    setImpersonatingUser(user);
+  };
+
   const filteredUsers = users?.filter((user) => {
     const searchLower = searchTerm.toLowerCase();
     return (
@@ -181,6 +213,10 @@ export default function SuperAdminUsers() {
             <History className="h-4 w-4 mr-2" />
             Audit Logs
           </TabsTrigger>
+          <TabsTrigger value="permissions" data-testid="tab-permissions">
+            <KeyRound className="h-4 w-4 mr-2" />
+            Permissions
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="space-y-4">
@@ -308,6 +344,28 @@ export default function SuperAdminUsers() {
                           >
                             Edit Role
                           </Button>
+                          {!user.isSuperAdmin && user.isActive && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => openImpersonation(user)}
+                              data-testid={`button-impersonate-${user.id}`}
+                            >
+                              <UserCheck className="h-4 w-4 mr-1" />
+                              Log In As
+                            </Button>
+                          )}
+                          {user.twoFactorEnabled && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                              disabled={resetTwoFactorMutation.isPending}
+                              data-testid={`button-reset-two-factor-${user.id}`}
+                            >
+                              Reset 2FA
+                            </Button>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -326,61 +384,11 @@ export default function SuperAdminUsers() {
         </TabsContent>
 
         <TabsContent value="audit" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Audit Logs</CardTitle>
-              <CardDescription>
-                Track all administrative actions performed by Super Admins
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {logsLoading ? (
-                <div className="space-y-2">
-                  <Skeleton className="h-12 w-full" />
-                  <Skeleton className="h-12 w-full" />
-                  <Skeleton className="h-12 w-full" />
-                </div>
-              ) : (
-                <div className="rounded-md border">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Action</TableHead>
-                        <TableHead>Details</TableHead>
-                        <TableHead>Performed By</TableHead>
-                        <TableHead>Date</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {auditLogs?.map((log) => (
-                        <TableRow key={log.id} data-testid={`row-audit-${log.id}`}>
-                          <TableCell>
-                            <Badge variant="outline">{log.action}</Badge>
-                          </TableCell>
-                          <TableCell className="max-w-xs truncate">
-                            {log.details}
-                          </TableCell>
-                          <TableCell>
-                            {users?.find((u) => u.id === log.performedById)?.email || `User #${log.performedById}`}
-                          </TableCell>
-                          <TableCell className="text-muted-foreground">
-                            {format(new Date(log.createdAt), "MMM d, yyyy h:mm a")}
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                      {(!auditLogs || auditLogs.length === 0) && (
-                        <TableRow>
-                          <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
-                            No audit logs found
-                          </TableCell>
-                        </TableRow>
-                      )}
-                    </TableBody>
-                  </Table>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          <AuditLogViewer users={users ?? []} />
+        </TabsContent>
+
+        <TabsContent value="permissions" className="space-y-4">
+          <PermissionEditor />
         </TabsContent>
       </Tabs>
 
@@ -421,6 +429,63 @@ export default function SuperAdminUsers() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!impersonatingUser} onOpenChange={() => setImpersonatingUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Log In As User</DialogTitle>
+            <DialogDescription>
+              See the app exactly as {impersonatingUser?.firstName} {impersonatingUser?.lastName} sees it. The
+              start, the end and any changes you make are recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Time limit</Label>
+              <Select value={impersonationMinutes} onValueChange={setImpersonationMinutes}>
+                <SelectTrigger data-testid="select-impersonation-minutes">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="15">15 minutes</SelectItem>
+                  <SelectItem value="30">30 minutes</SelectItem>
+                  <SelectItem value="60">1 hour</SelectItem>
+                  <SelectItem value="120">2 hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="impersonation-writes"
+                checked={impersonationWrites}
+                onCheckedChange={(checked) => setImpersonationWrites(checked === true)}
+                data-testid="checkbox-impersonation-writes"
+              />
+              <Label htmlFor="impersonation-writes">Allow changes (read-only if unchecked)</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImpersonatingUser(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (impersonatingUser) {
+                  impersonateMutation.mutate({
+                    userId: impersonatingUser.id,
+                    allowWrites: impersonationWrites,
+                    minutes: Number(impersonationMinutes),
+                  });
+                }
+              }}
+              disabled={impersonateMutation.isPending}
+              data-testid="button-confirm-impersonate"
+            >
+              {impersonateMutation.isPending ? "Signing in..." : "Log In As User"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={!!confirmDialog?.open} onOpenChange={() => setConfirmDialog(null)}>
         <DialogContent>
           <DialogHeader>
@@ -1,10 +1,14 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { UserCog, Search, Plus, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { UserCog, Search, Plus, MoreHorizontal, Pencil, Trash2, Lock, Unlock, MonitorSmartphone, Link2 } from "lucide-react";
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { format } from "date-fns";
 import { EmptyState } from "@/components/empty-state";
+import { ActiveSessions } from "@/components/active-sessions";
+import { FamilyLinks } from "@/components/family-links";
+import { UserImportDialog } from "@/components/user-import-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import {
@@ -51,7 +55,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { User, UserRole } from "@shared/schema";
+import type { LoginThrottle, User, UserRole } from "@shared/schema";
 
 const createUserSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -66,6 +70,8 @@ export default function AdminUsers() {
   const [roleFilter, setRoleFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [familyUser, setFamilyUser] = useState<User | null>(null);
   const { toast } = useToast();
 
   const { data: users, isLoading } = useQuery<User[]>({
@@ -129,6 +135,30 @@ export default function AdminUsers() {
     },
   });
 
+  const { data: lockouts, isLoading: isLoadingLockouts } = useQuery<LoginThrottle[]>({
+    queryKey: ["/api/admin/login-lockouts"],
+  });
+
+  const clearLockoutMutation = useMutation({
+    mutationFn: async (lockoutId: string) => {
+      return apiRequest("DELETE", `/api/admin/login-lockouts/${lockoutId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/login-lockouts"] });
+      toast({
+        title: "Lockout cleared",
+        description: "Sign-in attempts are allowed again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to clear lockout. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: CreateUserFormData) => {
     createUserMutation.mutate(data);
   };
@@ -169,119 +199,122 @@ export default function AdminUsers() {
             Manage all users in the system
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-create-user">
-              <Plus className="mr-2 h-4 w-4" />
-              Add User
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle className="font-heading">Add New User</DialogTitle>
-              <DialogDescription>
-                Create a new user account. They will receive an invitation email.
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="firstName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>First Name</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="John"
-                          data-testid="input-first-name"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="lastName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Last Name</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Doe"
-                          data-testid="input-last-name"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="email"
-                          placeholder="john@example.com"
-                          data-testid="input-email"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="role"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Role</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+        <div className="flex flex-wrap gap-2">
+          <UserImportDialog />
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-create-user">
+                <Plus className="mr-2 h-4 w-4" />
+                Add User
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle className="font-heading">Add New User</DialogTitle>
+                <DialogDescription>
+                  Create a new user account. They will receive an invitation email.
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First Name</FormLabel>
                         <FormControl>
-                          <SelectTrigger data-testid="select-role">
-                            <SelectValue placeholder="Select a role" />
-                          </SelectTrigger>
+                          <Input
+                            placeholder="John"
+                            data-testid="input-first-name"
+                            {...field}
+                          />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="student">Student</SelectItem>
-                          <SelectItem value="parent">Parent</SelectItem>
-                          <SelectItem value="tutor">Tutor</SelectItem>
-                          <SelectItem value="manager">Manager</SelectItem>
-                          <SelectItem value="admin">Admin</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <DialogFooter>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setIsDialogOpen(false)}
-                    data-testid="button-cancel"
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    type="submit"
-                    disabled={createUserMutation.isPending}
-                    data-testid="button-submit"
-                  >
-                    {createUserMutation.isPending ? "Creating..." : "Create User"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last Name</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Doe"
+                            data-testid="input-last-name"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder="john@example.com"
+                            data-testid="input-email"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Role</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-role">
+                              <SelectValue placeholder="Select a role" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="student">Student</SelectItem>
+                            <SelectItem value="parent">Parent</SelectItem>
+                            <SelectItem value="tutor">Tutor</SelectItem>
+                            <SelectItem value="manager">Manager</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <DialogFooter>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsDialogOpen(false)}
+                      data-testid="button-cancel"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={createUserMutation.isPending}
+                      data-testid="button-submit"
+                    >
+                      {createUserMutation.isPending ? "Creating..." : "Create User"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
@@ -373,6 +406,22 @@ export default function AdminUsers() {
                               <Pencil className="mr-2 h-4 w-4" />
                               Edit
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setSessionsUser(user)}
+                              data-testid={`button-sessions-${user.id}`}
+                            >
+                              <MonitorSmartphone className="mr-2 h-4 w-4" />
+                              Sessions
+                            </DropdownMenuItem>
+                            {(user.role === "parent" || user.role === "student") && (
+                              <DropdownMenuItem
+                                onClick={() => setFamilyUser(user)}
+                                data-testid={`button-family-links-${user.id}`}
+                              >
+                                <Link2 className="mr-2 h-4 w-4" />
+                                Family Links
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
                               className="text-destructive"
                               onClick={() => deleteUserMutation.mutate(user.id)}
@@ -403,6 +452,97 @@ export default function AdminUsers() {
           )}
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 font-heading text-xl">
+            <Lock className="h-5 w-5" />
+            Sign-in Lockouts
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingLockouts ? (
+            <Skeleton className="h-16 w-full" />
+          ) : lockouts && lockouts.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Locked</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Lockouts</TableHead>
+                    <TableHead>Locked Until</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lockouts.map((lockout) => (
+                    <TableRow key={lockout.id} data-testid={`lockout-row-${lockout.id}`}>
+                      <TableCell className="font-medium">{lockout.identifier}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {lockout.scope === "ip" ? "IP address" : "Account"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{lockout.lockoutCount}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {lockout.lockedUntil ? format(new Date(lockout.lockedUntil), "MMM d, yyyy h:mm a") : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => clearLockoutMutation.mutate(lockout.id)}
+                          disabled={clearLockoutMutation.isPending}
+                          data-testid={`button-clear-lockout-${lockout.id}`}
+                        >
+                          <Unlock className="mr-2 h-4 w-4" />
+                          Clear
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <EmptyState
+              icon={<Lock className="h-8 w-8" />}
+              title="No active lockouts"
+              description="Accounts and addresses locked after repeated failed sign-ins appear here."
+              testId="empty-lockouts"
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-heading">
+              Sessions for {sessionsUser ? `${sessionsUser.firstName ?? ""} ${sessionsUser.lastName ?? ""}`.trim() || sessionsUser.email : ""}
+            </DialogTitle>
+            <DialogDescription>
+              Signing a user out ends their session immediately; they will need to sign in again.
+            </DialogDescription>
+          </DialogHeader>
+          {sessionsUser && <ActiveSessions userId={sessionsUser.id} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!familyUser} onOpenChange={(open) => !open && setFamilyUser(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-heading">
+              Family links for {familyUser ? `${familyUser.firstName ?? ""} ${familyUser.lastName ?? ""}`.trim() || familyUser.email : ""}
+            </DialogTitle>
+            <DialogDescription>
+              Both sides are notified when a link is created.
+            </DialogDescription>
+          </DialogHeader>
+          {familyUser && <FamilyLinks user={familyUser} manage />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -676,6 +676,7 @@ export default function AdminWallets() {
                   <TableHead>Purchased</TableHead>
                   <TableHead>Used</TableHead>
                   <TableHead>Remaining</TableHead>
+                  <TableHead>Expires</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
               </TableHeader>
@@ -716,6 +717,9 @@ export default function AdminWallets() {
                           <Progress value={100 - usagePercent} className="h-1.5 w-20" />
                         </div>
                       </TableCell>
+                      <TableCell className="text-sm text-muted-foreground" data-testid={`text-wallet-expiry-${wallet.id}`}>
+                        {wallet.expiresAt ? format(new Date(wallet.expiresAt), "MMM d, yyyy") : "Never"}
+                      </TableCell>
                       <TableCell>
                         <Badge 
                           variant={wallet.status === "active" ? "default" : "secondary"}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  GlassCard,
+  GlassCardContent,
+  GlassCardHeader,
+  GlassCardTitle,
+  GlassCardDescription,
+} from "@/components/ui/glass-card";
+import { GlowBackground } from "@/components/ui/glow-background";
+import { PageTransition } from "@/components/ui/page-transition";
+import { ArrowLeft, KeyRound, AlertCircle, Loader2, MailCheck } from "lucide-react";
+import { Link } from "wouter";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
+import mcecLogo from "@assets/MCEC_Transparent_Logo_1765615854771.jpg";
+
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/password-reset/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to request password reset");
+      }
+
+      setIsSent(true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to request password reset";
+      setError(message);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: message,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="sticky top-0 z-50 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 md:px-8">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <img src={mcecLogo} alt="MCEC Logo" className="h-12 object-contain cursor-pointer" data-testid="img-logo" />
+            </Link>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <GlowBackground variant="hero" animated className="flex-1 flex items-center justify-center p-4">
+        <PageTransition>
+          <GlassCard className="w-full max-w-md">
+            <GlassCardHeader>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 text-primary ring-1 ring-primary/20">
+                  {isSent ? <MailCheck className="h-5 w-5" /> : <KeyRound className="h-5 w-5" />}
+                </div>
+                <GlassCardTitle className="text-xl" data-testid="text-forgot-password-title">
+                  {isSent ? "Check your email" : "Reset your password"}
+                </GlassCardTitle>
+              </div>
+              <GlassCardDescription data-testid="text-forgot-password-description">
+                {isSent
+                  ? "If an account exists for that email, we've sent a link to reset your password. The link expires in one hour."
+                  : "Enter the email address you sign in with and we'll send you a reset link."}
+              </GlassCardDescription>
+            </GlassCardHeader>
+            <GlassCardContent>
+              {error && (
+                <div className="mb-4 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    <p className="text-sm" data-testid="text-forgot-password-error">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              {isSent ? (
+                <div className="flex flex-col gap-3">
+                  <Button asChild data-testid="button-back-to-login">
+                    <Link href="/auth/login">Back to Sign In</Link>
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      className="bg-background/50"
+                      data-testid="input-forgot-password-email"
+                    />
+                  </div>
+
+                  <div className="flex flex-col gap-3 pt-4">
+                    <Button
+                      type="submit"
+                      disabled={isSubmitting}
+                      data-testid="button-forgot-password-submit"
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Sending...
+                        </>
+                      ) : (
+                        "Send Reset Link"
+                      )}
+                    </Button>
+                    <Button variant="ghost" asChild data-testid="button-back">
+                      <Link href="/auth/login">
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back to Sign In
+                      </Link>
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </GlassCardContent>
+          </GlassCard>
+        </PageTransition>
+      </GlowBackground>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  GlassCard,
+  GlassCardContent,
+  GlassCardHeader,
+  GlassCardTitle,
+  GlassCardDescription,
+} from "@/components/ui/glass-card";
+import { GlowBackground } from "@/components/ui/glow-background";
+import { PageTransition } from "@/components/ui/page-transition";
+import { ArrowLeft, KeyRound, AlertCircle, Loader2 } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { MIN_PASSWORD_LENGTH, validateNewPassword } from "@shared/authPolicy";
+import mcecLogo from "@assets/MCEC_Transparent_Logo_1765615854771.jpg";
+
+
+export default function ResetPassword() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+  // Invitations to imported accounts use the same page to set the first password
+  const [isInvite] = useState(() => new URLSearchParams(window.location.search).get("invite") === "1");
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState(token ? "" : "This reset link is missing its token. Please request a new one.");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const passwordError = validateNewPassword(password);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to reset password");
+      }
+
+      // Every existing session was signed out, including this browser's
+      queryClient.clear();
+
+      toast({
+        title: isInvite ? "Password set" : "Password updated",
+        description: "Please sign in with your new password.",
+      });
+
+      setLocation("/auth/login");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to reset password";
+      setError(message);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: message,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="sticky top-0 z-50 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 md:px-8">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <img src={mcecLogo} alt="MCEC Logo" className="h-12 object-contain cursor-pointer" data-testid="img-logo" />
+            </Link>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <GlowBackground variant="hero" animated className="flex-1 flex items-center justify-center p-4">
+        <PageTransition>
+          <GlassCard className="w-full max-w-md">
+            <GlassCardHeader>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 text-primary ring-1 ring-primary/20">
+                  <KeyRound className="h-5 w-5" />
+                </div>
+                <GlassCardTitle className="text-xl" data-testid="text-reset-password-title">
+                  {isInvite ? "Set your password" : "Choose a new password"}
+                </GlassCardTitle>
+              </div>
+              <GlassCardDescription data-testid="text-reset-password-description">
+                {isInvite
+                  ? "Choose a password to finish setting up your account."
+                  : "You'll be signed out of every device once your password changes."}
+              </GlassCardDescription>
+            </GlassCardHeader>
+            <GlassCardContent>
+              {error && (
+                <div className="mb-4 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    <p className="text-sm" data-testid="text-reset-password-error">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">New password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={!token}
+                    className="bg-background/50"
+                    data-testid="input-reset-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm new password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="Re-enter your new password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    disabled={!token}
+                    className="bg-background/50"
+                    data-testid="input-reset-password-confirm"
+                  />
+                </div>
+
+                <div className="flex flex-col gap-3 pt-4">
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting || !token}
+                    data-testid="button-reset-password-submit"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Updating...
+                      </>
+                    ) : (
+                      "Update Password"
+                    )}
+                  </Button>
+                  <div className="text-center text-sm text-muted-foreground">
+                    Link expired?{" "}
+                    <Link href="/auth/forgot-password" className="text-primary hover:underline" data-testid="link-request-new-reset">
+                      Request a new one
+                    </Link>
+                  </div>
+                  <Button variant="ghost" asChild data-testid="button-back">
+                    <Link href="/auth/login">
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Back to Sign In
+                    </Link>
+                  </Button>
+                </div>
+              </form>
+            </GlassCardContent>
+          </GlassCard>
+        </PageTransition>
+      </GlowBackground>
+    </div>
+  );
+}
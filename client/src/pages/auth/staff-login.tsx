@@ -29,6 +29,8 @@ export default function StaffLogin() {
   const [password, setPassword] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   useEffect(() => {
     fetch("/api/auth/dev-status")
@@ -41,6 +43,59 @@ export default function StaffLogin() {
       });
   }, []);
 
+  const finishLogin = async (data: { redirect?: string; usedRecoveryCode?: boolean }) => {
+    await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    await queryClient.fetchQuery({ queryKey: ["/api/auth/user"] });
+    
+    toast({
+      title: "Success",
+      description: data.usedRecoveryCode
+        ? "Signed in with a recovery code. Consider generating new codes under Account Security."
+        : "Login successful!",
+    });
+    
+    const nextPath = normalizeAppPath(data.redirect) || "/";
+    setLocation(nextPath);
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+    
+    try {
+      const response = await fetch("/api/auth/2fa/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ code: twoFactorCode }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        // An expired challenge means starting over from the password step
+        if (response.status === 401 && data.message?.includes("expired")) {
+          setNeedsTwoFactor(false);
+          setTwoFactorCode("");
+        }
+        throw new Error(data.message || "Failed to verify code");
+      }
+      
+      await finishLogin(data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to verify code";
+      setError(message);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: message,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -66,16 +121,12 @@ export default function StaffLogin() {
         throw new Error(data.message || "Failed to login");
       }
       
-      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      await queryClient.fetchQuery({ queryKey: ["/api/auth/user"] });
-      
-      toast({
-        title: "Success",
-        description: "Login successful!",
-      });
+      if (data.requiresTwoFactor) {
+        setNeedsTwoFactor(true);
+        return;
+      }
       
-      const nextPath = normalizeAppPath(data.redirect) || "/";
-      setLocation(nextPath);
+      await finishLogin(data);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to login";
       setError(message);
@@ -188,64 +239,112 @@ export default function StaffLogin() {
                 </div>
               )}
               
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="yourname@melaniacalvin.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                    className="bg-background/50"
-                    data-testid="input-login-email"
-                  />
-                </div>
+              {needsTwoFactor ? (
+                <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="twoFactorCode">Authentication code</Label>
+                    <Input
+                      id="twoFactorCode"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      placeholder="6-digit code or recovery code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      required
+                      className="bg-background/50"
+                      data-testid="input-login-two-factor-code"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Open your authenticator app, or use one of your recovery codes.
+                    </p>
+                  </div>
+                  <div className="flex flex-col gap-3 pt-4">
+                    <Button type="submit" disabled={isSubmitting} data-testid="button-login-two-factor-submit">
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Verifying...
+                        </>
+                      ) : (
+                        "Verify"
+                      )}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => {
+                        setNeedsTwoFactor(false);
+                        setTwoFactorCode("");
+                        setError("");
+                      }}
+                      data-testid="button-two-factor-back"
+                    >
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Use a different account
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="yourname@melaniacalvin.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      className="bg-background/50"
+                      data-testid="input-login-email"
+                    />
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="Enter your password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                    className="bg-background/50"
-                    data-testid="input-login-password"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      className="bg-background/50"
+                      data-testid="input-login-password"
+                    />
+                  </div>
 
-                <div className="flex flex-col gap-3 pt-4">
-                  <Button 
-                    type="submit" 
-                    disabled={isSubmitting}
-                    data-testid="button-login-submit"
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Signing in...
-                      </>
-                    ) : (
-                      "Sign In"
-                    )}
-                  </Button>
-                  <div className="text-center text-sm text-muted-foreground">
-                    Don't have an account?{" "}
-                    <Link href="/auth/staff-proposal" className="text-primary hover:underline" data-testid="link-signup">
-                      Sign up
-                    </Link>
+                  <div className="flex flex-col gap-3 pt-4">
+                    <Button 
+                      type="submit" 
+                      disabled={isSubmitting}
+                      data-testid="button-login-submit"
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Signing in...
+                        </>
+                      ) : (
+                        "Sign In"
+                      )}
+                    </Button>
+                    <div className="text-center text-sm text-muted-foreground">
+                      Don't have an account?{" "}
+                      <Link href="/auth/staff-proposal" className="text-primary hover:underline" data-testid="link-signup">
+                        Sign up
+                      </Link>
+                    </div>
+                    <Button variant="ghost" asChild data-testid="button-back">
+                      <Link href="/">
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back to Home
+                      </Link>
+                    </Button>
                   </div>
-                  <Button variant="ghost" asChild data-testid="button-back">
-                    <Link href="/">
-                      <ArrowLeft className="mr-2 h-4 w-4" />
-                      Back to Home
-                    </Link>
-                  </Button>
-                </div>
-              </form>
+                </form>
+              )}
             </GlassCardContent>
           </GlassCard>
         </PageTransition>
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  GlassCard,
+  GlassCardContent,
+  GlassCardHeader,
+  GlassCardTitle,
+  GlassCardDescription,
+} from "@/components/ui/glass-card";
+import { GlowBackground } from "@/components/ui/glow-background";
+import { PageTransition } from "@/components/ui/page-transition";
+import { CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+import { Link } from "wouter";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { queryClient } from "@/lib/queryClient";
+import mcecLogo from "@assets/MCEC_Transparent_Logo_1765615854771.jpg";
+
+
+type VerifyState = "verifying" | "verified" | "failed";
+
+export default function VerifyEmail() {
+  const [state, setState] = useState<VerifyState>("verifying");
+  const [message, setMessage] = useState("");
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so never confirm twice on a re-render
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setState("failed");
+      setMessage("This verification link is missing its token.");
+      return;
+    }
+
+    fetch("/api/auth/verify-email/confirm", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to verify email");
+        }
+        setState("verified");
+        setMessage("Your email address has been confirmed.");
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      })
+      .catch((error) => {
+        setState("failed");
+        setMessage(error instanceof Error ? error.message : "Failed to verify email");
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="sticky top-0 z-50 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 md:px-8">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <img src={mcecLogo} alt="MCEC Logo" className="h-12 object-contain cursor-pointer" data-testid="img-logo" />
+            </Link>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <GlowBackground variant="hero" animated className="flex-1 flex items-center justify-center p-4">
+        <PageTransition>
+          <GlassCard className="w-full max-w-md">
+            <GlassCardHeader className="text-center">
+              <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-xl bg-primary/10 text-primary ring-1 ring-primary/20">
+                {state === "verifying" && <Loader2 className="h-7 w-7 animate-spin" />}
+                {state === "verified" && <CheckCircle2 className="h-7 w-7" />}
+                {state === "failed" && <AlertCircle className="h-7 w-7 text-destructive" />}
+              </div>
+              <GlassCardTitle className="text-xl" data-testid="text-verify-email-title">
+                {state === "verifying" && "Verifying your email..."}
+                {state === "verified" && "Email verified"}
+                {state === "failed" && "Verification failed"}
+              </GlassCardTitle>
+              {message && (
+                <GlassCardDescription data-testid="text-verify-email-message">
+                  {message}
+                  {state === "failed" && " Sign in to request a new verification email."}
+                </GlassCardDescription>
+              )}
+            </GlassCardHeader>
+            {state !== "verifying" && (
+              <GlassCardContent className="flex flex-col gap-3">
+                <Button asChild data-testid="button-verify-email-continue">
+                  <Link href="/">Continue</Link>
+                </Button>
+              </GlassCardContent>
+            )}
+          </GlassCard>
+        </PageTransition>
+      </GlowBackground>
+    </div>
+  );
+}
@@ -10,16 +10,45 @@ import {
   Video,
   Lock,
   AlertCircle,
+  Plus,
+  Users,
+  Trash2,
+  Repeat,
+  CalendarOff,
+  CalendarPlus,
+  CalendarClock,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { differenceInMinutes, addMinutes, isBefore, isAfter } from "date-fns";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { fromZonedTime, toZonedTime } from "@shared/timeZonePolicy";
+import { differenceInMinutes, addMinutes, isBefore, isAfter, addDays, startOfDay } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { EmptyState } from "@/components/empty-state";
+import { RescheduleDialog } from "@/components/reschedule-dialog";
+import { RescheduleRequestsCard } from "@/components/reschedule-requests";
 import {
   format,
   startOfMonth,
@@ -31,10 +60,16 @@ import {
   subMonths,
   startOfWeek,
   endOfWeek,
-  isToday,
   parseISO,
 } from "date-fns";
-import type { TutoringSession, User as UserType, Course } from "@shared/schema";
+import type {
+  TutoringSession,
+  User as UserType,
+  Course,
+  EnrollmentWithDetails,
+  SessionAttendanceWithStudent,
+  TutorAvailabilityException,
+} from "@shared/schema";
 
 interface SessionWithDetails extends TutoringSession {
   student?: UserType | null;
@@ -42,6 +77,11 @@ interface SessionWithDetails extends TutoringSession {
   course?: Course | null;
 }
 
+interface SessionRoster {
+  roster: SessionAttendanceWithStudent[];
+  capacity: number;
+}
+
 const DAYS_OF_WEEK = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 function getStatusBadge(status: string) {
@@ -236,6 +276,7 @@ function SessionCard({
   onJoin: (sessionId: string) => void;
   isJoining: boolean;
 }) {
+  const { formatTime } = useTimeZone();
   const startTime = new Date(session.scheduledStartTime);
   const endTime = new Date(session.scheduledEndTime);
 
@@ -254,12 +295,12 @@ function SessionCard({
           <div className="space-y-1">
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <CalendarIcon className="h-4 w-4" />
-              <span>{format(startTime, "EEEE, MMMM d, yyyy")}</span>
+              <span>{formatTime(startTime, "EEEE, MMMM d, yyyy")}</span>
             </div>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Clock className="h-4 w-4" />
               <span>
-                {format(startTime, "h:mm a")} - {format(endTime, "h:mm a")}
+                {formatTime(startTime, "h:mm a")} - {formatTime(endTime, "h:mm a")}
               </span>
             </div>
             {session.student && (
@@ -302,16 +343,451 @@ function SessionCard({
   );
 }
 
+function CreateGroupSessionDialog({
+  open,
+  onOpenChange,
+  courses,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  courses: Course[];
+}) {
+  const { toast } = useToast();
+  const { timeZone, formatTime } = useTimeZone();
+  const [formData, setFormData] = useState({
+    courseId: "",
+    date: formatTime(new Date(), "yyyy-MM-dd"),
+    startTime: "16:00",
+    endTime: "17:00",
+    notes: "",
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/tutoring-sessions/group", {
+        courseId: formData.courseId,
+        scheduledStartTime: fromZonedTime(new Date(`${formData.date}T${formData.startTime}`), timeZone).toISOString(),
+        scheduledEndTime: fromZonedTime(new Date(`${formData.date}T${formData.endTime}`), timeZone).toISOString(),
+        notes: formData.notes || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tutor/dashboard"] });
+      onOpenChange(false);
+      toast({
+        title: "Group session created",
+        description: "Add students to the roster from the calendar.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create group session.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Group Session</DialogTitle>
+          <DialogDescription>
+            Schedule a session for several students enrolled in the same course.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="group-course">Course</Label>
+            <Select
+              value={formData.courseId}
+              onValueChange={(value) => setFormData({ ...formData, courseId: value })}
+            >
+              <SelectTrigger id="group-course" data-testid="select-group-course">
+                <SelectValue placeholder="Select a course" />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="group-date">Date</Label>
+            <Input
+              id="group-date"
+              type="date"
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              data-testid="input-group-date"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <p className="col-span-2 text-xs text-muted-foreground">Times are in {timeZone}</p>
+            <div className="grid gap-2">
+              <Label htmlFor="group-start">Start Time</Label>
+              <Input
+                id="group-start"
+                type="time"
+                step={900}
+                value={formData.startTime}
+                onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                data-testid="input-group-start"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="group-end">End Time</Label>
+              <Input
+                id="group-end"
+                type="time"
+                step={900}
+                value={formData.endTime}
+                onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                data-testid="input-group-end"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="group-notes">Notes</Label>
+            <Textarea
+              id="group-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              data-testid="input-group-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-group">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!formData.courseId || createMutation.isPending}
+            data-testid="button-save-group"
+          >
+            {createMutation.isPending ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GroupRosterDialog({
+  session,
+  onOpenChange,
+}: {
+  session: SessionWithDetails | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const { formatTime } = useTimeZone();
+  const [studentId, setStudentId] = useState("");
+  const rosterKey = [`/api/tutoring-sessions/${session?.id}/roster`];
+
+  const { data: rosterData, isLoading: rosterLoading } = useQuery<SessionRoster>({
+    queryKey: rosterKey,
+    enabled: !!session,
+  });
+
+  const { data: enrollments } = useQuery<EnrollmentWithDetails[]>({
+    queryKey: [`/api/courses/${session?.courseId}/enrollments`],
+    enabled: !!session,
+  });
+
+  const roster = rosterData?.roster || [];
+  const rosterStudentIds = new Set(roster.map((entry) => entry.studentId));
+  const availableStudents = (enrollments || []).filter(
+    (e) => e.status === "active" && !rosterStudentIds.has(e.studentId)
+  );
+  const isFull = rosterData ? roster.length >= rosterData.capacity : false;
+  const canEdit = session?.status === "scheduled";
+
+  const addMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/tutoring-sessions/${session?.id}/roster`, { studentId: id });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rosterKey });
+      setStudentId("");
+      toast({ title: "Student added", description: "The student has been added to the roster." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add student.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tutoring-sessions/${session?.id}/roster/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rosterKey });
+      toast({ title: "Student removed", description: "The student has been removed from the roster." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove student.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Group Roster</DialogTitle>
+          <DialogDescription>
+            {session?.course?.title}
+            {session && ` · ${formatTime(session.scheduledStartTime, "EEE, MMM d 'at' h:mm a")}`}
+            {rosterData && ` · ${roster.length}/${rosterData.capacity} students`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {rosterLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : roster.length > 0 ? (
+            <div className="space-y-2">
+              {roster.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between gap-2 rounded-md border p-2"
+                  data-testid={`roster-entry-${entry.studentId}`}
+                >
+                  <span className="text-sm">
+                    {entry.student.firstName} {entry.student.lastName}
+                  </span>
+                  {entry.joinTime ? (
+                    <Badge variant="secondary">Joined</Badge>
+                  ) : canEdit ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMutation.mutate(entry.studentId)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-roster-${entry.studentId}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-sm text-muted-foreground">
+              No students on the roster yet
+            </p>
+          )}
+
+          {canEdit && (
+            <div className="flex items-end gap-2">
+              <div className="grid flex-1 gap-2">
+                <Label htmlFor="roster-student">Add student</Label>
+                <Select value={studentId} onValueChange={setStudentId} disabled={isFull}>
+                  <SelectTrigger id="roster-student" data-testid="select-roster-student">
+                    <SelectValue placeholder={isFull ? "Session is full" : "Select an enrolled student"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableStudents.map((enrollment) => (
+                      <SelectItem key={enrollment.studentId} value={enrollment.studentId}>
+                        {enrollment.student.firstName} {enrollment.student.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => addMutation.mutate(studentId)}
+                disabled={!studentId || isFull || addMutation.isPending}
+                data-testid="button-add-roster"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const SERIES_SHIFT_OPTIONS = [-120, -90, -60, -45, -30, -15, 15, 30, 45, 60, 90, 120];
+
+function SeriesActions({
+  session,
+  canMove,
+}: {
+  session: SessionWithDetails;
+  canMove: boolean;
+}) {
+  const { toast } = useToast();
+  const [isMoveDialogOpen, setIsMoveDialogOpen] = useState(false);
+  const [offsetMinutes, setOffsetMinutes] = useState("30");
+  const seriesUrl = `/api/session-series/${session.recurrenceGroupId}`;
+
+  const onSeriesError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update the series.",
+      variant: "destructive",
+    });
+  };
+
+  const skipMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `${seriesUrl}/skip/${session.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
+      toast({ title: "Session skipped", description: "The rest of the series is unchanged." });
+    },
+    onError: onSeriesError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `${seriesUrl}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
+      toast({ title: "Series cancelled", description: "All upcoming sessions in the series were cancelled." });
+    },
+    onError: onSeriesError,
+  });
+
+  const shiftMutation = useMutation({
+    mutationFn: async () => apiRequest("PATCH", `${seriesUrl}/shift`, { offsetMinutes: parseInt(offsetMinutes) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
+      setIsMoveDialogOpen(false);
+      toast({ title: "Series moved", description: "All upcoming sessions in the series were moved." });
+    },
+    onError: onSeriesError,
+  });
+
+  const isBusy = skipMutation.isPending || cancelMutation.isPending || shiftMutation.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-1">
+      <Badge variant="outline" className="w-fit">
+        <Repeat className="mr-1 h-3 w-3" />
+        Series
+      </Badge>
+      {session.status === "scheduled" && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => skipMutation.mutate()}
+            disabled={isBusy}
+            data-testid={`button-skip-occurrence-${session.id}`}
+          >
+            Skip
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => cancelMutation.mutate()}
+            disabled={isBusy}
+            data-testid={`button-cancel-series-${session.id}`}
+          >
+            Cancel Series
+          </Button>
+          {canMove && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsMoveDialogOpen(true)}
+              disabled={isBusy}
+              data-testid={`button-move-series-${session.id}`}
+            >
+              Move Series
+            </Button>
+          )}
+        </>
+      )}
+
+      <Dialog open={isMoveDialogOpen} onOpenChange={setIsMoveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Series</DialogTitle>
+            <DialogDescription>
+              Every upcoming session in this series moves by the same amount. Nothing moves if any
+              occurrence would clash with another session.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="series-offset">Move by</Label>
+            <Select value={offsetMinutes} onValueChange={setOffsetMinutes}>
+              <SelectTrigger id="series-offset" data-testid="select-series-offset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SERIES_SHIFT_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {minutes > 0 ? `${minutes} minutes later` : `${-minutes} minutes earlier`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsMoveDialogOpen(false)} data-testid="button-cancel-move">
+              Cancel
+            </Button>
+            <Button onClick={() => shiftMutation.mutate()} disabled={isBusy} data-testid="button-confirm-move">
+              {shiftMutation.isPending ? "Moving..." : "Move Series"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
 export default function CalendarPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { timeZone, formatTime } = useTimeZone();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false);
+  const [rosterSession, setRosterSession] = useState<SessionWithDetails | null>(null);
+  const [rescheduleSession, setRescheduleSession] = useState<SessionWithDetails | null>(null);
+
+  const canManageGroups =
+    user?.role === "tutor" || user?.role === "manager" || user?.role === "admin" || !!user?.isSuperAdmin;
+
+  const { data: groupCourses } = useQuery<Course[]>({
+    queryKey: [user?.role === "tutor" ? "/api/tutor/courses" : "/api/courses"],
+    enabled: canManageGroups,
+  });
 
   const { data: sessions, isLoading } = useQuery<SessionWithDetails[]>({
     queryKey: ["/api/tutoring-sessions"],
   });
 
+  const isTutor = user?.role === "tutor";
+  const { data: exceptions } = useQuery<TutorAvailabilityException[]>({
+    queryKey: ["/api/tutor/availability-exceptions"],
+    enabled: isTutor,
+  });
+
   const joinMutation = useMutation({
     mutationFn: async (sessionId: string) => {
       return apiRequest("POST", `/api/tutoring-sessions/${sessionId}/join`);
@@ -347,20 +823,33 @@ export default function CalendarPage() {
 
   const goToPreviousMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
   const goToNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
+  // Grid days are calendar days in the viewer's zone
+  const today = toZonedTime(new Date(), timeZone);
   const goToToday = () => {
-    setCurrentMonth(new Date());
-    setSelectedDate(new Date());
+    setCurrentMonth(today);
+    setSelectedDate(today);
   };
 
   const getSessionsForDay = (day: Date) => {
     if (!sessions) return [];
     return sessions.filter((session) => {
-      const sessionDate = new Date(session.scheduledStartTime);
+      const sessionDate = toZonedTime(session.scheduledStartTime, timeZone);
       return isSameDay(sessionDate, day);
     });
   };
 
+  // Time off and extra hours touching any part of the day
+  const getExceptionsForDay = (day: Date) => {
+    if (!exceptions) return [];
+    const dayStart = fromZonedTime(startOfDay(day), timeZone);
+    const dayEnd = fromZonedTime(addDays(startOfDay(day), 1), timeZone);
+    return exceptions.filter(
+      (exception) => new Date(exception.startTime) < dayEnd && new Date(exception.endTime) > dayStart
+    );
+  };
+
   const selectedDateSessions = selectedDate ? getSessionsForDay(selectedDate) : [];
+  const selectedDateExceptions = selectedDate ? getExceptionsForDay(selectedDate) : [];
 
   const upcomingSessions = (sessions || [])
     .filter((s) => s.status === "scheduled" && new Date(s.scheduledStartTime) >= new Date())
@@ -369,13 +858,21 @@ export default function CalendarPage() {
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-6 md:px-8 md:py-8">
-      <div className="mb-8">
-        <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
-          Session Calendar
-        </h1>
-        <p className="mt-1 text-muted-foreground">
-          View and manage your scheduled tutoring sessions.
-        </p>
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
+            Session Calendar
+          </h1>
+          <p className="mt-1 text-muted-foreground">
+            View and manage your scheduled tutoring sessions. Times are shown in {timeZone}.
+          </p>
+        </div>
+        {canManageGroups && (
+          <Button onClick={() => setIsGroupDialogOpen(true)} data-testid="button-new-group-session">
+            <Plus className="mr-2 h-4 w-4" />
+            New Group Session
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -431,9 +928,12 @@ export default function CalendarPage() {
                     const daySessions = getSessionsForDay(day);
                     const hasScheduled = daySessions.some((s) => s.status === "scheduled");
                     const hasCompleted = daySessions.some((s) => s.status === "completed");
+                    const dayExceptions = getExceptionsForDay(day);
+                    const hasTimeOff = dayExceptions.some((e) => e.type === "time_off");
+                    const hasExtraHours = dayExceptions.some((e) => e.type === "extra_hours");
                     const isCurrentMonth = isSameMonth(day, currentMonth);
                     const isSelected = selectedDate && isSameDay(day, selectedDate);
-                    const dayIsToday = isToday(day);
+                    const dayIsToday = isSameDay(day, today);
 
                     return (
                       <button
@@ -450,7 +950,7 @@ export default function CalendarPage() {
                         <span className={dayIsToday && !isSelected ? "font-bold" : ""}>
                           {format(day, "d")}
                         </span>
-                        {daySessions.length > 0 && (
+                        {(daySessions.length > 0 || dayExceptions.length > 0) && (
                           <div className="mt-1 flex gap-0.5">
                             {hasScheduled && (
                               <div
@@ -466,6 +966,20 @@ export default function CalendarPage() {
                                 }`}
                               />
                             )}
+                            {hasTimeOff && (
+                              <div
+                                className={`h-1.5 w-1.5 rounded-full ${
+                                  isSelected ? "bg-primary-foreground" : "bg-amber-500"
+                                }`}
+                              />
+                            )}
+                            {hasExtraHours && (
+                              <div
+                                className={`h-1.5 w-1.5 rounded-full ${
+                                  isSelected ? "bg-primary-foreground" : "bg-purple-500"
+                                }`}
+                              />
+                            )}
                           </div>
                         )}
                       </button>
@@ -482,12 +996,26 @@ export default function CalendarPage() {
                     <div className="h-2 w-2 rounded-full bg-green-500" />
                     <span>Completed</span>
                   </div>
+                  {isTutor && (
+                    <>
+                      <div className="flex items-center gap-1.5">
+                        <div className="h-2 w-2 rounded-full bg-amber-500" />
+                        <span>Time off</span>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <div className="h-2 w-2 rounded-full bg-purple-500" />
+                        <span>Extra hours</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </div>
 
           <div className="space-y-6">
+            <RescheduleRequestsCard />
+
             {selectedDate && (
               <Card>
                 <CardHeader className="pb-2">
@@ -496,6 +1024,33 @@ export default function CalendarPage() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
+                  {selectedDateExceptions.length > 0 && (
+                    <div className="mb-3 space-y-2">
+                      {selectedDateExceptions.map((exception) => (
+                        <div
+                          key={exception.id}
+                          className="flex items-center gap-2 rounded-md border border-dashed p-2 text-xs"
+                          data-testid={`selected-day-exception-${exception.id}`}
+                        >
+                          {exception.type === "time_off" ? (
+                            <CalendarOff className="h-4 w-4 text-amber-500" />
+                          ) : (
+                            <CalendarPlus className="h-4 w-4 text-purple-500" />
+                          )}
+                          <span className="font-medium">
+                            {exception.type === "time_off" ? "Time off" : "Extra hours"}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {formatTime(exception.startTime, "MMM d, h:mm a")} -{" "}
+                            {formatTime(exception.endTime, "MMM d, h:mm a")}
+                          </span>
+                          {exception.reason && (
+                            <span className="truncate text-muted-foreground">({exception.reason})</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   {selectedDateSessions.length > 0 ? (
                     <div className="space-y-3">
                       {selectedDateSessions.map((session) => (
@@ -512,8 +1067,8 @@ export default function CalendarPage() {
                               {getStatusBadge(session.status)}
                             </div>
                             <p className="text-xs text-muted-foreground">
-                              {format(new Date(session.scheduledStartTime), "h:mm a")} -{" "}
-                              {format(new Date(session.scheduledEndTime), "h:mm a")}
+                              {formatTime(session.scheduledStartTime, "h:mm a")} -{" "}
+                              {formatTime(session.scheduledEndTime, "h:mm a")}
                             </p>
                             {session.student && (
                               <p className="text-xs text-muted-foreground">
@@ -525,6 +1080,43 @@ export default function CalendarPage() {
                                 with {session.tutor.firstName} {session.tutor.lastName}
                               </p>
                             )}
+                            {!session.isGroupSession &&
+                              session.status === "scheduled" &&
+                              (session.tutorId === user?.id || session.studentId === user?.id) && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setRescheduleSession(session)}
+                                  data-testid={`button-reschedule-session-${session.id}`}
+                                >
+                                  <CalendarClock className="mr-1 h-3 w-3" />
+                                  Reschedule
+                                </Button>
+                              )}
+                            {session.isRecurring && session.recurrenceGroupId && (
+                              <SeriesActions
+                                session={session}
+                                canMove={session.tutorId === user?.id || (canManageGroups && user?.role !== "tutor")}
+                              />
+                            )}
+                            {session.isGroupSession && (
+                              <div className="flex items-center justify-between gap-2 pt-1">
+                                <Badge variant="outline" className="w-fit">
+                                  Group Session
+                                </Badge>
+                                {canManageGroups && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setRosterSession(session)}
+                                    data-testid={`button-manage-roster-${session.id}`}
+                                  >
+                                    <Users className="mr-1 h-3 w-3" />
+                                    Roster
+                                  </Button>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -559,8 +1151,8 @@ export default function CalendarPage() {
                             {session.course?.title}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            {format(new Date(session.scheduledStartTime), "EEE, MMM d")} at{" "}
-                            {format(new Date(session.scheduledStartTime), "h:mm a")}
+                            {formatTime(session.scheduledStartTime, "EEE, MMM d")} at{" "}
+                            {formatTime(session.scheduledStartTime, "h:mm a")}
                           </p>
                         </div>
                         {getStatusBadge(session.status)}
@@ -580,6 +1172,22 @@ export default function CalendarPage() {
           </div>
         </div>
       )}
+
+      <RescheduleDialog session={rescheduleSession} onClose={() => setRescheduleSession(null)} />
+
+      {canManageGroups && (
+        <>
+          <CreateGroupSessionDialog
+            open={isGroupDialogOpen}
+            onOpenChange={setIsGroupDialogOpen}
+            courses={groupCourses || []}
+          />
+          <GroupRosterDialog
+            session={rosterSession}
+            onOpenChange={(open) => !open && setRosterSession(null)}
+          />
+        </>
+      )}
     </div>
   );
 }
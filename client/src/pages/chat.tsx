@@ -1,8 +1,9 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useChatSocket, type ChatSocketReceipt, type ChatSocketServerEvent } from "@/hooks/useChatSocket";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -26,10 +27,14 @@ type ChatMessage = {
   senderId: string;
   content: string;
   createdAt: string;
+  receipts?: ChatSocketReceipt[];
 };
 
 type ChatThreadSummary = {
   id: string;
+  type: "dm" | "course";
+  course?: { id: string; title: string };
+  readOnly: boolean;
   updatedAt: string;
   participants: ChatUser[];
   lastMessage?: ChatMessage;
@@ -41,6 +46,22 @@ const formatDisplayName = (user?: ChatUser) => {
   return fullName || user.email || "Unknown";
 };
 
+const formatThreadTitle = (thread?: ChatThreadSummary) => {
+  if (!thread) return "Messages";
+  if (thread.type === "course") return thread.course?.title ?? "Course chat";
+  return formatDisplayName(thread.participants[0]);
+};
+
+const TYPING_INDICATOR_MS = 4000;
+const TYPING_THROTTLE_MS = 2500;
+
+const formatDeliveryStatus = (message: ChatMessage) => {
+  const receipts = message.receipts ?? [];
+  if (receipts.some((receipt) => receipt.readAt)) return "Read";
+  if (receipts.some((receipt) => receipt.deliveredAt)) return "Delivered";
+  return "Sent";
+};
+
 const formatTimestamp = (timestamp: string) => {
   const date = new Date(timestamp);
   return new Intl.DateTimeFormat("en-US", {
@@ -58,6 +79,10 @@ export default function ChatPage() {
   const [selectedUserId, setSelectedUserId] = useState<string>("");
   const [messageDraft, setMessageDraft] = useState<string>("");
   const [prefillHandled, setPrefillHandled] = useState(false);
+  const [typingByThread, setTypingByThread] = useState<Record<string, { userId: string; startedAt: string }>>({});
+  const selectedThreadIdRef = useRef<string | null>(null);
+  const lastTypingSentRef = useRef(0);
+  selectedThreadIdRef.current = selectedThreadId;
 
   const { data: chatUsers = [], isLoading: chatUsersLoading } = useQuery<ChatUser[]>({
     queryKey: ["/api/chats/users"],
@@ -72,6 +97,80 @@ export default function ChatPage() {
     enabled: Boolean(selectedThreadId),
   });
 
+  const handleSocketEvent = useCallback((event: ChatSocketServerEvent) => {
+    switch (event.type) {
+      case "message": {
+        const { message } = event;
+        queryClient.setQueryData<ChatMessage[]>(["/api/chats", message.threadId, "messages"], (existing) =>
+          existing && !existing.some((m) => m.id === message.id)
+            ? [...existing, { ...message, receipts: [] }]
+            : existing,
+        );
+        queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+        if (message.senderId === user?.id) return;
+        setTypingByThread(({ [message.threadId]: _, ...rest }) => rest);
+        const isViewing = selectedThreadIdRef.current === message.threadId && document.visibilityState === "visible";
+        sendSocketEvent(
+          isViewing
+            ? { type: "read", threadId: message.threadId }
+            : { type: "delivered", threadId: message.threadId, messageIds: [message.id] },
+        );
+        return;
+      }
+      case "typing": {
+        const startedAt = new Date().toISOString();
+        const typing = { userId: event.userId, startedAt };
+        setTypingByThread((current) => ({ ...current, [event.threadId]: typing }));
+        setTimeout(() => {
+          setTypingByThread(({ [event.threadId]: latest, ...rest }) =>
+            !latest || latest.startedAt === startedAt ? rest : { ...rest, [event.threadId]: latest },
+          );
+        }, TYPING_INDICATOR_MS);
+        return;
+      }
+      case "receipt": {
+        queryClient.setQueryData<ChatMessage[]>(["/api/chats", event.threadId, "messages"], (existing) =>
+          existing?.map((message) => {
+            const updates = event.receipts.filter((receipt) => receipt.messageId === message.id);
+            if (updates.length === 0) return message;
+            const kept = (message.receipts ?? []).filter(
+              (receipt) => !updates.some((update) => update.userId === receipt.userId),
+            );
+            return { ...message, receipts: [...kept, ...updates] };
+          }),
+        );
+        return;
+      }
+    }
+  }, [user?.id]);
+
+  const { send: sendSocketEvent } = useChatSocket(handleSocketEvent);
+
+  // Opening a thread marks everything the other side sent as read
+  const hasUnread = messages.some(
+    (message) =>
+      message.senderId !== user?.id &&
+      !(message.receipts ?? []).some((receipt) => receipt.userId === user?.id && receipt.readAt),
+  );
+  const isReadOnlyThread = threads.some((thread) => thread.id === selectedThreadId && thread.readOnly);
+  useEffect(() => {
+    if (!selectedThreadId || !hasUnread || isReadOnlyThread) return;
+    if (!sendSocketEvent({ type: "read", threadId: selectedThreadId })) {
+      apiRequest("POST", `/api/chats/${selectedThreadId}/read`)
+        .then(() => queryClient.invalidateQueries({ queryKey: ["/api/chats", selectedThreadId, "messages"] }))
+        .catch(() => undefined);
+    }
+  }, [hasUnread, isReadOnlyThread, selectedThreadId, sendSocketEvent]);
+
+  const handleDraftChange = (value: string) => {
+    setMessageDraft(value);
+    const now = Date.now();
+    if (selectedThreadId && value && now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendSocketEvent({ type: "typing", threadId: selectedThreadId });
+    }
+  };
+
   const queryParams = useMemo(() => new URLSearchParams(location.split("?")[1] ?? ""), [location]);
   const queryThreadId = queryParams.get("threadId");
   const queryParticipantId = queryParams.get("participantId");
@@ -87,7 +186,10 @@ export default function ChatPage() {
     () => threads.find((thread) => thread.id === selectedThreadId),
     [threads, selectedThreadId],
   );
-  const activeParticipant = activeThread?.participants[0];
+  const isCourseThread = activeThread?.type === "course";
+  const canPost = !activeThread?.readOnly;
+  const findParticipant = (userId: string) =>
+    activeThread?.participants.find((participant) => participant.id === userId);
 
   const createThreadMutation = useMutation({
     mutationFn: async (participantId: string) => {
@@ -227,7 +329,8 @@ export default function ChatPage() {
                 ) : (
                   <div className="space-y-2">
                     {threads.map((thread) => {
-                      const participant = thread.participants[0];
+                      const participant = thread.type === "course" ? undefined : thread.participants[0];
+                      const title = formatThreadTitle(thread);
                       const isActive = thread.id === selectedThreadId;
                       return (
                         <button
@@ -241,13 +344,13 @@ export default function ChatPage() {
                           <Avatar className="h-9 w-9">
                             <AvatarImage src={participant?.profileImageUrl ?? undefined} />
                             <AvatarFallback>
-                              {formatDisplayName(participant).charAt(0).toUpperCase()}
+                              {title.charAt(0).toUpperCase()}
                             </AvatarFallback>
                           </Avatar>
                           <div className="flex-1">
                             <div className="flex items-center justify-between">
                               <span className="text-sm font-medium">
-                                {formatDisplayName(participant)}
+                                {title}
                               </span>
                               {thread.lastMessage?.createdAt && (
                                 <span className="text-xs text-muted-foreground">
@@ -274,7 +377,12 @@ export default function ChatPage() {
         <div className="flex-1">
           <Card className="flex h-[70vh] flex-col">
             <CardHeader>
-              <CardTitle>{activeParticipant ? formatDisplayName(activeParticipant) : "Messages"}</CardTitle>
+              <CardTitle>{formatThreadTitle(activeThread)}</CardTitle>
+              {isCourseThread && (
+                <p className="text-sm text-muted-foreground">
+                  Course chat • {(activeThread?.participants.length ?? 0) + (activeThread?.readOnly ? 0 : 1)} members
+                </p>
+              )}
             </CardHeader>
             <CardContent className="flex flex-1 flex-col gap-4">
               <div className="flex-1 space-y-3 overflow-y-auto rounded-lg border border-dashed border-muted px-4 py-3">
@@ -303,6 +411,13 @@ export default function ChatPage() {
                               : "bg-muted text-foreground"
                           }`}
                         >
+                          {isCourseThread && !isOwn && (
+                            <p className="mb-1 text-xs font-medium">
+                              {findParticipant(message.senderId)
+                                ? formatDisplayName(findParticipant(message.senderId))
+                                : "Former member"}
+                            </p>
+                          )}
                           <p>{message.content}</p>
                           <p
                             className={`mt-1 text-xs ${
@@ -310,6 +425,11 @@ export default function ChatPage() {
                             }`}
                           >
                             {formatTimestamp(message.createdAt)}
+                            {isOwn && (
+                              <span data-testid={`text-delivery-status-${message.id}`}>
+                                {" "}• {formatDeliveryStatus(message)}
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -317,29 +437,40 @@ export default function ChatPage() {
                   })
                 )}
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="chat-message">Message</Label>
-                <Textarea
-                  id="chat-message"
-                  placeholder="Write a message..."
-                  value={messageDraft}
-                  onChange={(event) => setMessageDraft(event.target.value)}
-                  rows={3}
-                  disabled={!selectedThreadId && !selectedUserId}
-                />
-                <div className="flex items-center justify-end">
-                  <Button
-                    onClick={() => sendMessageMutation.mutate()}
-                    disabled={
-                      (!selectedThreadId && !selectedUserId) ||
-                      !messageDraft.trim() ||
-                      sendMessageMutation.isPending
-                    }
-                  >
-                    Send
-                  </Button>
+              {selectedThreadId && typingByThread[selectedThreadId] && (
+                <p className="text-xs text-muted-foreground" data-testid="text-typing-indicator">
+                  {formatDisplayName(findParticipant(typingByThread[selectedThreadId].userId))} is typing...
+                </p>
+              )}
+              {!canPost ? (
+                <p className="text-sm text-muted-foreground" data-testid="text-chat-read-only">
+                  You can follow this course chat but cannot post in it.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="chat-message">Message</Label>
+                  <Textarea
+                    id="chat-message"
+                    placeholder="Write a message..."
+                    value={messageDraft}
+                    onChange={(event) => handleDraftChange(event.target.value)}
+                    rows={3}
+                    disabled={!selectedThreadId && !selectedUserId}
+                  />
+                  <div className="flex items-center justify-end">
+                    <Button
+                      onClick={() => sendMessageMutation.mutate()}
+                      disabled={
+                        (!selectedThreadId && !selectedUserId) ||
+                        !messageDraft.trim() ||
+                        sendMessageMutation.isPending
+                      }
+                    >
+                      Send
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              )}
             </CardContent>
           </Card>
         </div>
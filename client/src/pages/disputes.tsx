@@ -3,6 +3,7 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,6 +11,8 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { SessionReconciliationDecision } from "@shared/schema";
+import { RECONCILIATION_OUTCOME_LABELS } from "@shared/sessionReconciliationPolicy";
 
 type DisputeStatus = "open" | "under_review" | "resolved" | "rejected";
 type DisputeTargetType = "session" | "invoice" | "report";
@@ -66,6 +69,31 @@ const statusClasses: Record<DisputeStatus, string> = {
   rejected: "bg-rose-100 text-rose-700",
 };
 
+// What the automatic no-show and auto-end job decided for a disputed session
+function ReconciliationDecisions({ sessionId }: { sessionId: string }) {
+  const { formatTime } = useTimeZone();
+  const { data: decisions = [] } = useQuery<SessionReconciliationDecision[]>({
+    queryKey: ["/api/tutoring-sessions", sessionId, "reconciliation-decisions"],
+  });
+
+  if (decisions.length === 0) return null;
+
+  return (
+    <div className="space-y-1 rounded-md bg-muted/50 p-3 text-xs" data-testid={`reconciliation-decisions-${sessionId}`}>
+      <p className="font-medium">Automatic decisions</p>
+      {decisions.map((decision) => (
+        <div key={decision.id} className="text-muted-foreground">
+          <span className="font-medium text-foreground">{RECONCILIATION_OUTCOME_LABELS[decision.outcome]}</span>
+          {decision.decidedAt && ` on ${formatTime(decision.decidedAt, "MMM d, yyyy h:mm a")}`}: {decision.reason}.{" "}
+          {decision.previousStatus} → {decision.newStatus}, {decision.billableMinutes} min billable
+          {decision.chargedMinutes > 0 && `, ${decision.chargedMinutes} min charged`}
+          {decision.refundedMinutes > 0 && `, ${decision.refundedMinutes} min refunded`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function DisputesPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -396,6 +424,9 @@ export default function DisputesPage() {
                     {dispute.resolutionNotes && (
                       <p className="text-xs text-muted-foreground">Resolution: {dispute.resolutionNotes}</p>
                     )}
+                    {canManage && dispute.targetType === "session" && (
+                      <ReconciliationDecisions sessionId={dispute.targetId} />
+                    )}
                     {canManage && (dispute.status === "open" || dispute.status === "under_review") && (
                       <div className="space-y-2">
                         <Label htmlFor={`resolution-${dispute.id}`}>Resolution notes</Label>
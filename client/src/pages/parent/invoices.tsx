@@ -1,5 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
-import { FileText, Download, Eye, Search, Receipt, Clock, CheckCircle, AlertCircle } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileText, Download, Eye, Search, Receipt, Clock, CheckCircle, AlertCircle, Upload } from "lucide-react";
 import { useState } from "react";
 import { format } from "date-fns";
 import { EmptyState } from "@/components/empty-state";
@@ -34,6 +34,8 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, uploadFile } from "@/lib/queryClient";
 import type { InvoiceWithDetails, InvoiceStatus } from "@shared/schema";
 
 function formatCurrency(amount: string | number, currency: string = "ZAR"): string {
@@ -74,6 +76,83 @@ function getStatusIcon(status: InvoiceStatus) {
   }
 }
 
+function SubmitPaymentForm({ invoice }: { invoice: InvoiceWithDetails }) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState(invoice.amountOutstanding);
+  const [reference, setReference] = useState("");
+  const [proofFile, setProofFile] = useState<File | null>(null);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const proof = proofFile ? await uploadFile(proofFile, "payment_proof") : null;
+      return apiRequest("POST", `/api/invoices/${invoice.id}/payments`, {
+        amount,
+        paymentMethod: "bank_transfer",
+        paymentReference: reference || undefined,
+        proofAssetUrl: proof?.url,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setReference("");
+      setProofFile(null);
+      toast({ title: "Payment submitted", description: "Finance will verify your proof of payment." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to submit payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="mt-4 space-y-3 rounded-md border p-4">
+      <h4 className="font-heading font-semibold">Submit a Payment</h4>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor="payment-amount">Amount ({invoice.currency})</Label>
+          <Input
+            id="payment-amount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            data-testid="input-payment-amount"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payment-reference">Reference</Label>
+          <Input
+            id="payment-reference"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            data-testid="input-payment-reference"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payment-proof">Proof of payment (PDF, PNG, JPEG)</Label>
+          <Input
+            id="payment-proof"
+            type="file"
+            accept="application/pdf,image/png,image/jpeg"
+            onChange={(e) => setProofFile(e.target.files?.[0] ?? null)}
+            data-testid="input-payment-proof"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          onClick={() => submitMutation.mutate()}
+          disabled={!amount || parseFloat(amount) <= 0 || submitMutation.isPending}
+          data-testid="button-submit-payment"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {submitMutation.isPending ? "Submitting..." : "Submit Payment"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function InvoiceDetailDialog({
   invoice,
   open,
@@ -228,6 +307,7 @@ function InvoiceDetailDialog({
                       <TableHead>Method</TableHead>
                       <TableHead>Reference</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Proof</TableHead>
                       <TableHead className="text-right">Amount</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -258,6 +338,21 @@ function InvoiceDetailDialog({
                             {payment.verificationStatus}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          {payment.proofAssetUrl ? (
+                            <a
+                              href={payment.proofAssetUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary underline-offset-4 hover:underline"
+                              data-testid={`link-payment-proof-${payment.id}`}
+                            >
+                              View
+                            </a>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
                         <TableCell className="text-right font-medium">
                           {formatCurrency(payment.amount, invoice.currency)}
                         </TableCell>
@@ -274,6 +369,9 @@ function InvoiceDetailDialog({
                 testId="empty-payments"
               />
             )}
+            {parseFloat(invoice.amountOutstanding) > 0 && invoice.status !== "draft" && (
+              <SubmitPaymentForm invoice={invoice} />
+            )}
           </TabsContent>
         </Tabs>
 
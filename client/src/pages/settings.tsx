@@ -0,0 +1,30 @@
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ActiveSessions } from "@/components/active-sessions";
+import { FamilyLinks } from "@/components/family-links";
+import { TimeZoneSettings } from "@/components/time-zone-settings";
+import { useAuth } from "@/hooks/useAuth";
+
+export default function AccountSettings() {
+  const { user } = useAuth();
+  const hasFamilyLinks = user?.role === "parent" || user?.role === "student";
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-6 md:px-8 md:py-8">
+      <div className="mb-8">
+        <h1 className="font-heading text-3xl font-bold" data-testid="text-page-title">
+          Account Security
+        </h1>
+        <p className="mt-1 text-muted-foreground">
+          Manage how you sign in, where your account is signed in, and your time zone.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <TwoFactorSettings />
+        <ActiveSessions />
+        <TimeZoneSettings />
+        {user && hasFamilyLinks && <FamilyLinks user={user} />}
+      </div>
+    </div>
+  );
+}
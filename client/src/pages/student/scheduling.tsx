@@ -1,6 +1,6 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState } from "react";
-import { Calendar, Clock, Check, X, Send, BookOpen, User } from "lucide-react";
+import { Calendar, Clock, Check, X, Send, BookOpen, User, Repeat } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,23 +20,28 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { EmptyState } from "@/components/empty-state";
-import { format, addDays, startOfWeek, setHours, setMinutes, isBefore, isAfter } from "date-fns";
-import type { EnrollmentWithDetails, TutorAvailability, SessionProposalWithDetails } from "@shared/schema";
+import { addDays, startOfDay } from "date-fns";
+import type { EnrollmentWithDetails, SessionProposalWithDetails } from "@shared/schema";
+import { MAX_RECURRENCE_OCCURRENCES, describeRecurrence } from "@shared/schedulingPolicy";
+import { DEFAULT_SLOT_DURATION_MINUTES } from "@shared/slotPolicy";
 
-const DAYS_OF_WEEK = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const SLOT_SEARCH_DAYS = 14;
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
 
-function formatTimeDisplay(time: string) {
-  const [hours, minutes] = time.split(":");
-  const hour = parseInt(hours);
-  const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
-  const ampm = hour >= 12 ? "PM" : "AM";
-  return `${displayHour}:${minutes} ${ampm}`;
+type BookableSlot = { startTime: string; endTime: string };
+
+function formatDuration(minutes: number) {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
 }
 
 function getStatusBadge(status: string) {
@@ -53,6 +58,9 @@ function getStatusBadge(status: string) {
 }
 
 function ProposalCard({ proposal }: { proposal: SessionProposalWithDetails }) {
+  const { formatTime } = useTimeZone();
+  const recurrence = describeRecurrence(proposal);
+
   return (
     <Card className="hover-elevate" data-testid={`proposal-card-${proposal.id}`}>
       <CardContent className="p-4">
@@ -70,15 +78,21 @@ function ProposalCard({ proposal }: { proposal: SessionProposalWithDetails }) {
             </div>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Calendar className="h-4 w-4" />
-              <span>{format(new Date(proposal.proposedStartTime), "EEEE, MMM d, yyyy")}</span>
+              <span>{formatTime(proposal.proposedStartTime, "EEEE, MMM d, yyyy")}</span>
             </div>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Clock className="h-4 w-4" />
               <span>
-                {format(new Date(proposal.proposedStartTime), "h:mm a")} -{" "}
-                {format(new Date(proposal.proposedEndTime), "h:mm a")}
+                {formatTime(proposal.proposedStartTime, "h:mm a")} -{" "}
+                {formatTime(proposal.proposedEndTime, "h:mm a")}
               </span>
             </div>
+            {recurrence && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Repeat className="h-4 w-4" />
+                <span>{recurrence}</span>
+              </div>
+            )}
             {proposal.studentMessage && (
               <p className="mt-2 text-sm text-muted-foreground">
                 "{proposal.studentMessage}"
@@ -99,15 +113,20 @@ function ProposalCard({ proposal }: { proposal: SessionProposalWithDetails }) {
 
 export default function StudentSchedulingPage() {
   const { toast } = useToast();
+  const { timeZone, formatTime } = useTimeZone();
   const [selectedEnrollment, setSelectedEnrollment] = useState<EnrollmentWithDetails | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [selectedSlot, setSelectedSlot] = useState<{
-    dayOfWeek: number;
-    startTime: string;
-    endTime: string;
-    date: Date;
-  } | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<BookableSlot | null>(null);
+  const [duration, setDuration] = useState(String(DEFAULT_SLOT_DURATION_MINUTES));
+  const [searchRange] = useState(() => {
+    const now = new Date();
+    return { from: now.toISOString(), to: addDays(startOfDay(now), SLOT_SEARCH_DAYS).toISOString() };
+  });
   const [message, setMessage] = useState("");
+  const [repeat, setRepeat] = useState<"none" | "weekly" | "fortnightly">("none");
+  const [repeatEnd, setRepeatEnd] = useState<"count" | "date">("count");
+  const [repeatCount, setRepeatCount] = useState("4");
+  const [repeatUntil, setRepeatUntil] = useState("");
 
   const { data: enrollments, isLoading: enrollmentsLoading } = useQuery<EnrollmentWithDetails[]>({
     queryKey: ["/api/enrollments/student"],
@@ -117,9 +136,11 @@ export default function StudentSchedulingPage() {
     queryKey: ["/api/session-proposals/student"],
   });
 
-  const { data: availability, isLoading: availabilityLoading } = useQuery<TutorAvailability[]>({
-    queryKey: ["/api/tutors", selectedEnrollment?.course?.tutorId, "availability"],
-    enabled: !!selectedEnrollment?.course?.tutorId,
+  const tutorId = selectedEnrollment?.course?.tutorId;
+  const slotQuery = new URLSearchParams({ ...searchRange, duration }).toString();
+  const { data: slots, isLoading: slotsLoading } = useQuery<BookableSlot[]>({
+    queryKey: ["/api/tutors", tutorId, `slots?${slotQuery}`],
+    enabled: !!tutorId,
   });
 
   const proposeMutation = useMutation({
@@ -129,23 +150,28 @@ export default function StudentSchedulingPage() {
       proposedStartTime: string;
       proposedEndTime: string;
       studentMessage?: string;
+      recurrenceFrequency?: "weekly" | "fortnightly";
+      recurrenceCount?: number;
+      recurrenceEndDate?: string;
     }) => {
       return apiRequest("POST", "/api/session-proposals", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/session-proposals/student"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tutors", tutorId] });
       setIsDialogOpen(false);
       setSelectedSlot(null);
       setMessage("");
+      setRepeat("none");
       toast({
         title: "Session proposed",
         description: "Your session proposal has been sent to the tutor.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to send proposal.",
+        description: error.message || "Failed to send proposal.",
         variant: "destructive",
       });
     },
@@ -156,61 +182,36 @@ export default function StudentSchedulingPage() {
     setSelectedEnrollment(enrollment || null);
   };
 
-  const handleSelectSlot = (slot: TutorAvailability, weekOffset: number) => {
-    const today = new Date();
-    const weekStart = startOfWeek(addDays(today, weekOffset * 7), { weekStartsOn: 0 });
-    const slotDate = addDays(weekStart, slot.dayOfWeek);
-    
-    const [startHour, startMin] = slot.startTime.split(":").map(Number);
-    const proposedDate = setMinutes(setHours(slotDate, startHour), startMin);
-    
-    if (isBefore(proposedDate, today)) {
-      toast({
-        title: "Invalid time",
-        description: "Cannot schedule a session in the past.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setSelectedSlot({
-      dayOfWeek: slot.dayOfWeek,
-      startTime: slot.startTime,
-      endTime: slot.endTime,
-      date: slotDate,
-    });
+  const handleSelectSlot = (slot: BookableSlot) => {
+    setSelectedSlot(slot);
     setIsDialogOpen(true);
   };
 
   const handleSubmitProposal = () => {
     if (!selectedEnrollment || !selectedSlot) return;
 
-    const [startHour, startMin] = selectedSlot.startTime.split(":").map(Number);
-    const [endHour, endMin] = selectedSlot.endTime.split(":").map(Number);
-    
-    const proposedStart = setMinutes(setHours(selectedSlot.date, startHour), startMin);
-    const proposedEnd = setMinutes(setHours(selectedSlot.date, endHour), endMin);
-
     proposeMutation.mutate({
       tutorId: selectedEnrollment.course.tutorId,
       courseId: selectedEnrollment.courseId,
-      proposedStartTime: proposedStart.toISOString(),
-      proposedEndTime: proposedEnd.toISOString(),
+      proposedStartTime: selectedSlot.startTime,
+      proposedEndTime: selectedSlot.endTime,
       studentMessage: message || undefined,
+      ...(repeat !== "none" && {
+        recurrenceFrequency: repeat,
+        ...(repeatEnd === "count"
+          ? { recurrenceCount: parseInt(repeatCount) }
+          : { recurrenceEndDate: repeatUntil }),
+      }),
     });
   };
 
-  const groupedAvailability = (availability || []).reduce((acc, slot) => {
-    if (!slot.isActive) return acc;
-    const day = slot.dayOfWeek;
-    if (!acc[day]) acc[day] = [];
-    acc[day].push(slot);
+  // Slots arrive in time order, so grouping keeps both days and times sorted
+  const slotsByDay = (slots || []).reduce((acc, slot) => {
+    const day = formatTime(slot.startTime, "yyyy-MM-dd");
+    if (!acc.has(day)) acc.set(day, []);
+    acc.get(day)!.push(slot);
     return acc;
-  }, {} as Record<number, TutorAvailability[]>);
-
-  Object.keys(groupedAvailability).forEach((day) => {
-    groupedAvailability[Number(day)].sort((a, b) => a.startTime.localeCompare(b.startTime));
-  });
+  }, new Map<string, BookableSlot[]>());
 
   const pendingProposals = (proposals || []).filter((p) => p.status === "pending");
   const approvedProposals = (proposals || []).filter((p) => p.status === "approved");
@@ -284,97 +285,65 @@ export default function StudentSchedulingPage() {
 
           {selectedEnrollment && (
             <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Calendar className="h-5 w-5" />
-                  Tutor Availability
-                </CardTitle>
-                <CardDescription>
-                  Click on an available time slot to propose a session
-                </CardDescription>
+              <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    Available Times
+                  </CardTitle>
+                  <CardDescription>
+                    Open times over the next {SLOT_SEARCH_DAYS} days, shown in {timeZone}. Click one to propose a session.
+                  </CardDescription>
+                </div>
+                <Select value={duration} onValueChange={setDuration}>
+                  <SelectTrigger className="w-40" data-testid="select-duration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {formatDuration(minutes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </CardHeader>
               <CardContent>
-                {availabilityLoading ? (
+                {slotsLoading ? (
                   <div className="space-y-4">
                     {[1, 2, 3].map((i) => (
                       <Skeleton key={i} className="h-16 w-full" />
                     ))}
                   </div>
-                ) : availability && availability.filter((a) => a.isActive).length > 0 ? (
-                  <div className="space-y-6">
-                    <div className="rounded-md border">
-                      <div className="border-b bg-muted/50 px-4 py-2">
-                        <p className="text-sm font-medium">This Week</p>
-                      </div>
-                      <div className="p-4">
-                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-                          {DAYS_OF_WEEK.map((day, index) => {
-                            const slots = groupedAvailability[index] || [];
-                            if (slots.length === 0) return null;
-
-                            return (
-                              <div key={index} className="space-y-2">
-                                <p className="text-sm font-medium">{day}</p>
-                                <div className="flex flex-wrap gap-2">
-                                  {slots.map((slot) => (
-                                    <Button
-                                      key={slot.id}
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() => handleSelectSlot(slot, 0)}
-                                      data-testid={`slot-${slot.id}-week0`}
-                                    >
-                                      <Clock className="mr-1 h-3 w-3" />
-                                      {formatTimeDisplay(slot.startTime)}
-                                    </Button>
-                                  ))}
-                                </div>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      </div>
-                    </div>
-
-                    <div className="rounded-md border">
-                      <div className="border-b bg-muted/50 px-4 py-2">
-                        <p className="text-sm font-medium">Next Week</p>
-                      </div>
-                      <div className="p-4">
-                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-                          {DAYS_OF_WEEK.map((day, index) => {
-                            const slots = groupedAvailability[index] || [];
-                            if (slots.length === 0) return null;
-
-                            return (
-                              <div key={index} className="space-y-2">
-                                <p className="text-sm font-medium">{day}</p>
-                                <div className="flex flex-wrap gap-2">
-                                  {slots.map((slot) => (
-                                    <Button
-                                      key={slot.id}
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() => handleSelectSlot(slot, 1)}
-                                      data-testid={`slot-${slot.id}-week1`}
-                                    >
-                                      <Clock className="mr-1 h-3 w-3" />
-                                      {formatTimeDisplay(slot.startTime)}
-                                    </Button>
-                                  ))}
-                                </div>
-                              </div>
-                            );
-                          })}
+                ) : slotsByDay.size > 0 ? (
+                  <div className="space-y-4">
+                    {Array.from(slotsByDay.entries()).map(([day, daySlots]) => (
+                      <div key={day} className="space-y-2">
+                        <p className="text-sm font-medium">
+                          {formatTime(daySlots[0].startTime, "EEEE, MMM d")}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {daySlots.map((slot) => (
+                            <Button
+                              key={slot.startTime}
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleSelectSlot(slot)}
+                              data-testid={`slot-${slot.startTime}`}
+                            >
+                              <Clock className="mr-1 h-3 w-3" />
+                              {formatTime(slot.startTime, "h:mm a")}
+                            </Button>
+                          ))}
                         </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
                 ) : (
                   <EmptyState
                     icon={<Calendar className="h-8 w-8" />}
-                    title="No availability"
-                    description="This tutor has not set their availability yet."
+                    title="No open times"
+                    description="This tutor has no free time of this length in the next two weeks."
                     testId="empty-availability"
                   />
                 )}
@@ -476,19 +445,79 @@ export default function StudentSchedulingPage() {
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Calendar className="h-4 w-4" />
                     <span>
-                      {format(selectedSlot.date, "EEEE, MMMM d, yyyy")}
+                      {formatTime(selectedSlot.startTime, "EEEE, MMMM d, yyyy")}
                     </span>
                   </div>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Clock className="h-4 w-4" />
                     <span>
-                      {formatTimeDisplay(selectedSlot.startTime)} -{" "}
-                      {formatTimeDisplay(selectedSlot.endTime)}
+                      {formatTime(selectedSlot.startTime, "h:mm a")} -{" "}
+                      {formatTime(selectedSlot.endTime, "h:mm a")}
                     </span>
                   </div>
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="repeat">Repeat</Label>
+                  <Select value={repeat} onValueChange={(value) => setRepeat(value as typeof repeat)}>
+                    <SelectTrigger id="repeat" data-testid="select-repeat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="fortnightly">Fortnightly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {repeat !== "none" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="repeat-end">Ends</Label>
+                    <Select value={repeatEnd} onValueChange={(value) => setRepeatEnd(value as typeof repeatEnd)}>
+                      <SelectTrigger id="repeat-end" data-testid="select-repeat-end">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">After a number of sessions</SelectItem>
+                        <SelectItem value="date">On a date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {repeat !== "none" && (
+                <div className="space-y-2">
+                  {repeatEnd === "count" ? (
+                    <>
+                      <Label htmlFor="repeat-count">Number of sessions</Label>
+                      <Input
+                        id="repeat-count"
+                        type="number"
+                        min={2}
+                        max={MAX_RECURRENCE_OCCURRENCES}
+                        value={repeatCount}
+                        onChange={(e) => setRepeatCount(e.target.value)}
+                        data-testid="input-repeat-count"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <Label htmlFor="repeat-until">Last session on or before</Label>
+                      <Input
+                        id="repeat-until"
+                        type="date"
+                        value={repeatUntil}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                        data-testid="input-repeat-until"
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="message">Message (optional)</Label>
                 <Textarea
@@ -512,7 +541,10 @@ export default function StudentSchedulingPage() {
             </Button>
             <Button
               onClick={handleSubmitProposal}
-              disabled={proposeMutation.isPending}
+              disabled={
+                proposeMutation.isPending ||
+                (repeat !== "none" && repeatEnd === "date" && !repeatUntil)
+              }
               data-testid="button-submit-proposal"
             >
               {proposeMutation.isPending ? "Sending..." : "Send Proposal"}
@@ -22,9 +22,11 @@ import {
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/useTimeZone";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { EmptyState } from "@/components/empty-state";
+import { AvailabilityExceptionsCard } from "@/components/availability-exceptions";
 import type { TutorAvailability } from "@shared/schema";
 
 const DAYS_OF_WEEK = [
@@ -76,6 +78,7 @@ function AvailabilityLoadingSkeleton() {
 
 export default function TutorAvailabilityPage() {
   const { toast } = useToast();
+  const { timeZone } = useTimeZone();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSlot, setEditingSlot] = useState<AvailabilitySlot | null>(null);
   const [formData, setFormData] = useState<AvailabilitySlot>({
@@ -230,7 +233,7 @@ export default function TutorAvailabilityPage() {
             My Availability
           </h1>
           <p className="mt-1 text-muted-foreground">
-            Set your weekly recurring availability for tutoring sessions.
+            Set your weekly recurring availability for tutoring sessions. Times are in {timeZone}.
           </p>
         </div>
         <Button onClick={openAddDialog} data-testid="button-add-availability">
@@ -267,6 +270,11 @@ export default function TutorAvailabilityPage() {
                         <span className="font-medium">
                           {formatTimeDisplay(slot.startTime)} - {formatTimeDisplay(slot.endTime)}
                         </span>
+                        {slot.timeZone !== timeZone && (
+                          <Badge variant="outline" className="text-xs" title="Saved in a different time zone; edit to switch it to yours">
+                            {slot.timeZone}
+                          </Badge>
+                        )}
                         {!slot.isActive && (
                           <Badge variant="secondary" className="text-xs">
                             Inactive
@@ -315,6 +323,8 @@ export default function TutorAvailabilityPage() {
         </Card>
       )}
 
+      <AvailabilityExceptionsCard />
+
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
           <DialogHeader>
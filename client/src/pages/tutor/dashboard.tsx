@@ -20,6 +20,7 @@ interface UpcomingSession {
   scheduledStartTime: string;
   scheduledMinutes: number;
   status: string;
+  isGroupSession?: boolean;
 }
 
 interface TutorDashboardData {
@@ -192,7 +193,11 @@ export default function TutorDashboard() {
                       data-testid={`session-${session.id}`}
                     >
                       <div className="flex h-10 w-10 items-center justify-center rounded-full bg-accent text-accent-foreground">
-                        <Calendar className="h-5 w-5" />
+                        {session.isGroupSession ? (
+                          <Users className="h-5 w-5" />
+                        ) : (
+                          <Calendar className="h-5 w-5" />
+                        )}
                       </div>
                       <div className="flex-1 overflow-hidden">
                         <p className="truncate text-sm font-medium">
@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Calendar, Clock, Check, X, User, BookOpen, MessageSquare } from "lucide-react";
+import { Calendar, Clock, Check, X, User, BookOpen, MessageSquare, Repeat, AlertCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -21,6 +21,13 @@ import { EmptyState } from "@/components/empty-state";
 import { format } from "date-fns";
 import { useState } from "react";
 import type { SessionProposalWithDetails } from "@shared/schema";
+import { describeRecurrence } from "@shared/schedulingPolicy";
+
+interface ProposalOccurrence {
+  startTime: string;
+  endTime: string;
+  conflict: boolean;
+}
 
 function getStatusBadge(status: string) {
   switch (status) {
@@ -42,12 +49,33 @@ function ProposalCard({
   isPending,
 }: {
   proposal: SessionProposalWithDetails;
-  onApprove: (id: string) => void;
+  onApprove: (id: string, skipConflicts?: boolean) => void;
   onReject: (id: string, response: string) => void;
   isPending: boolean;
 }) {
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [rejectResponse, setRejectResponse] = useState("");
+  const [seriesDialogOpen, setSeriesDialogOpen] = useState(false);
+  const recurrence = describeRecurrence(proposal);
+
+  const { data: occurrences, isLoading: occurrencesLoading } = useQuery<ProposalOccurrence[]>({
+    queryKey: ["/api/session-proposals", proposal.id, "occurrences"],
+    enabled: seriesDialogOpen,
+  });
+  const conflictCount = (occurrences || []).filter((o) => o.conflict).length;
+
+  const handleApproveClick = () => {
+    if (recurrence) {
+      setSeriesDialogOpen(true);
+    } else {
+      onApprove(proposal.id);
+    }
+  };
+
+  const handleApproveSeries = () => {
+    onApprove(proposal.id, conflictCount > 0);
+    setSeriesDialogOpen(false);
+  };
 
   const handleReject = () => {
     onReject(proposal.id, rejectResponse);
@@ -83,6 +111,12 @@ function ProposalCard({
                   {format(new Date(proposal.proposedEndTime), "h:mm a")}
                 </span>
               </div>
+              {recurrence && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Repeat className="h-4 w-4" />
+                  <span>{recurrence}</span>
+                </div>
+              )}
               {proposal.studentMessage && (
                 <div className="flex items-start gap-2 rounded-md bg-muted p-2 text-sm">
                   <MessageSquare className="mt-0.5 h-4 w-4 text-muted-foreground" />
@@ -105,7 +139,7 @@ function ProposalCard({
                 </Button>
                 <Button
                   size="sm"
-                  onClick={() => onApprove(proposal.id)}
+                  onClick={handleApproveClick}
                   disabled={isPending}
                   data-testid={`button-approve-${proposal.id}`}
                 >
@@ -122,6 +156,67 @@ function ProposalCard({
         </CardContent>
       </Card>
 
+      <Dialog open={seriesDialogOpen} onOpenChange={setSeriesDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve Session Series</DialogTitle>
+            <DialogDescription>
+              {recurrence}. Every occurrence is checked against your existing sessions.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-72 space-y-2 overflow-y-auto py-2">
+            {occurrencesLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : (
+              (occurrences || []).map((occurrence) => (
+                <div
+                  key={occurrence.startTime}
+                  className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                  data-testid={`occurrence-${occurrence.startTime}`}
+                >
+                  <span>
+                    {format(new Date(occurrence.startTime), "EEE, MMM d, yyyy h:mm a")}
+                  </span>
+                  {occurrence.conflict ? (
+                    <Badge variant="destructive">
+                      <AlertCircle className="mr-1 h-3 w-3" />
+                      Conflict
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">Available</Badge>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+          {conflictCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {conflictCount} conflicting {conflictCount === 1 ? "occurrence" : "occurrences"} will not be scheduled.
+            </p>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setSeriesDialogOpen(false)}
+              data-testid="button-cancel-series"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApproveSeries}
+              disabled={
+                isPending ||
+                occurrencesLoading ||
+                (occurrences !== undefined && conflictCount === occurrences.length)
+              }
+              data-testid="button-confirm-series"
+            >
+              {conflictCount > 0 ? "Approve Available Dates" : "Approve Series"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -173,20 +268,21 @@ export default function TutorProposalsPage() {
   });
 
   const approveMutation = useMutation({
-    mutationFn: async (id: string) => {
-      return apiRequest("PATCH", `/api/session-proposals/${id}/approve`);
+    mutationFn: async ({ id, skipConflicts }: { id: string; skipConflicts?: boolean }) => {
+      return apiRequest("PATCH", `/api/session-proposals/${id}/approve`, skipConflicts ? { skipConflicts } : undefined);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/session-proposals/tutor"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tutoring-sessions"] });
       toast({
         title: "Proposal approved",
         description: "The session has been scheduled.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to approve proposal.",
+        description: error.message || "Failed to approve proposal.",
         variant: "destructive",
       });
     },
@@ -212,8 +308,8 @@ export default function TutorProposalsPage() {
     },
   });
 
-  const handleApprove = (id: string) => {
-    approveMutation.mutate(id);
+  const handleApprove = (id: string, skipConflicts?: boolean) => {
+    approveMutation.mutate({ id, skipConflicts });
   };
 
   const handleReject = (id: string, response: string) => {
@@ -0,0 +1,34 @@
+// Audit trail for admin mutations: who changed which record, and a field-level
+// diff of the record before and after the change
+
+import { storage } from "./storage";
+import { diffAuditValues, type AuditEntityType } from "@shared/auditPolicy";
+import type { AuditLog } from "@shared/schema";
+
+export type AuditEntry = {
+  actorId: string | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  targetUserId?: string | null;
+  // Record state around the mutation; leave one side out for creates and deletes
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+};
+
+export async function recordAudit(entry: AuditEntry): Promise<AuditLog> {
+  const changes = diffAuditValues(
+    entry.before as Record<string, unknown> | null | undefined,
+    entry.after as Record<string, unknown> | null | undefined,
+  );
+  return storage.createAuditLog({
+    performedById: entry.actorId,
+    targetUserId: entry.targetUserId ?? null,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    changes,
+    metadata: entry.metadata ?? null,
+  });
+}
@@ -3,14 +3,119 @@ import type { Express, Request, Response, NextFunction, RequestHandler } from "e
 import connectPg from "connect-pg-simple";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
+import { getAppBaseUrl, redeemAuthToken, sendPasswordResetEmail, sendVerificationEmail } from "./authTokens";
+import { applyImpersonation, stopImpersonation, type ImpersonationState } from "./impersonation";
+import { checkLoginAllowed, getClientIp, normalizeLoginIdentifier, recordFailedLogin, recordSuccessfulLogin } from "./loginThrottle";
+import {
+  findTotpStep,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  getOtpAuthUrl,
+  getQrCodeDataUrl,
+  hashRecoveryCode,
+  verifySecondFactor,
+} from "./twoFactor";
+import {
+  SESSION_ACTIVITY_INTERVAL_SECONDS,
+  TWO_FACTOR_CHALLENGE_TTL_MINUTES,
+  canUseTwoFactor,
+  isTwoFactorRequired,
+  validateNewPassword,
+} from "@shared/authPolicy";
+import type { User } from "@shared/schema";
 
 declare module "express-session" {
   interface SessionData {
     userId: string;
+    // Set once this session has passed (or enrolled in) two-factor authentication
+    twoFactorVerified?: boolean;
+    // Staff who passed the password step but still owe an authenticator code
+    pendingTwoFactor?: { userId: string; expiresAt: number };
+    // Where and when this session signed in, for the account's session list
+    device?: SessionDevice;
+    // Set while a super admin is signed in as another user
+    impersonation?: ImpersonationState;
   }
 }
 
-export function getSession() {
+export type SessionDevice = {
+  userId: string;
+  userAgent: string | null;
+  ipAddress: string;
+  signedInAt: number;
+  lastSeenAt: number;
+};
+
+// Stamps signed-in sessions with their device and last activity. Activity is
+// only written once per interval so ordinary requests do not rewrite the session.
+function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  const userId = req.session?.userId;
+  if (!userId) return next();
+
+  const now = Date.now();
+  const device = req.session.device;
+  if (!device || device.userId !== userId) {
+    req.session.device = {
+      userId,
+      userAgent: req.get("user-agent") ?? null,
+      ipAddress: getClientIp(req),
+      signedInAt: now,
+      lastSeenAt: now,
+    };
+  } else if (now - device.lastSeenAt >= SESSION_ACTIVITY_INTERVAL_SECONDS * 1000) {
+    device.lastSeenAt = now;
+    device.ipAddress = getClientIp(req);
+  }
+  next();
+}
+
+type TwoFactorSession = { twoFactorVerified?: boolean } | undefined;
+
+// Accounts with 2FA enrolled, or required to have it, need a verified session
+export function isTwoFactorSatisfied(session: TwoFactorSession, user: User): boolean {
+  if (!user.twoFactorEnabled && !isTwoFactorRequired(user)) return true;
+  return session?.twoFactorVerified === true;
+}
+
+// Second half of a staff sign-in. Accounts with 2FA get a pending challenge
+// instead of a session; returns true when the response has been sent.
+export async function requireTwoFactorChallenge(req: Request, res: Response, user: User): Promise<boolean> {
+  req.session.twoFactorVerified = false;
+  if (!user.twoFactorEnabled) return false;
+
+  delete req.session.userId;
+  req.session.pendingTwoFactor = {
+    userId: user.id,
+    expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MINUTES * 60 * 1000,
+  };
+  await new Promise<void>((resolve, reject) => req.session.save((err) => (err ? reject(err) : resolve())));
+  res.json({ message: "Enter the code from your authenticator app", requiresTwoFactor: true });
+  return true;
+}
+
+// Routes a session may reach while it still owes two-factor enrolment or verification
+const TWO_FACTOR_EXEMPT_PATHS = ["/api/auth/user", "/api/auth/logout"];
+
+function isTwoFactorExemptPath(req: Request): boolean {
+  const path = req.originalUrl.split("?")[0];
+  return TWO_FACTOR_EXEMPT_PATHS.includes(path) || path.startsWith("/api/auth/2fa/");
+}
+
+// Signing out mid-impersonation still records the impersonation as stopped
+async function endImpersonationOnLogout(req: Request) {
+  if (!req.session?.impersonation) return;
+  try {
+    await stopImpersonation(req, "logout");
+  } catch (error) {
+    console.error("Error ending impersonation on logout:", error);
+  }
+}
+
+// Shared so the chat WebSocket upgrade can authenticate against the same session store
+let sessionMiddleware: RequestHandler | undefined;
+
+export function getSession(): RequestHandler {
+  if (sessionMiddleware) return sessionMiddleware;
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -19,7 +124,7 @@ export function getSession() {
     ttl: sessionTtl,
     tableName: "sessions",
   });
-  return session({
+  sessionMiddleware = session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
     resave: false,
@@ -31,11 +136,13 @@ export function getSession() {
       sameSite: "lax",
     },
   });
+  return sessionMiddleware;
 }
 
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
+  app.use(trackSessionActivity);
 
   app.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
@@ -45,8 +152,12 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email and password required" });
       }
 
+      const identifier = normalizeLoginIdentifier(email);
+      if (!(await checkLoginAllowed(req, res, identifier))) return;
+
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await recordFailedLogin(req, identifier, "login");
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
@@ -63,6 +174,7 @@ export async function setupAuth(app: Express) {
 
       const isValid = await bcrypt.compare(password, user.passwordHash);
       if (!isValid) {
+        await recordFailedLogin(req, identifier, "login", user);
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
@@ -78,6 +190,8 @@ export async function setupAuth(app: Express) {
         return res.status(403).json({ message: "Account has been rejected" });
       }
 
+      await recordSuccessfulLogin(identifier);
+
       req.session.userId = user.id;
       req.session.save((err) => {
         if (err) {
@@ -110,8 +224,9 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email and password required" });
       }
 
-      if (password.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      const passwordError = validateNewPassword(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
       }
 
       const existingUser = await storage.getUserByEmail(email);
@@ -141,6 +256,12 @@ export async function setupAuth(app: Express) {
         status: "active",
       });
 
+      try {
+        await sendVerificationEmail(user, getAppBaseUrl());
+      } catch (mailError) {
+        console.error("Error sending verification email:", mailError);
+      }
+
       req.session.userId = user.id;
       req.session.save((err) => {
         if (err) {
@@ -155,6 +276,7 @@ export async function setupAuth(app: Express) {
             firstName: user.firstName,
             lastName: user.lastName,
             role: user.role,
+            emailVerified: false,
           }
         });
       });
@@ -172,9 +294,13 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email and password required" });
       }
 
+      const identifier = normalizeLoginIdentifier(email);
+      if (!(await checkLoginAllowed(req, res, identifier))) return;
+
       // 1. Lookup user first
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await recordFailedLogin(req, identifier, "staff-login");
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
@@ -195,6 +321,7 @@ export async function setupAuth(app: Express) {
 
       const isValid = await bcrypt.compare(password, user.passwordHash);
       if (!isValid) {
+        await recordFailedLogin(req, identifier, "staff-login", user);
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
@@ -206,6 +333,10 @@ export async function setupAuth(app: Express) {
         return res.status(403).json({ message: "Account pending approval" });
       }
 
+      await recordSuccessfulLogin(identifier);
+
+      if (await requireTwoFactorChallenge(req, res, user)) return;
+
       req.session.userId = user.id;
       req.session.save((err) => {
         if (err) {
@@ -231,7 +362,292 @@ export async function setupAuth(app: Express) {
     }
   });
 
-  app.get("/api/logout", (req: Request, res: Response) => {
+  // Always answers the same way so the endpoint cannot be used to discover accounts
+  app.post("/api/auth/password-reset/request", async (req: Request, res: Response) => {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Email required" });
+      }
+
+      const user = await storage.getUserByEmail(email.trim());
+      if (user && user.isActive && user.status !== "rejected") {
+        await sendPasswordResetEmail(user, getAppBaseUrl());
+      }
+
+      res.json({ message: "If an account exists for that email, a reset link has been sent." });
+    } catch (error) {
+      console.error("Password reset request error:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Reset token required" });
+      }
+
+      const passwordError = validateNewPassword(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      // Invitation links for imported accounts set the first password the same way
+      const userId = (await redeemAuthToken(token, "password_reset")) ?? (await redeemAuthToken(token, "invitation"));
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      // Following the emailed link proves ownership of the address
+      await storage.updateUser(user.id, {
+        passwordHash: await bcrypt.hash(password, 10),
+        ...(user.emailVerifiedAt ? {} : { emailVerifiedAt: new Date() }),
+      });
+      await storage.deleteUnusedAuthTokens(user.id, "password_reset");
+      await storage.deleteUnusedAuthTokens(user.id, "invitation");
+      await storage.deleteUserSessions(user.id);
+
+      res.json({ message: "Password updated. Please sign in with your new password." });
+    } catch (error) {
+      console.error("Password reset confirm error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/request", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).dbUser;
+
+      if (user.emailVerifiedAt) {
+        return res.json({ message: "Email already verified" });
+      }
+
+      if (!user.email) {
+        return res.status(400).json({ message: "No email address on this account" });
+      }
+
+      await sendVerificationEmail(user, getAppBaseUrl());
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Verification email request error:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/confirm", async (req: Request, res: Response) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Verification token required" });
+      }
+
+      const userId = await redeemAuthToken(token, "email_verification");
+      if (!userId) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      await storage.updateUser(userId, { emailVerifiedAt: new Date() });
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      console.error("Email verification error:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // ==========================================
+  // TWO-FACTOR AUTHENTICATION
+  // ==========================================
+
+  // Second sign-in step: accepts an authenticator code or a recovery code
+  app.post("/api/auth/2fa/verify", async (req: Request, res: Response) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ message: "Authentication code required" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const identifier = normalizeLoginIdentifier(user.email);
+      if (!(await checkLoginAllowed(req, res, identifier))) return;
+
+      const method = await verifySecondFactor(user.id, code, { allowRecoveryCode: true });
+      if (!method) {
+        await recordFailedLogin(req, identifier, "2fa/verify", user);
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await recordSuccessfulLogin(identifier);
+
+      delete req.session.pendingTwoFactor;
+      req.session.userId = user.id;
+      req.session.twoFactorVerified = true;
+      req.session.save((err) => {
+        if (err) {
+          console.error("Session save error:", err);
+          return res.status(500).json({ message: "Login failed" });
+        }
+        res.json({ message: "Login successful", redirect: "/", usedRecoveryCode: method === "recovery" });
+      });
+    } catch (error) {
+      console.error("Two-factor verification error:", error);
+      res.status(500).json({ message: "Failed to verify authentication code" });
+    }
+  });
+
+  app.get("/api/auth/2fa/status", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user: User = (req as any).dbUser;
+      const credential = user.twoFactorEnabled ? await storage.getTwoFactorCredential(user.id) : undefined;
+      const recoveryCodes = credential?.recoveryCodeHashes as string[] | null | undefined;
+
+      res.json({
+        available: canUseTwoFactor(user),
+        required: isTwoFactorRequired(user),
+        enabled: user.twoFactorEnabled,
+        recoveryCodesRemaining: recoveryCodes?.length ?? 0,
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Enrolment, step one: a fresh secret to scan into an authenticator app
+  app.post("/api/auth/2fa/setup", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user: User = (req as any).dbUser;
+
+      if (!canUseTwoFactor(user)) {
+        return res.status(403).json({ message: "Two-factor authentication is only available for staff accounts" });
+      }
+
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.savePendingTwoFactorCredential(user.id, secret);
+
+      const otpauthUrl = getOtpAuthUrl(secret, user.email || user.id);
+      res.json({ secret, otpauthUrl, qrCodeDataUrl: await getQrCodeDataUrl(otpauthUrl) });
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Enrolment, step two: confirm a code from the app and hand out recovery codes
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user: User = (req as any).dbUser;
+      const { code } = req.body;
+
+      const credential = await storage.getTwoFactorCredential(user.id);
+      if (!credential || credential.confirmedAt) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = typeof code === "string" ? findTotpStep(credential.secret, code.replace(/\s/g, "")) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.confirmTwoFactorCredential(user.id, recoveryCodes.map(hashRecoveryCode), step);
+
+      // This session proved the second factor; any others have to sign in again
+      req.session.twoFactorVerified = true;
+      await storage.deleteUserSessions(user.id, req.sessionID);
+
+      await storage.createAuditLog({
+        performedById: user.id,
+        targetUserId: user.id,
+        action: "enable_two_factor",
+        metadata: { targetEmail: user.email },
+      });
+
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user: User = (req as any).dbUser;
+      const { code } = req.body;
+
+      if (isTwoFactorRequired(user)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your account" });
+      }
+
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      if (typeof code !== "string" || !(await verifySecondFactor(user.id, code, { allowRecoveryCode: true }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.deleteTwoFactorCredential(user.id);
+
+      await storage.createAuditLog({
+        performedById: user.id,
+        targetUserId: user.id,
+        action: "disable_two_factor",
+        metadata: { targetEmail: user.email },
+      });
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Error disabling two-factor:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Replaces every recovery code; needs a current authenticator code
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user: User = (req as any).dbUser;
+      const { code } = req.body;
+
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      if (typeof code !== "string" || !(await verifySecondFactor(user.id, code, { allowRecoveryCode: false }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.get("/api/logout", async (req: Request, res: Response) => {
+    await endImpersonationOnLogout(req);
     req.session.destroy((err) => {
       if (err) {
         console.error("Logout error:", err);
@@ -240,7 +656,8 @@ export async function setupAuth(app: Express) {
     });
   });
 
-  app.post("/api/auth/logout", (req: Request, res: Response) => {
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    await endImpersonationOnLogout(req);
     req.session.destroy((err) => {
       if (err) {
         console.error("Logout error:", err);
@@ -273,14 +690,18 @@ export async function setupAuth(app: Express) {
         };
 
         if (password) {
-          if (password.length < 6) {
-            return res.status(400).json({ message: "Password must be at least 6 characters" });
+          const passwordError = validateNewPassword(password);
+          if (passwordError) {
+            return res.status(400).json({ message: passwordError });
           }
           updates.passwordHash = await bcrypt.hash(password, 10);
         }
 
         if (user) {
           user = await storage.updateUser(user.id, updates);
+          if (password && user) {
+            await storage.deleteUserSessions(user.id);
+          }
           res.json({ 
             message: "Super admin account updated successfully",
             passwordSet: !!password,
@@ -324,8 +745,20 @@ export const isAuthenticated: RequestHandler = async (req: Request, res: Respons
     return res.status(403).json({ message: "Account is inactive" });
   }
 
-  (req as any).user = { claims: { sub: userId } };
-  (req as any).dbUser = user;
+  if (!isTwoFactorSatisfied(req.session, user) && !isTwoFactorExemptPath(req)) {
+    return res.status(403).json({
+      message: user.twoFactorEnabled
+        ? "Two-factor verification required"
+        : "Two-factor authentication setup required",
+      code: "TWO_FACTOR_REQUIRED",
+    });
+  }
+
+  const effectiveUser = await applyImpersonation(req, res, user);
+  if (!effectiveUser) return;
+
+  (req as any).user = { claims: { sub: effectiveUser.id } };
+  (req as any).dbUser = effectiveUser;
   
   next();
 };
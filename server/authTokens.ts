@@ -0,0 +1,100 @@
+// Password reset and email verification: issues single-use, time-limited
+// tokens and emails the links that redeem them
+
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { sendMail } from "./mail";
+import { getAuthTokenExpiry } from "@shared/authPolicy";
+import type { AuthTokenPurpose, User } from "@shared/schema";
+
+function hashToken(rawToken: string): string {
+  return createHash("sha256").update(rawToken).digest("hex");
+}
+
+// Emailed links are always built from APP_BASE_URL, never the request's Host header,
+// so a forged header cannot point reset links at another site
+export function assertAppBaseUrlConfigured(): void {
+  if (!process.env.APP_BASE_URL && process.env.NODE_ENV === "production") {
+    throw new Error("APP_BASE_URL must be set in production so emailed links point at this app.");
+  }
+}
+
+// Outside production the local server stands in when APP_BASE_URL is not set
+export function getAppBaseUrl(): string {
+  return process.env.APP_BASE_URL?.replace(/\/$/, "") || `http://localhost:${process.env.PORT || "5000"}`;
+}
+
+// Issuing a new token retires any earlier unused token of the same kind
+export async function issueAuthToken(userId: string, purpose: AuthTokenPurpose, now: Date = new Date()): Promise<string> {
+  const rawToken = randomBytes(32).toString("hex");
+  await storage.deleteUnusedAuthTokens(userId, purpose);
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(rawToken),
+    expiresAt: getAuthTokenExpiry(purpose, now),
+    usedAt: null,
+  });
+  return rawToken;
+}
+
+// Returns the token's user if it is valid, unexpired and not yet used
+export async function redeemAuthToken(rawToken: string, purpose: AuthTokenPurpose): Promise<string | null> {
+  const token = await storage.consumeAuthToken(hashToken(rawToken), purpose, new Date());
+  return token?.userId ?? null;
+}
+
+function greeting(user: User): string {
+  return user.firstName ? `Hi ${user.firstName},` : "Hi,";
+}
+
+export async function sendPasswordResetEmail(user: User, baseUrl: string): Promise<void> {
+  if (!user.email) return;
+  const token = await issueAuthToken(user.id, "password_reset");
+  await sendMail({
+    to: user.email,
+    subject: "Reset your MCEC password",
+    text: [
+      greeting(user),
+      "",
+      "We received a request to reset your password. Use the link below within the next hour:",
+      `${baseUrl}/auth/reset-password?token=${token}`,
+      "",
+      "If you did not ask for this, you can ignore this email and your password will stay the same.",
+    ].join("\n"),
+  });
+}
+
+// Imported accounts have no password yet; the invitation link sets the first one
+export async function sendInvitationEmail(user: User, baseUrl: string): Promise<void> {
+  if (!user.email) return;
+  const token = await issueAuthToken(user.id, "invitation");
+  await sendMail({
+    to: user.email,
+    subject: "You're invited to MCEC",
+    text: [
+      greeting(user),
+      "",
+      `An account has been created for you on MCEC as a ${user.role}.`,
+      "Choose your password with the link below within the next 7 days:",
+      `${baseUrl}/auth/reset-password?token=${token}&invite=1`,
+      "",
+      "If the link has expired, use \"Forgot password\" on the sign-in page to get a new one.",
+    ].join("\n"),
+  });
+}
+
+export async function sendVerificationEmail(user: User, baseUrl: string): Promise<void> {
+  if (!user.email) return;
+  const token = await issueAuthToken(user.id, "email_verification");
+  await sendMail({
+    to: user.email,
+    subject: "Verify your MCEC email address",
+    text: [
+      greeting(user),
+      "",
+      "Please confirm your email address by opening the link below within 48 hours:",
+      `${baseUrl}/auth/verify-email?token=${token}`,
+    ].join("\n"),
+  });
+}
@@ -0,0 +1,259 @@
+// Monthly billing run: turns each child's completed/missed sessions and wallet
+// shortfalls into draft invoices, one line item per course
+
+import { addDays } from "date-fns";
+import { storage } from "./storage";
+import { createRateLookup } from "./rates";
+import {
+  calculateBlendedRate,
+  calculateLineAmount,
+  calculateTopUpMinutes,
+  type PricedUsage,
+  type BillingPeriod,
+} from "@shared/billingPolicy";
+import { pickBillingParents } from "@shared/parentLinkPolicy";
+import type { CurrencyCode, User } from "@shared/schema";
+
+export type BillingRunOptions = {
+  period: BillingPeriod;
+  currency: CurrencyCode;
+  dueDate?: Date;
+  dryRun: boolean;
+};
+
+export type BillingRunLine = {
+  courseId: string;
+  courseTitle: string;
+  description: string;
+  usedMinutes: number;
+  walletBalanceMinutes: number;
+  minutesToAdd: number;
+  hours: string;
+  hourlyRate: string;
+  discountPercent: number;
+  amount: string;
+};
+
+export type BillingRunInvoice = {
+  parentId: string;
+  parentName: string;
+  studentId: string;
+  studentName: string;
+  currency: CurrencyCode;
+  subtotal: string;
+  lines: BillingRunLine[];
+  invoiceId?: string;
+  invoiceNumber?: string;
+};
+
+export type BillingRunResult = {
+  period: { label: string; start: string; end: string };
+  dryRun: boolean;
+  invoices: BillingRunInvoice[];
+  skippedDuplicates: { studentId: string; studentName: string; invoiceId: string; invoiceNumber: string }[];
+  skipped: { studentId: string; studentName: string; reason: string }[];
+};
+
+type SessionUsage = {
+  minutes: number;
+  sessionDate: Date;
+};
+
+function displayName(user: User | undefined): string {
+  if (!user) return "Unknown";
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Unknown";
+}
+
+export async function runMonthlyBilling(options: BillingRunOptions): Promise<BillingRunResult> {
+  const { period, currency, dryRun } = options;
+
+  const result: BillingRunResult = {
+    period: { label: period.label, start: period.start.toISOString(), end: period.end.toISOString() },
+    dryRun,
+    invoices: [],
+    skippedDuplicates: [],
+    skipped: [],
+  };
+
+  // A child with several parents is billed once, to the primary billing parent
+  // (or the earliest link when none is marked)
+  const billingParentByChild = pickBillingParents(await storage.getAllParentChildren());
+
+  // Minutes used per child per course in the period (1:1 sessions plus group attendance),
+  // kept per session so each is priced at the rate card entry in force on its date
+  const sessions = await storage.getBillableSessionsInPeriod(period.start, period.end);
+  const groupSessionIds = sessions.filter(s => s.isGroupSession).map(s => s.id);
+  const attendance = await storage.getSessionAttendanceForSessions(groupSessionIds);
+  const usage = new Map<string, Map<string, SessionUsage[]>>();
+  const addUsage = (studentId: string, courseId: string, minutes: number, sessionDate: Date) => {
+    const byCourse = usage.get(studentId) ?? new Map<string, SessionUsage[]>();
+    byCourse.set(courseId, [...(byCourse.get(courseId) ?? []), { minutes, sessionDate }]);
+    usage.set(studentId, byCourse);
+  };
+  const sessionsById = new Map(sessions.map(s => [s.id, s]));
+  for (const session of sessions) {
+    if (!session.isGroupSession && session.studentId) {
+      addUsage(
+        session.studentId,
+        session.courseId,
+        session.billableMinutes ?? session.scheduledMinutes ?? 0,
+        new Date(session.scheduledStartTime),
+      );
+    }
+  }
+  for (const record of attendance) {
+    const session = sessionsById.get(record.sessionId);
+    if (!session) continue;
+    addUsage(
+      record.studentId,
+      session.courseId,
+      record.consumedMinutes || record.reservedMinutes || 0,
+      new Date(session.scheduledStartTime),
+    );
+  }
+
+  const existingInvoices = await storage.getInvoicesForBillingPeriod(period.start, period.end, currency);
+  const existingByStudent = new Map(existingInvoices.map(i => [i.studentId, i]));
+  const courses = new Map((await storage.getAllCourses()).map(c => [c.id, c]));
+  const dueDate = options.dueDate ?? addDays(period.end, 7);
+  const rates = createRateLookup();
+
+  // The top-up is priced at the period's blended rate: every session at the rate on its
+  // own date, weighted by its minutes. Without usage (an overdrawn wallet) the rate at
+  // the end of the period applies.
+  const getPeriodRate = async (courseId: string, used: SessionUsage[], studentId: string) => {
+    if (used.every(u => u.minutes <= 0)) {
+      return rates.courseRate(courseId, currency, period.end, studentId);
+    }
+    const priced: PricedUsage[] = [];
+    for (const { minutes, sessionDate } of used) {
+      const rate = await rates.courseRate(courseId, currency, sessionDate, studentId);
+      if (!rate) return null;
+      priced.push({ minutes, hourlyRate: rate.hourlyRate, baseRate: rate.baseRate });
+    }
+    return calculateBlendedRate(priced);
+  };
+
+  for (const [studentId, parentId] of Array.from(billingParentByChild.entries())) {
+    const student = await storage.getUser(studentId);
+    const studentName = displayName(student);
+
+    const existing = existingByStudent.get(studentId);
+    if (existing) {
+      result.skippedDuplicates.push({
+        studentId,
+        studentName,
+        invoiceId: existing.id,
+        invoiceNumber: existing.invoiceNumber,
+      });
+      continue;
+    }
+
+    // Courses to consider: anything used this period plus any wallet that needs topping up
+    const usedByCourse = usage.get(studentId) ?? new Map<string, SessionUsage[]>();
+    const wallets = await storage.getHourWalletsByStudent(studentId);
+    const balanceByCourse = new Map(wallets.map(w => [w.courseId, w.purchasedMinutes - w.consumedMinutes]));
+    const courseIds = new Set([...Array.from(usedByCourse.keys()), ...Array.from(balanceByCourse.keys())]);
+
+    const lines: BillingRunLine[] = [];
+    for (const courseId of Array.from(courseIds)) {
+      const used = usedByCourse.get(courseId) ?? [];
+      const usedMinutes = used.reduce((sum, u) => sum + u.minutes, 0);
+      const walletBalanceMinutes = balanceByCourse.get(courseId) ?? 0;
+      const minutesToAdd = calculateTopUpMinutes(usedMinutes, walletBalanceMinutes);
+      if (minutesToAdd === 0) continue;
+
+      const course = courses.get(courseId);
+      const courseTitle = course?.title ?? "Course";
+      const rate = await getPeriodRate(courseId, used, studentId);
+      if (!rate) {
+        result.skipped.push({ studentId, studentName, reason: `No ${currency} rate card for ${courseTitle}` });
+        continue;
+      }
+
+      const { hours, amount } = calculateLineAmount(minutesToAdd, rate.hourlyRate);
+      lines.push({
+        courseId,
+        courseTitle,
+        description: `${courseTitle} - ${period.label} top-up (${(usedMinutes / 60).toFixed(2)}h used)`,
+        usedMinutes,
+        walletBalanceMinutes,
+        minutesToAdd,
+        hours,
+        hourlyRate: rate.hourlyRate.toFixed(2),
+        discountPercent: rate.discountPercent,
+        amount,
+      });
+    }
+
+    if (lines.length === 0) {
+      if (usedByCourse.size > 0) {
+        result.skipped.push({ studentId, studentName, reason: "Wallet balance already covers usage" });
+      }
+      continue;
+    }
+
+    const subtotal = lines.reduce((sum, line) => sum + parseFloat(line.amount), 0);
+    const planned: BillingRunInvoice = {
+      parentId,
+      parentName: displayName(await storage.getUser(parentId)),
+      studentId,
+      studentName,
+      currency,
+      subtotal: subtotal.toFixed(2),
+      lines,
+    };
+
+    if (!dryRun) {
+      const { status, invoice } = await storage.createBillingRunInvoice({
+        parentId,
+        studentId,
+        billingPeriodStart: period.start,
+        billingPeriodEnd: period.end,
+        currency,
+        subtotal: planned.subtotal,
+        taxAmount: "0.00",
+        totalAmount: planned.subtotal,
+        amountPaid: "0.00",
+        amountOutstanding: planned.subtotal,
+        status: "draft",
+        dueDate,
+        notes: `Generated by monthly billing run for ${period.label}`,
+      }, lines.map(line => ({
+        courseId: line.courseId,
+        description: line.description,
+        hours: line.hours,
+        hourlyRate: line.hourlyRate,
+        amount: line.amount,
+        minutesToAdd: line.minutesToAdd,
+      })));
+      // Another run invoiced this student since the check above
+      if (status === "duplicate") {
+        result.skippedDuplicates.push({
+          studentId,
+          studentName,
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+        });
+        continue;
+      }
+      planned.invoiceId = invoice.id;
+      planned.invoiceNumber = invoice.invoiceNumber;
+    }
+
+    result.invoices.push(planned);
+  }
+
+  // Children with usage but no parent link cannot be invoiced
+  for (const studentId of Array.from(usage.keys())) {
+    if (!billingParentByChild.has(studentId)) {
+      result.skipped.push({
+        studentId,
+        studentName: displayName(await storage.getUser(studentId)),
+        reason: "No linked parent to bill",
+      });
+    }
+  }
+
+  return result;
+}
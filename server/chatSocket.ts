@@ -0,0 +1,187 @@
+// Real-time chat delivery: a session-authenticated WebSocket on the main HTTP
+// server that pushes new messages, typing indicators and delivery/read receipts
+// to online thread participants. REST remains the source of truth for history.
+
+import type { IncomingMessage, Server } from "http";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { getSession, isTwoFactorSatisfied } from "./auth";
+import { storage } from "./storage";
+import { CHAT_SOCKET_PATH } from "@shared/messagingPolicy";
+import type { ChatMessage, MessageReceipt } from "@shared/schema";
+
+export type ChatSocketServerEvent =
+  | { type: "message"; message: ChatMessage }
+  | { type: "typing"; threadId: string; userId: string }
+  | { type: "receipt"; threadId: string; receipts: MessageReceipt[] };
+
+const clientEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("typing"), threadId: z.string().min(1) }),
+  z.object({ type: z.literal("read"), threadId: z.string().min(1) }),
+  z.object({
+    type: z.literal("delivered"),
+    threadId: z.string().min(1),
+    messageIds: z.array(z.string().min(1)).min(1).max(200),
+  }),
+]);
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const socketsByUser = new Map<string, Set<WebSocket>>();
+const aliveSockets = new WeakSet<WebSocket>();
+// Session each socket signed in with, so revoking a session can drop its socket
+const socketSessionIds = new WeakMap<WebSocket, string>();
+
+function sendToUsers(userIds: string[], event: ChatSocketServerEvent) {
+  const payload = JSON.stringify(event);
+  for (const userId of userIds) {
+    for (const socket of Array.from(socketsByUser.get(userId) ?? [])) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+}
+
+// Closes the user's open sockets (or only those for the given sessions) after sign-out
+export function disconnectChatSockets(userId: string, sessionIds?: string[]) {
+  for (const socket of Array.from(socketsByUser.get(userId) ?? [])) {
+    if (!sessionIds || sessionIds.includes(socketSessionIds.get(socket) ?? "")) {
+      socket.close(4001, "Session revoked");
+    }
+  }
+}
+
+async function pushReceipts(threadId: string, receipts: MessageReceipt[]) {
+  if (receipts.length === 0) return;
+  const participantIds = await storage.getChatThreadParticipantIds(threadId);
+  sendToUsers(participantIds, { type: "receipt", threadId, receipts });
+}
+
+// Called after a message is stored; the thread's participants are loaded once and
+// only their open sockets get the push. Read-only viewers of course threads (staff,
+// parents) pick new messages up over REST.
+export async function publishChatMessage(message: ChatMessage): Promise<void> {
+  const participantIds = new Set(await storage.getChatThreadParticipantIds(message.threadId));
+  sendToUsers(
+    Array.from(socketsByUser.keys()).filter((userId) => participantIds.has(userId)),
+    { type: "message", message },
+  );
+}
+
+export async function publishThreadRead(threadId: string, userId: string): Promise<MessageReceipt[]> {
+  const receipts = await storage.markThreadRead(threadId, userId);
+  await pushReceipts(threadId, receipts);
+  return receipts;
+}
+
+async function handleClientEvent(userId: string, raw: string) {
+  const parsed = clientEventSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) return;
+  const event = parsed.data;
+
+  // Only members post, type and leave receipts
+  if ((await storage.getChatThreadAccess(event.threadId, userId)) !== "write") return;
+
+  switch (event.type) {
+    case "typing": {
+      const participantIds = await storage.getChatThreadParticipantIds(event.threadId);
+      sendToUsers(
+        participantIds.filter((id) => id !== userId),
+        { type: "typing", threadId: event.threadId, userId },
+      );
+      break;
+    }
+    case "read":
+      await publishThreadRead(event.threadId, userId);
+      break;
+    case "delivered": {
+      const receipts = await storage.markMessagesDelivered(event.threadId, event.messageIds, userId);
+      await pushReceipts(event.threadId, receipts);
+      break;
+    }
+  }
+}
+
+// Runs the express-session middleware against the upgrade request and returns
+// the signed-in user and session if they may use messaging
+function authenticateUpgrade(req: IncomingMessage): Promise<{ userId: string; sessionId: string } | null> {
+  return new Promise((resolve) => {
+    getSession()(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.userId;
+        // No live chat while a super admin is signed in as someone else
+        if (!userId || (req as Request).session.impersonation) return resolve(null);
+        const user = await storage.getUser(userId);
+        const allowed = user && user.isActive && user.status === "active" &&
+          isTwoFactorSatisfied((req as Request).session, user);
+        resolve(allowed ? { userId: user.id, sessionId: (req as Request).sessionID } : null);
+      } catch (error) {
+        console.error("Error authenticating chat socket:", error);
+        resolve(null);
+      }
+    });
+  });
+}
+
+export function setupChatWebSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    // Other upgrade requests (e.g. the Vite HMR socket) are left to their own handlers
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== CHAT_SOCKET_PATH) return;
+
+    const auth = await authenticateUpgrade(req);
+    if (!auth) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      socketSessionIds.set(ws, auth.sessionId);
+      wss.emit("connection", ws, auth.userId);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket, userId: string) => {
+    const sockets = socketsByUser.get(userId) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    socketsByUser.set(userId, sockets);
+    aliveSockets.add(ws);
+
+    ws.on("pong", () => aliveSockets.add(ws));
+
+    ws.on("message", async (data) => {
+      try {
+        await handleClientEvent(userId, data.toString());
+      } catch (error) {
+        console.error("Error handling chat socket event:", error);
+      }
+    });
+
+    ws.on("close", () => {
+      const userSockets = socketsByUser.get(userId);
+      if (!userSockets) return;
+      userSockets.delete(ws);
+      if (userSockets.size === 0) socketsByUser.delete(userId);
+    });
+  });
+
+  // Drop connections that stopped answering pings so presence does not go stale
+  const heartbeat = setInterval(() => {
+    for (const ws of Array.from(wss.clients)) {
+      if (!aliveSockets.has(ws)) {
+        ws.terminate();
+        continue;
+      }
+      aliveSockets.delete(ws);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
@@ -1,11 +1,15 @@
-// Authentication fallback when Azure AD / Twilio are not configured
+// Authentication fallback when Azure AD is not configured, plus phone OTP sign-in
 // Staff email+password auth is enabled when Azure SSO credentials are missing
-// Phone OTP fallback is enabled when Twilio credentials are missing
+// Phone OTP codes go out through the SMS sender chosen by SMS_SENDER (see sms.ts)
 
 import type { Express, Request, Response } from "express";
 import { storage } from "./storage";
 import crypto from "crypto";
 import { hashPassword, verifyPassword } from "./passwordUtils";
+import { requireTwoFactorChallenge } from "./auth";
+import { checkLoginAllowed, normalizeLoginIdentifier, recordFailedLogin, recordSuccessfulLogin } from "./loginThrottle";
+import { issuePhoneOtp, shouldReturnDevOtp, verifyPhoneOtp } from "./otp";
+import { OTP_TTL_MINUTES } from "@shared/authPolicy";
 
 declare module "express-session" {
   interface SessionData {
@@ -22,17 +26,8 @@ const AZURE_SSO_CONFIGURED = !!(
 // Staff fallback auth enabled when Azure SSO is NOT configured
 const STAFF_FALLBACK_ENABLED = !AZURE_SSO_CONFIGURED;
 
-// Check if Twilio is configured for phone OTP
-const TWILIO_CONFIGURED = !!(
-  process.env.TWILIO_ACCOUNT_SID && 
-  process.env.TWILIO_AUTH_TOKEN
-);
-
-// OTP fallback enabled when Twilio is NOT configured  
-const OTP_FALLBACK_ENABLED = !TWILIO_CONFIGURED;
-
-// In-memory OTP storage for dev mode
-const devOtpStore = new Map<string, { otp: string; expiresAt: number; userData: any }>();
+// Local senders only log or write codes to disk
+const OTP_FALLBACK_ENABLED = ["console", "file"].includes(process.env.SMS_SENDER || "console");
 
 export function setupDevAuth(app: Express) {
   // Log auth configuration status
@@ -43,9 +38,13 @@ export function setupDevAuth(app: Express) {
   }
   
   if (OTP_FALLBACK_ENABLED) {
-    console.log("[Auth] Phone OTP fallback ENABLED (Twilio not configured)");
+    console.log("[Auth] Phone OTP codes are logged locally (no SMS provider configured)");
   } else {
-    console.log("[Auth] Phone OTP configured with Twilio");
+    console.log(`[Auth] Phone OTP codes sent with the "${process.env.SMS_SENDER}" SMS sender`);
+  }
+
+  if (shouldReturnDevOtp()) {
+    console.log("[Auth] OTP_RETURN_CODE_IN_RESPONSE is on: OTP codes are included in API responses");
   }
 
   // ==========================================
@@ -139,9 +138,17 @@ export function setupDevAuth(app: Express) {
       try {
         const { email, password } = req.body;
         
+        if (!email || !password) {
+          return res.status(400).json({ message: "Email and password required" });
+        }
+        
+        const identifier = normalizeLoginIdentifier(email);
+        if (!(await checkLoginAllowed(req, res, identifier))) return;
+        
         // 1. Lookup user first
         const user = await storage.getUserByEmail(email);
         if (!user) {
+          await recordFailedLogin(req, identifier, "dev/staff-login");
           return res.status(401).json({ message: "Invalid email or password" });
         }
         
@@ -159,6 +166,7 @@ export function setupDevAuth(app: Express) {
         
         const isPasswordValid = await verifyPassword(password, user.passwordHash);
         if (!isPasswordValid) {
+          await recordFailedLogin(req, identifier, "dev/staff-login", user);
           return res.status(401).json({ message: "Invalid email or password" });
         }
         
@@ -168,6 +176,10 @@ export function setupDevAuth(app: Express) {
           });
         }
         
+        await recordSuccessfulLogin(identifier);
+        
+        if (await requireTwoFactorChallenge(req, res, user)) return;
+        
         // Create session using session-based auth
         req.session.userId = user.id;
         req.session.save((err) => {
@@ -191,132 +203,111 @@ export function setupDevAuth(app: Express) {
   }
   
   // ==========================================
-  // PHONE OTP (Student/Parent) - Fallback Auth
+  // PHONE OTP (Student/Parent)
   // ==========================================
   
-  if (OTP_FALLBACK_ENABLED) {
-    
-    // Dev mode: Request OTP (logs OTP to console for testing)
-    app.post("/api/auth/otp/request", async (req: Request, res: Response) => {
-      try {
-        const { phoneNumber, firstName, lastName, role } = req.body;
-        
-        if (!phoneNumber || !firstName || !lastName || !role) {
-          return res.status(400).json({ message: "All fields are required" });
-        }
-        
-        if (!["student", "parent"].includes(role)) {
-          return res.status(400).json({ message: "Role must be student or parent" });
-        }
-        
-        // Generate 6-digit OTP
-        const otp = Math.floor(100000 + Math.random() * 900000).toString();
-        const expiresAt = Date.now() + 10 * 60 * 1000; // 10 minutes
-        
-        // Store OTP with user data
-        devOtpStore.set(phoneNumber, {
-          otp,
-          expiresAt,
-          userData: { firstName, lastName, role, phoneNumber },
-        });
-        
-        // Log OTP to console (dev only) - console is only visible to developers
-        console.log(`[Dev OTP] Code for ${phoneNumber}: ${otp}`);
-        
-        res.json({ 
-          message: "OTP sent (dev mode)",
-          // Return OTP in response for dev mode testing
-          devOtp: otp,
-          expiresIn: 600, // 10 minutes in seconds
+  // Request OTP: the code is stored hashed and delivered by the configured SMS sender
+  app.post("/api/auth/otp/request", async (req: Request, res: Response) => {
+    try {
+      const { phoneNumber, firstName, lastName, role } = req.body;
+      
+      if (!phoneNumber || !firstName || !lastName || !role) {
+        return res.status(400).json({ message: "All fields are required" });
+      }
+      
+      if (!["student", "parent"].includes(role)) {
+        return res.status(400).json({ message: "Role must be student or parent" });
+      }
+      
+      const { code, retryAfter } = await issuePhoneOtp(phoneNumber, { firstName, lastName, role });
+      if (retryAfter) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({
+          message: `Please wait ${retryAfter} seconds before requesting another code`,
+          retryAfter,
         });
-      } catch (error) {
-        console.error("Error requesting OTP:", error);
-        res.status(500).json({ message: "Failed to send OTP" });
       }
-    });
-    
-    // Dev mode: Verify OTP and create/login user
-    app.post("/api/auth/otp/verify", async (req: Request, res: Response) => {
-      try {
-        const { phoneNumber, otp } = req.body;
-        
-        if (!phoneNumber || !otp) {
-          return res.status(400).json({ message: "Phone number and OTP are required" });
-        }
-        
-        const stored = devOtpStore.get(phoneNumber);
-        if (!stored) {
-          return res.status(400).json({ message: "No OTP found. Please request a new one." });
-        }
-        
-        if (Date.now() > stored.expiresAt) {
-          devOtpStore.delete(phoneNumber);
-          return res.status(400).json({ message: "OTP expired. Please request a new one." });
-        }
-        
-        if (stored.otp !== otp) {
-          return res.status(400).json({ message: "Invalid OTP" });
+      
+      res.json({ 
+        message: "OTP sent",
+        ...(shouldReturnDevOtp() ? { devOtp: code } : {}),
+        expiresIn: OTP_TTL_MINUTES * 60,
+      });
+    } catch (error) {
+      console.error("Error requesting OTP:", error);
+      res.status(500).json({ message: "Failed to send OTP" });
+    }
+  });
+  
+  // Verify OTP and create/login user
+  app.post("/api/auth/otp/verify", async (req: Request, res: Response) => {
+    try {
+      const { phoneNumber, otp } = req.body;
+      
+      if (!phoneNumber || !otp) {
+        return res.status(400).json({ message: "Phone number and OTP are required" });
+      }
+      
+      const identifier = normalizeLoginIdentifier(phoneNumber);
+      if (!(await checkLoginAllowed(req, res, identifier))) return;
+      
+      const { signupData, error } = await verifyPhoneOtp(phoneNumber, String(otp));
+      if (error) {
+        await recordFailedLogin(req, identifier, "otp/verify", await storage.getUserByPhone(phoneNumber));
+        return res.status(400).json({ message: error });
+      }
+      
+      await recordSuccessfulLogin(identifier);
+      
+      // Check if user exists
+      let user = await storage.getUserByPhone(phoneNumber);
+      
+      if (!user) {
+        if (!signupData) {
+          return res.status(400).json({ message: "Sign-up details missing. Please request a new code." });
         }
         
-        // OTP verified - clear it
-        devOtpStore.delete(phoneNumber);
-        
-        const { firstName, lastName, role } = stored.userData;
-        
-        // Check if user exists
-        let user = await storage.getUserByPhone(phoneNumber);
-        
-        if (!user) {
-          // Create new user
-          const userId = crypto.randomUUID();
-          await storage.upsertUser({
-            id: userId,
-            email: null,
-            firstName,
-            lastName,
-            profileImageUrl: null,
-          });
-          
-          // Update with phone auth details
-          await storage.updateUserForPhoneSignup(userId, {
-            phoneNumber,
-            role,
-            authProvider: "phone_otp",
-            status: "active",
-          });
-          
-          user = await storage.getUser(userId);
-        }
+        const { firstName, lastName, role } = signupData;
         
-        if (!user) {
-          return res.status(500).json({ message: "Failed to create user" });
-        }
+        // Create new user
+        const userId = crypto.randomUUID();
+        await storage.upsertUser({
+          id: userId,
+          email: null,
+          firstName,
+          lastName,
+          profileImageUrl: null,
+        });
         
-        // Create session using session-based auth
-        req.session.userId = user.id;
-        req.session.save((err) => {
-          if (err) {
-            console.error("Session save error:", err);
-            return res.status(500).json({ message: "Login failed" });
-          }
-          res.json({ message: "Login successful", redirect: "/" });
+        // Update with phone auth details
+        await storage.updateUserForPhoneSignup(userId, {
+          phoneNumber,
+          role,
+          authProvider: "phone_otp",
+          status: "active",
         });
-      } catch (error) {
-        console.error("Error verifying OTP:", error);
-        res.status(500).json({ message: "Failed to verify OTP" });
+        
+        user = await storage.getUser(userId);
       }
-    });
-  } else {
-    // Twilio is configured - implement real OTP
-    // TODO: Implement real Twilio OTP when credentials are available
-    app.post("/api/auth/otp/request", (req: Request, res: Response) => {
-      res.status(501).json({ message: "Twilio integration not yet implemented" });
-    });
-    
-    app.post("/api/auth/otp/verify", (req: Request, res: Response) => {
-      res.status(501).json({ message: "Twilio integration not yet implemented" });
-    });
-  }
+      
+      if (!user) {
+        return res.status(500).json({ message: "Failed to create user" });
+      }
+      
+      // Create session using session-based auth
+      req.session.userId = user.id;
+      req.session.save((err) => {
+        if (err) {
+          console.error("Session save error:", err);
+          return res.status(500).json({ message: "Login failed" });
+        }
+        res.json({ message: "Login successful", redirect: "/" });
+      });
+    } catch (error) {
+      console.error("Error verifying OTP:", error);
+      res.status(500).json({ message: "Failed to verify OTP" });
+    }
+  });
   
   // Get auth status (for frontend to know which flows to show)
   app.get("/api/auth/dev-status", (req: Request, res: Response) => {
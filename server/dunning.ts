@@ -0,0 +1,91 @@
+// Invoice dunning: moves unpaid invoices past their due date to overdue and
+// sends the parent escalating reminders, each stage at most once per invoice
+
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { getDunningStageToSend, isPastDue, type DunningStage } from "@shared/billingPolicy";
+import type { Invoice } from "@shared/schema";
+
+export type DunningRunResult = {
+  markedOverdue: number;
+  remindersSent: number;
+};
+
+function reminderContent(stage: DunningStage, invoice: Invoice, dueDate: Date): { title: string; message: string } {
+  const amount = `${invoice.currency} ${invoice.amountOutstanding}`;
+  const due = format(dueDate, "MMM d, yyyy");
+  switch (stage) {
+    case "due_soon":
+      return {
+        title: "Invoice Due Soon",
+        message: `Invoice ${invoice.invoiceNumber} (${amount} outstanding) is due on ${due}.`,
+      };
+    case "due_today":
+      return {
+        title: "Invoice Due Today",
+        message: `Invoice ${invoice.invoiceNumber} (${amount} outstanding) is due today.`,
+      };
+    case "overdue_7":
+      return {
+        title: "Invoice Overdue",
+        message: `Invoice ${invoice.invoiceNumber} was due on ${due} and is now 7 days overdue. ${amount} is outstanding.`,
+      };
+    case "overdue_14":
+      return {
+        title: "Final Reminder: Invoice Overdue",
+        message: `Invoice ${invoice.invoiceNumber} was due on ${due} and is now 14 days overdue. Please settle the ${amount} outstanding.`,
+      };
+  }
+}
+
+export async function runInvoiceDunning(now: Date = new Date()): Promise<DunningRunResult> {
+  const result: DunningRunResult = { markedOverdue: 0, remindersSent: 0 };
+
+  const openInvoices = await storage.getOpenInvoicesWithDueDate();
+  const reminders = await storage.getInvoiceReminders(openInvoices.map(i => i.id));
+  const sentStagesByInvoice = new Map<string, DunningStage[]>();
+  for (const reminder of reminders) {
+    const stages = sentStagesByInvoice.get(reminder.invoiceId) ?? [];
+    stages.push(reminder.stage as DunningStage);
+    sentStagesByInvoice.set(reminder.invoiceId, stages);
+  }
+
+  for (const invoice of openInvoices) {
+    if (!invoice.dueDate || parseFloat(invoice.amountOutstanding) <= 0) continue;
+    const dueDate = new Date(invoice.dueDate);
+
+    if (invoice.status === "awaiting_payment" && isPastDue(dueDate, now)) {
+      await storage.updateInvoice(invoice.id, { status: "overdue" });
+      result.markedOverdue++;
+    }
+
+    const stage = getDunningStageToSend(dueDate, now, sentStagesByInvoice.get(invoice.id) ?? []);
+    if (!stage) continue;
+
+    // The unique (invoice, stage) record is claimed before notifying, so overlapping runs cannot double-send
+    const reminder = await storage.createInvoiceReminder({
+      invoiceId: invoice.id,
+      stage,
+      recipientId: invoice.parentId,
+    });
+    if (!reminder) continue;
+
+    const { title, message } = reminderContent(stage, invoice, dueDate);
+    try {
+      await storage.createNotification({
+        userId: invoice.parentId,
+        type: "system",
+        title,
+        message,
+        link: "/invoices",
+        isRead: false,
+        relatedId: invoice.id,
+      });
+      result.remindersSent++;
+    } catch (notifError) {
+      console.error("Error creating invoice reminder notification:", notifError);
+    }
+  }
+
+  return result;
+}
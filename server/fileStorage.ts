@@ -0,0 +1,62 @@
+// Pluggable storage for uploaded file bytes. Upload records store the driver
+// name alongside the key, so files stay readable after the default changes.
+
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+export interface FileStorageDriver {
+  readonly name: string;
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements FileStorageDriver {
+  readonly name = "local";
+
+  constructor(private readonly rootDir: string) {}
+
+  // Keys are generated server-side, but still refuse anything that escapes the root
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data, { flag: "wx" });
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+const drivers = new Map<string, FileStorageDriver>();
+
+export function registerFileStorageDriver(driver: FileStorageDriver) {
+  drivers.set(driver.name, driver);
+}
+
+registerFileStorageDriver(new LocalDiskStorage(process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads")));
+
+// FILE_STORAGE_DRIVER picks the driver for new uploads; "local" unless configured
+export function getFileStorage(name: string = process.env.FILE_STORAGE_DRIVER || "local"): FileStorageDriver {
+  const driver = drivers.get(name);
+  if (!driver) {
+    throw new Error(`File storage driver "${name}" is not registered`);
+  }
+  return driver;
+}
@@ -0,0 +1,141 @@
+// Super-admin impersonation ("log in as"). The session keeps the super admin's
+// own userId and carries the impersonation alongside it; isAuthenticated then
+// serves requests as the target user. Impersonation is read-only unless writes
+// were allowed when it started, and every write made under it is audited.
+
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { getImpersonationExpiry } from "@shared/authPolicy";
+import type { ImpersonationSummary, User } from "@shared/schema";
+
+export type ImpersonationState = {
+  superAdminId: string;
+  targetUserId: string;
+  startedAt: number;
+  expiresAt: number;
+  allowWrites: boolean;
+};
+
+type StopReason = "exit" | "logout" | "expired" | "target_unavailable";
+
+// Reachable while read-only so the super admin can always leave
+const READ_ONLY_EXEMPT_PATHS = ["/api/impersonation/stop", "/api/auth/logout"];
+
+function isWriteRequest(req: Request): boolean {
+  return !["GET", "HEAD", "OPTIONS"].includes(req.method);
+}
+
+function saveSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => req.session.save((err) => (err ? reject(err) : resolve())));
+}
+
+export async function startImpersonation(
+  req: Request,
+  superAdmin: User,
+  target: User,
+  options: { allowWrites: boolean; minutes?: number },
+): Promise<ImpersonationState> {
+  const startedAt = new Date();
+  const state: ImpersonationState = {
+    superAdminId: superAdmin.id,
+    targetUserId: target.id,
+    startedAt: startedAt.getTime(),
+    expiresAt: getImpersonationExpiry(startedAt, options.minutes).getTime(),
+    allowWrites: options.allowWrites,
+  };
+  req.session.impersonation = state;
+  await saveSession(req);
+
+  await storage.createAuditLog({
+    performedById: superAdmin.id,
+    targetUserId: target.id,
+    action: "start_impersonation",
+    newValue: options.allowWrites ? "read_write" : "read_only",
+    metadata: { targetEmail: target.email, expiresAt: new Date(state.expiresAt).toISOString() },
+  });
+  return state;
+}
+
+export async function stopImpersonation(req: Request, reason: StopReason): Promise<ImpersonationState | undefined> {
+  const state = req.session.impersonation;
+  if (!state) return undefined;
+
+  delete req.session.impersonation;
+  await saveSession(req);
+
+  await storage.createAuditLog({
+    performedById: state.superAdminId,
+    targetUserId: state.targetUserId,
+    action: "stop_impersonation",
+    metadata: { reason, durationSeconds: Math.round((Date.now() - state.startedAt) / 1000) },
+  });
+  return state;
+}
+
+// Returns the user the request should run as, or undefined once a response
+// has been sent (a write attempted during read-only impersonation)
+export async function applyImpersonation(req: Request, res: Response, realUser: User): Promise<User | undefined> {
+  const state = req.session?.impersonation;
+  if (!state) return realUser;
+
+  // A different account signed in on this session, or the super admin lost the role
+  if (state.superAdminId !== realUser.id || !realUser.isSuperAdmin) {
+    delete req.session.impersonation;
+    return realUser;
+  }
+
+  if (Date.now() >= state.expiresAt) {
+    await stopImpersonation(req, "expired");
+    return realUser;
+  }
+
+  const target = await storage.getUser(state.targetUserId);
+  if (!target || !target.isActive) {
+    await stopImpersonation(req, "target_unavailable");
+    return realUser;
+  }
+
+  const path = req.originalUrl.split("?")[0];
+  if (isWriteRequest(req) && !READ_ONLY_EXEMPT_PATHS.includes(path)) {
+    // Passwords, two-factor and sessions stay with the account holder
+    if (path.startsWith("/api/auth/")) {
+      res.status(403).json({
+        message: "Account security changes are not allowed while signed in as another user",
+        code: "IMPERSONATION_READ_ONLY",
+      });
+      return undefined;
+    }
+
+    if (!state.allowWrites) {
+      res.status(403).json({
+        message: "Read-only while signed in as another user",
+        code: "IMPERSONATION_READ_ONLY",
+      });
+      return undefined;
+    }
+
+    res.on("finish", () => {
+      storage.createAuditLog({
+        performedById: state.superAdminId,
+        targetUserId: state.targetUserId,
+        action: "impersonated_write",
+        metadata: { method: req.method, path, statusCode: res.statusCode },
+      }).catch((error) => console.error("Error auditing impersonated write:", error));
+    });
+  }
+
+  (req as any).impersonator = realUser;
+  return target;
+}
+
+export function getImpersonationSummary(req: Request): ImpersonationSummary | null {
+  const impersonator = (req as any).impersonator as User | undefined;
+  const state = req.session?.impersonation;
+  if (!impersonator || !state) return null;
+
+  return {
+    impersonatorName: [impersonator.firstName, impersonator.lastName].filter(Boolean).join(" ") || impersonator.email || "Super Admin",
+    expiresAt: new Date(state.expiresAt).toISOString(),
+    allowWrites: state.allowWrites,
+  };
+}
@@ -3,8 +3,19 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { storage } from "./storage";
+import { assertAppBaseUrlConfigured } from "./authTokens";
+import { assertMailTransportConfigured } from "./mail";
+import { assertSmsSenderConfigured } from "./sms";
+import { runInvoiceDunning } from "./dunning";
+import { runWalletExpiry } from "./wallets";
+import { runSessionReconciliation } from "./sessionReconciliation";
 import { MESSAGING_RETENTION_MONTHS, getMessagingRetentionCutoff } from "@shared/messagingPolicy";
 
+// Fail fast rather than send links built from an untrusted Host header, or log links and codes in plain text
+assertAppBaseUrlConfigured();
+assertMailTransportConfigured();
+assertSmsSenderConfigured();
+
 const app = express();
 const httpServer = createServer(app);
 
@@ -79,6 +90,61 @@ app.use((req, res, next) => {
   await runChatRetentionCleanup();
   setInterval(runChatRetentionCleanup, 24 * 60 * 60 * 1000);
 
+  // Membership is kept in sync on course/enrollment writes; this backfills threads
+  // for courses that predate course chats and repairs any drift
+  try {
+    const courses = await storage.getAllCourses();
+    for (const course of courses) {
+      await storage.syncCourseChatMembers(course.id);
+    }
+  } catch (error) {
+    log(`failed to sync course chat members: ${(error as Error).message}`, "course-chat");
+  }
+
+  const runInvoiceDunningJob = async () => {
+    try {
+      const { markedOverdue, remindersSent } = await runInvoiceDunning();
+      if (markedOverdue > 0 || remindersSent > 0) {
+        log(`marked ${markedOverdue} invoices overdue, sent ${remindersSent} payment reminders`, "invoice-dunning");
+      }
+    } catch (error) {
+      log(`failed to process overdue invoices: ${(error as Error).message}`, "invoice-dunning");
+    }
+  };
+
+  // Hourly so reminders go out soon after each day boundary
+  await runInvoiceDunningJob();
+  setInterval(runInvoiceDunningJob, 60 * 60 * 1000);
+
+  const runWalletExpiryJob = async () => {
+    try {
+      const { expiredWallets, forfeitedMinutes, noticesSent } = await runWalletExpiry();
+      if (expiredWallets > 0 || noticesSent > 0) {
+        log(`expired ${expiredWallets} wallets (${forfeitedMinutes} min forfeited), sent ${noticesSent} expiry notices`, "wallet-expiry");
+      }
+    } catch (error) {
+      log(`failed to process wallet expiry: ${(error as Error).message}`, "wallet-expiry");
+    }
+  };
+
+  await runWalletExpiryJob();
+  setInterval(runWalletExpiryJob, 60 * 60 * 1000);
+
+  const runSessionReconciliationJob = async () => {
+    try {
+      const { studentNoShows, tutorNoShows, autoEnded } = await runSessionReconciliation();
+      if (studentNoShows > 0 || tutorNoShows > 0 || autoEnded > 0) {
+        log(`closed ${studentNoShows} student no-shows, ${tutorNoShows} tutor no-shows, auto-ended ${autoEnded} sessions`, "session-reconciliation");
+      }
+    } catch (error) {
+      log(`failed to reconcile sessions: ${(error as Error).message}`, "session-reconciliation");
+    }
+  };
+
+  // Every few minutes so no-shows are settled soon after the grace period ends
+  await runSessionReconciliationJob();
+  setInterval(runSessionReconciliationJob, 5 * 60 * 1000);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
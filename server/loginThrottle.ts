@@ -0,0 +1,74 @@
+// Brute-force protection for the sign-in routes. Failures are counted per
+// account identifier and per client IP; lockouts are written to the audit log.
+
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { getLoginRetryAfterSeconds } from "@shared/authPolicy";
+import type { LoginThrottleScope, User } from "@shared/schema";
+
+export function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+export function normalizeLoginIdentifier(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase() : "";
+}
+
+function getThrottleKeys(req: Request, identifier: string): Array<[LoginThrottleScope, string]> {
+  const keys: Array<[LoginThrottleScope, string]> = [["ip", getClientIp(req)]];
+  if (identifier) keys.push(["account", identifier]);
+  return keys;
+}
+
+function formatRetryMessage(seconds: number): string {
+  if (seconds < 60) {
+    return `Too many failed sign-in attempts. Please wait ${seconds} second${seconds === 1 ? "" : "s"} and try again.`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `Too many failed sign-in attempts. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
+// Answers 429 and returns false when the account or the client IP has to wait
+export async function checkLoginAllowed(req: Request, res: Response, identifier: string): Promise<boolean> {
+  const now = new Date();
+  let retryAfter = 0;
+
+  for (const [scope, key] of getThrottleKeys(req, identifier)) {
+    const throttle = await storage.getLoginThrottle(scope, key);
+    if (throttle) {
+      retryAfter = Math.max(retryAfter, getLoginRetryAfterSeconds(scope, throttle, now));
+    }
+  }
+
+  if (retryAfter > 0) {
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({ message: formatRetryMessage(retryAfter), retryAfter });
+    return false;
+  }
+  return true;
+}
+
+export async function recordFailedLogin(req: Request, identifier: string, route: string, user?: User): Promise<void> {
+  const now = new Date();
+
+  for (const [scope, key] of getThrottleKeys(req, identifier)) {
+    const { throttle, lockedNow } = await storage.recordLoginFailure(scope, key, now);
+    if (!lockedNow) continue;
+
+    await storage.createAuditLog({
+      performedById: null,
+      targetUserId: scope === "account" ? user?.id ?? null : null,
+      action: "login_lockout",
+      newValue: throttle.lockedUntil?.toISOString() ?? null,
+      metadata: { scope, identifier: key, ip: getClientIp(req), route, lockoutCount: throttle.lockoutCount },
+    });
+  }
+}
+
+// A successful sign-in clears the account's failures; the IP counter is left
+// alone so one valid account cannot be used to reset an attack from that address
+export async function recordSuccessfulLogin(identifier: string): Promise<void> {
+  if (identifier) {
+    await storage.resetLoginThrottle("account", identifier);
+  }
+}
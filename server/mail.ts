@@ -0,0 +1,62 @@
+// Outgoing mail sits behind a transport interface. Development uses the log
+// transport (prints to the console) or the file transport (writes each message
+// to MAIL_OUTBOX_DIR); a real provider registers its own transport.
+
+import path from "path";
+import { createTransportRegistry, writeOutboxFile } from "./transports";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class LogMailTransport implements MailTransport {
+  readonly name = "log";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await writeOutboxFile(this.outboxDir, message);
+  }
+}
+
+const transports = createTransportRegistry<MailTransport>({
+  label: "mail transport",
+  envName: "MAIL_TRANSPORT",
+  developmentNames: ["log", "file"],
+});
+
+export function registerMailTransport(transport: MailTransport) {
+  transports.register(transport);
+}
+
+registerMailTransport(new LogMailTransport());
+registerMailTransport(new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), "mail-outbox")));
+
+// Fail fast in production unless MAIL_TRANSPORT names a real provider
+export function assertMailTransportConfigured(): void {
+  transports.assertConfigured();
+}
+
+// MAIL_TRANSPORT picks the transport; "log" unless configured
+export function getMailTransport(name?: string): MailTransport {
+  return transports.get(name);
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
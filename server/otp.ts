@@ -0,0 +1,86 @@
+// Phone sign-in codes: issues hashed, expiring codes stored in the database and
+// delivered through the configured SMS sender, and checks them with an attempt limit
+
+import { createHmac, randomInt } from "crypto";
+import { storage } from "./storage";
+import { sendSms } from "./sms";
+import {
+  OTP_LENGTH,
+  OTP_MAX_ATTEMPTS,
+  OTP_TTL_MINUTES,
+  checkOtpUsable,
+  getOtpExpiry,
+  getOtpResendWaitSeconds,
+} from "@shared/authPolicy";
+import type { PhoneOtpSignupData } from "@shared/schema";
+
+// Six digits are cheap to brute-force from a bare hash, so the hash is keyed
+// with the session secret and bound to the phone number
+function hashOtp(phoneNumber: string, code: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET || "")
+    .update(`${phoneNumber}:${code}`)
+    .digest("hex");
+}
+
+// Echoing the code back in the API response is for local testing only and
+// has to be switched on explicitly; it is never allowed in production
+export function shouldReturnDevOtp(): boolean {
+  return process.env.OTP_RETURN_CODE_IN_RESPONSE === "true" && process.env.NODE_ENV !== "production";
+}
+
+export async function issuePhoneOtp(
+  phoneNumber: string,
+  signupData: PhoneOtpSignupData,
+  now: Date = new Date(),
+): Promise<{ code?: string; retryAfter?: number }> {
+  const existing = await storage.getPhoneOtp(phoneNumber);
+  const retryAfter = getOtpResendWaitSeconds(existing?.lastSentAt ?? null, now);
+  if (retryAfter > 0) return { retryAfter };
+
+  const code = randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, "0");
+  await storage.upsertPhoneOtp({
+    phoneNumber,
+    codeHash: hashOtp(phoneNumber, code),
+    expiresAt: getOtpExpiry(now),
+    attempts: 0,
+    lastSentAt: now,
+    signupData,
+  });
+
+  await sendSms({
+    to: phoneNumber,
+    body: `Your MCEC sign-in code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes.`,
+  });
+  return { code };
+}
+
+export async function verifyPhoneOtp(
+  phoneNumber: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<{ signupData?: PhoneOtpSignupData | null; error?: string }> {
+  const consumed = await storage.consumePhoneOtp(phoneNumber, hashOtp(phoneNumber, code), now, OTP_MAX_ATTEMPTS);
+  if (consumed) {
+    return { signupData: consumed.signupData as PhoneOtpSignupData | null };
+  }
+
+  const otp = await storage.getPhoneOtp(phoneNumber);
+  switch (checkOtpUsable(otp, now)) {
+    case "missing":
+      return { error: "No OTP found. Please request a new one." };
+    case "expired":
+      await storage.deletePhoneOtp(phoneNumber);
+      return { error: "OTP expired. Please request a new one." };
+    case "too_many_attempts":
+      await storage.deletePhoneOtp(phoneNumber);
+      return { error: "Too many incorrect codes. Please request a new one." };
+  }
+
+  const updated = await storage.incrementPhoneOtpAttempts(otp!.id);
+  const remaining = OTP_MAX_ATTEMPTS - (updated?.attempts ?? OTP_MAX_ATTEMPTS);
+  if (remaining <= 0) {
+    await storage.deletePhoneOtp(phoneNumber);
+    return { error: "Too many incorrect codes. Please request a new one." };
+  }
+  return { error: `Invalid OTP. ${remaining} attempt${remaining === 1 ? "" : "s"} remaining.` };
+}
@@ -0,0 +1,247 @@
+// Parent-child linking without an admin step: a student issues an invite code
+// that a parent redeems, or a parent asks to be linked by the student's email
+// and the student accepts. Both sides are notified whenever a link is made;
+// admins can still link, edit and unlink directly.
+
+import { createHmac, randomInt } from "crypto";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import {
+  PARENT_INVITE_CODE_ALPHABET,
+  PARENT_INVITE_CODE_LENGTH,
+  formatInviteCode,
+  getParentLinkBlocker,
+  getParentLinkRequestExpiry,
+  normalizeInviteCode,
+} from "@shared/parentLinkPolicy";
+import type {
+  ParentChild,
+  ParentLinkRequest,
+  ParentLinkRequestUser,
+  ParentLinkRequestWithDetails,
+  PublicParentLinkRequest,
+  User,
+} from "@shared/schema";
+
+export type LinkMethod = "invite_code" | "email_request" | "admin";
+
+// Keyed like phone OTPs so a leaked table does not reveal usable codes
+function hashInviteCode(code: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET || "").update(`parent-invite:${code}`).digest("hex");
+}
+
+function displayName(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "A user";
+}
+
+async function notify(userId: string, title: string, message: string, relatedId: string): Promise<void> {
+  try {
+    await storage.createNotification({
+      userId,
+      type: "parent_link",
+      title,
+      message,
+      link: "/settings",
+      isRead: false,
+      relatedId,
+    });
+  } catch (notifError) {
+    console.error("Error creating parent link notification:", notifError);
+  }
+}
+
+function toLinkRequestUser(user: ParentLinkRequestUser): ParentLinkRequestUser {
+  return { id: user.id, firstName: user.firstName, lastName: user.lastName };
+}
+
+// Only the names of the people on a request are sent, never their contact details
+export function toPublicLinkRequest({ codeHash, student, parent, ...request }: ParentLinkRequestWithDetails): PublicParentLinkRequest {
+  return {
+    ...request,
+    student: toLinkRequestUser(student),
+    parent: parent ? toLinkRequestUser(parent) : null,
+    isInviteCode: !!codeHash,
+  };
+}
+
+// Makes the link's parent the child's primary billing contact, recording who took it over from whom
+export async function takeOverPrimaryBilling(link: ParentChild, actorId: string): Promise<ParentChild> {
+  const previous = (await storage.getChildParents(link.childId)).find((other) => other.isPrimaryBilling);
+  const updated = await storage.setPrimaryBillingParent(link.id);
+  if (!updated) return link;
+
+  if (previous?.parentId !== link.parentId) {
+    await recordAudit({
+      actorId,
+      action: "set_primary_billing_parent",
+      entityType: "user",
+      entityId: link.childId,
+      targetUserId: link.childId,
+      before: { primaryBillingParentId: previous?.parentId ?? null },
+      after: { primaryBillingParentId: link.parentId },
+      metadata: { linkId: link.id },
+    });
+  }
+  return updated;
+}
+
+export async function linkParentAndChild(
+  parent: User,
+  student: User,
+  options: { relationship: string | null; isPrimaryBilling?: boolean; method: LinkMethod; performedById: string },
+): Promise<ParentChild> {
+  let link = await storage.createParentChild({
+    parentId: parent.id,
+    childId: student.id,
+    relationship: options.relationship,
+    isPrimaryBilling: false,
+  });
+  if (options.isPrimaryBilling) {
+    link = await takeOverPrimaryBilling(link, options.performedById);
+  }
+
+  await storage.createAuditLog({
+    performedById: options.performedById,
+    targetUserId: student.id,
+    action: "link_parent",
+    newValue: parent.id,
+    metadata: { method: options.method, parentEmail: parent.email, relationship: options.relationship },
+  });
+
+  await notify(parent.id, "Child Linked", `${displayName(student)} is now linked to your account.`, link.id);
+  await notify(student.id, "Parent Linked", `${displayName(parent)} is now linked to your account as a parent.`, link.id);
+  return link;
+}
+
+export async function createInviteCode(
+  student: User,
+  relationship: string | null,
+  now: Date = new Date(),
+): Promise<{ code: string; request: ParentLinkRequest }> {
+  const code = Array.from({ length: PARENT_INVITE_CODE_LENGTH }, () =>
+    PARENT_INVITE_CODE_ALPHABET[randomInt(PARENT_INVITE_CODE_ALPHABET.length)],
+  ).join("");
+
+  const request = await storage.createParentLinkRequest({
+    studentId: student.id,
+    parentId: null,
+    initiatedById: student.id,
+    codeHash: hashInviteCode(code),
+    relationship,
+    status: "pending",
+    expiresAt: getParentLinkRequestExpiry(now),
+    respondedAt: null,
+  });
+  return { code: formatInviteCode(code), request };
+}
+
+// Redeeming the code is the parent's confirmation; the student confirmed by sharing it
+export async function redeemInviteCode(
+  parent: User,
+  rawCode: string,
+  relationship: string | null,
+  now: Date = new Date(),
+): Promise<{ link?: ParentChild; error?: string }> {
+  const code = normalizeInviteCode(rawCode);
+  const request = code ? await storage.getPendingParentLinkRequestByCode(hashInviteCode(code), now) : undefined;
+  const student = request ? await storage.getUser(request.studentId) : undefined;
+  if (!request || !student || !student.isActive) {
+    return { error: "Invite code is invalid or has expired" };
+  }
+
+  const blocker = getParentLinkBlocker(parent, student, await storage.getChildParents(student.id));
+  if (blocker) return { error: blocker };
+
+  if (!(await storage.resolveParentLinkRequest(request.id, "accepted", now, parent.id))) {
+    return { error: "Invite code is invalid or has expired" };
+  }
+
+  const link = await linkParentAndChild(parent, student, {
+    relationship: relationship ?? request.relationship,
+    method: "invite_code",
+    performedById: parent.id,
+  });
+  return { link };
+}
+
+export async function requestLinkByEmail(
+  parent: User,
+  studentEmail: string,
+  relationship: string | null,
+  now: Date = new Date(),
+): Promise<{ request?: ParentLinkRequest; error?: string }> {
+  const student = await storage.getUserByEmail(studentEmail.trim());
+  if (!student || student.role !== "student" || !student.isActive) {
+    return { error: "No student account was found with that email" };
+  }
+
+  const blocker = getParentLinkBlocker(parent, student, await storage.getChildParents(student.id));
+  if (blocker) return { error: blocker };
+
+  const pending = await storage.getPendingParentLinkRequests(parent.id, now);
+  if (pending.some((request) => request.studentId === student.id && request.parentId === parent.id)) {
+    return { error: "A link request for this student is already waiting for a response" };
+  }
+
+  const request = await storage.createParentLinkRequest({
+    studentId: student.id,
+    parentId: parent.id,
+    initiatedById: parent.id,
+    codeHash: null,
+    relationship,
+    status: "pending",
+    expiresAt: getParentLinkRequestExpiry(now),
+    respondedAt: null,
+  });
+
+  await notify(
+    student.id,
+    "Parent Link Request",
+    `${displayName(parent)} has asked to be linked to your account as a parent. Accept or decline it in Settings.`,
+    request.id,
+  );
+  return { request };
+}
+
+export async function respondToLinkRequest(
+  student: User,
+  requestId: string,
+  accept: boolean,
+  now: Date = new Date(),
+): Promise<{ link?: ParentChild; error?: string }> {
+  const request = await storage.getParentLinkRequest(requestId);
+  if (
+    !request ||
+    request.studentId !== student.id ||
+    !request.parentId ||
+    request.codeHash ||
+    request.status !== "pending" ||
+    request.expiresAt <= now
+  ) {
+    return { error: "Link request not found or no longer pending" };
+  }
+
+  const parent = await storage.getUser(request.parentId);
+  if (!parent) return { error: "Link request not found or no longer pending" };
+
+  if (!accept) {
+    if (await storage.resolveParentLinkRequest(request.id, "declined", now)) {
+      await notify(parent.id, "Link Request Declined", `${displayName(student)} declined your link request.`, request.id);
+    }
+    return {};
+  }
+
+  const blocker = getParentLinkBlocker(parent, student, await storage.getChildParents(student.id));
+  if (blocker) return { error: blocker };
+
+  if (!(await storage.resolveParentLinkRequest(request.id, "accepted", now))) {
+    return { error: "Link request not found or no longer pending" };
+  }
+
+  const link = await linkParentAndChild(parent, student, {
+    relationship: request.relationship,
+    method: "email_request",
+    performedById: student.id,
+  });
+  return { link };
+}
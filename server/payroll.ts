@@ -0,0 +1,209 @@
+// Payroll run: turns each tutor's completed/missed sessions into a draft payout,
+// one line per session, priced from the tutor pay rate cards
+
+import { storage } from "./storage";
+import { createRateLookup } from "./rates";
+import type { BillingPeriod } from "@shared/billingPolicy";
+import type { CurrencyCode, Payout, TutoringSession, User } from "@shared/schema";
+
+export type PayrollRunOptions = {
+  period: BillingPeriod;
+  currency: CurrencyCode;
+  dryRun: boolean;
+};
+
+export type PayrollRunLine = {
+  sessionId: string;
+  sessionDate: string;
+  sessionStatus: string;
+  studentId: string;
+  studentName: string;
+  courseId: string;
+  courseTitle: string;
+  minutes: number;
+  hourlyRate: string;
+  amount: string;
+};
+
+export type PayrollRunPayout = {
+  tutorId: string;
+  tutorName: string;
+  currency: CurrencyCode;
+  totalMinutes: number;
+  grossAmount: string;
+  lines: PayrollRunLine[];
+  payoutId?: string;
+  addedToExisting?: boolean;
+  flagsCreated?: number;
+};
+
+export type PayrollRunResult = {
+  period: { label: string; start: string; end: string };
+  dryRun: boolean;
+  payouts: PayrollRunPayout[];
+  alreadyPaidSessions: number;
+  skipped: { tutorId: string; tutorName: string; sessionId: string; reason: string }[];
+};
+
+function displayName(user: User | undefined): string {
+  if (!user) return "Unknown";
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Unknown";
+}
+
+// Flags unpaid invoices of the given students that overlap the payout period,
+// skipping invoices already flagged on this payout. Returns the number of new flags.
+export async function flagUnpaidInvoices(payout: Payout, studentIds: string[]): Promise<number> {
+  const existingFlags = await storage.getPayoutFlags(payout.id);
+  const flaggedInvoiceIds = new Set(
+    existingFlags
+      .filter(f => f.flagType === "unpaid_invoice")
+      .map(f => f.invoiceId)
+  );
+
+  let created = 0;
+  for (const studentId of Array.from(new Set(studentIds))) {
+    const unpaidInvoices = await storage.getUnpaidInvoicesByStudentInPeriod(
+      studentId,
+      payout.periodStart,
+      payout.periodEnd
+    );
+
+    for (const invoice of unpaidInvoices) {
+      if (flaggedInvoiceIds.has(invoice.id)) continue;
+      flaggedInvoiceIds.add(invoice.id);
+
+      await storage.createPayoutFlag({
+        payoutId: payout.id,
+        invoiceId: invoice.id,
+        flagType: "unpaid_invoice",
+        description: `Tutor payment includes sessions for student with unpaid invoice ${invoice.invoiceNumber} (Status: ${invoice.status}, Outstanding: ${invoice.amountOutstanding})`,
+        isResolved: false,
+      });
+      created++;
+    }
+  }
+  return created;
+}
+
+export async function runPayroll(options: PayrollRunOptions): Promise<PayrollRunResult> {
+  const { period, currency, dryRun } = options;
+
+  const result: PayrollRunResult = {
+    period: { label: period.label, start: period.start.toISOString(), end: period.end.toISOString() },
+    dryRun,
+    payouts: [],
+    alreadyPaidSessions: 0,
+    skipped: [],
+  };
+
+  // Sessions already on a payout line are never paid again
+  const sessions = await storage.getBillableSessionsInPeriod(period.start, period.end);
+  const paidSessionIds = new Set(await storage.getSessionIdsInPayouts(sessions.map(s => s.id)));
+  result.alreadyPaidSessions = paidSessionIds.size;
+  const unpaidSessions = sessions.filter(s => !paidSessionIds.has(s.id));
+
+  // Group session lines are recorded against the first rostered student;
+  // every rostered student is still checked for unpaid invoices
+  const groupSessionIds = unpaidSessions.filter(s => s.isGroupSession).map(s => s.id);
+  const attendance = await storage.getSessionAttendanceForSessions(groupSessionIds);
+  const rosterBySession = new Map<string, string[]>();
+  for (const record of attendance) {
+    rosterBySession.set(record.sessionId, [...(rosterBySession.get(record.sessionId) ?? []), record.studentId]);
+  }
+
+  const sessionsByTutor = new Map<string, TutoringSession[]>();
+  for (const session of unpaidSessions) {
+    sessionsByTutor.set(session.tutorId, [...(sessionsByTutor.get(session.tutorId) ?? []), session]);
+  }
+
+  const courses = new Map((await storage.getAllCourses()).map(c => [c.id, c]));
+  const users = new Map<string, User | undefined>();
+  const getUserCached = async (id: string) => {
+    if (!users.has(id)) users.set(id, await storage.getUser(id));
+    return users.get(id);
+  };
+  const rates = createRateLookup();
+
+  for (const [tutorId, tutorSessions] of Array.from(sessionsByTutor.entries())) {
+    const tutorName = displayName(await getUserCached(tutorId));
+    const lines: PayrollRunLine[] = [];
+    const studentIdsToCheck: string[] = [];
+
+    for (const session of tutorSessions) {
+      const roster = session.isGroupSession ? rosterBySession.get(session.id) ?? [] : [];
+      const studentId = session.isGroupSession ? roster[0] : session.studentId;
+      if (!studentId) {
+        result.skipped.push({ tutorId, tutorName, sessionId: session.id, reason: "Session has no student" });
+        continue;
+      }
+
+      const courseTitle = courses.get(session.courseId)?.title ?? "Course";
+      const sessionDate = new Date(session.scheduledStartTime);
+      const hourlyRate = await rates.tutorPayRate(tutorId, session.courseId, currency, sessionDate);
+      if (hourlyRate === null) {
+        result.skipped.push({
+          tutorId,
+          tutorName,
+          sessionId: session.id,
+          reason: `No ${currency} pay rate for ${courseTitle}`,
+        });
+        continue;
+      }
+
+      const minutes = session.billableMinutes ?? session.scheduledMinutes ?? 0;
+      lines.push({
+        sessionId: session.id,
+        sessionDate: sessionDate.toISOString(),
+        sessionStatus: session.status,
+        studentId,
+        studentName: displayName(await getUserCached(studentId)),
+        courseId: session.courseId,
+        courseTitle,
+        minutes,
+        hourlyRate: hourlyRate.toFixed(2),
+        amount: ((minutes / 60) * hourlyRate).toFixed(2),
+      });
+      studentIdsToCheck.push(...(session.isGroupSession ? roster : [studentId]));
+    }
+
+    if (lines.length === 0) continue;
+
+    const totalMinutes = lines.reduce((sum, line) => sum + line.minutes, 0);
+    const grossAmount = lines.reduce((sum, line) => sum + parseFloat(line.amount), 0);
+    const planned: PayrollRunPayout = {
+      tutorId,
+      tutorName,
+      currency,
+      totalMinutes,
+      grossAmount: grossAmount.toFixed(2),
+      lines,
+    };
+
+    if (!dryRun) {
+      // Re-running a period tops up the tutor's existing draft instead of opening a second payout
+      const { payout, addedToExisting } = await storage.addPayrollRunLines({
+        tutorId,
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency,
+        status: "draft",
+        notes: `Generated by payroll run for ${period.label}`,
+      }, lines.map(line => ({
+        studentId: line.studentId,
+        courseId: line.courseId,
+        sessionId: line.sessionId,
+        minutes: line.minutes,
+        hourlyRate: line.hourlyRate,
+        amount: line.amount,
+      })));
+
+      planned.payoutId = payout.id;
+      planned.addedToExisting = addedToExisting;
+      planned.flagsCreated = await flagUnpaidInvoices(payout, studentIdsToCheck);
+    }
+
+    result.payouts.push(planned);
+  }
+
+  return result;
+}
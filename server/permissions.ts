@@ -0,0 +1,69 @@
+// Resolves named permissions for the signed-in user from the stored permission
+// map (falling back to the defaults) and guards routes with them
+
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import {
+  DEFAULT_PERMISSION_MAP,
+  getPermissions,
+  hasPermission,
+  type Permission,
+  type PermissionMap,
+} from "@shared/permissionPolicy";
+import type { User } from "@shared/schema";
+
+const PERMISSION_MAP_KEY = "permission_map";
+
+// Read on every guarded request, so keep it in memory until a super admin edits it
+let cachedMap: PermissionMap | undefined;
+
+export async function getPermissionMap(): Promise<PermissionMap> {
+  if (!cachedMap) {
+    const setting = await storage.getAppSetting(PERMISSION_MAP_KEY);
+    cachedMap = (setting?.value as PermissionMap | undefined) ?? DEFAULT_PERMISSION_MAP;
+  }
+  return cachedMap;
+}
+
+export async function savePermissionMap(map: PermissionMap, performedById: string): Promise<void> {
+  const previous = await getPermissionMap();
+  await storage.setAppSetting(PERMISSION_MAP_KEY, map, performedById);
+  cachedMap = map;
+
+  await storage.createAuditLog({
+    performedById,
+    action: "update_permissions",
+    previousValue: JSON.stringify(previous),
+    newValue: JSON.stringify(map),
+  });
+}
+
+export async function getUserPermissions(user: User): Promise<Permission[]> {
+  return getPermissions(user, await getPermissionMap());
+}
+
+export async function userHasPermission(user: User, permission: Permission): Promise<boolean> {
+  return hasPermission(user, permission, await getPermissionMap());
+}
+
+// Runs after isAuthenticated; the user needs every listed permission
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).dbUser as User | undefined;
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const map = await getPermissionMap();
+      const missing = permissions.find((permission) => !hasPermission(user, permission, map));
+      if (missing) {
+        return res.status(403).json({ message: `Permission required: ${missing}` });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+};
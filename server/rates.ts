@@ -0,0 +1,81 @@
+// Rate card lookups: course billing rates (less student discounts) and tutor pay
+// rates, each resolved as of a given date so history is respected
+
+import { storage } from "./storage";
+import { applyDiscount, findEffectiveEntry, findEffectiveScopedEntry } from "@shared/ratePolicy";
+import type {
+  CourseRate,
+  CurrencyCode,
+  StudentRateDiscount,
+  TutorPayRate,
+} from "@shared/schema";
+
+export type ResolvedCourseRate = {
+  hourlyRate: number;
+  baseRate: number;
+  discountPercent: number;
+};
+
+// Caches rate rows per course/tutor/student so bulk runs query each only once
+export function createRateLookup() {
+  const courseRateCache = new Map<string, CourseRate[]>();
+  const tutorRateCache = new Map<string, TutorPayRate[]>();
+  const discountCache = new Map<string, StudentRateDiscount[]>();
+
+  async function getCourseRates(courseId: string) {
+    if (!courseRateCache.has(courseId)) {
+      courseRateCache.set(courseId, await storage.getCourseRates(courseId));
+    }
+    return courseRateCache.get(courseId)!;
+  }
+
+  async function getTutorRates(tutorId: string) {
+    if (!tutorRateCache.has(tutorId)) {
+      tutorRateCache.set(tutorId, await storage.getTutorPayRates(tutorId));
+    }
+    return tutorRateCache.get(tutorId)!;
+  }
+
+  async function getDiscounts(studentId: string) {
+    if (!discountCache.has(studentId)) {
+      discountCache.set(studentId, await storage.getStudentRateDiscounts(studentId));
+    }
+    return discountCache.get(studentId)!;
+  }
+
+  return {
+    async courseRate(
+      courseId: string,
+      currency: CurrencyCode,
+      date: Date,
+      studentId?: string,
+    ): Promise<ResolvedCourseRate | null> {
+      const rates = (await getCourseRates(courseId)).filter(r => r.currency === currency);
+      const rate = findEffectiveEntry(rates, date);
+      if (!rate) return null;
+
+      const baseRate = parseFloat(rate.hourlyRate);
+      const discount = studentId
+        ? findEffectiveScopedEntry(await getDiscounts(studentId), courseId, date)
+        : undefined;
+      const discountPercent = discount ? parseFloat(discount.discountPercent) : 0;
+
+      return {
+        hourlyRate: applyDiscount(baseRate, discountPercent),
+        baseRate,
+        discountPercent,
+      };
+    },
+
+    async tutorPayRate(
+      tutorId: string,
+      courseId: string,
+      currency: CurrencyCode,
+      date: Date,
+    ): Promise<number | null> {
+      const rates = (await getTutorRates(tutorId)).filter(r => r.currency === currency);
+      const rate = findEffectiveScopedEntry(rates, courseId, date);
+      return rate ? parseFloat(rate.hourlyRate) : null;
+    },
+  };
+}
@@ -1,14 +1,52 @@
 // API routes for MCEC LMS
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import {
   setupAuth,
   isAuthenticated,
+  isTwoFactorSatisfied,
   requireAdminLevel
 } from "./auth";
 
 import { setupDevAuth } from "./devAuth";
+import { runMonthlyBilling } from "./billing";
+import { createRateLookup } from "./rates";
+import { flagUnpaidInvoices, runPayroll } from "./payroll";
+import { getWalletValidityDays } from "./wallets";
+import { publishChatMessage, publishThreadRead, setupChatWebSocket } from "./chatSocket";
+import { canDownloadUpload, checkUploadReference, getUploadUrl, linkUploadReference, saveUpload } from "./uploads";
+import { getFileStorage } from "./fileStorage";
+import { getPermissionMap, getUserPermissions, requirePermission, savePermissionMap, userHasPermission } from "./permissions";
+import { getImpersonationSummary, startImpersonation, stopImpersonation } from "./impersonation";
+import {
+  createInviteCode,
+  linkParentAndChild,
+  redeemInviteCode,
+  requestLinkByEmail,
+  respondToLinkRequest,
+  takeOverPrimaryBilling,
+  toPublicLinkRequest,
+} from "./parentLinks";
+import { previewUserImport, runUserImport } from "./userImport";
+import { getAppBaseUrl } from "./authTokens";
+import { recordAudit } from "./audit";
+import {
+  getBookableSlots,
+  getProposalOccurrences,
+  getProposalSlotError,
+  getTimeOffConflicts,
+  getTutorTimeOff,
+  overlapsTimeOff,
+} from "./slots";
+import { formatSessionTimeForUser, getUserTimeZone } from "./timeZones";
+import { cancelSessionWithCharges, deductWalletWithAudit } from "./sessionCharges";
+import {
+  listUserSessions,
+  revokeAllUserSessions,
+  revokeSessionsOnAccessChange,
+  revokeUserSession,
+} from "./userSessions";
 import {
   insertCourseSchema,
   insertEnrollmentSchema,
@@ -29,6 +67,7 @@ import {
   insertDisputeSchema,
   type UserRole,
   type ProposalStatus,
+  type TutoringSession,
   type TutoringSessionStatus,
   type InvoiceStatus,
   type PayoutStatus,
@@ -39,8 +78,40 @@ import {
 } from "@shared/schema";
 import { getMessagingRetentionCutoff } from "@shared/messagingPolicy";
 import { canApproveReport, canEditReport, canResolveDispute, canSubmitReport, canViewReport } from "@shared/reportingPolicy";
+import { getBillingPeriod } from "@shared/billingPolicy";
+import { extendWalletExpiry, isWalletExpired } from "@shared/walletPolicy";
+import { MAX_UPLOAD_BYTES, decodeFileNameHeader, isUploadPurpose } from "@shared/uploadPolicy";
+import { getImpersonationBlocker } from "@shared/authPolicy";
+import { MAX_RELATIONSHIP_LENGTH, getParentLinkBlocker } from "@shared/parentLinkPolicy";
+import { MAX_IMPORT_BYTES } from "@shared/userImportPolicy";
+import { auditLogFilterSchema, buildAuditLogCsv, MAX_AUDIT_EXPORT_ROWS } from "@shared/auditPolicy";
+import { availabilityExceptionInputSchema, rangesOverlap, slotSearchSchema } from "@shared/slotPolicy";
+import { formatInTimeZone, formatSessionTime, resolveTimeZone, timeZoneSchema } from "@shared/timeZonePolicy";
+import {
+  getRescheduleChargeMinutes,
+  getRescheduleOptionError,
+  getScheduledMinutes,
+  rescheduleAcceptInputSchema,
+  rescheduleCounterInputSchema,
+  rescheduleDeclineInputSchema,
+  rescheduleRequestInputSchema,
+  toRescheduleOptions,
+  type RescheduleOption,
+} from "@shared/reschedulePolicy";
+import {
+  DEFAULT_PERMISSION_MAP,
+  PERMISSIONS,
+  validatePermissionMap,
+  type PermissionMap,
+} from "@shared/permissionPolicy";
+import {
+  MAX_RECURRENCE_OCCURRENCES,
+  shiftOccurrence,
+  type SessionOccurrence,
+} from "@shared/schedulingPolicy";
 import { z } from "zod";
 import PDFDocument from "pdfkit";
+import { randomUUID } from "crypto";
 
 function isStaffWithAccess(user: any) {
   return (
@@ -55,55 +126,20 @@ function roundUpTo15Minutes(minutes: number): number {
   return Math.ceil(minutes / 15) * 15;
 }
 
-// Helper to deduct from wallet with audit logging
-async function deductWalletWithAudit(
-  studentId: string, 
-  courseId: string, 
-  minutes: number, 
-  reason: string,
-  sessionId?: string
-): Promise<void> {
-  const wallet = await storage.getHourWalletByStudentCourse(studentId, courseId);
-  if (!wallet) return;
-  
-  await storage.deductMinutesFromWallet(studentId, courseId, minutes);
-  
-  // Refetch to get updated balance
-  const updatedWallet = await storage.getHourWalletByStudentCourse(studentId, courseId);
-  if (updatedWallet) {
-    const remainingMinutes = updatedWallet.purchasedMinutes - updatedWallet.consumedMinutes;
-    await storage.createWalletTransaction({
-      walletId: updatedWallet.id,
-      minutesDelta: -minutes,
-      balanceAfter: remainingMinutes,
-      reason: reason,
-      performedById: null,
-    });
+// An occurrence conflicts when the tutor is already booked or has time off then
+async function checkOccurrenceConflicts(
+  tutorId: string,
+  occurrences: SessionOccurrence[]
+): Promise<(SessionOccurrence & { conflict: boolean })[]> {
+  if (occurrences.length === 0) return [];
+  const timeOff = await getTutorTimeOff(tutorId, occurrences[0].start, occurrences[occurrences.length - 1].end);
+  const checked = [];
+  for (const occurrence of occurrences) {
+    const conflict = timeOff.some(range => rangesOverlap(range, occurrence))
+      || await storage.checkDoubleBooking(tutorId, occurrence.start, occurrence.end);
+    checked.push({ ...occurrence, conflict });
   }
-}
-
-// Helper to refund to wallet with audit logging
-async function refundWalletWithAudit(
-  studentId: string, 
-  courseId: string, 
-  minutes: number, 
-  reason: string
-): Promise<void> {
-  const wallet = await storage.getHourWalletByStudentCourse(studentId, courseId);
-  if (!wallet) return;
-  
-  // Refund works by reducing consumedMinutes
-  const newConsumed = Math.max(0, wallet.consumedMinutes - minutes);
-  await storage.updateHourWallet(wallet.id, { consumedMinutes: newConsumed });
-  
-  const remainingMinutes = wallet.purchasedMinutes - newConsumed;
-  await storage.createWalletTransaction({
-    walletId: wallet.id,
-    minutesDelta: minutes, // Positive delta for refund
-    balanceAfter: remainingMinutes,
-    reason: `[REFUND] ${reason}`,
-    performedById: null,
-  });
+  return checked;
 }
 
 function getDbUser(req: Request) {
@@ -264,6 +300,9 @@ export async function registerRoutes(
   // Setup Development Auth (Microsoft SSO & Phone OTP bypasses)
   setupDevAuth(app);
 
+  // Real-time chat delivery shares the session store with the REST routes
+  setupChatWebSocket(httpServer);
+
   // ==========================================
   // AUTH ROUTES
   // ==========================================
@@ -278,13 +317,82 @@ export async function registerRoutes(
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json({
+        ...user,
+        twoFactorSetupRequired: !user.twoFactorEnabled && !isTwoFactorSatisfied(req.session, user),
+        permissions: await getUserPermissions(user),
+        impersonation: getImpersonationSummary(req),
+      });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
+  // Set the current user's time zone preference
+  app.patch('/api/auth/user/time-zone', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const { timeZone } = z.object({ timeZone: timeZoneSchema }).parse(req.body);
+      const updated = await storage.updateUser(dbUser.id, { timeZone, updatedAt: new Date() });
+      res.json({ timeZone: updated?.timeZone ?? timeZone });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating time zone:", error);
+      res.status(500).json({ message: "Failed to update time zone" });
+    }
+  });
+
+  // ==========================================
+  // SIGN-IN SESSION ROUTES
+  // ==========================================
+
+  // List the current user's signed-in sessions
+  app.get('/api/auth/sessions', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const sessions = await listUserSessions(dbUser.id, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out one of the current user's other sessions
+  app.delete('/api/auth/sessions/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const current = (await listUserSessions(dbUser.id, req.sessionID)).find((s) => s.current);
+      if (current?.id === req.params.id) {
+        return res.status(400).json({ message: "Use sign out to end the session you are using" });
+      }
+
+      const revoked = await revokeUserSession(dbUser.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // Sign out every session except the one making the request
+  app.post('/api/auth/sessions/revoke-others', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const revoked = await revokeAllUserSessions(dbUser.id, req.sessionID);
+      res.json({ message: "Other sessions signed out", revoked });
+    } catch (error) {
+      console.error("Error revoking other sessions:", error);
+      res.status(500).json({ message: "Failed to sign out other sessions" });
+    }
+  });
+
   // ==========================================
   // STAFF ROLE REQUEST ROUTES
   // ==========================================
@@ -344,14 +452,9 @@ export async function registerRoutes(
     }
   });
   
-  // Get all pending staff role requests (admin level 1+ - Staff)
-  app.get('/api/staff/proposals', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Get all pending staff role requests (requires staff.approve)
+  app.get('/api/staff/proposals', isAuthenticated, requirePermission("staff.approve"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 1) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 1 (Staff) required." });
-      }
-      
       const requests = await storage.getPendingStaffRequests();
       res.json(requests);
     } catch (error) {
@@ -360,14 +463,9 @@ export async function registerRoutes(
     }
   });
   
-  // Approve staff role request (admin level 1+ - Staff)
-  app.post('/api/staff/proposals/:id/approve', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Approve staff role request (requires staff.approve)
+  app.post('/api/staff/proposals/:id/approve', isAuthenticated, requirePermission("staff.approve"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 1) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 1 (Staff) required." });
-      }
-      
       const reviewerId = req.user?.claims?.sub;
       if (!reviewerId) {
         return res.status(401).json({ message: "Unauthorized" });
@@ -381,14 +479,9 @@ export async function registerRoutes(
     }
   });
   
-  // Reject staff role request (admin level 1+ - Staff)
-  app.post('/api/staff/proposals/:id/reject', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Reject staff role request (requires staff.approve)
+  app.post('/api/staff/proposals/:id/reject', isAuthenticated, requirePermission("staff.approve"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 1) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 1 (Staff) required." });
-      }
-      
       const reviewerId = req.user?.claims?.sub;
       if (!reviewerId) {
         return res.status(401).json({ message: "Unauthorized" });
@@ -399,7 +492,11 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Rejection reason is required" });
       }
       
-      await storage.rejectStaffRequest(req.params.id, reviewerId, reason);
+      const request = await storage.rejectStaffRequest(req.params.id, reviewerId, reason);
+      if (request) {
+        // The account is now rejected, so it should not stay signed in
+        await revokeAllUserSessions(request.userId);
+      }
       res.json({ message: "Staff request rejected" });
     } catch (error) {
       console.error("Error rejecting staff request:", error);
@@ -411,8 +508,8 @@ export async function registerRoutes(
   // USER ROUTES
   // ==========================================
   
-  // Get all users (admin only)
-  app.get('/api/users', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Get all users (requires users.manage)
+  app.get('/api/users', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -434,14 +531,20 @@ export async function registerRoutes(
     }
   });
 
-  // Update user role (admin only)
-  app.patch('/api/users/:id/role', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Update user role (requires users.manage)
+  app.patch('/api/users/:id/role', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
     try {
+      const dbUser = (req as any).dbUser;
       const { role } = req.body;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
       const user = await storage.updateUserRole(req.params.id, role);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      await revokeSessionsOnAccessChange(targetUser, user, dbUser.id);
       res.json(user);
     } catch (error) {
       console.error("Error updating user role:", error);
@@ -449,14 +552,20 @@ export async function registerRoutes(
     }
   });
 
-  // Update user status (admin only)
-  app.patch('/api/users/:id/status', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Update user status (requires users.manage)
+  app.patch('/api/users/:id/status', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
     try {
+      const dbUser = (req as any).dbUser;
       const { isActive } = req.body;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
       const user = await storage.updateUserStatus(req.params.id, isActive);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      await revokeSessionsOnAccessChange(targetUser, user, dbUser.id);
       res.json(user);
     } catch (error) {
       console.error("Error updating user status:", error);
@@ -464,6 +573,177 @@ export async function registerRoutes(
     }
   });
 
+  // List a user's signed-in sessions (requires users.manage)
+  app.get('/api/users/:id/sessions', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const sessions = await listUserSessions(targetUser.id, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign a user out of one session (requires users.manage)
+  app.delete('/api/users/:id/sessions/:sessionId', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (targetUser.isSuperAdmin && !dbUser.isSuperAdmin) {
+        return res.status(403).json({ message: "Only a Super Admin can sign out a Super Admin" });
+      }
+
+      const revoked = await revokeUserSession(targetUser.id, req.params.sessionId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: targetUser.id,
+        action: "revoke_session",
+        metadata: { targetEmail: targetUser.email, ipAddress: revoked.ipAddress, userAgent: revoked.userAgent },
+      });
+
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Error revoking user session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // Sign a user out everywhere (requires users.manage)
+  app.delete('/api/users/:id/sessions', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (targetUser.isSuperAdmin && !dbUser.isSuperAdmin) {
+        return res.status(403).json({ message: "Only a Super Admin can sign out a Super Admin" });
+      }
+
+      // Signing yourself out everywhere keeps the session making the request
+      const revoked = await revokeAllUserSessions(
+        targetUser.id,
+        targetUser.id === dbUser.id ? req.sessionID : undefined,
+      );
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: targetUser.id,
+        action: "revoke_sessions",
+        newValue: String(revoked),
+        metadata: { targetEmail: targetUser.email, reason: "admin_sign_out" },
+      });
+
+      res.json({ message: "User signed out everywhere", revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+
+  // Active sign-in lockouts (requires users.manage)
+  app.get('/api/admin/login-lockouts', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const lockouts = await storage.getActiveLoginLockouts(new Date());
+      res.json(lockouts);
+    } catch (error) {
+      console.error("Error fetching login lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch login lockouts" });
+    }
+  });
+
+  // Clear a sign-in lockout (requires users.manage)
+  app.delete('/api/admin/login-lockouts/:id', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const throttle = await storage.clearLoginThrottle(req.params.id);
+      if (!throttle) {
+        return res.status(404).json({ message: "Lockout not found" });
+      }
+
+      const targetUser = throttle.scope === "account"
+        ? await storage.getUserByEmail(throttle.identifier) ?? await storage.getUserByPhone(throttle.identifier)
+        : undefined;
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: targetUser?.id ?? null,
+        action: "clear_login_lockout",
+        previousValue: throttle.lockedUntil?.toISOString() ?? null,
+        metadata: { scope: throttle.scope, identifier: throttle.identifier },
+      });
+
+      res.json({ message: "Lockout cleared" });
+    } catch (error) {
+      console.error("Error clearing login lockout:", error);
+      res.status(500).json({ message: "Failed to clear login lockout" });
+    }
+  });
+
+  // Bulk user import: the raw CSV or XLSX file is the request body, with its
+  // original name in an X-File-Name header. Preview validates without writing.
+  app.post(
+    '/api/users/import/preview',
+    isAuthenticated,
+    requirePermission("users.manage"),
+    express.raw({ type: () => true, limit: MAX_IMPORT_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "File content is required" });
+        }
+        const { rows, error } = await previewUserImport(req.body);
+        if (error) {
+          return res.status(400).json({ message: error, rows });
+        }
+        res.json({ rows });
+      } catch (error) {
+        console.error("Error previewing user import:", error);
+        res.status(500).json({ message: "Failed to preview import" });
+      }
+    },
+  );
+
+  // Runs only when every row is valid; otherwise nothing is written
+  app.post(
+    '/api/users/import',
+    isAuthenticated,
+    requirePermission("users.manage"),
+    express.raw({ type: () => true, limit: MAX_IMPORT_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const dbUser = (req as any).dbUser;
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "File content is required" });
+        }
+
+        const fileName = decodeFileNameHeader(req.get("x-file-name"), "import.csv");
+        if (fileName === null) {
+          return res.status(400).json({ message: "Invalid file name" });
+        }
+        const { rows, summary, error } = await runUserImport(fileName, req.body, dbUser.id, getAppBaseUrl());
+        if (error) {
+          return res.status(400).json({ message: error, rows });
+        }
+        res.status(201).json({ rows, summary });
+      } catch (error) {
+        console.error("Error importing users:", error);
+        res.status(500).json({ message: "Failed to import users" });
+      }
+    },
+  );
+
   // ==========================================
   // SUPER ADMIN ROUTES
   // ==========================================
@@ -497,6 +777,7 @@ export async function registerRoutes(
       const previousValue = targetUser.adminLevel?.toString() || "1";
       
       const user = await storage.updateUserAdminLevel(req.params.id, adminLevel);
+      await revokeSessionsOnAccessChange(targetUser, user, dbUser.id);
       
       await storage.createAuditLog({
         performedById: dbUser.id,
@@ -536,6 +817,7 @@ export async function registerRoutes(
       const previousValue = targetUser.isSuperAdmin.toString();
       
       const user = await storage.updateUserSuperAdmin(req.params.id, isSuperAdmin);
+      await revokeSessionsOnAccessChange(targetUser, user, dbUser.id);
       
       await storage.createAuditLog({
         performedById: dbUser.id,
@@ -572,6 +854,7 @@ export async function registerRoutes(
       const previousValue = targetUser.role;
       
       const user = await storage.updateUserRole(req.params.id, role);
+      await revokeSessionsOnAccessChange(targetUser, user, dbUser.id);
       
       await storage.createAuditLog({
         performedById: dbUser.id,
@@ -642,6 +925,7 @@ export async function registerRoutes(
       }
       
       const user = await storage.updateUserFull(req.params.id, updateData);
+      await revokeSessionsOnAccessChange(targetUser, user, dbUser.id);
       
       await storage.createAuditLog({
         performedById: dbUser.id,
@@ -659,18 +943,155 @@ export async function registerRoutes(
     }
   });
 
-  // Get audit logs (Super Admin only)
+  // Sign in as another user for support (Super Admin only, read-only unless writes are allowed)
+  app.post('/api/super-admin/users/:id/impersonate', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const { allowWrites = false, minutes } = req.body;
+
+      if (typeof allowWrites !== 'boolean') {
+        return res.status(400).json({ message: "allowWrites must be a boolean" });
+      }
+      if (minutes !== undefined && typeof minutes !== 'number') {
+        return res.status(400).json({ message: "minutes must be a number" });
+      }
+
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const blocker = getImpersonationBlocker(dbUser, targetUser);
+      if (blocker) {
+        return res.status(400).json({ message: blocker });
+      }
+
+      const state = await startImpersonation(req, dbUser, targetUser, { allowWrites, minutes });
+      res.json({ message: "Signed in as user", expiresAt: new Date(state.expiresAt).toISOString() });
+    } catch (error) {
+      console.error("Error starting impersonation:", error);
+      res.status(500).json({ message: "Failed to sign in as user" });
+    }
+  });
+
+  // Return to the super admin's own account
+  app.post('/api/impersonation/stop', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const state = await stopImpersonation(req, "exit");
+      if (!state) {
+        return res.status(400).json({ message: "Not signed in as another user" });
+      }
+      res.json({ message: "Returned to your account" });
+    } catch (error) {
+      console.error("Error stopping impersonation:", error);
+      res.status(500).json({ message: "Failed to return to your account" });
+    }
+  });
+
+  // Get the role-to-permission map (Super Admin only)
+  app.get('/api/super-admin/permissions', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json({
+        permissions: PERMISSIONS,
+        map: await getPermissionMap(),
+        defaults: DEFAULT_PERMISSION_MAP,
+      });
+    } catch (error) {
+      console.error("Error fetching permission map:", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  // Replace the role-to-permission map (Super Admin only)
+  app.put('/api/super-admin/permissions', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const { map } = req.body;
+
+      const error = validatePermissionMap(map);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      await savePermissionMap(map as PermissionMap, dbUser.id);
+      res.json({ map });
+    } catch (error) {
+      console.error("Error updating permission map:", error);
+      res.status(500).json({ message: "Failed to update permissions" });
+    }
+  });
+
+  // Reset another user's two-factor authentication (Super Admin only)
+  app.post('/api/super-admin/users/:id/two-factor/reset', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+
+      if (req.params.id === dbUser.id) {
+        return res.status(400).json({ message: "Cannot reset your own two-factor authentication" });
+      }
+
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!targetUser.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled for this user" });
+      }
+
+      await storage.deleteTwoFactorCredential(targetUser.id);
+      // Signed-in sessions were verified with the old authenticator
+      await storage.deleteUserSessions(targetUser.id);
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: targetUser.id,
+        action: "reset_two_factor",
+        previousValue: "enabled",
+        newValue: "disabled",
+        metadata: { targetEmail: targetUser.email },
+      });
+
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      console.error("Error resetting two-factor:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Get audit logs, filtered by entity, actor, action and date range (Super Admin only)
   app.get('/api/super-admin/audit-logs', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 100;
-      const logs = await storage.getAuditLogs(limit);
+      const filter = auditLogFilterSchema.parse(req.query);
+      const logs = await storage.getAuditLogs(filter);
       res.json(logs);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
       console.error("Error fetching audit logs:", error);
       res.status(500).json({ message: "Failed to fetch audit logs" });
     }
   });
 
+  // Export audit logs as CSV with the same filters; the limit is raised to the export cap
+  app.get('/api/super-admin/audit-logs/export', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const filter = auditLogFilterSchema.omit({ limit: true }).parse(req.query);
+      const logs = await storage.getAuditLogs({ ...filter, limit: MAX_AUDIT_EXPORT_ROWS });
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(buildAuditLogCsv(logs));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      console.error("Error exporting audit logs:", error);
+      res.status(500).json({ message: "Failed to export audit logs" });
+    }
+  });
+
   // Get audit logs for specific user (Super Admin only)
   app.get('/api/super-admin/audit-logs/user/:userId', isAuthenticated, requireSuperAdmin, async (req: Request, res: Response) => {
     try {
@@ -755,7 +1176,12 @@ export async function registerRoutes(
       console.log("[POST /api/courses] courseData with tutorId:", courseData);
       
       const validated = insertCourseSchema.parse(courseData);
+      const uploadError = await checkUploadReference(validated.imageUrl, "course_image", dbUser.id);
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
       const course = await storage.createCourse(validated);
+      await linkUploadReference(course.imageUrl, course.id);
       
       console.log("[POST /api/courses] Course created successfully:", course.id);
       return res.status(201).json(course);
@@ -786,8 +1212,13 @@ export async function registerRoutes(
       
       // Validate and sanitize input
       const validated = updateCourseSchema.parse(req.body);
+      const uploadError = await checkUploadReference(validated.imageUrl, "course_image", dbUser.id, req.params.id);
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
       
       const course = await storage.updateCourse(req.params.id, validated);
+      await linkUploadReference(validated.imageUrl, req.params.id);
       res.json(course);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -891,6 +1322,7 @@ export async function registerRoutes(
   // Allocate monthly hours across courses (atomic operation)
   app.post('/api/wallets/allocate-month', isAuthenticated, requireRole("tutor", "admin", "manager"), async (req: Request, res: Response) => {
     try {
+      const dbUser = (req as any).dbUser;
       const { studentId, month, year, totalMinutes, allocations, reason } = req.body;
       
       console.log(`[Allocate Month] Received: studentId=${studentId}, month=${month}/${year}, totalMinutes=${totalMinutes}`);
@@ -924,9 +1356,10 @@ export async function registerRoutes(
             console.warn(`[Allocate Month] Used fallback lookup: "${allocation.courseId}" -> "${course.id}"`);
           }
           const resolvedCourseId = course.id;
+          const previousWallet = await storage.getHourWalletByStudentCourse(studentId, resolvedCourseId);
           
           // Add minutes to wallet (creates wallet if doesn't exist)
-          const wallet = await storage.addMinutesToWallet(studentId, resolvedCourseId, allocation.minutes);
+          const wallet = await storage.addMinutesToWallet(studentId, resolvedCourseId, allocation.minutes, getWalletValidityDays());
           
           // Create transaction record with correct schema fields
           if (wallet) {
@@ -936,7 +1369,17 @@ export async function registerRoutes(
               minutesDelta: allocation.minutes,
               balanceAfter: balanceAfter,
               reason: transactionReason,
-              performedById: req.user?.claims?.sub || null,
+              performedById: dbUser.id,
+            });
+            await recordAudit({
+              actorId: dbUser.id,
+              action: "allocate_wallet_minutes",
+              entityType: "hour_wallet",
+              entityId: wallet.id,
+              targetUserId: studentId,
+              before: previousWallet ?? null,
+              after: wallet,
+              metadata: { month, year, minutes: allocation.minutes, reason: transactionReason },
             });
           }
         }
@@ -1234,7 +1677,12 @@ export async function registerRoutes(
         ...req.body,
         studentId,
       });
+      const uploadError = await checkUploadReference(validated.fileUrl, "submission", studentId);
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
       const submission = await storage.createSubmission(validated);
+      await linkUploadReference(submission.fileUrl, submission.id);
       res.status(201).json(submission);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1268,8 +1716,13 @@ export async function registerRoutes(
       
       // Validate and sanitize input
       const validated = updateSubmissionSchema.parse(req.body);
+      const uploadError = await checkUploadReference(validated.fileUrl, "submission", userId, req.params.id);
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
       
       const submission = await storage.updateSubmission(req.params.id, validated);
+      await linkUploadReference(validated.fileUrl, req.params.id);
       res.json(submission);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1326,10 +1779,20 @@ export async function registerRoutes(
         gradedById: tutorId,
       });
       const grade = await storage.createGrade(validated);
+      const submission = await storage.getSubmission(validated.submissionId);
+
+      await recordAudit({
+        actorId: tutorId,
+        action: "create_grade",
+        entityType: "grade",
+        entityId: grade.id,
+        targetUserId: submission?.studentId,
+        after: grade,
+        metadata: { submissionId: validated.submissionId },
+      });
       
       // Trigger notification for the student
       try {
-        const submission = await storage.getSubmission(validated.submissionId);
         if (submission) {
           const assignment = await storage.getAssignment(submission.assignmentId);
           await storage.createNotification({
@@ -1375,6 +1838,18 @@ export async function registerRoutes(
       const validated = updateGradeSchema.parse(req.body);
       
       const grade = await storage.updateGrade(req.params.id, validated);
+      const submission = await storage.getSubmission(existingGrade.submissionId);
+
+      await recordAudit({
+        actorId: dbUser.id,
+        action: "update_grade",
+        entityType: "grade",
+        entityId: existingGrade.id,
+        targetUserId: submission?.studentId,
+        before: existingGrade,
+        after: grade,
+        metadata: { submissionId: existingGrade.submissionId },
+      });
       res.json(grade);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1536,29 +2011,289 @@ export async function registerRoutes(
     }
   });
 
-  // Create parent-child relationship (admin only)
-  app.post('/api/parent-children', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  const relationshipSchema = z
+    .string()
+    .trim()
+    .max(MAX_RELATIONSHIP_LENGTH)
+    .nullish()
+    .transform((value) => value || null);
+
+  // Links and pending link requests for the signed-in parent or student
+  app.get('/api/parent-links', isAuthenticated, requireRole("parent", "student"), async (req: Request, res: Response) => {
     try {
-      const validated = insertParentChildSchema.parse(req.body);
-      const relation = await storage.createParentChild(validated);
-      res.status(201).json(relation);
+      const dbUser = (req as any).dbUser;
+      const links = dbUser.role === "parent"
+        ? await storage.getParentChildren(dbUser.id)
+        : await storage.getChildParents(dbUser.id);
+      const requests = await storage.getPendingParentLinkRequests(dbUser.id, new Date());
+      res.json({ links, requests: requests.map(toPublicLinkRequest) });
+    } catch (error) {
+      console.error("Error fetching parent links:", error);
+      res.status(500).json({ message: "Failed to fetch parent links" });
+    }
+  });
+
+  // Student issues an invite code for a parent; the code is only ever shown here
+  app.post('/api/parent-links/invite-codes', isAuthenticated, requireRole("student"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      if (dbUser.role !== "student") {
+        return res.status(403).json({ message: "Only students can create invite codes" });
+      }
+      const { relationship } = z.object({ relationship: relationshipSchema }).parse(req.body ?? {});
+      const { code, request } = await createInviteCode(dbUser, relationship);
+      res.status(201).json({ code, expiresAt: request.expiresAt, requestId: request.id });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating parent-child relationship:", error);
-      res.status(500).json({ message: "Failed to create relationship" });
+      console.error("Error creating invite code:", error);
+      res.status(500).json({ message: "Failed to create invite code" });
     }
   });
 
-  // Delete parent-child relationship (admin only)
-  app.delete('/api/parent-children/:id', isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Parent redeems a student's invite code
+  app.post('/api/parent-links/redeem', isAuthenticated, requireRole("parent"), async (req: Request, res: Response) => {
     try {
-      await storage.deleteParentChild(req.params.id);
-      res.status(204).send();
+      const dbUser = (req as any).dbUser;
+      const { code, relationship } = z.object({
+        code: z.string().min(1),
+        relationship: relationshipSchema,
+      }).parse(req.body);
+
+      const result = await redeemInviteCode(dbUser, code, relationship);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(201).json(result.link);
     } catch (error) {
-      console.error("Error deleting parent-child relationship:", error);
-      res.status(500).json({ message: "Failed to delete relationship" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error redeeming invite code:", error);
+      res.status(500).json({ message: "Failed to redeem invite code" });
+    }
+  });
+
+  // Parent asks to be linked to a student by the student's email
+  app.post('/api/parent-links/requests', isAuthenticated, requireRole("parent"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const { studentEmail, relationship } = z.object({
+        studentEmail: z.string().email(),
+        relationship: relationshipSchema,
+      }).parse(req.body);
+
+      const result = await requestLinkByEmail(dbUser, studentEmail, relationship);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(201).json({ id: result.request!.id, expiresAt: result.request!.expiresAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error requesting parent link:", error);
+      res.status(500).json({ message: "Failed to request link" });
+    }
+  });
+
+  // Student accepts a parent's link request
+  app.post('/api/parent-links/requests/:id/accept', isAuthenticated, requireRole("student"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const result = await respondToLinkRequest(dbUser, req.params.id, true);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.link);
+    } catch (error) {
+      console.error("Error accepting parent link request:", error);
+      res.status(500).json({ message: "Failed to accept link request" });
+    }
+  });
+
+  // Student declines a parent's link request
+  app.post('/api/parent-links/requests/:id/decline', isAuthenticated, requireRole("student"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const result = await respondToLinkRequest(dbUser, req.params.id, false);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json({ message: "Link request declined" });
+    } catch (error) {
+      console.error("Error declining parent link request:", error);
+      res.status(500).json({ message: "Failed to decline link request" });
+    }
+  });
+
+  // Withdraw a pending request or invite code (its creator, or an admin)
+  app.delete('/api/parent-links/requests/:id', isAuthenticated, requireRole("parent", "student", "admin"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const request = await storage.getParentLinkRequest(req.params.id);
+      if (!request || (request.initiatedById !== dbUser.id && !(await userHasPermission(dbUser, "users.manage")))) {
+        return res.status(404).json({ message: "Link request not found" });
+      }
+      if (!(await storage.resolveParentLinkRequest(request.id, "cancelled", new Date()))) {
+        return res.status(400).json({ message: "Link request is no longer pending" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error cancelling parent link request:", error);
+      res.status(500).json({ message: "Failed to cancel link request" });
+    }
+  });
+
+  // Either side edits the relationship label; the parent can also take over as
+  // the primary billing contact
+  app.patch('/api/parent-links/:id', isAuthenticated, requireRole("parent", "student"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const link = await storage.getParentChild(req.params.id);
+      if (!link || (link.parentId !== dbUser.id && link.childId !== dbUser.id)) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+
+      const updates = z.object({
+        relationship: relationshipSchema.optional(),
+        isPrimaryBilling: z.literal(true).optional(),
+      }).parse(req.body);
+      if (updates.isPrimaryBilling && link.parentId !== dbUser.id) {
+        return res.status(403).json({ message: "Only the parent can become the primary billing contact" });
+      }
+
+      let updated = link;
+      if (updates.relationship !== undefined) {
+        updated = (await storage.updateParentChild(link.id, { relationship: updates.relationship })) ?? updated;
+      }
+      if (updates.isPrimaryBilling) {
+        updated = await takeOverPrimaryBilling(updated, dbUser.id);
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating parent link:", error);
+      res.status(500).json({ message: "Failed to update link" });
+    }
+  });
+
+  // Links and pending requests for any parent or student (admin only)
+  app.get('/api/users/:id/parent-links', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const links = targetUser.role === "parent"
+        ? await storage.getParentChildren(targetUser.id)
+        : await storage.getChildParents(targetUser.id);
+      const requests = await storage.getPendingParentLinkRequests(targetUser.id, new Date());
+      res.json({ links, requests: requests.map(toPublicLinkRequest) });
+    } catch (error) {
+      console.error("Error fetching parent links:", error);
+      res.status(500).json({ message: "Failed to fetch parent links" });
+    }
+  });
+
+  // Create parent-child relationship directly (admin only)
+  app.post('/api/parent-children', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const validated = insertParentChildSchema.extend({ relationship: relationshipSchema }).parse(req.body);
+      const [parent, student] = await Promise.all([
+        storage.getUser(validated.parentId),
+        storage.getUser(validated.childId),
+      ]);
+      if (!parent || !student) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const blocker = getParentLinkBlocker(parent, student, await storage.getChildParents(student.id));
+      if (blocker) {
+        return res.status(400).json({ message: blocker });
+      }
+
+      const relation = await linkParentAndChild(parent, student, {
+        relationship: validated.relationship,
+        isPrimaryBilling: validated.isPrimaryBilling,
+        method: "admin",
+        performedById: dbUser.id,
+      });
+      res.status(201).json(relation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating parent-child relationship:", error);
+      res.status(500).json({ message: "Failed to create relationship" });
+    }
+  });
+
+  // Edit the relationship label or primary billing contact (admin only)
+  app.patch('/api/parent-children/:id', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const link = await storage.getParentChild(req.params.id);
+      if (!link) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+
+      const updates = z.object({
+        relationship: relationshipSchema.optional(),
+        isPrimaryBilling: z.boolean().optional(),
+      }).parse(req.body);
+
+      let updated = link;
+      if (updates.relationship !== undefined) {
+        updated = (await storage.updateParentChild(link.id, { relationship: updates.relationship })) ?? updated;
+      }
+      if (updates.isPrimaryBilling === true) {
+        updated = (await storage.setPrimaryBillingParent(link.id)) ?? updated;
+      } else if (updates.isPrimaryBilling === false) {
+        updated = (await storage.updateParentChild(link.id, { isPrimaryBilling: false })) ?? updated;
+      }
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: link.childId,
+        action: "update_parent_link",
+        previousValue: JSON.stringify({ relationship: link.relationship, isPrimaryBilling: link.isPrimaryBilling }),
+        newValue: JSON.stringify({ relationship: updated.relationship, isPrimaryBilling: updated.isPrimaryBilling }),
+        metadata: { parentId: link.parentId },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating parent-child relationship:", error);
+      res.status(500).json({ message: "Failed to update relationship" });
+    }
+  });
+
+  // Delete parent-child relationship (admin only)
+  app.delete('/api/parent-children/:id', isAuthenticated, requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+      const link = await storage.getParentChild(req.params.id);
+      if (!link) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      await storage.deleteParentChild(link.id);
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: link.childId,
+        action: "unlink_parent",
+        previousValue: link.parentId,
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting parent-child relationship:", error);
+      res.status(500).json({ message: "Failed to delete relationship" });
     }
   });
 
@@ -1707,10 +2442,13 @@ export async function registerRoutes(
         .slice(0, 5)
         .map(session => ({
           id: session.id,
-          studentName: session.student ? `${session.student.firstName || ''} ${session.student.lastName || ''}`.trim() : 'Unknown',
+          studentName: session.isGroupSession
+            ? `Group: ${session.course.title}`
+            : session.student ? `${session.student.firstName || ''} ${session.student.lastName || ''}`.trim() : 'Unknown',
           scheduledStartTime: session.scheduledStartTime.toISOString(),
           scheduledMinutes: session.scheduledMinutes,
           status: session.status,
+          isGroupSession: session.isGroupSession,
         }));
       
       res.json({
@@ -1746,7 +2484,10 @@ export async function registerRoutes(
       const formattedSessions = sessions.map(session => ({
         id: session.id,
         studentId: session.studentId,
-        studentName: session.student ? `${session.student.firstName || ''} ${session.student.lastName || ''}`.trim() : 'Unknown',
+        studentName: session.isGroupSession
+          ? `Group: ${session.course.title}`
+          : session.student ? `${session.student.firstName || ''} ${session.student.lastName || ''}`.trim() : 'Unknown',
+        isGroupSession: session.isGroupSession,
         scheduledStartTime: session.scheduledStartTime.toISOString(),
         scheduledMinutes: session.scheduledMinutes,
         billableMinutes: session.billableMinutes,
@@ -2540,13 +3281,15 @@ export async function registerRoutes(
         rejectionReason: null,
       });
 
-      await storage.createAuditLog({
-        performedById: dbUser.id,
-        targetUserId: report.createdById,
+      await recordAudit({
+        actorId: dbUser.id,
         action: "approve_report",
-        previousValue: report.status,
-        newValue: "approved",
-        metadata: { reportId: report.id, reportType: report.type },
+        entityType: "report",
+        entityId: report.id,
+        targetUserId: report.createdById,
+        before: report,
+        after: updated,
+        metadata: { reportType: report.type },
       });
 
       res.json(updated);
@@ -2581,13 +3324,15 @@ export async function registerRoutes(
         approvedAt: new Date(),
       });
 
-      await storage.createAuditLog({
-        performedById: dbUser.id,
-        targetUserId: report.createdById,
+      await recordAudit({
+        actorId: dbUser.id,
         action: "reject_report",
-        previousValue: report.status,
-        newValue: "rejected",
-        metadata: { reportId: report.id, reportType: report.type },
+        entityType: "report",
+        entityId: report.id,
+        targetUserId: report.createdById,
+        before: report,
+        after: updated,
+        metadata: { reportType: report.type },
       });
 
       res.json(updated);
@@ -2671,7 +3416,8 @@ export async function registerRoutes(
       doc.fontSize(14).text(`Title: ${report.title}`);
       doc.text(`Month: ${report.month || "N/A"}`);
       doc.text(`Status: ${report.status}`);
-      doc.text(`Created: ${report.createdAt?.toLocaleDateString() || "N/A"}`);
+      const readerTimeZone = resolveTimeZone(activeUser.user.timeZone);
+      doc.text(`Created: ${report.createdAt ? formatInTimeZone(report.createdAt, readerTimeZone, "MMM d, yyyy") : "N/A"}`);
       if (report.student) {
         doc.text(`Student: ${report.student.firstName} ${report.student.lastName}`);
       }
@@ -2997,12 +3743,17 @@ export async function registerRoutes(
       const retentionCutoff = getMessagingRetentionCutoff();
       const allowedUserIds = new Set(await storage.getMessagingAllowedUserIds(messagingUser.userId));
       const threads = await storage.getChatThreadsByUser(messagingUser.userId, { retentionCutoff });
+      // Course thread visibility comes from course membership rather than DM relationships
       const visibleThreads = threads.filter((thread) =>
+        thread.thread.type === "course" ||
         thread.participants.every((participant) => allowedUserIds.has(participant.id)),
       );
 
       res.json(visibleThreads.map((thread) => ({
         id: thread.thread.id,
+        type: thread.thread.type,
+        course: thread.course,
+        readOnly: thread.readOnly,
         updatedAt: thread.thread.updatedAt,
         participants: thread.participants,
         lastMessage: thread.lastMessage,
@@ -3043,21 +3794,19 @@ export async function registerRoutes(
       const messagingUser = await getActiveMessagingUser(req, res);
       if (!messagingUser) return;
 
-      const isParticipant = await storage.isChatParticipant(req.params.threadId, messagingUser.userId);
-      if (!isParticipant) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      const participantIds = await storage.getChatThreadParticipantIds(req.params.threadId);
-      const allowedUserIds = new Set(await storage.getMessagingAllowedUserIds(messagingUser.userId));
-      const otherParticipantIds = participantIds.filter((id) => id !== messagingUser.userId);
-      if (otherParticipantIds.some((id) => !allowedUserIds.has(id))) {
+      const access = await storage.getChatThreadAccess(req.params.threadId, messagingUser.userId);
+      if (!access) {
         return res.status(403).json({ message: "Access denied" });
       }
 
       const retentionCutoff = getMessagingRetentionCutoff();
       const messages = await storage.getChatMessages(req.params.threadId, { retentionCutoff });
-      res.json(messages);
+      const receipts = await storage.getMessageReceipts(messages.map((message) => message.id));
+      const messagesWithReceipts = messages.map((message) => ({
+        ...message,
+        receipts: receipts.filter((receipt) => receipt.messageId === message.id),
+      }));
+      res.json(messagesWithReceipts);
     } catch (error) {
       console.error("Error fetching chat messages:", error);
       res.status(500).json({ message: "Failed to fetch chat messages" });
@@ -3070,16 +3819,12 @@ export async function registerRoutes(
       const messagingUser = await getActiveMessagingUser(req, res);
       if (!messagingUser) return;
 
-      const isParticipant = await storage.isChatParticipant(req.params.threadId, messagingUser.userId);
-      if (!isParticipant) {
+      const access = await storage.getChatThreadAccess(req.params.threadId, messagingUser.userId);
+      if (!access) {
         return res.status(403).json({ message: "Access denied" });
       }
-
-      const participantIds = await storage.getChatThreadParticipantIds(req.params.threadId);
-      const allowedUserIds = new Set(await storage.getMessagingAllowedUserIds(messagingUser.userId));
-      const otherParticipantIds = participantIds.filter((id) => id !== messagingUser.userId);
-      if (otherParticipantIds.some((id) => !allowedUserIds.has(id))) {
-        return res.status(403).json({ message: "Access denied" });
+      if (access !== "write") {
+        return res.status(403).json({ message: "This conversation is read-only" });
       }
 
       const data = z.object({ content: z.string().trim().min(1).max(2000) }).parse(req.body);
@@ -3088,6 +3833,13 @@ export async function registerRoutes(
         senderId: messagingUser.userId,
         content: data.content,
       });
+
+      try {
+        await publishChatMessage(message);
+      } catch (pushError) {
+        console.error("Error pushing chat message:", pushError);
+      }
+
       res.json(message);
     } catch (error) {
       console.error("Error sending chat message:", error);
@@ -3095,6 +3847,28 @@ export async function registerRoutes(
     }
   });
 
+  // Mark a thread as read (fallback for clients without a live socket)
+  app.post('/api/chats/:threadId/read', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const messagingUser = await getActiveMessagingUser(req, res);
+      if (!messagingUser) return;
+
+      const access = await storage.getChatThreadAccess(req.params.threadId, messagingUser.userId);
+      if (!access) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (access !== "write") {
+        return res.status(403).json({ message: "This conversation is read-only" });
+      }
+
+      const receipts = await publishThreadRead(req.params.threadId, messagingUser.userId);
+      res.json({ marked: receipts.length });
+    } catch (error) {
+      console.error("Error marking chat as read:", error);
+      res.status(500).json({ message: "Failed to mark chat as read" });
+    }
+  });
+
   // ==========================================
   // TUTOR AVAILABILITY ROUTES
   // ==========================================
@@ -3125,6 +3899,24 @@ export async function registerRoutes(
     }
   });
 
+  // Bookable session slots for a tutor (?from, ?to, ?duration in minutes)
+  app.get('/api/tutors/:tutorId/slots', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const search = slotSearchSchema.parse(req.query);
+      const slots = await getBookableSlots(req.params.tutorId, search.from, search.to, search.duration);
+      res.json(slots.map(slot => ({
+        startTime: slot.start.toISOString(),
+        endTime: slot.end.toISOString(),
+      })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching tutor slots:", error);
+      res.status(500).json({ message: "Failed to fetch slots" });
+    }
+  });
+
   // Create availability slot (tutor only)
   app.post('/api/tutor/availability', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
     try {
@@ -3135,6 +3927,7 @@ export async function registerRoutes(
       const validated = insertTutorAvailabilitySchema.parse({
         ...req.body,
         tutorId,
+        timeZone: resolveTimeZone(getDbUser(req).timeZone),
       });
       const availability = await storage.createTutorAvailability(validated);
       res.status(201).json(availability);
@@ -3161,7 +3954,11 @@ export async function registerRoutes(
         isRecurring: z.boolean().optional(),
       });
       const validated = updateSchema.parse(req.body);
-      const availability = await storage.updateTutorAvailability(req.params.id, tutorId, validated);
+      // Edited times are entered in the tutor's current zone
+      const availability = await storage.updateTutorAvailability(req.params.id, tutorId, {
+        ...validated,
+        timeZone: resolveTimeZone(getDbUser(req).timeZone),
+      });
       if (!availability) {
         return res.status(404).json({ message: "Availability slot not found or not owned by you" });
       }
@@ -3193,6 +3990,77 @@ export async function registerRoutes(
     }
   });
 
+  // Get tutor's own availability exceptions (time off and extra hours)
+  app.get('/api/tutor/availability-exceptions', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const exceptions = await storage.getTutorAvailabilityExceptions(dbUser.id);
+      res.json(exceptions);
+    } catch (error) {
+      console.error("Error fetching availability exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch availability exceptions" });
+    }
+  });
+
+  // Add time off or extra hours (tutor only). Time off returns the scheduled
+  // sessions it overlaps so the tutor can reschedule or cancel them.
+  app.post('/api/tutor/availability-exceptions', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const validated = availabilityExceptionInputSchema.parse(req.body);
+      const exception = await storage.createTutorAvailabilityException({
+        ...validated,
+        reason: validated.reason?.trim() || null,
+        tutorId: dbUser.id,
+      });
+
+      const conflicts = exception.type === "time_off"
+        ? await getTimeOffConflicts(dbUser.id, exception.startTime, exception.endTime)
+        : [];
+      res.status(201).json({ exception, conflicts });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating availability exception:", error);
+      res.status(500).json({ message: "Failed to create availability exception" });
+    }
+  });
+
+  // Scheduled sessions inside a block of time off (tutor only, must own)
+  app.get('/api/tutor/availability-exceptions/:id/conflicts', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const exceptions = await storage.getTutorAvailabilityExceptions(dbUser.id);
+      const exception = exceptions.find(e => e.id === req.params.id);
+      if (!exception) {
+        return res.status(404).json({ message: "Availability exception not found" });
+      }
+      const conflicts = exception.type === "time_off"
+        ? await getTimeOffConflicts(dbUser.id, exception.startTime, exception.endTime)
+        : [];
+      res.json(conflicts);
+    } catch (error) {
+      console.error("Error fetching time off conflicts:", error);
+      res.status(500).json({ message: "Failed to fetch conflicts" });
+    }
+  });
+
+  // Delete an availability exception (tutor only, must own)
+  app.delete('/api/tutor/availability-exceptions/:id', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const deleted = await storage.deleteTutorAvailabilityException(req.params.id, dbUser.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Availability exception not found or not owned by you" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting availability exception:", error);
+      res.status(500).json({ message: "Failed to delete availability exception" });
+    }
+  });
+
   // ==========================================
   // SESSION PROPOSAL ROUTES
   // ==========================================
@@ -3205,18 +4073,42 @@ export async function registerRoutes(
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      // Validate 15-minute block duration
       const proposedStart = new Date(req.body.proposedStartTime);
       const proposedEnd = new Date(req.body.proposedEndTime);
-      const durationMinutes = (proposedEnd.getTime() - proposedStart.getTime()) / (1000 * 60);
-      
-      if (durationMinutes <= 0 || durationMinutes % 15 !== 0) {
-        return res.status(400).json({ message: "Session duration must be in 15-minute blocks" });
+      if (isNaN(proposedStart.getTime()) || isNaN(proposedEnd.getTime())) {
+        return res.status(400).json({ message: "Invalid session time" });
+      }
+
+      // Recurring series need a frequency and exactly one of end date / occurrence count
+      const recurrenceEndDate = req.body.recurrenceEndDate ? new Date(req.body.recurrenceEndDate) : null;
+      const recurrenceCount = req.body.recurrenceCount ? Number(req.body.recurrenceCount) : null;
+      if (req.body.recurrenceFrequency) {
+        if ((recurrenceEndDate === null) === (recurrenceCount === null)) {
+          return res.status(400).json({ message: "A recurring series needs either an end date or an occurrence count" });
+        }
+        if (recurrenceCount !== null && (!Number.isInteger(recurrenceCount) || recurrenceCount < 2 || recurrenceCount > MAX_RECURRENCE_OCCURRENCES)) {
+          return res.status(400).json({ message: `Occurrence count must be between 2 and ${MAX_RECURRENCE_OCCURRENCES}` });
+        }
+        if (recurrenceEndDate !== null && (isNaN(recurrenceEndDate.getTime()) || recurrenceEndDate <= proposedStart)) {
+          return res.status(400).json({ message: "Series end date must be after the first session" });
+        }
+      } else if (recurrenceEndDate || recurrenceCount) {
+        return res.status(400).json({ message: "Recurrence frequency is required for a recurring series" });
       }
 
+      const validated = insertSessionProposalSchema.parse({
+        ...req.body,
+        studentId,
+        proposedStartTime: proposedStart,
+        proposedEndTime: proposedEnd,
+        recurrenceFrequency: req.body.recurrenceFrequency || null,
+        recurrenceEndDate,
+        recurrenceCount,
+      });
+
       // Check for double booking on the tutor's side
       const isDoubleBooked = await storage.checkDoubleBooking(
-        req.body.tutorId,
+        validated.tutorId,
         proposedStart,
         proposedEnd
       );
@@ -3224,12 +4116,26 @@ export async function registerRoutes(
         return res.status(409).json({ message: "The tutor already has a session scheduled at this time" });
       }
 
-      const validated = insertSessionProposalSchema.parse({
-        ...req.body,
-        studentId,
+      // Every session of the series must be one of the tutor's bookable slots (15-minute
+      // aligned, inside availability, clear of other sessions, pending proposals and buffers)
+      const occurrences = getProposalOccurrences({
         proposedStartTime: proposedStart,
         proposedEndTime: proposedEnd,
+        recurrenceFrequency: validated.recurrenceFrequency ?? null,
+        recurrenceEndDate,
+        recurrenceCount,
       });
+      for (const occurrence of occurrences) {
+        const slotError = await getProposalSlotError(validated.tutorId, occurrence.start, occurrence.end);
+        if (slotError) {
+          return res.status(400).json({
+            message: occurrence === occurrences[0]
+              ? slotError
+              : `Session on ${await formatSessionTimeForUser(studentId, occurrence.start)}: ${slotError}`,
+          });
+        }
+      }
+
       const proposal = await storage.createSessionProposal(validated);
       res.status(201).json(proposal);
     } catch (error) {
@@ -3291,29 +4197,82 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Proposal is no longer pending" });
       }
 
+      const proposedStart = new Date(proposal.proposedStartTime);
+      const proposedEnd = new Date(proposal.proposedEndTime);
+
+      if (proposal.recurrenceFrequency) {
+        const occurrences = getProposalOccurrences(proposal);
+
+        // Check every occurrence for double booking and report each conflict
+        const checked = await checkOccurrenceConflicts(tutorId, occurrences);
+        const conflicts = checked
+          .filter(o => o.conflict)
+          .map(o => ({ startTime: o.start.toISOString(), endTime: o.end.toISOString() }));
+        const available = checked.filter(o => !o.conflict);
+
+        // Conflicts block approval unless the tutor explicitly approves the rest of the series
+        if (conflicts.length > 0 && (!req.body.skipConflicts || available.length === 0)) {
+          return res.status(409).json({
+            message: `${conflicts.length} of ${occurrences.length} occurrences conflict with existing sessions`,
+            conflicts,
+          });
+        }
+
+        const recurrenceGroupId = randomUUID();
+        const sessions = await storage.approveSessionProposal(proposal.id, req.body.tutorResponse, available.map(occurrence => ({
+          proposalId: proposal.id,
+          tutorId: proposal.tutorId,
+          studentId: proposal.studentId,
+          courseId: proposal.courseId,
+          scheduledStartTime: occurrence.start,
+          scheduledEndTime: occurrence.end,
+          status: "scheduled" as const,
+          isRecurring: true,
+          recurrenceGroupId,
+        })));
+        if (!sessions) {
+          return res.status(400).json({ message: "Proposal is no longer pending" });
+        }
+
+        try {
+          await storage.createNotification({
+            userId: proposal.studentId,
+            type: "session_approved",
+            title: "Session Series Approved",
+            message: `Your ${proposal.recurrenceFrequency} session series starting ${await formatSessionTimeForUser(proposal.studentId, proposedStart)} has been approved (${sessions.length} sessions${conflicts.length > 0 ? `, ${conflicts.length} skipped due to conflicts` : ""})`,
+            link: "/sessions",
+            isRead: false,
+            relatedId: sessions[0]?.id,
+          });
+        } catch (notifError) {
+          console.error("Error creating notification:", notifError);
+        }
+
+        return res.json({ proposal: { ...proposal, status: "approved" }, sessions, recurrenceGroupId, conflicts });
+      }
+
       // Check for double booking before approving
-      const isDoubleBooked = await storage.checkDoubleBooking(
-        tutorId,
-        new Date(proposal.proposedStartTime),
-        new Date(proposal.proposedEndTime)
-      );
+      const isDoubleBooked = await storage.checkDoubleBooking(tutorId, proposedStart, proposedEnd);
       if (isDoubleBooked) {
         return res.status(409).json({ message: "You already have a session scheduled at this time" });
       }
+      if (await overlapsTimeOff(tutorId, proposedStart, proposedEnd)) {
+        return res.status(409).json({ message: "This time falls within your time off" });
+      }
 
-      // Update proposal status
-      await storage.updateSessionProposalStatus(req.params.id, "approved", req.body.tutorResponse);
-
-      // Create the tutoring session
-      const session = await storage.createTutoringSession({
+      // Approve the proposal and create the tutoring session together
+      const [session] = await storage.approveSessionProposal(proposal.id, req.body.tutorResponse, [{
         proposalId: proposal.id,
         tutorId: proposal.tutorId,
         studentId: proposal.studentId,
         courseId: proposal.courseId,
-        scheduledStartTime: new Date(proposal.proposedStartTime),
-        scheduledEndTime: new Date(proposal.proposedEndTime),
+        scheduledStartTime: proposedStart,
+        scheduledEndTime: proposedEnd,
         status: "scheduled",
-      });
+      }]) ?? [];
+      if (!session) {
+        return res.status(400).json({ message: "Proposal is no longer pending" });
+      }
 
       // Notify the student
       try {
@@ -3321,7 +4280,7 @@ export async function registerRoutes(
           userId: proposal.studentId,
           type: "session_approved",
           title: "Session Approved",
-          message: `Your tutoring session request has been approved for ${new Date(proposal.proposedStartTime).toLocaleString()}`,
+          message: `Your tutoring session request has been approved for ${await formatSessionTimeForUser(proposal.studentId, proposedStart)}`,
           link: "/sessions",
           isRead: false,
           relatedId: session.id,
@@ -3337,6 +4296,30 @@ export async function registerRoutes(
     }
   });
 
+  // Preview every occurrence of a proposal with its double-booking status (tutor)
+  app.get('/api/session-proposals/:id/occurrences', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const proposal = await storage.getSessionProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+      if (proposal.tutorId !== dbUser.id) {
+        return res.status(403).json({ message: "You can only view your own proposals" });
+      }
+
+      const checked = await checkOccurrenceConflicts(proposal.tutorId, getProposalOccurrences(proposal));
+      res.json(checked.map(o => ({
+        startTime: o.start.toISOString(),
+        endTime: o.end.toISOString(),
+        conflict: o.conflict,
+      })));
+    } catch (error) {
+      console.error("Error fetching proposal occurrences:", error);
+      res.status(500).json({ message: "Failed to fetch proposal occurrences" });
+    }
+  });
+
   // Tutor rejects a proposal
   app.patch('/api/session-proposals/:id/reject', isAuthenticated, requireRole("tutor"), async (req: Request, res: Response) => {
     try {
@@ -3431,7 +4414,11 @@ export async function registerRoutes(
       if (user.role === "tutor") {
         sessions = await storage.getTutoringSessionsByTutor(userId, status);
       } else if (user.role === "student") {
-        sessions = await storage.getTutoringSessionsByStudent(userId, status);
+        const individualSessions = await storage.getTutoringSessionsByStudent(userId, status);
+        const groupSessions = await storage.getGroupSessionsByStudent(userId, status);
+        sessions = [...individualSessions, ...groupSessions].sort(
+          (a, b) => new Date(b.scheduledStartTime).getTime() - new Date(a.scheduledStartTime).getTime()
+        );
       } else if (user.role === "admin" || user.role === "manager") {
         // Admins and managers can view all sessions - return empty array if none exist
         sessions = [];
@@ -3465,9 +4452,14 @@ export async function registerRoutes(
         return res.status(404).json({ message: "User not found" });
       }
       
+      const isGroupAttendee = session.isGroupSession
+        ? await storage.getStudentSessionAttendance(session.id, userId) !== undefined
+        : false;
+
       if (
         session.tutorId !== userId &&
         session.studentId !== userId &&
+        !isGroupAttendee &&
         !isStaffWithAccess(user)
       ) {
         return res.status(403).json({ message: "Access denied" });
@@ -3480,6 +4472,251 @@ export async function registerRoutes(
     }
   });
 
+  // Decisions the session reconciler made for a session, for dispute review
+  app.get('/api/tutoring-sessions/:id/reconciliation-decisions', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!isStaffWithAccess(getDbUser(req))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const decisions = await storage.getSessionReconciliationDecisions(req.params.id);
+      res.json(decisions);
+    } catch (error) {
+      console.error("Error fetching reconciliation decisions:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation decisions" });
+    }
+  });
+
+  // Create a group session for a course (tutor of the course, manager, admin)
+  app.post('/api/tutoring-sessions/group', isAuthenticated, requireRole("tutor", "manager", "admin"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const data = z.object({
+        courseId: z.string().min(1),
+        scheduledStartTime: z.string().min(1),
+        scheduledEndTime: z.string().min(1),
+        notes: z.string().optional(),
+        studentIds: z.array(z.string()).optional(),
+      }).parse(req.body);
+
+      const course = await storage.getCourse(data.courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      if (course.tutorId !== dbUser.id && !isStaffWithAccess(dbUser)) {
+        return res.status(403).json({ message: "You can only schedule group sessions for your own courses" });
+      }
+
+      // Validate 15-minute block duration
+      const start = new Date(data.scheduledStartTime);
+      const end = new Date(data.scheduledEndTime);
+      const durationMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
+      if (isNaN(durationMinutes) || durationMinutes <= 0 || durationMinutes % 15 !== 0) {
+        return res.status(400).json({ message: "Session duration must be in 15-minute blocks" });
+      }
+
+      const isDoubleBooked = await storage.checkDoubleBooking(course.tutorId, start, end);
+      if (isDoubleBooked) {
+        return res.status(409).json({ message: "The tutor already has a session scheduled at this time" });
+      }
+      if (await overlapsTimeOff(course.tutorId, start, end)) {
+        return res.status(409).json({ message: "The tutor has time off at this time" });
+      }
+
+      // Validate the initial roster before creating anything
+      const studentIds = Array.from(new Set(data.studentIds || []));
+      const maxEnrollment = course.maxEnrollment ?? 30;
+      if (studentIds.length > maxEnrollment) {
+        return res.status(409).json({ message: `Group session capacity is ${maxEnrollment} students` });
+      }
+      const activeStudentIds = new Set(
+        (await storage.getEnrollmentsByCourse(course.id))
+          .filter(e => e.status === "active")
+          .map(e => e.studentId)
+      );
+      const notEnrolled = studentIds.filter(id => !activeStudentIds.has(id));
+      if (notEnrolled.length > 0) {
+        return res.status(400).json({ message: "All students must be actively enrolled in the course", studentIds: notEnrolled });
+      }
+      const insufficientBalance: string[] = [];
+      for (const studentId of studentIds) {
+        const wallet = await storage.getHourWalletByStudentCourse(studentId, course.id);
+        const balance = wallet ? wallet.purchasedMinutes - wallet.consumedMinutes : 0;
+        if (balance < durationMinutes) insufficientBalance.push(studentId);
+      }
+      if (insufficientBalance.length > 0) {
+        return res.status(402).json({ message: `Some students do not have ${durationMinutes} minutes available in their hour wallet`, studentIds: insufficientBalance });
+      }
+
+      const session = await storage.createTutoringSession({
+        tutorId: course.tutorId,
+        courseId: course.id,
+        studentId: null,
+        scheduledStartTime: start,
+        scheduledEndTime: end,
+        scheduledMinutes: durationMinutes,
+        isGroupSession: true,
+        notes: data.notes || null,
+      });
+
+      for (const studentId of studentIds) {
+        await storage.createSessionAttendance({ sessionId: session.id, studentId });
+        try {
+          await storage.createNotification({
+            userId: studentId,
+            type: "system",
+            title: "Added to Group Session",
+            message: `You have been added to a group session for ${course.title} on ${await formatSessionTimeForUser(studentId, start)}`,
+            link: "/calendar",
+            isRead: false,
+            relatedId: session.id,
+          });
+        } catch (notifError) {
+          console.error("Error creating notification:", notifError);
+        }
+      }
+
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating group session:", error);
+      res.status(500).json({ message: "Failed to create group session" });
+    }
+  });
+
+  // Get group session roster (tutor of the session, manager, admin)
+  app.get('/api/tutoring-sessions/:id/roster', isAuthenticated, requireRole("tutor", "manager", "admin"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const session = await storage.getTutoringSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.tutorId !== dbUser.id && !isStaffWithAccess(dbUser)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!session.isGroupSession) {
+        return res.status(400).json({ message: "Only group sessions have a roster" });
+      }
+
+      const roster = await storage.getSessionRoster(session.id);
+      res.json({
+        roster,
+        capacity: session.course.maxEnrollment ?? 30,
+      });
+    } catch (error) {
+      console.error("Error fetching session roster:", error);
+      res.status(500).json({ message: "Failed to fetch session roster" });
+    }
+  });
+
+  // Add a student to a group session roster (tutor of the session, manager, admin)
+  app.post('/api/tutoring-sessions/:id/roster', isAuthenticated, requireRole("tutor", "manager", "admin"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const { studentId } = z.object({ studentId: z.string().min(1) }).parse(req.body);
+
+      const session = await storage.getTutoringSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.tutorId !== dbUser.id && !isStaffWithAccess(dbUser)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!session.isGroupSession) {
+        return res.status(400).json({ message: "Only group sessions have a roster" });
+      }
+      if (session.status !== "scheduled") {
+        return res.status(400).json({ message: `Cannot change the roster of a session with status: ${session.status}` });
+      }
+
+      const enrollments = await storage.getEnrollmentsByCourse(session.courseId);
+      const isEnrolled = enrollments.some(e => e.studentId === studentId && e.status === "active");
+      if (!isEnrolled) {
+        return res.status(400).json({ message: "Student is not actively enrolled in this course" });
+      }
+
+      const existing = await storage.getStudentSessionAttendance(session.id, studentId);
+      if (existing) {
+        return res.status(409).json({ message: "Student is already on the roster" });
+      }
+
+      const roster = await storage.getSessionRoster(session.id);
+      const capacity = session.course.maxEnrollment ?? 30;
+      if (roster.length >= capacity) {
+        return res.status(409).json({ message: `Group session is full (capacity ${capacity})` });
+      }
+
+      // Check hour wallet balance up front so the student can actually join
+      const scheduledMinutes = roundUpTo15Minutes(session.scheduledMinutes ||
+        Math.ceil((new Date(session.scheduledEndTime).getTime() - new Date(session.scheduledStartTime).getTime()) / (1000 * 60)));
+      const wallet = await storage.getHourWalletByStudentCourse(studentId, session.courseId);
+      const balance = wallet ? wallet.purchasedMinutes - wallet.consumedMinutes : 0;
+      if (balance < scheduledMinutes) {
+        return res.status(402).json({
+          message: `Insufficient hour balance. The student needs ${scheduledMinutes} minutes but has ${balance} available.`
+        });
+      }
+
+      const attendance = await storage.createSessionAttendance({ sessionId: session.id, studentId });
+
+      try {
+        await storage.createNotification({
+          userId: studentId,
+          type: "system",
+          title: "Added to Group Session",
+          message: `You have been added to a group session for ${session.course.title} on ${await formatSessionTimeForUser(studentId, session.scheduledStartTime)}`,
+          link: "/calendar",
+          isRead: false,
+          relatedId: session.id,
+        });
+      } catch (notifError) {
+        console.error("Error creating notification:", notifError);
+      }
+
+      res.status(201).json(attendance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error adding student to roster:", error);
+      res.status(500).json({ message: "Failed to add student to roster" });
+    }
+  });
+
+  // Remove a student from a group session roster (tutor of the session, manager, admin)
+  app.delete('/api/tutoring-sessions/:id/roster/:studentId', isAuthenticated, requireRole("tutor", "manager", "admin"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const session = await storage.getTutoringSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.tutorId !== dbUser.id && !isStaffWithAccess(dbUser)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!session.isGroupSession) {
+        return res.status(400).json({ message: "Only group sessions have a roster" });
+      }
+
+      const attendance = await storage.getStudentSessionAttendance(session.id, req.params.studentId);
+      if (!attendance) {
+        return res.status(404).json({ message: "Student is not on the roster" });
+      }
+      // Once a student has joined, minutes are reserved and the record is needed for billing
+      if (attendance.joinTime || (attendance.reservedMinutes && attendance.reservedMinutes > 0)) {
+        return res.status(400).json({ message: "Cannot remove a student who has already joined the session" });
+      }
+
+      await storage.deleteSessionAttendance(attendance.id);
+      res.json({ message: "Student removed from roster" });
+    } catch (error) {
+      console.error("Error removing student from roster:", error);
+      res.status(500).json({ message: "Failed to remove student from roster" });
+    }
+  });
+
   // Join session (student or tutor)
   app.post('/api/tutoring-sessions/:id/join', isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -3531,6 +4768,9 @@ export async function registerRoutes(
           
           // Check hour wallet balance before allowing student to join
           const wallet = await storage.getHourWalletByStudentCourse(userId, session.courseId);
+          if (wallet && isWalletExpired(wallet, now)) {
+            return res.status(402).json({ message: "Your hours for this course have expired. Please purchase more hours to join." });
+          }
           const balance = wallet ? wallet.purchasedMinutes - wallet.consumedMinutes : 0;
           
           if (balance < scheduledMinutes) {
@@ -3558,27 +4798,35 @@ export async function registerRoutes(
             // Already joined and charged - just return current session
             return res.json(session);
           }
-          
-          // Check hour wallet balance before allowing student to join
-          const wallet = await storage.getHourWalletByStudentCourse(userId, session.courseId);
-          const balance = wallet ? wallet.purchasedMinutes - wallet.consumedMinutes : 0;
-          
-          if (balance < scheduledMinutes) {
-            return res.status(402).json({ 
-              message: `Insufficient hour balance. You need ${scheduledMinutes} minutes but have ${balance} available.` 
-            });
+
+          // A reservation carried over from before a reschedule is not charged again
+          if (session.reservedMinutes && session.reservedMinutes > 0) {
+            updates.studentJoinTime = now;
+          } else {
+            // Check hour wallet balance before allowing student to join
+            const wallet = await storage.getHourWalletByStudentCourse(userId, session.courseId);
+            if (wallet && isWalletExpired(wallet, now)) {
+              return res.status(402).json({ message: "Your hours for this course have expired. Please purchase more hours to join." });
+            }
+            const balance = wallet ? wallet.purchasedMinutes - wallet.consumedMinutes : 0;
+
+            if (balance < scheduledMinutes) {
+              return res.status(402).json({ 
+                message: `Insufficient hour balance. You need ${scheduledMinutes} minutes but have ${balance} available.` 
+              });
+            }
+
+            // RESERVE scheduled minutes from wallet at join time with audit logging
+            await deductWalletWithAudit(
+              userId, 
+              session.courseId, 
+              scheduledMinutes, 
+              `Session join: reserved ${scheduledMinutes} min for session ${session.id}`
+            );
+
+            updates.studentJoinTime = now;
+            updates.reservedMinutes = scheduledMinutes;
           }
-          
-          // RESERVE scheduled minutes from wallet at join time with audit logging
-          await deductWalletWithAudit(
-            userId, 
-            session.courseId, 
-            scheduledMinutes, 
-            `Session join: reserved ${scheduledMinutes} min for session ${session.id}`
-          );
-          
-          updates.studentJoinTime = now;
-          updates.reservedMinutes = scheduledMinutes;
         }
       }
 
@@ -3695,8 +4943,8 @@ export async function registerRoutes(
     }
   });
 
-  // Postpone session
-  app.patch('/api/tutoring-sessions/:id/postpone', isAuthenticated, async (req: Request, res: Response) => {
+  // Cancel session
+  app.patch('/api/tutoring-sessions/:id/cancel', isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user?.claims?.sub;
       if (!userId) {
@@ -3708,137 +4956,32 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Session not found" });
       }
       
-      const isTutor = session.tutorId === userId;
-      const isStudent = session.isGroupSession 
-        ? await storage.getStudentSessionAttendance(session.id, userId) !== undefined
-        : session.studentId === userId;
-      
-      if (!isTutor && !isStudent) {
+      if (session.tutorId !== userId && session.studentId !== userId) {
         return res.status(403).json({ message: "You are not a participant of this session" });
       }
       
-      // For group sessions, only tutor can postpone
-      if (session.isGroupSession && !isTutor) {
-        return res.status(403).json({ message: "Only the tutor can postpone a group session" });
-      }
-      
-      if (session.status !== "scheduled") {
-        return res.status(400).json({ message: "Only scheduled sessions can be postponed" });
+      if (session.status === "completed" || session.status === "cancelled") {
+        return res.status(400).json({ message: "Session cannot be cancelled" });
       }
 
-      const now = new Date();
-      const scheduledStart = new Date(session.scheduledStartTime);
-      const minutesUntilStart = (scheduledStart.getTime() - now.getTime()) / (1000 * 60);
-      
-      // Calculate scheduled minutes for charging, rounded to 15-minute blocks
-      const rawScheduledMinutes = session.scheduledMinutes || 
-        Math.ceil((new Date(session.scheduledEndTime).getTime() - scheduledStart.getTime()) / (1000 * 60));
-      const scheduledMinutes = roundUpTo15Minutes(rawScheduledMinutes);
-
-      // If less than 120 minutes before start, mark as missed with 50% charge
-      if (minutesUntilStart < 120) {
-        // For missed sessions <120 min, charge 50% of scheduled duration
-        const missedChargeMinutes = roundUpTo15Minutes(Math.ceil(scheduledMinutes * 0.5));
-        
-        if (session.isGroupSession) {
-          // For group sessions, handle each registered student
-          const attendees = await storage.getSessionAttendance(session.id);
-          for (const attendee of attendees) {
-            if (attendee.reservedMinutes && attendee.reservedMinutes > 0) {
-              // Student already joined and was charged full amount - issue refund to adjust to 50%
-              const refundAmount = attendee.reservedMinutes - missedChargeMinutes;
-              if (refundAmount > 0) {
-                await refundWalletWithAudit(
-                  attendee.studentId, 
-                  session.courseId, 
-                  refundAmount, 
-                  `Late postpone refund: adjusting from ${attendee.reservedMinutes} to ${missedChargeMinutes} min (50%) for session ${session.id}`
-                );
-              }
-              await storage.updateSessionAttendance(attendee.id, {
-                attended: false,
-                consumedMinutes: missedChargeMinutes,
-              });
-            } else {
-              // Student never joined - charge 50% for missed session
-              await deductWalletWithAudit(
-                attendee.studentId, 
-                session.courseId, 
-                missedChargeMinutes, 
-                `Missed session: 50% charge (${missedChargeMinutes} min) for session ${session.id}`
-              );
-              await storage.updateSessionAttendance(attendee.id, {
-                attended: false,
-                consumedMinutes: missedChargeMinutes,
-              });
-            }
-          }
-        } else if (session.studentId) {
-          // For 1:1 sessions, check if student already joined (reservedMinutes > 0)
-          if (session.reservedMinutes && session.reservedMinutes > 0) {
-            // Student already joined and was charged full amount - issue refund to adjust to 50%
-            const refundAmount = session.reservedMinutes - missedChargeMinutes;
-            if (refundAmount > 0) {
-              await refundWalletWithAudit(
-                session.studentId, 
-                session.courseId, 
-                refundAmount, 
-                `Late postpone refund: adjusting from ${session.reservedMinutes} to ${missedChargeMinutes} min (50%) for session ${session.id}`
-              );
-            }
-          } else {
-            // Student never joined - charge 50% for missed session
-            await deductWalletWithAudit(
-              session.studentId, 
-              session.courseId, 
-              missedChargeMinutes, 
-              `Missed session: 50% charge (${missedChargeMinutes} min) for session ${session.id}`
-            );
-          }
-        }
-        
-        const updatedSession = await storage.updateTutoringSession(req.params.id, {
-          status: "missed",
-          billableMinutes: missedChargeMinutes,
-          notes: `Session marked as missed (postponed <120 min before start). 50% charge applied. ${req.body.reason || ""}`.trim(),
-        });
-        
-        // Notify participants
-        const otherUserId = isTutor ? session.studentId : session.tutorId;
-        if (otherUserId) {
-          try {
-            await storage.createNotification({
-              userId: otherUserId,
-              type: "new_announcement" as any,
-              title: "Session Missed",
-              message: `Your tutoring session has been marked as missed (late postponement). A 50% charge was applied.`,
-              link: "/sessions",
-              isRead: false,
-              relatedId: session.id,
-            });
-          } catch (notifError) {
-            console.error("Error creating notification:", notifError);
-          }
-        }
-        
-        return res.json(updatedSession);
+      // A student calling off a scheduled session <120 min before start has it counted as
+      // missed with a 50% charge; any other cancellation refunds the reserved minutes
+      const { session: updatedSession, late: lateCancellation } = await cancelSessionWithCharges(session, userId, req.body.reason);
+      if (!updatedSession) {
+        return res.status(409).json({ message: "This session can no longer be cancelled" });
       }
 
-      // Normal postponement (>120 min before start) - no charge
-      const updatedSession = await storage.updateTutoringSession(req.params.id, {
-        status: "postponed",
-        notes: req.body.reason || "Session postponed",
-      });
-
       // Notify the other participant
-      const otherUserId = isTutor ? session.studentId : session.tutorId;
+      const otherUserId = session.tutorId === userId ? session.studentId : session.tutorId;
       if (otherUserId) {
         try {
           await storage.createNotification({
             userId: otherUserId,
-            type: "new_announcement" as any,
-            title: "Session Postponed",
-            message: `Your tutoring session has been postponed. ${req.body.reason || ""}`.trim(),
+            type: "session_cancelled",
+            title: lateCancellation ? "Session Missed" : "Session Cancelled",
+            message: lateCancellation
+              ? `Your tutoring session was cancelled late and has been marked as missed. A 50% charge was applied. ${req.body.reason || ""}`.trim()
+              : `Your tutoring session has been cancelled. ${req.body.reason || ""}`.trim(),
             link: "/sessions",
             isRead: false,
             relatedId: session.id,
@@ -3850,59 +4993,564 @@ export async function registerRoutes(
 
       res.json(updatedSession);
     } catch (error) {
-      console.error("Error postponing session:", error);
-      res.status(500).json({ message: "Failed to postpone session" });
+      console.error("Error cancelling session:", error);
+      res.status(500).json({ message: "Failed to cancel session" });
     }
   });
 
-  // Cancel session
-  app.patch('/api/tutoring-sessions/:id/cancel', isAuthenticated, async (req: Request, res: Response) => {
-    try {
-      const userId = req.user?.claims?.sub;
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
+  // ==========================================
+  // SESSION RESCHEDULE ROUTES
+  // ==========================================
+
+  // Checks that every proposed time works for the session's tutor. Times a student
+  // proposes must be bookable slots; a tutor may offer any time they are free.
+  async function getRescheduleOptionsError(
+    session: TutoringSession,
+    options: { startTime: Date; endTime: Date }[],
+    proposedByTutor: boolean,
+  ): Promise<{ status: number; message: string } | null> {
+    const now = new Date();
+    for (const option of options) {
+      const optionError = getRescheduleOptionError(option, session, now);
+      if (optionError) return { status: 400, message: optionError };
+
+      if (!proposedByTutor) {
+        const slotError = await getProposalSlotError(session.tutorId, option.startTime, option.endTime, now, session.id);
+        if (slotError) return { status: 409, message: slotError };
+        continue;
       }
-      
+      if (await storage.checkDoubleBooking(session.tutorId, option.startTime, option.endTime, session.id)) {
+        return { status: 409, message: "You already have a session at one of the proposed times" };
+      }
+      if (await overlapsTimeOff(session.tutorId, option.startTime, option.endTime)) {
+        return { status: 409, message: "One of the proposed times falls within your time off" };
+      }
+    }
+    return null;
+  }
+
+  // Loads a pending request with its session and checks the user is the party it waits on
+  async function getPendingRescheduleRequest(
+    requestId: string,
+    userId: string,
+    party: "recipient" | "requester",
+    res: Response,
+  ) {
+    const request = await storage.getRescheduleRequest(requestId);
+    if (!request) {
+      res.status(404).json({ message: "Reschedule request not found" });
+      return null;
+    }
+    const partyId = party === "recipient" ? request.recipientId : request.requestedById;
+    if (partyId !== userId) {
+      res.status(403).json({
+        message: party === "recipient"
+          ? "Only the recipient can respond to this reschedule request"
+          : "Only the requester can withdraw this reschedule request",
+      });
+      return null;
+    }
+    if (request.status !== "pending") {
+      res.status(409).json({ message: "This reschedule request is no longer pending" });
+      return null;
+    }
+    const session = await storage.getTutoringSession(request.sessionId);
+    if (!session) {
+      res.status(404).json({ message: "Session not found" });
+      return null;
+    }
+    return { request, session };
+  }
+
+  async function notifyReschedule(userId: string, sessionId: string, title: string, message: (timeZone: string) => string) {
+    try {
+      await storage.createNotification({
+        userId,
+        type: "session_rescheduled",
+        title,
+        message: message(await getUserTimeZone(userId)),
+        link: "/calendar",
+        isRead: false,
+        relatedId: sessionId,
+      });
+    } catch (notifError) {
+      console.error("Error creating notification:", notifError);
+    }
+  }
+
+  function describeRescheduleOptions(options: RescheduleOption[], timeZone: string): string {
+    return options.map((option) => formatSessionTime(option.startTime, timeZone)).join("; ");
+  }
+
+  // Ask the other participant to move a 1:1 session to one of up to three new times
+  app.post('/api/tutoring-sessions/:id/reschedule-requests', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
       const session = await storage.getTutoringSession(req.params.id);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
       }
-      
-      if (session.tutorId !== userId && session.studentId !== userId) {
+
+      const isTutor = session.tutorId === dbUser.id;
+      if (!isTutor && session.studentId !== dbUser.id) {
         return res.status(403).json({ message: "You are not a participant of this session" });
       }
-      
-      if (session.status === "completed" || session.status === "cancelled") {
-        return res.status(400).json({ message: "Session cannot be cancelled" });
+      if (session.isGroupSession || !session.studentId) {
+        return res.status(400).json({ message: "Group sessions cannot be rescheduled" });
+      }
+      if (session.status !== "scheduled") {
+        return res.status(400).json({ message: "Only scheduled sessions can be rescheduled" });
       }
 
-      const updatedSession = await storage.updateTutoringSession(req.params.id, {
-        status: "cancelled",
-        notes: req.body.reason || "Session cancelled",
+      const { proposedTimes, reason } = rescheduleRequestInputSchema.parse(req.body);
+      if (await storage.getPendingRescheduleRequestForSession(session.id)) {
+        return res.status(409).json({ message: "This session already has a pending reschedule request" });
+      }
+      const optionsError = await getRescheduleOptionsError(session, proposedTimes, isTutor);
+      if (optionsError) {
+        return res.status(optionsError.status).json({ message: optionsError.message });
+      }
+
+      // The late-change charge is fixed by when and by whom the move was asked for, not when it is accepted
+      const request = await storage.createRescheduleRequest({
+        sessionId: session.id,
+        requestedById: dbUser.id,
+        recipientId: isTutor ? session.studentId : session.tutorId,
+        proposedTimes: toRescheduleOptions(proposedTimes),
+        reason: reason || null,
+        lateChargeMinutes: getRescheduleChargeMinutes(getScheduledMinutes(session), session.scheduledStartTime, new Date(), isTutor),
       });
 
-      // Notify the other participant
-      const otherUserId = session.tutorId === userId ? session.studentId : session.tutorId;
-      if (otherUserId) {
-        try {
-          await storage.createNotification({
-            userId: otherUserId,
-            type: "session_cancelled",
-            title: "Session Cancelled",
-            message: `Your tutoring session has been cancelled. ${req.body.reason || ""}`.trim(),
-            link: "/sessions",
-            isRead: false,
-            relatedId: session.id,
-          });
-        } catch (notifError) {
-          console.error("Error creating notification:", notifError);
+      await notifyReschedule(request.recipientId, session.id, "Reschedule Requested", (timeZone) =>
+        `${dbUser.firstName || "The other participant"} asked to move your session on ${formatSessionTime(session.scheduledStartTime, timeZone)}. ` +
+        `Proposed times: ${describeRescheduleOptions(request.proposedTimes as RescheduleOption[], timeZone)}.`
+      );
+
+      res.status(201).json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating reschedule request:", error);
+      res.status(500).json({ message: "Failed to request reschedule" });
+    }
+  });
+
+  // Pending reschedule requests the user sent or has to answer
+  app.get('/api/reschedule-requests', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const requests = await storage.getPendingRescheduleRequestsForUser(getDbUser(req).id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching reschedule requests:", error);
+      res.status(500).json({ message: "Failed to fetch reschedule requests" });
+    }
+  });
+
+  // Accept one proposed time: the session moves and any late charge is taken in one transaction
+  app.post('/api/reschedule-requests/:id/accept', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const loaded = await getPendingRescheduleRequest(req.params.id, dbUser.id, "recipient", res);
+      if (!loaded) return;
+      const { request, session } = loaded;
+
+      const { optionIndex } = rescheduleAcceptInputSchema.parse(req.body);
+      const option = (request.proposedTimes as RescheduleOption[])[optionIndex];
+      if (!option) {
+        return res.status(400).json({ message: "Choose one of the proposed times" });
+      }
+      const startTime = new Date(option.startTime);
+      const endTime = new Date(option.endTime);
+      const optionError = getRescheduleOptionError({ startTime, endTime }, session, new Date());
+      if (optionError) {
+        return res.status(400).json({ message: optionError });
+      }
+      if (await overlapsTimeOff(session.tutorId, startTime, endTime)) {
+        return res.status(409).json({ message: "The tutor has time off at this time" });
+      }
+
+      // A student who already joined keeps their reservation, resized to the new length
+      const scheduledMinutes = getScheduledMinutes({ scheduledMinutes: null, scheduledStartTime: startTime, scheduledEndTime: endTime });
+      const previousReserved = session.reservedMinutes || 0;
+      const reservedMinutes = previousReserved > 0 ? scheduledMinutes : 0;
+      // A move the tutor opened never charges the student; counters keep the charge of the request they answer
+      const lateChargeMinutes = !request.counterOfId && request.requestedById === session.tutorId ? 0 : request.lateChargeMinutes;
+      const walletCharges = [];
+      if (session.studentId && lateChargeMinutes > 0) {
+        walletCharges.push({
+          studentId: session.studentId,
+          courseId: session.courseId,
+          minutes: lateChargeMinutes,
+          reason: `Late reschedule: 50% charge (${lateChargeMinutes} min) for session ${session.id}`,
+        });
+      }
+      if (session.studentId && reservedMinutes !== previousReserved) {
+        walletCharges.push({
+          studentId: session.studentId,
+          courseId: session.courseId,
+          minutes: reservedMinutes - previousReserved,
+          reason: `Reschedule: reservation adjusted from ${previousReserved} to ${reservedMinutes} min for session ${session.id}`,
+        });
+      }
+
+      const result = await storage.moveSessionForRescheduleRequest({
+        requestId: request.id,
+        startTime,
+        endTime,
+        scheduledMinutes,
+        reservedMinutes,
+        walletCharges,
+      });
+      if (result.status !== "moved") {
+        const messages = {
+          not_pending: "This reschedule request is no longer pending",
+          session_unavailable: "This session can no longer be rescheduled",
+          tutor_conflict: "The tutor already has a session at this time",
+          student_conflict: "The student already has a session at this time",
+        };
+        return res.status(409).json({ message: messages[result.status] });
+      }
+
+      for (const userId of [session.tutorId, session.studentId]) {
+        if (!userId) continue;
+        await notifyReschedule(userId, session.id, "Session Rescheduled", (timeZone) => {
+          const charge = userId === session.studentId && lateChargeMinutes > 0
+            ? ` A late-change charge of ${lateChargeMinutes} minutes was applied.`
+            : "";
+          return `Your session on ${formatSessionTime(session.scheduledStartTime, timeZone)} has moved to ` +
+            `${formatSessionTime(startTime, timeZone)}.${charge}`;
+        });
+      }
+
+      res.json({ session: result.session, request: result.request });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error accepting reschedule request:", error);
+      res.status(500).json({ message: "Failed to accept reschedule request" });
+    }
+  });
+
+  // Answer with different times; the original request is closed and a new one goes back
+  app.post('/api/reschedule-requests/:id/counter', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const loaded = await getPendingRescheduleRequest(req.params.id, dbUser.id, "recipient", res);
+      if (!loaded) return;
+      const { request, session } = loaded;
+
+      if (session.status !== "scheduled") {
+        return res.status(400).json({ message: "Only scheduled sessions can be rescheduled" });
+      }
+      const { proposedTimes, message } = rescheduleCounterInputSchema.parse(req.body);
+      const optionsError = await getRescheduleOptionsError(session, proposedTimes, session.tutorId === dbUser.id);
+      if (optionsError) {
+        return res.status(optionsError.status).json({ message: optionsError.message });
+      }
+
+      const countered = await storage.resolvePendingRescheduleRequest(request.id, {
+        status: "countered",
+        responseMessage: message || null,
+        respondedAt: new Date(),
+      });
+      if (!countered) {
+        return res.status(409).json({ message: "This reschedule request is no longer pending" });
+      }
+
+      const counter = await storage.createRescheduleRequest({
+        sessionId: session.id,
+        requestedById: dbUser.id,
+        recipientId: request.requestedById,
+        proposedTimes: toRescheduleOptions(proposedTimes),
+        reason: message || null,
+        counterOfId: request.id,
+        lateChargeMinutes: request.lateChargeMinutes,
+      });
+
+      await notifyReschedule(counter.recipientId, session.id, "Reschedule Counter-Proposal", (timeZone) =>
+        `${dbUser.firstName || "The other participant"} suggested different times for your session on ` +
+        `${formatSessionTime(session.scheduledStartTime, timeZone)}: ${describeRescheduleOptions(counter.proposedTimes as RescheduleOption[], timeZone)}.`
+      );
+
+      res.status(201).json(counter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error countering reschedule request:", error);
+      res.status(500).json({ message: "Failed to counter reschedule request" });
+    }
+  });
+
+  // Decline the move; the session stays at its current time
+  app.post('/api/reschedule-requests/:id/decline', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const loaded = await getPendingRescheduleRequest(req.params.id, dbUser.id, "recipient", res);
+      if (!loaded) return;
+      const { request, session } = loaded;
+
+      const { message } = rescheduleDeclineInputSchema.parse(req.body);
+      const declined = await storage.resolvePendingRescheduleRequest(request.id, {
+        status: "declined",
+        responseMessage: message || null,
+        respondedAt: new Date(),
+      });
+      if (!declined) {
+        return res.status(409).json({ message: "This reschedule request is no longer pending" });
+      }
+
+      await notifyReschedule(request.requestedById, session.id, "Reschedule Declined", (timeZone) =>
+        `Your request to move the session on ${formatSessionTime(session.scheduledStartTime, timeZone)} was declined. ${message || ""}`.trim()
+      );
+
+      res.json(declined);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error declining reschedule request:", error);
+      res.status(500).json({ message: "Failed to decline reschedule request" });
+    }
+  });
+
+  app.post('/api/reschedule-requests/:id/withdraw', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const dbUser = getDbUser(req);
+      const loaded = await getPendingRescheduleRequest(req.params.id, dbUser.id, "requester", res);
+      if (!loaded) return;
+      const { request, session } = loaded;
+
+      const withdrawn = await storage.resolvePendingRescheduleRequest(request.id, {
+        status: "withdrawn",
+        respondedAt: new Date(),
+      });
+      if (!withdrawn) {
+        return res.status(409).json({ message: "This reschedule request is no longer pending" });
+      }
+
+      await notifyReschedule(request.recipientId, session.id, "Reschedule Withdrawn", (timeZone) =>
+        `The request to move your session on ${formatSessionTime(session.scheduledStartTime, timeZone)} was withdrawn.`
+      );
+
+      res.json(withdrawn);
+    } catch (error) {
+      console.error("Error withdrawing reschedule request:", error);
+      res.status(500).json({ message: "Failed to withdraw reschedule request" });
+    }
+  });
+
+  // ==========================================
+  // RECURRING SESSION SERIES ROUTES
+  // ==========================================
+
+  // Loads a series and checks the user is its tutor, student, or staff
+  async function getSeriesForUser(recurrenceGroupId: string, user: any, res: Response) {
+    const series = await storage.getTutoringSessionsByRecurrenceGroup(recurrenceGroupId);
+    if (series.length === 0) {
+      res.status(404).json({ message: "Session series not found" });
+      return null;
+    }
+    const { tutorId, studentId } = series[0];
+    if (tutorId !== user.id && studentId !== user.id && !isStaffWithAccess(user)) {
+      res.status(403).json({ message: "You are not a participant of this series" });
+      return null;
+    }
+    return series;
+  }
+
+  async function notifySeriesParticipants(
+    series: { tutorId: string; studentId: string | null; id: string }[],
+    actorId: string,
+    title: string,
+    // Messages that mention a time are built per recipient in their own zone
+    message: string | ((timeZone: string) => string),
+  ) {
+    const { tutorId, studentId } = series[0];
+    for (const userId of [tutorId, studentId]) {
+      if (!userId || userId === actorId) continue;
+      try {
+        await storage.createNotification({
+          userId,
+          type: "session_cancelled",
+          title,
+          message: typeof message === "string" ? message : message(await getUserTimeZone(userId)),
+          link: "/sessions",
+          isRead: false,
+          relatedId: series[0].id,
+        });
+      } catch (notifError) {
+        console.error("Error creating notification:", notifError);
+      }
+    }
+  }
+
+  // Get all occurrences of a series (participants, managers, admins)
+  app.get('/api/session-series/:groupId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const active = await getActiveUser(req, res);
+      if (!active) return;
+
+      const series = await getSeriesForUser(req.params.groupId, active.user, res);
+      if (!series) return;
+
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching session series:", error);
+      res.status(500).json({ message: "Failed to fetch session series" });
+    }
+  });
+
+  // Cancel all future occurrences of a series
+  app.post('/api/session-series/:groupId/cancel', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const active = await getActiveUser(req, res);
+      if (!active) return;
+
+      const series = await getSeriesForUser(req.params.groupId, active.user, res);
+      if (!series) return;
+
+      const now = new Date();
+      const future = series.filter(s => s.status === "scheduled" && new Date(s.scheduledStartTime) > now);
+      const reason = req.body.reason || "Session series cancelled";
+      // Each occurrence follows the single-session rule: reservations are refunded, except
+      // that a student calling off one starting within 120 min has it marked missed
+      let cancelled = 0;
+      let missed = 0;
+      for (const session of future) {
+        const result = await cancelSessionWithCharges(session, active.userId, reason, now);
+        if (!result.session) continue;
+        if (result.late) missed++;
+        else cancelled++;
+      }
+
+      if (cancelled + missed > 0) {
+        await notifySeriesParticipants(
+          series,
+          active.userId,
+          "Session Series Cancelled",
+          `${cancelled + missed} upcoming sessions in your series have been cancelled. ${req.body.reason || ""}`.trim(),
+        );
+      }
+
+      res.json({ cancelled, missed });
+    } catch (error) {
+      console.error("Error cancelling session series:", error);
+      res.status(500).json({ message: "Failed to cancel session series" });
+    }
+  });
+
+  // Shift the time of every future occurrence (tutor of the series, manager, admin)
+  app.patch('/api/session-series/:groupId/shift', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const active = await getActiveUser(req, res);
+      if (!active) return;
+
+      const { offsetMinutes } = z.object({
+        offsetMinutes: z.number().int().refine(v => v !== 0 && v % 15 === 0, {
+          message: "Offset must be a non-zero multiple of 15 minutes",
+        }),
+      }).parse(req.body);
+
+      const series = await getSeriesForUser(req.params.groupId, active.user, res);
+      if (!series) return;
+      if (series[0].tutorId !== active.userId && !isStaffWithAccess(active.user)) {
+        return res.status(403).json({ message: "Only the tutor can move a session series" });
+      }
+
+      const now = new Date();
+      const future = series.filter(s => s.status === "scheduled" && new Date(s.scheduledStartTime) > now);
+      const moves = future.map(session => ({
+        session,
+        ...shiftOccurrence(
+          { start: new Date(session.scheduledStartTime), end: new Date(session.scheduledEndTime) },
+          offsetMinutes,
+        ),
+      }));
+
+      // All-or-nothing: report every conflicting occurrence and move none of them
+      const conflicts: { sessionId: string; startTime: string; endTime: string }[] = [];
+      for (const move of moves) {
+        if (move.start <= now) {
+          conflicts.push({ sessionId: move.session.id, startTime: move.start.toISOString(), endTime: move.end.toISOString() });
+          continue;
+        }
+        const isDoubleBooked = await storage.checkDoubleBooking(move.session.tutorId, move.start, move.end, move.session.id);
+        if (isDoubleBooked) {
+          conflicts.push({ sessionId: move.session.id, startTime: move.start.toISOString(), endTime: move.end.toISOString() });
         }
       }
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          message: `${conflicts.length} occurrences cannot be moved to the new time`,
+          conflicts,
+        });
+      }
+
+      const updated = [];
+      for (const move of moves) {
+        updated.push(await storage.updateTutoringSession(move.session.id, {
+          scheduledStartTime: move.start,
+          scheduledEndTime: move.end,
+        }));
+      }
+
+      if (updated.length > 0) {
+        await notifySeriesParticipants(
+          series,
+          active.userId,
+          "Session Series Rescheduled",
+          `${updated.length} upcoming sessions in your series have moved by ${offsetMinutes} minutes.`,
+        );
+      }
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error shifting session series:", error);
+      res.status(500).json({ message: "Failed to shift session series" });
+    }
+  });
 
-      res.json(updatedSession);
+  // Skip a single occurrence of a series
+  app.post('/api/session-series/:groupId/skip/:sessionId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const active = await getActiveUser(req, res);
+      if (!active) return;
+
+      const series = await getSeriesForUser(req.params.groupId, active.user, res);
+      if (!series) return;
+
+      const session = series.find(s => s.id === req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session is not part of this series" });
+      }
+      if (session.status !== "scheduled") {
+        return res.status(400).json({ message: `Cannot skip a session with status: ${session.status}` });
+      }
+
+      const { session: updated, late } = await cancelSessionWithCharges(session, active.userId, req.body.reason || "Occurrence skipped");
+      if (!updated) {
+        return res.status(409).json({ message: "This session can no longer be cancelled" });
+      }
+
+      await notifySeriesParticipants(
+        [session],
+        active.userId,
+        late ? "Session Missed" : "Session Skipped",
+        (timeZone) => late
+          ? `The session on ${formatSessionTime(session.scheduledStartTime, timeZone)} was skipped late and has been marked as missed. A 50% charge was applied. The rest of the series is unchanged.`
+          : `The session on ${formatSessionTime(session.scheduledStartTime, timeZone)} has been skipped. The rest of the series is unchanged.`,
+      );
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error cancelling session:", error);
-      res.status(500).json({ message: "Failed to cancel session" });
+      console.error("Error skipping session occurrence:", error);
+      res.status(500).json({ message: "Failed to skip session" });
     }
   });
 
@@ -3910,8 +5558,8 @@ export async function registerRoutes(
   // HOUR WALLET ROUTES
   // ==========================================
 
-  // Get all wallets (admin/manager only)
-  app.get('/api/hour-wallets', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Get all wallets (requires wallets.view)
+  app.get('/api/hour-wallets', isAuthenticated, requirePermission("wallets.view"), async (req: Request, res: Response) => {
     try {
       const wallets = await storage.getAllHourWallets();
       res.json(wallets);
@@ -3997,10 +5645,10 @@ export async function registerRoutes(
   });
 
   // Create or add hours to wallet (manager/admin - original endpoint)
-  app.post('/api/hour-wallets', isAuthenticated, requireRole("manager", "admin"), async (req: Request, res: Response) => {
+  app.post('/api/hour-wallets', isAuthenticated, requirePermission("wallets.adjust"), async (req: Request, res: Response) => {
     try {
       const { studentId, courseId: rawCourseId, minutes, reason } = req.body;
-      const performedById = req.user?.claims?.sub;
+      const dbUser = (req as any).dbUser;
       
       console.log(`[Wallet Create] Received: studentId=${studentId}, courseId=${rawCourseId}, minutes=${minutes}`);
       
@@ -4031,7 +5679,7 @@ export async function registerRoutes(
       
       if (existingWallet) {
         // Add to existing wallet (increments purchasedMinutes, does not overwrite)
-        wallet = await storage.addMinutesToWallet(studentId, courseId, minutes);
+        wallet = await storage.addMinutesToWallet(studentId, courseId, minutes, getWalletValidityDays());
       } else {
         // Create new wallet
         const validated = insertHourWalletSchema.parse({
@@ -4039,6 +5687,7 @@ export async function registerRoutes(
           courseId,
           purchasedMinutes: minutes,
           consumedMinutes: 0,
+          expiresAt: extendWalletExpiry(null, new Date(), getWalletValidityDays()),
         });
         wallet = await storage.createHourWallet(validated);
         isNew = true;
@@ -4053,7 +5702,17 @@ export async function registerRoutes(
           minutesDelta: minutes,
           balanceAfter: remainingMinutes,
           reason: reason.trim(),
-          performedById: performedById || null,
+          performedById: dbUser.id,
+        });
+        await recordAudit({
+          actorId: dbUser.id,
+          action: isNew ? "create_wallet" : "top_up_wallet",
+          entityType: "hour_wallet",
+          entityId: wallet.id,
+          targetUserId: studentId,
+          before: existingWallet ?? null,
+          after: wallet,
+          metadata: { minutes: minutes, reason: reason.trim() },
         });
       }
       
@@ -4068,10 +5727,9 @@ export async function registerRoutes(
   });
 
   // Top-up hours to wallet (admin, manager, or tutor with course permission)
-  app.post('/api/hour-wallets/top-up', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  app.post('/api/hour-wallets/top-up', isAuthenticated, requirePermission("wallets.adjust"), async (req: Request, res: Response) => {
     try {
       const { studentId, courseId: rawCourseId, addMinutes, reason } = req.body;
-      const performedById = req.user?.claims?.sub;
       const dbUser = (req as any).dbUser;
       
       console.log(`[Wallet TopUp] Received: studentId=${studentId}, courseId=${rawCourseId}, addMinutes=${addMinutes}`);
@@ -4117,7 +5775,7 @@ export async function registerRoutes(
       
       if (existingWallet) {
         // Add to existing wallet (increments purchasedMinutes, does not overwrite)
-        wallet = await storage.addMinutesToWallet(studentId, courseId, addMinutes);
+        wallet = await storage.addMinutesToWallet(studentId, courseId, addMinutes, getWalletValidityDays());
       } else {
         // Create new wallet
         const validated = insertHourWalletSchema.parse({
@@ -4125,6 +5783,7 @@ export async function registerRoutes(
           courseId,
           purchasedMinutes: addMinutes,
           consumedMinutes: 0,
+          expiresAt: extendWalletExpiry(null, new Date(), getWalletValidityDays()),
         });
         wallet = await storage.createHourWallet(validated);
         isNew = true;
@@ -4139,7 +5798,17 @@ export async function registerRoutes(
           minutesDelta: addMinutes,
           balanceAfter: remainingMinutes,
           reason: reason.trim(),
-          performedById: performedById || null,
+          performedById: dbUser.id,
+        });
+        await recordAudit({
+          actorId: dbUser.id,
+          action: isNew ? "create_wallet" : "top_up_wallet",
+          entityType: "hour_wallet",
+          entityId: wallet.id,
+          targetUserId: studentId,
+          before: existingWallet ?? null,
+          after: wallet,
+          metadata: { minutes: addMinutes, reason: reason.trim() },
         });
       }
       
@@ -4170,8 +5839,9 @@ export async function registerRoutes(
       courseId: z.string().min(1),
       description: z.string().min(1),
       hours: z.string(),
-      hourlyRate: z.string(),
-      amount: z.string(),
+      // Omit to use the course rate card (less any student discount) in effect at the period start
+      hourlyRate: z.string().optional(),
+      amount: z.string().optional(),
       minutesToAdd: z.number().int().default(0),
     })).min(1),
   });
@@ -4186,9 +5856,8 @@ export async function registerRoutes(
         const invoices = await storage.getInvoicesByParent(dbUser.id);
         res.json(invoices);
       } else {
-        // Admin/manager accessing all invoices requires level 3 (Finance)
-        if (dbUser.adminLevel < 3 && !dbUser.isSuperAdmin) {
-          return res.status(403).json({ message: "Insufficient admin level. Level 3 (Finance) required." });
+        if (!(await userHasPermission(dbUser, "invoices.view"))) {
+          return res.status(403).json({ message: "Permission required: invoices.view" });
         }
         const invoices = await storage.getAllInvoices(status);
         res.json(invoices);
@@ -4217,6 +5886,11 @@ export async function registerRoutes(
       if (!allowedRoles.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
+
+      // Staff can read any family's invoice only with finance access
+      if ((user.role === "admin" || user.role === "manager") && !(await userHasPermission(user, "invoices.view"))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       const invoice = await storage.getInvoiceWithDetails(req.params.id);
       if (!invoice) {
@@ -4240,21 +5914,33 @@ export async function registerRoutes(
     }
   });
 
-  // Create invoice with line items (admin level 3+ - Finance)
-  app.post('/api/invoices', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Create invoice with line items (requires invoices.write)
+  app.post('/api/invoices', isAuthenticated, requirePermission("invoices.write"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 3 && !dbUser.isSuperAdmin) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 3 (Finance) required." });
-      }
-      
       const validated = createInvoiceRequestSchema.parse(req.body);
       
+      // Fill in missing rates from the rate cards
+      const rates = createRateLookup();
+      const rateDate = new Date(validated.billingPeriodStart);
+      const lineItems = [];
+      for (const item of validated.lineItems) {
+        let hourlyRate = item.hourlyRate;
+        if (hourlyRate === undefined) {
+          const rate = await rates.courseRate(item.courseId, validated.currency, rateDate, validated.studentId);
+          if (!rate) {
+            return res.status(400).json({ message: `No ${validated.currency} rate card in effect for course ${item.courseId}` });
+          }
+          hourlyRate = rate.hourlyRate.toFixed(2);
+        }
+        const amount = item.amount ?? (parseFloat(item.hours) * parseFloat(hourlyRate)).toFixed(2);
+        lineItems.push({ ...item, hourlyRate, amount });
+      }
+      
       // Generate invoice number
       const invoiceNumber = await storage.generateInvoiceNumber();
       
       // Calculate totals
-      const subtotal = validated.lineItems.reduce((sum, item) => 
+      const subtotal = lineItems.reduce((sum, item) => 
         sum + parseFloat(item.amount), 0
       );
       
@@ -4279,7 +5965,7 @@ export async function registerRoutes(
       const invoice = await storage.createInvoice(invoiceData);
       
       // Create line items
-      for (const item of validated.lineItems) {
+      for (const item of lineItems) {
         await storage.createInvoiceLineItem({
           invoiceId: invoice.id,
           courseId: item.courseId,
@@ -4303,14 +5989,57 @@ export async function registerRoutes(
     }
   });
 
-  // Update invoice (admin level 3+ - Finance, draft invoices only)
-  app.patch('/api/invoices/:id', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Monthly billing run (admin level 3+ - Finance). dryRun previews without creating invoices.
+  const billingRunRequestSchema = z.object({
+    period: z.string().regex(/^\d{4}-\d{2}$/, "Period must be in yyyy-MM format"),
+    currency: z.enum(["ZAR", "USD", "GBP"]).default("ZAR"),
+    dueDate: z.string().datetime().optional(),
+    dryRun: z.boolean().default(true),
+  });
+
+  app.post('/api/invoices/billing-run', isAuthenticated, requirePermission("invoices.write"), async (req: Request, res: Response) => {
     try {
       const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 3 && !dbUser.isSuperAdmin) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 3 (Finance) required." });
+
+      const validated = billingRunRequestSchema.parse(req.body);
+      const period = getBillingPeriod(validated.period);
+      if (!period) {
+        return res.status(400).json({ message: "Invalid billing period" });
       }
-      
+
+      const result = await runMonthlyBilling({
+        period,
+        currency: validated.currency,
+        dueDate: validated.dueDate ? new Date(validated.dueDate) : undefined,
+        dryRun: validated.dryRun,
+      });
+
+      if (!validated.dryRun) {
+        await storage.createAuditLog({
+          performedById: dbUser.id,
+          action: "billing_run",
+          newValue: `${result.invoices.length} draft invoices created`,
+          metadata: {
+            period: period.label,
+            invoiceIds: result.invoices.map(i => i.invoiceId),
+            skippedDuplicates: result.skippedDuplicates.length,
+          },
+        });
+      }
+
+      res.status(validated.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error running billing:", error);
+      res.status(500).json({ message: "Failed to run billing" });
+    }
+  });
+
+  // Update invoice (requires invoices.write)
+  app.patch('/api/invoices/:id', isAuthenticated, requirePermission("invoices.write"), async (req: Request, res: Response) => {
+    try {
       const invoice = await storage.getInvoice(req.params.id);
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
@@ -4335,6 +6064,16 @@ export async function registerRoutes(
       if (validated.status) updates.status = validated.status;
       
       const updated = await storage.updateInvoice(req.params.id, updates);
+
+      await recordAudit({
+        actorId: (req as any).dbUser.id,
+        action: validated.status && validated.status !== invoice.status ? "override_invoice_status" : "update_invoice",
+        entityType: "invoice",
+        entityId: invoice.id,
+        targetUserId: invoice.parentId,
+        before: invoice,
+        after: updated,
+      });
       res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -4345,14 +6084,9 @@ export async function registerRoutes(
     }
   });
 
-  // Send invoice (admin level 3+ - Finance)
-  app.post('/api/invoices/:id/send', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Send invoice (requires invoices.write)
+  app.post('/api/invoices/:id/send', isAuthenticated, requirePermission("invoices.write"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 3 && !dbUser.isSuperAdmin) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 3 (Finance) required." });
-      }
-      
       const invoice = await storage.getInvoice(req.params.id);
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
@@ -4414,7 +6148,7 @@ export async function registerRoutes(
         if (!childIds.includes(req.params.studentId)) {
           return res.status(403).json({ message: "Access denied" });
         }
-      } else if (user.role !== "admin" && user.role !== "manager") {
+      } else if (!(await userHasPermission(user, "invoices.view"))) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -4475,6 +6209,11 @@ export async function registerRoutes(
       if (!allowedRoles.includes(user.role)) {
         return res.status(403).json({ message: "Access denied" });
       }
+
+      // Staff can read any family's invoice only with finance access
+      if ((user.role === "admin" || user.role === "manager") && !(await userHasPermission(user, "invoices.view"))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       const invoice = await storage.getInvoiceWithDetails(req.params.id);
       if (!invoice) {
@@ -4521,13 +6260,15 @@ export async function registerRoutes(
         return `${symbols[currency] || currency} ${num.toFixed(2)}`;
       };
       
+      // Dates are shown as they fall in the reader's time zone
       const formatDate = (date: Date | string | null) => {
         if (!date) return '-';
         const d = new Date(date);
         return d.toLocaleDateString('en-ZA', { 
           year: 'numeric', 
           month: 'long', 
-          day: 'numeric' 
+          day: 'numeric',
+          timeZone: resolveTimeZone(user.timeZone),
         });
       };
       
@@ -4761,6 +6502,10 @@ export async function registerRoutes(
       });
       
       const validated = paymentSchema.parse(req.body);
+      const uploadError = await checkUploadReference(validated.proofAssetUrl, "payment_proof", dbUser.id);
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
       
       // Create payment record
       const payment = await storage.createInvoicePayment({
@@ -4775,6 +6520,7 @@ export async function registerRoutes(
         verifiedAt: null,
         rejectionReason: null,
       });
+      await linkUploadReference(payment.proofAssetUrl, payment.id);
       
       // Update invoice status to awaiting_payment if it was draft
       if (invoice.status === "draft") {
@@ -4792,7 +6538,7 @@ export async function registerRoutes(
   });
 
   // Get pending payments for admin review
-  app.get('/api/payments/pending', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  app.get('/api/payments/pending', isAuthenticated, requirePermission("payments.verify"), async (req: Request, res: Response) => {
     try {
       const pendingPayments = await storage.getPendingPayments();
       
@@ -4825,8 +6571,8 @@ export async function registerRoutes(
       const userId = req.user?.claims?.sub;
       const user = await storage.getUser(userId!);
       
-      // Check access: admin/manager can see all, parent can see their own
-      if (user?.role !== "admin" && user?.role !== "manager") {
+      // Check access: payment reviewers can see all, parents/students can see their own
+      if (!(user && await userHasPermission(user, "payments.verify"))) {
         const invoice = await storage.getInvoice(payment.invoiceId);
         if (invoice?.parentId !== userId && invoice?.studentId !== userId) {
           return res.status(403).json({ message: "Access denied" });
@@ -4843,7 +6589,7 @@ export async function registerRoutes(
   });
 
   // Admin verifies a payment
-  app.patch('/api/payments/:id/verify', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  app.patch('/api/payments/:id/verify', isAuthenticated, requirePermission("payments.verify"), async (req: Request, res: Response) => {
     try {
       const paymentId = req.params.id;
       const dbUser = (req as any).dbUser;
@@ -4872,6 +6618,16 @@ export async function registerRoutes(
       
       // Update invoice amounts
       const invoice = await storage.getInvoice(payment.invoiceId);
+      await recordAudit({
+        actorId: dbUser.id,
+        action: "verify_payment",
+        entityType: "payment",
+        entityId: payment.id,
+        targetUserId: invoice?.parentId,
+        before: payment,
+        after: updatedPayment,
+        metadata: { invoiceId: payment.invoiceId },
+      });
       if (invoice) {
         const newAmountPaid = parseFloat(invoice.amountPaid) + paymentAmount;
         const newAmountOutstanding = parseFloat(invoice.totalAmount) - newAmountPaid;
@@ -4882,11 +6638,21 @@ export async function registerRoutes(
           newStatus = "paid";
         }
         
-        await storage.updateInvoice(invoice.id, {
+        const updatedInvoice = await storage.updateInvoice(invoice.id, {
           amountPaid: String(newAmountPaid),
           amountOutstanding: String(Math.max(0, newAmountOutstanding)),
           status: newStatus,
         });
+        await recordAudit({
+          actorId: dbUser.id,
+          action: "apply_payment",
+          entityType: "invoice",
+          entityId: invoice.id,
+          targetUserId: invoice.parentId,
+          before: invoice,
+          after: updatedInvoice,
+          metadata: { paymentId: payment.id },
+        });
         
         // If invoice is fully paid, credit the student's hour wallet
         if (newStatus === "paid") {
@@ -4894,25 +6660,12 @@ export async function registerRoutes(
           
           for (const item of lineItems) {
             if (item.minutesToAdd > 0) {
-              // Get or create wallet for this student-course combo
-              let wallet = await storage.getHourWalletByStudentCourse(invoice.studentId, item.courseId);
-              
-              if (!wallet) {
-                wallet = await storage.createHourWallet({
-                  studentId: invoice.studentId,
-                  courseId: item.courseId,
-                  purchasedMinutes: 0,
-                  consumedMinutes: 0,
-                  status: "active",
-                  expiresAt: null,
-                });
-              }
-              
-              // Add minutes to wallet
+              // Add purchased minutes (creates the wallet if needed and extends its expiry)
               const updatedWallet = await storage.addMinutesToWallet(
                 invoice.studentId,
                 item.courseId,
-                item.minutesToAdd
+                item.minutesToAdd,
+                getWalletValidityDays()
               );
               
               // Record wallet transaction for audit
@@ -4940,7 +6693,7 @@ export async function registerRoutes(
   });
 
   // Admin rejects a payment
-  app.patch('/api/payments/:id/reject', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  app.patch('/api/payments/:id/reject', isAuthenticated, requirePermission("payments.verify"), async (req: Request, res: Response) => {
     try {
       const paymentId = req.params.id;
       const dbUser = (req as any).dbUser;
@@ -4966,6 +6719,18 @@ export async function registerRoutes(
         dbUser.id,
         reason
       );
+
+      const invoice = await storage.getInvoice(payment.invoiceId);
+      await recordAudit({
+        actorId: dbUser.id,
+        action: "reject_payment",
+        entityType: "payment",
+        entityId: payment.id,
+        targetUserId: invoice?.parentId,
+        before: payment,
+        after: updatedPayment,
+        metadata: { invoiceId: payment.invoiceId },
+      });
       
       res.json(updatedPayment);
     } catch (error) {
@@ -4986,8 +6751,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Invoice not found" });
       }
       
-      // Check access: admin/manager can see all, parent/student can see their own
-      if (user?.role !== "admin" && user?.role !== "manager") {
+      // Check access: payment reviewers can see all, parents/students can see their own
+      if (!(user && await userHasPermission(user, "payments.verify"))) {
         if (invoice.parentId !== userId && invoice.studentId !== userId) {
           return res.status(403).json({ message: "Access denied" });
         }
@@ -5052,14 +6817,9 @@ export async function registerRoutes(
   // PAYROLL ROUTES
   // ==========================================
 
-  // Get all payouts (admin level 3+ - Finance)
-  app.get('/api/payouts', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Get all payouts (requires payroll.view)
+  app.get('/api/payouts', isAuthenticated, requirePermission("payroll.view"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 3 && !dbUser.isSuperAdmin) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 3 (Finance) required." });
-      }
-      
       const status = req.query.status as PayoutStatus | undefined;
       const payouts = await storage.getAllPayouts(status);
       res.json(payouts);
@@ -5096,8 +6856,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Payout not found" });
       }
       
-      // Check access: admin/manager can see all, tutor can see their own
-      if (user?.role !== "admin" && user?.role !== "manager") {
+      // Check access: payroll staff can see all, tutors can see their own
+      if (!(user && await userHasPermission(user, "payroll.view"))) {
         if (payout.tutorId !== userId) {
           return res.status(403).json({ message: "Access denied" });
         }
@@ -5110,14 +6870,9 @@ export async function registerRoutes(
     }
   });
 
-  // Create payout (admin level 3+ - Finance)
-  app.post('/api/payouts', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Create payout (requires payroll.approve)
+  app.post('/api/payouts', isAuthenticated, requirePermission("payroll.approve"), async (req: Request, res: Response) => {
     try {
-      const dbUser = (req as any).dbUser;
-      if (dbUser.adminLevel < 3 && !dbUser.isSuperAdmin) {
-        return res.status(403).json({ message: "Insufficient admin level. Level 3 (Finance) required." });
-      }
-      
       const result = insertPayoutSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid payout data", errors: result.error.errors });
@@ -5131,13 +6886,60 @@ export async function registerRoutes(
     }
   });
 
+  // Payroll run (admin level 3+ - Finance). dryRun previews without creating payouts.
+  const payrollRunRequestSchema = z.object({
+    period: z.string().regex(/^\d{4}-\d{2}$/, "Period must be in yyyy-MM format"),
+    currency: z.enum(["ZAR", "USD", "GBP"]).default("ZAR"),
+    dryRun: z.boolean().default(true),
+  });
+
+  app.post('/api/payouts/payroll-run', isAuthenticated, requirePermission("payroll.approve"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+
+      const validated = payrollRunRequestSchema.parse(req.body);
+      const period = getBillingPeriod(validated.period);
+      if (!period) {
+        return res.status(400).json({ message: "Invalid payroll period" });
+      }
+
+      const result = await runPayroll({
+        period,
+        currency: validated.currency,
+        dryRun: validated.dryRun,
+      });
+
+      if (!validated.dryRun) {
+        await storage.createAuditLog({
+          performedById: dbUser.id,
+          action: "payroll_run",
+          newValue: `${result.payouts.length} draft payouts created or updated`,
+          metadata: {
+            period: period.label,
+            payoutIds: result.payouts.map(p => p.payoutId),
+            sessions: result.payouts.reduce((sum, p) => sum + p.lines.length, 0),
+            skipped: result.skipped.length,
+          },
+        });
+      }
+
+      res.status(validated.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error running payroll:", error);
+      res.status(500).json({ message: "Failed to run payroll" });
+    }
+  });
+
   // Update payout (admin/manager only) - restricted fields and status transitions
   const updatePayoutSchema = z.object({
     status: z.enum(["draft", "approved", "paid", "on_hold"]).optional(),
     notes: z.string().optional(),
   });
   
-  app.patch('/api/payouts/:id', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  app.patch('/api/payouts/:id', isAuthenticated, requirePermission("payroll.approve"), async (req: Request, res: Response) => {
     try {
       const payoutId = req.params.id;
       const dbUser = (req as any).dbUser;
@@ -5181,39 +6983,7 @@ export async function registerRoutes(
           
           // Check for unpaid invoice mismatches and create flags
           const lines = await storage.getPayoutLines(payoutId);
-          const existingFlags = await storage.getPayoutFlags(payoutId);
-          const existingInvoiceFlags = new Set(
-            existingFlags
-              .filter(f => f.flagType === "unpaid_invoice")
-              .map(f => f.invoiceId)
-          );
-          const studentsChecked = new Set<string>();
-          
-          for (const line of lines) {
-            // Skip if we've already checked this student
-            if (studentsChecked.has(line.studentId)) continue;
-            studentsChecked.add(line.studentId);
-            
-            // Find unpaid invoices for this student in the payout period
-            const unpaidInvoices = await storage.getUnpaidInvoicesByStudentInPeriod(
-              line.studentId,
-              payout.periodStart,
-              payout.periodEnd
-            );
-            
-            // Create a flag for each unpaid invoice (skip if already flagged)
-            for (const invoice of unpaidInvoices) {
-              if (existingInvoiceFlags.has(invoice.id)) continue;
-              
-              await storage.createPayoutFlag({
-                payoutId,
-                invoiceId: invoice.id,
-                flagType: "unpaid_invoice",
-                description: `Tutor payment includes sessions for student with unpaid invoice ${invoice.invoiceNumber} (Status: ${invoice.status}, Outstanding: ${invoice.amountOutstanding})`,
-                isResolved: false,
-              });
-            }
-          }
+          await flagUnpaidInvoices(payout, lines.map(line => line.studentId));
         }
         
         // Set paid timestamp when transitioning to paid
@@ -5223,6 +6993,17 @@ export async function registerRoutes(
       }
       
       const updatedPayout = await storage.updatePayout(payoutId, safeUpdates);
+
+      const statusChanged = safeUpdates.status && safeUpdates.status !== payout.status;
+      await recordAudit({
+        actorId: dbUser.id,
+        action: statusChanged ? `payout_${safeUpdates.status}` : "update_payout",
+        entityType: "payout",
+        entityId: payout.id,
+        targetUserId: payout.tutorId,
+        before: payout,
+        after: updatedPayout,
+      });
       
       // Return payout with details including any new flags
       const payoutWithDetails = await storage.getPayoutWithDetails(payoutId);
@@ -5233,8 +7014,8 @@ export async function registerRoutes(
     }
   });
 
-  // Add line to payout (admin/manager only)
-  app.post('/api/payouts/:id/lines', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Add line to payout (requires payroll.approve)
+  app.post('/api/payouts/:id/lines', isAuthenticated, requirePermission("payroll.approve"), async (req: Request, res: Response) => {
     try {
       const payoutId = req.params.id;
       
@@ -5244,6 +7025,32 @@ export async function registerRoutes(
       }
       
       const lineData = { ...req.body, payoutId };
+      
+      // A session can only ever be paid out once
+      if (typeof lineData.sessionId === "string") {
+        const [alreadyPaid] = await storage.getSessionIdsInPayouts([lineData.sessionId]);
+        if (alreadyPaid) {
+          return res.status(409).json({ message: "This session is already included in a payout" });
+        }
+      }
+      
+      // Without an explicit rate, use the tutor's pay rate in effect on the session date
+      if (lineData.hourlyRate === undefined && typeof lineData.courseId === "string") {
+        let rateDate = new Date(payout.periodStart);
+        if (typeof lineData.sessionId === "string") {
+          const session = await storage.getTutoringSession(lineData.sessionId);
+          if (session) rateDate = new Date(session.scheduledStartTime);
+        }
+        const rate = await createRateLookup().tutorPayRate(payout.tutorId, lineData.courseId, payout.currency, rateDate);
+        if (rate === null) {
+          return res.status(400).json({ message: `No ${payout.currency} pay rate in effect for this tutor and course` });
+        }
+        lineData.hourlyRate = rate.toFixed(2);
+        if (lineData.amount === undefined && typeof lineData.minutes === "number") {
+          lineData.amount = ((lineData.minutes / 60) * rate).toFixed(2);
+        }
+      }
+      
       const result = insertPayoutLineSchema.safeParse(lineData);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid line data", errors: result.error.errors });
@@ -5270,7 +7077,7 @@ export async function registerRoutes(
       }
       
       // Check access
-      if (user?.role !== "admin" && user?.role !== "manager") {
+      if (!(user && await userHasPermission(user, "payroll.view"))) {
         if (payout.tutorId !== userId) {
           return res.status(403).json({ message: "Access denied" });
         }
@@ -5284,8 +7091,8 @@ export async function registerRoutes(
     }
   });
 
-  // Create payout flag (admin/manager only)
-  app.post('/api/payouts/:id/flags', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Create payout flag (requires payroll.approve)
+  app.post('/api/payouts/:id/flags', isAuthenticated, requirePermission("payroll.approve"), async (req: Request, res: Response) => {
     try {
       const payoutId = req.params.id;
       
@@ -5308,8 +7115,8 @@ export async function registerRoutes(
     }
   });
 
-  // Update payout flag (resolve) (admin/manager only)
-  app.patch('/api/payouts/:payoutId/flags/:flagId', isAuthenticated, requireRole("admin", "manager"), async (req: Request, res: Response) => {
+  // Update payout flag (resolve) (requires payroll.approve)
+  app.patch('/api/payouts/:payoutId/flags/:flagId', isAuthenticated, requirePermission("payroll.approve"), async (req: Request, res: Response) => {
     try {
       const { flagId } = req.params;
       const dbUser = (req as any).dbUser;
@@ -5352,8 +7159,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Payout not found" });
       }
       
-      // Access control: admin/manager can see all, tutor can see their own
-      if (user.role !== "admin" && user.role !== "manager") {
+      // Access control: payroll staff can see all, tutors can see their own
+      if (!(await userHasPermission(user, "payroll.view"))) {
         if (payout.tutorId !== userId) {
           return res.status(403).json({ message: "Access denied" });
         }
@@ -5387,13 +7194,15 @@ export async function registerRoutes(
         return `${symbols[currency] || currency} ${num.toFixed(2)}`;
       };
       
+      // Dates are shown as they fall in the reader's time zone
       const formatDate = (date: Date | string | null) => {
         if (!date) return '-';
         const d = new Date(date);
         return d.toLocaleDateString('en-ZA', { 
           year: 'numeric', 
           month: 'long', 
-          day: 'numeric' 
+          day: 'numeric',
+          timeZone: resolveTimeZone(user.timeZone),
         });
       };
       
@@ -5617,6 +7426,289 @@ export async function registerRoutes(
     }
   });
 
+  // ==========================================
+  // FILE UPLOAD ROUTES
+  // ==========================================
+
+  // Roles allowed to upload each kind of file
+  const uploadRoles: Record<string, UserRole[]> = {
+    submission: ["student"],
+    payment_proof: ["parent"],
+    course_image: ["tutor", "admin", "manager"],
+    profile_image: ["student", "parent", "tutor", "admin", "manager"],
+  };
+
+  // Upload a file: the raw bytes are the request body, with the file's Content-Type,
+  // the purpose in ?purpose= and the original name in an X-File-Name header
+  app.post(
+    '/api/uploads',
+    isAuthenticated,
+    express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const activeUser = await getActiveUser(req, res);
+        if (!activeUser) return;
+        const { user } = activeUser;
+
+        const purpose = req.query.purpose;
+        if (!isUploadPurpose(purpose)) {
+          return res.status(400).json({ message: "Invalid upload purpose" });
+        }
+        if (!user.isSuperAdmin && !uploadRoles[purpose].includes(user.role)) {
+          return res.status(403).json({ message: "You cannot upload this type of file" });
+        }
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "File content is required" });
+        }
+
+        const originalName = decodeFileNameHeader(req.get("x-file-name"), "upload");
+        if (originalName === null) {
+          return res.status(400).json({ message: "Invalid file name" });
+        }
+        const { upload, error } = await saveUpload({
+          ownerId: user.id,
+          purpose,
+          originalName,
+          mimeType: req.get("content-type") || "",
+          data: req.body,
+        });
+        if (!upload) {
+          return res.status(400).json({ message: error });
+        }
+
+        // Profile images apply to the uploader straight away
+        if (purpose === "profile_image") {
+          await storage.updateUser(user.id, { profileImageUrl: getUploadUrl(upload) });
+          await storage.linkFileUpload(upload.id, user.id);
+        }
+
+        res.status(201).json({
+          id: upload.id,
+          url: getUploadUrl(upload),
+          purpose: upload.purpose,
+          originalName: upload.originalName,
+          mimeType: upload.mimeType,
+          sizeBytes: upload.sizeBytes,
+        });
+      } catch (error) {
+        console.error("Error uploading file:", error);
+        res.status(500).json({ message: "Failed to upload file" });
+      }
+    },
+  );
+
+  // Download a file, subject to the access rules of the record it belongs to
+  app.get('/api/uploads/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const activeUser = await getActiveUser(req, res);
+      if (!activeUser) return;
+
+      const upload = await storage.getFileUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (!(await canDownloadUpload(upload, activeUser.user))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const stream = await getFileStorage(upload.storageDriver).read(upload.storageKey);
+      const disposition = upload.mimeType.startsWith("image/") ? "inline" : "attachment";
+      res.setHeader("Content-Type", upload.mimeType);
+      res.setHeader("Content-Length", upload.sizeBytes.toString());
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeURIComponent(upload.originalName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      stream.on("error", (streamError) => {
+        console.error("Error streaming file:", streamError);
+        res.destroy();
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // ==========================================
+  // RATE CARD ROUTES
+  // ==========================================
+
+  // Rate card entries are never edited in place: a new entry with a later
+  // effectiveFrom supersedes the old one, so past sessions keep their rate.
+  const courseRateRequestSchema = z.object({
+    courseId: z.string().min(1),
+    currency: z.enum(["ZAR", "USD", "GBP"]).default("ZAR"),
+    hourlyRate: z.number().positive(),
+    effectiveFrom: z.string().datetime(),
+  });
+
+  const tutorPayRateRequestSchema = z.object({
+    tutorId: z.string().min(1),
+    courseId: z.string().min(1).nullable().default(null),
+    currency: z.enum(["ZAR", "USD", "GBP"]).default("ZAR"),
+    hourlyRate: z.number().positive(),
+    effectiveFrom: z.string().datetime(),
+  });
+
+  const studentDiscountRequestSchema = z.object({
+    studentId: z.string().min(1),
+    courseId: z.string().min(1).nullable().default(null),
+    discountPercent: z.number().min(0).max(100),
+    effectiveFrom: z.string().datetime(),
+    reason: z.string().optional(),
+  });
+
+  // Get course rate history (requires rates.view)
+  app.get('/api/rate-cards/course-rates', isAuthenticated, requirePermission("rates.view"), async (req: Request, res: Response) => {
+    try {
+      const rates = await storage.getCourseRates(req.query.courseId as string | undefined);
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching course rates:", error);
+      res.status(500).json({ message: "Failed to fetch course rates" });
+    }
+  });
+
+  // Add course rate (requires rates.write)
+  app.post('/api/rate-cards/course-rates', isAuthenticated, requirePermission("rates.write"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+
+      const validated = courseRateRequestSchema.parse(req.body);
+      const course = await storage.getCourse(validated.courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const rate = await storage.createCourseRate({
+        courseId: validated.courseId,
+        currency: validated.currency,
+        hourlyRate: validated.hourlyRate.toFixed(2),
+        effectiveFrom: new Date(validated.effectiveFrom),
+        createdById: dbUser.id,
+      });
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        action: "course_rate_created",
+        newValue: `${rate.currency} ${rate.hourlyRate}/hr`,
+        metadata: { rateId: rate.id, courseId: course.id, effectiveFrom: validated.effectiveFrom },
+      });
+
+      res.status(201).json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating course rate:", error);
+      res.status(500).json({ message: "Failed to create course rate" });
+    }
+  });
+
+  // Get tutor pay rate history (requires rates.view)
+  app.get('/api/rate-cards/tutor-pay-rates', isAuthenticated, requirePermission("rates.view"), async (req: Request, res: Response) => {
+    try {
+      const rates = await storage.getTutorPayRates(req.query.tutorId as string | undefined);
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching tutor pay rates:", error);
+      res.status(500).json({ message: "Failed to fetch tutor pay rates" });
+    }
+  });
+
+  // Add tutor pay rate, optionally for a single course (requires rates.write)
+  app.post('/api/rate-cards/tutor-pay-rates', isAuthenticated, requirePermission("rates.write"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+
+      const validated = tutorPayRateRequestSchema.parse(req.body);
+      const tutor = await storage.getUser(validated.tutorId);
+      if (!tutor || tutor.role !== "tutor") {
+        return res.status(404).json({ message: "Tutor not found" });
+      }
+      if (validated.courseId && !(await storage.getCourse(validated.courseId))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const rate = await storage.createTutorPayRate({
+        tutorId: validated.tutorId,
+        courseId: validated.courseId,
+        currency: validated.currency,
+        hourlyRate: validated.hourlyRate.toFixed(2),
+        effectiveFrom: new Date(validated.effectiveFrom),
+        createdById: dbUser.id,
+      });
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: tutor.id,
+        action: "tutor_pay_rate_created",
+        newValue: `${rate.currency} ${rate.hourlyRate}/hr`,
+        metadata: { rateId: rate.id, courseId: rate.courseId, effectiveFrom: validated.effectiveFrom },
+      });
+
+      res.status(201).json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating tutor pay rate:", error);
+      res.status(500).json({ message: "Failed to create tutor pay rate" });
+    }
+  });
+
+  // Get student discount history (requires rates.view)
+  app.get('/api/rate-cards/student-discounts', isAuthenticated, requirePermission("rates.view"), async (req: Request, res: Response) => {
+    try {
+      const discounts = await storage.getStudentRateDiscounts(req.query.studentId as string | undefined);
+      res.json(discounts);
+    } catch (error) {
+      console.error("Error fetching student discounts:", error);
+      res.status(500).json({ message: "Failed to fetch student discounts" });
+    }
+  });
+
+  // Add student discount, optionally for a single course (requires rates.write)
+  app.post('/api/rate-cards/student-discounts', isAuthenticated, requirePermission("rates.write"), async (req: Request, res: Response) => {
+    try {
+      const dbUser = (req as any).dbUser;
+
+      const validated = studentDiscountRequestSchema.parse(req.body);
+      const student = await storage.getUser(validated.studentId);
+      if (!student || student.role !== "student") {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      if (validated.courseId && !(await storage.getCourse(validated.courseId))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const discount = await storage.createStudentRateDiscount({
+        studentId: validated.studentId,
+        courseId: validated.courseId,
+        discountPercent: validated.discountPercent.toFixed(2),
+        effectiveFrom: new Date(validated.effectiveFrom),
+        reason: validated.reason || null,
+        createdById: dbUser.id,
+      });
+
+      await storage.createAuditLog({
+        performedById: dbUser.id,
+        targetUserId: student.id,
+        action: "student_discount_created",
+        newValue: `${discount.discountPercent}%`,
+        metadata: { discountId: discount.id, courseId: discount.courseId, effectiveFrom: validated.effectiveFrom },
+      });
+
+      res.status(201).json(discount);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating student discount:", error);
+      res.status(500).json({ message: "Failed to create student discount" });
+    }
+  });
+
   // API Documentation PDF endpoint
   app.get('/api/docs/pdf', async (req: Request, res: Response) => {
     try {
@@ -5665,6 +7757,20 @@ export async function registerRoutes(
           title: 'Authentication',
           endpoints: [
             { method: 'GET', path: '/api/auth/user', access: 'Authenticated', desc: 'Get current logged-in user info' },
+            { method: 'PATCH', path: '/api/auth/user/time-zone', access: 'Authenticated', desc: 'Set my IANA time zone preference' },
+            { method: 'POST', path: '/api/auth/password-reset/request', access: 'Public', desc: 'Email a password reset link' },
+            { method: 'POST', path: '/api/auth/password-reset/confirm', access: 'Public', desc: 'Set a new password with a reset token' },
+            { method: 'POST', path: '/api/auth/verify-email/request', access: 'Authenticated', desc: 'Resend the email verification link' },
+            { method: 'POST', path: '/api/auth/verify-email/confirm', access: 'Public', desc: 'Confirm an email address with a verification token' },
+            { method: 'POST', path: '/api/auth/2fa/verify', access: 'Public', desc: 'Complete a staff sign-in with an authenticator or recovery code' },
+            { method: 'GET', path: '/api/auth/2fa/status', access: 'Authenticated', desc: 'Get two-factor status for the current user' },
+            { method: 'POST', path: '/api/auth/2fa/setup', access: 'Staff', desc: 'Start two-factor enrolment (secret and QR code)' },
+            { method: 'POST', path: '/api/auth/2fa/enable', access: 'Staff', desc: 'Confirm enrolment and receive recovery codes' },
+            { method: 'POST', path: '/api/auth/2fa/disable', access: 'Staff', desc: 'Turn off optional two-factor authentication' },
+            { method: 'POST', path: '/api/auth/2fa/recovery-codes', access: 'Staff', desc: 'Regenerate recovery codes' },
+            { method: 'GET', path: '/api/auth/sessions', access: 'Authenticated', desc: 'List your signed-in sessions' },
+            { method: 'DELETE', path: '/api/auth/sessions/:id', access: 'Authenticated', desc: 'Sign out one of your other sessions' },
+            { method: 'POST', path: '/api/auth/sessions/revoke-others', access: 'Authenticated', desc: 'Sign out all your other sessions' },
           ]
         },
         {
@@ -5684,6 +7790,13 @@ export async function registerRoutes(
             { method: 'GET', path: '/api/users/role/:role', access: 'Admin, Manager', desc: 'Get users by role' },
             { method: 'PATCH', path: '/api/users/:id/role', access: 'Admin', desc: 'Change user role' },
             { method: 'PATCH', path: '/api/users/:id/status', access: 'Admin', desc: 'Activate/deactivate user' },
+            { method: 'GET', path: '/api/users/:id/sessions', access: 'Admin', desc: "List a user's signed-in sessions" },
+            { method: 'DELETE', path: '/api/users/:id/sessions/:sessionId', access: 'Admin', desc: 'Sign a user out of one session' },
+            { method: 'DELETE', path: '/api/users/:id/sessions', access: 'Admin', desc: 'Sign a user out everywhere' },
+            { method: 'GET', path: '/api/admin/login-lockouts', access: 'Admin', desc: 'List active sign-in lockouts' },
+            { method: 'DELETE', path: '/api/admin/login-lockouts/:id', access: 'Admin', desc: 'Clear a sign-in lockout' },
+            { method: 'POST', path: '/api/users/import/preview', access: 'Admin', desc: 'Validate a CSV/XLSX user import row by row' },
+            { method: 'POST', path: '/api/users/import', access: 'Admin', desc: 'Import users, parent links and enrollments atomically' },
           ]
         },
         {
@@ -5694,7 +7807,13 @@ export async function registerRoutes(
             { method: 'PATCH', path: '/api/super-admin/users/:id/super-admin', access: 'Super Admin', desc: 'Grant/revoke super admin' },
             { method: 'PATCH', path: '/api/super-admin/users/:id/role', access: 'Super Admin', desc: 'Change any user role' },
             { method: 'PATCH', path: '/api/super-admin/users/:id', access: 'Super Admin', desc: 'Update user details' },
-            { method: 'GET', path: '/api/super-admin/audit-logs', access: 'Super Admin', desc: 'Get all audit logs' },
+            { method: 'POST', path: '/api/super-admin/users/:id/impersonate', access: 'Super Admin', desc: 'Sign in as a user (read-only by default, time-limited, audited)' },
+            { method: 'POST', path: '/api/impersonation/stop', access: 'Authenticated', desc: 'Return from impersonation to your own account' },
+            { method: 'GET', path: '/api/super-admin/permissions', access: 'Super Admin', desc: 'Get the role-to-permission map' },
+            { method: 'PUT', path: '/api/super-admin/permissions', access: 'Super Admin', desc: 'Replace the role-to-permission map (audited)' },
+            { method: 'POST', path: '/api/super-admin/users/:id/two-factor/reset', access: 'Super Admin', desc: "Reset a user's two-factor authentication" },
+            { method: 'GET', path: '/api/super-admin/audit-logs', access: 'Super Admin', desc: 'Get audit logs (filter by entityType, entityId, actorId, action, from, to)' },
+            { method: 'GET', path: '/api/super-admin/audit-logs/export', access: 'Super Admin', desc: 'Export filtered audit logs as CSV' },
             { method: 'GET', path: '/api/super-admin/audit-logs/user/:userId', access: 'Super Admin', desc: 'Get user audit logs' },
           ]
         },
@@ -5783,7 +7902,17 @@ export async function registerRoutes(
           endpoints: [
             { method: 'GET', path: '/api/parent/children', access: 'Parent', desc: 'Get my linked children' },
             { method: 'GET', path: '/api/parent/children/:childId/sessions', access: 'Parent', desc: 'Get child tutoring sessions' },
+            { method: 'GET', path: '/api/parent-links', access: 'Parent, Student', desc: 'List own links and pending link requests' },
+            { method: 'POST', path: '/api/parent-links/invite-codes', access: 'Student', desc: 'Create an invite code for a parent' },
+            { method: 'POST', path: '/api/parent-links/redeem', access: 'Parent', desc: 'Link to a student with their invite code' },
+            { method: 'POST', path: '/api/parent-links/requests', access: 'Parent', desc: "Request a link by the student's email" },
+            { method: 'POST', path: '/api/parent-links/requests/:id/accept', access: 'Student', desc: "Accept a parent's link request" },
+            { method: 'POST', path: '/api/parent-links/requests/:id/decline', access: 'Student', desc: "Decline a parent's link request" },
+            { method: 'DELETE', path: '/api/parent-links/requests/:id', access: 'Creator, Admin', desc: 'Cancel a pending request or invite code' },
+            { method: 'PATCH', path: '/api/parent-links/:id', access: 'Parent, Student', desc: 'Edit relationship label or become primary billing contact' },
+            { method: 'GET', path: '/api/users/:id/parent-links', access: 'Admin', desc: "List a user's parent links and pending requests" },
             { method: 'POST', path: '/api/parent-children', access: 'Admin, Manager', desc: 'Link parent to child' },
+            { method: 'PATCH', path: '/api/parent-children/:id', access: 'Admin', desc: 'Edit relationship label or primary billing flag' },
             { method: 'DELETE', path: '/api/parent-children/:id', access: 'Admin, Manager', desc: 'Remove parent-child link' },
           ]
         },
@@ -5792,6 +7921,11 @@ export async function registerRoutes(
           endpoints: [
             { method: 'GET', path: '/api/tutor/availability', access: 'Tutor', desc: 'Get my availability slots' },
             { method: 'GET', path: '/api/tutors/:tutorId/availability', access: 'Authenticated', desc: 'Get tutor availability' },
+            { method: 'GET', path: '/api/tutors/:tutorId/slots', access: 'Authenticated', desc: 'Get bookable 15-minute-aligned slots (from, to, duration)' },
+            { method: 'GET', path: '/api/tutor/availability-exceptions', access: 'Tutor', desc: 'Get my time off and extra hours' },
+            { method: 'POST', path: '/api/tutor/availability-exceptions', access: 'Tutor', desc: 'Add time off or extra hours; returns overlapping sessions' },
+            { method: 'GET', path: '/api/tutor/availability-exceptions/:id/conflicts', access: 'Tutor', desc: 'Get scheduled sessions inside a time off block' },
+            { method: 'DELETE', path: '/api/tutor/availability-exceptions/:id', access: 'Tutor', desc: 'Delete an availability exception' },
             { method: 'POST', path: '/api/tutor/availability', access: 'Tutor', desc: 'Create availability slot' },
             { method: 'PATCH', path: '/api/tutor/availability/:id', access: 'Tutor', desc: 'Update availability' },
             { method: 'DELETE', path: '/api/tutor/availability/:id', access: 'Tutor', desc: 'Delete availability' },
@@ -5803,7 +7937,8 @@ export async function registerRoutes(
             { method: 'GET', path: '/api/session-proposals/student', access: 'Student', desc: 'Get my session proposals' },
             { method: 'GET', path: '/api/session-proposals/tutor', access: 'Tutor', desc: 'Get proposals for my sessions' },
             { method: 'POST', path: '/api/session-proposals', access: 'Student', desc: 'Create session proposal' },
-            { method: 'PATCH', path: '/api/session-proposals/:id/approve', access: 'Tutor', desc: 'Approve session proposal' },
+            { method: 'PATCH', path: '/api/session-proposals/:id/approve', access: 'Tutor', desc: 'Approve session proposal (creates the whole series if recurring)' },
+            { method: 'GET', path: '/api/session-proposals/:id/occurrences', access: 'Tutor', desc: 'Preview proposal occurrences and conflicts' },
             { method: 'PATCH', path: '/api/session-proposals/:id/reject', access: 'Tutor', desc: 'Reject session proposal' },
           ]
         },
@@ -5812,11 +7947,25 @@ export async function registerRoutes(
           endpoints: [
             { method: 'GET', path: '/api/tutoring-sessions', access: 'Authenticated', desc: 'Get all sessions (filtered by role)' },
             { method: 'GET', path: '/api/tutoring-sessions/:id', access: 'Authenticated', desc: 'Get session details' },
+            { method: 'GET', path: '/api/tutoring-sessions/:id/reconciliation-decisions', access: 'Admin, Manager', desc: 'No-show and auto-end decisions recorded for a session' },
             { method: 'GET', path: '/api/tutor/sessions', access: 'Tutor', desc: 'Get my tutoring sessions' },
+            { method: 'POST', path: '/api/tutoring-sessions/group', access: 'Tutor, Manager, Admin', desc: 'Create group session for a course' },
+            { method: 'GET', path: '/api/tutoring-sessions/:id/roster', access: 'Tutor, Manager, Admin', desc: 'Get group session roster' },
+            { method: 'POST', path: '/api/tutoring-sessions/:id/roster', access: 'Tutor, Manager, Admin', desc: 'Add student to group session' },
+            { method: 'DELETE', path: '/api/tutoring-sessions/:id/roster/:studentId', access: 'Tutor, Manager, Admin', desc: 'Remove student from group session' },
             { method: 'POST', path: '/api/tutoring-sessions/:id/join', access: 'Authenticated', desc: 'Join a session' },
             { method: 'POST', path: '/api/tutoring-sessions/:id/end', access: 'Tutor', desc: 'End a session' },
-            { method: 'PATCH', path: '/api/tutoring-sessions/:id/postpone', access: 'Authenticated', desc: 'Postpone session' },
-            { method: 'PATCH', path: '/api/tutoring-sessions/:id/cancel', access: 'Authenticated', desc: 'Cancel session' },
+            { method: 'PATCH', path: '/api/tutoring-sessions/:id/cancel', access: 'Authenticated', desc: 'Cancel session (a student cancelling inside 120 min of start is marked missed with a 50% charge; otherwise reserved minutes are refunded)' },
+            { method: 'POST', path: '/api/tutoring-sessions/:id/reschedule-requests', access: 'Authenticated', desc: 'Propose up to three new times for a 1:1 session' },
+            { method: 'GET', path: '/api/reschedule-requests', access: 'Authenticated', desc: 'My pending incoming and outgoing reschedule requests' },
+            { method: 'POST', path: '/api/reschedule-requests/:id/accept', access: 'Authenticated', desc: 'Accept a proposed time and move the session' },
+            { method: 'POST', path: '/api/reschedule-requests/:id/counter', access: 'Authenticated', desc: 'Counter-propose different times' },
+            { method: 'POST', path: '/api/reschedule-requests/:id/decline', access: 'Authenticated', desc: 'Decline a reschedule request' },
+            { method: 'POST', path: '/api/reschedule-requests/:id/withdraw', access: 'Authenticated', desc: 'Withdraw my reschedule request' },
+            { method: 'GET', path: '/api/session-series/:groupId', access: 'Participant, Manager, Admin', desc: 'Get recurring series occurrences' },
+            { method: 'POST', path: '/api/session-series/:groupId/cancel', access: 'Participant, Manager, Admin', desc: 'Cancel all future occurrences (charged like single cancellations)' },
+            { method: 'PATCH', path: '/api/session-series/:groupId/shift', access: 'Tutor, Manager, Admin', desc: 'Shift every future occurrence' },
+            { method: 'POST', path: '/api/session-series/:groupId/skip/:sessionId', access: 'Participant, Manager, Admin', desc: 'Skip a single occurrence (charged like a single cancellation)' },
           ]
         },
         {
@@ -5863,6 +8012,7 @@ export async function registerRoutes(
             { method: 'GET', path: '/api/invoices/:id/pdf', access: 'Authenticated', desc: 'Download invoice PDF' },
             { method: 'GET', path: '/api/invoices/student/:studentId', access: 'Authenticated', desc: 'Get invoices for student' },
             { method: 'POST', path: '/api/invoices', access: 'Admin, Manager', desc: 'Create invoice' },
+            { method: 'POST', path: '/api/invoices/billing-run', access: 'Admin, Manager', desc: 'Preview or run monthly billing (draft invoices)' },
             { method: 'PATCH', path: '/api/invoices/:id', access: 'Admin, Manager', desc: 'Update invoice' },
             { method: 'POST', path: '/api/invoices/:id/send', access: 'Admin, Manager', desc: 'Send invoice to parent' },
           ]
@@ -5894,12 +8044,31 @@ export async function registerRoutes(
             { method: 'GET', path: '/api/payouts/:id/lines', access: 'Authenticated', desc: 'Get payout line items' },
             { method: 'GET', path: '/api/payouts/:id/pdf', access: 'Authenticated', desc: 'Download payslip PDF' },
             { method: 'POST', path: '/api/payouts', access: 'Admin, Manager', desc: 'Create payout' },
+            { method: 'POST', path: '/api/payouts/payroll-run', access: 'Admin, Manager', desc: 'Preview or run payroll (draft payouts per tutor)' },
             { method: 'PATCH', path: '/api/payouts/:id', access: 'Admin, Manager', desc: 'Update payout' },
             { method: 'POST', path: '/api/payouts/:id/lines', access: 'Admin, Manager', desc: 'Add payout line item' },
             { method: 'POST', path: '/api/payouts/:id/flags', access: 'Admin, Manager', desc: 'Add payout flag' },
             { method: 'PATCH', path: '/api/payouts/:payoutId/flags/:flagId', access: 'Admin, Manager', desc: 'Update payout flag' },
           ]
         },
+        {
+          title: 'Rate Cards',
+          endpoints: [
+            { method: 'GET', path: '/api/rate-cards/course-rates', access: 'Admin, Manager', desc: 'Get course rate history' },
+            { method: 'POST', path: '/api/rate-cards/course-rates', access: 'Admin, Manager', desc: 'Add course rate (Finance)' },
+            { method: 'GET', path: '/api/rate-cards/tutor-pay-rates', access: 'Admin, Manager', desc: 'Get tutor pay rate history' },
+            { method: 'POST', path: '/api/rate-cards/tutor-pay-rates', access: 'Admin, Manager', desc: 'Add tutor pay rate (Finance)' },
+            { method: 'GET', path: '/api/rate-cards/student-discounts', access: 'Admin, Manager', desc: 'Get student discount history' },
+            { method: 'POST', path: '/api/rate-cards/student-discounts', access: 'Admin, Manager', desc: 'Add student discount (Finance)' },
+          ]
+        },
+        {
+          title: 'File Uploads',
+          endpoints: [
+            { method: 'POST', path: '/api/uploads', access: 'Authenticated (by purpose)', desc: 'Upload a submission, payment proof, course image or profile image' },
+            { method: 'GET', path: '/api/uploads/:id', access: 'Owner, record access', desc: 'Download an uploaded file' },
+          ]
+        },
         {
           title: 'Dashboard Stats',
           endpoints: [
@@ -0,0 +1,181 @@
+// Session charges against students' hour wallets. Every deduction and refund is
+// recorded as a wallet transaction so balances can be traced back to sessions, and
+// charges tied to a session closing are written with its status change.
+
+import { storage, type SessionAttendanceUpdate, type WalletCharge } from "./storage";
+import {
+  LATE_CHANGE_NOTICE_MINUTES,
+  getMissedSessionChargeMinutes,
+  getScheduledMinutes,
+  isLateChange,
+} from "@shared/reschedulePolicy";
+import type { TutoringSession } from "@shared/schema";
+
+// Helper to deduct from wallet with audit logging
+export async function deductWalletWithAudit(
+  studentId: string,
+  courseId: string,
+  minutes: number,
+  reason: string,
+  sessionId?: string
+): Promise<void> {
+  const wallet = await storage.getHourWalletByStudentCourse(studentId, courseId);
+  if (!wallet) return;
+
+  await storage.deductMinutesFromWallet(studentId, courseId, minutes);
+
+  // Refetch to get updated balance
+  const updatedWallet = await storage.getHourWalletByStudentCourse(studentId, courseId);
+  if (updatedWallet) {
+    const remainingMinutes = updatedWallet.purchasedMinutes - updatedWallet.consumedMinutes;
+    await storage.createWalletTransaction({
+      walletId: updatedWallet.id,
+      minutesDelta: -minutes,
+      balanceAfter: remainingMinutes,
+      reason: reason,
+      performedById: null,
+    });
+  }
+}
+
+// Wallet and attendance changes that settle a session's students, applied by the
+// caller in the same transaction as the session's own status change
+export type SessionWalletChanges = {
+  walletCharges: WalletCharge[];
+  attendanceUpdates: SessionAttendanceUpdate[];
+};
+
+// Brings one student's wallet to the missed-session charge: students who already
+// joined were charged in full and get the difference back, others are charged now
+function getMissedSessionCharge(
+  studentId: string,
+  courseId: string,
+  reservedMinutes: number,
+  chargeMinutes: number,
+  sessionId: string,
+  label: string,
+): WalletCharge | null {
+  if (reservedMinutes > 0) {
+    const refundAmount = reservedMinutes - chargeMinutes;
+    return refundAmount > 0
+      ? {
+          studentId,
+          courseId,
+          minutes: -refundAmount,
+          reason: `${label} refund: adjusting from ${reservedMinutes} to ${chargeMinutes} min (50%) for session ${sessionId}`,
+        }
+      : null;
+  }
+  return {
+    studentId,
+    courseId,
+    minutes: chargeMinutes,
+    reason: `Missed session: 50% charge (${chargeMinutes} min) for session ${sessionId}`,
+  };
+}
+
+// The 50% missed-session charge for every student of a session that is being
+// called off late or was not attended, with the minutes billed to each of them
+export async function getMissedSessionCharges(
+  session: TutoringSession,
+  label: string,
+): Promise<SessionWalletChanges & { chargeMinutes: number }> {
+  const chargeMinutes = getMissedSessionChargeMinutes(getScheduledMinutes(session));
+  const walletCharges: WalletCharge[] = [];
+  const attendanceUpdates: SessionAttendanceUpdate[] = [];
+
+  if (session.isGroupSession) {
+    const attendees = await storage.getSessionAttendance(session.id);
+    for (const attendee of attendees) {
+      const charge = getMissedSessionCharge(
+        attendee.studentId, session.courseId, attendee.reservedMinutes || 0, chargeMinutes, session.id, label
+      );
+      if (charge) walletCharges.push(charge);
+      attendanceUpdates.push({ id: attendee.id, updates: { attended: false, consumedMinutes: chargeMinutes } });
+    }
+  } else if (session.studentId) {
+    const charge = getMissedSessionCharge(
+      session.studentId, session.courseId, session.reservedMinutes || 0, chargeMinutes, session.id, label
+    );
+    if (charge) walletCharges.push(charge);
+  }
+
+  return { walletCharges, attendanceUpdates, chargeMinutes };
+}
+
+// Gives every student of a session that is called off back the minutes reserved for it
+export async function getReservationRefunds(
+  session: TutoringSession,
+  label: string,
+): Promise<SessionWalletChanges & { refundedMinutes: number }> {
+  const refund = (studentId: string, reserved: number): WalletCharge => ({
+    studentId,
+    courseId: session.courseId,
+    minutes: -reserved,
+    reason: `${label}: full refund (${reserved} min) for session ${session.id}`,
+  });
+  const walletCharges: WalletCharge[] = [];
+  const attendanceUpdates: SessionAttendanceUpdate[] = [];
+
+  if (session.isGroupSession) {
+    const attendees = await storage.getSessionAttendance(session.id);
+    for (const attendee of attendees) {
+      const reserved = attendee.reservedMinutes || 0;
+      if (reserved > 0) walletCharges.push(refund(attendee.studentId, reserved));
+      attendanceUpdates.push({ id: attendee.id, updates: { reservedMinutes: 0, consumedMinutes: 0 } });
+    }
+  } else if (session.studentId && (session.reservedMinutes || 0) > 0) {
+    walletCharges.push(refund(session.studentId, session.reservedMinutes || 0));
+  }
+
+  const refundedMinutes = -walletCharges.reduce((sum, charge) => sum + charge.minutes, 0);
+  return { walletCharges, attendanceUpdates, refundedMinutes };
+}
+
+// Calls off a session on behalf of a participant or staff member. A student doing so
+// <120 min before a scheduled start has it marked missed with the 50% charge; any other
+// cancellation refunds every reservation in full. Undefined when the session changed
+// status in the meantime.
+export async function cancelSessionWithCharges(
+  session: TutoringSession,
+  cancelledById: string,
+  reason: string | undefined,
+  now: Date = new Date(),
+): Promise<{ session: TutoringSession | undefined; late: boolean }> {
+  const late = cancelledById !== session.tutorId
+    && cancelledById === session.studentId
+    && session.status === "scheduled"
+    && isLateChange(session.scheduledStartTime, now);
+
+  if (late) {
+    const { walletCharges, attendanceUpdates, chargeMinutes } = await getMissedSessionCharges(session, "Late cancellation");
+    const updated = await storage.closeTutoringSession({
+      sessionId: session.id,
+      fromStatus: session.status,
+      updates: {
+        status: "missed",
+        billableMinutes: chargeMinutes,
+        notes: `Session marked as missed (cancelled <${LATE_CHANGE_NOTICE_MINUTES} min before start). 50% charge applied. ${reason || ""}`.trim(),
+      },
+      walletCharges,
+      attendanceUpdates,
+    });
+    return { session: updated, late };
+  }
+
+  const refundLabel = cancelledById === session.tutorId ? "Cancelled by tutor" : "Cancelled session";
+  const { walletCharges, attendanceUpdates } = await getReservationRefunds(session, refundLabel);
+  const updated = await storage.closeTutoringSession({
+    sessionId: session.id,
+    fromStatus: session.status,
+    updates: {
+      status: "cancelled",
+      billableMinutes: 0,
+      reservedMinutes: 0,
+      notes: reason || "Session cancelled",
+    },
+    walletCharges,
+    attendanceUpdates,
+  });
+  return { session: updated, late };
+}
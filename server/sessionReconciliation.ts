@@ -0,0 +1,284 @@
+// Session reconciliation: closes sessions nobody closed. Scheduled sessions a
+// participant never joined become no-shows (the student pays the missed-session
+// charge, or is refunded in full when the tutor was absent), and sessions left
+// running past their end are ended on time. Each decision is stored with the
+// evidence behind it, in the same transaction as its wallet changes, so disputes
+// can be reviewed later.
+
+import { storage, type SessionReconciliation, type WalletCharge } from "./storage";
+import { formatSessionTimeForUser } from "./timeZones";
+import { getMissedSessionCharges } from "./sessionCharges";
+import { getScheduledMinutes } from "@shared/reschedulePolicy";
+import {
+  DEFAULT_NO_SHOW_GRACE_MINUTES,
+  DEFAULT_OVERRUN_GRACE_MINUTES,
+  getAutoEndBillableMinutes,
+  getAutoEndTime,
+  getNoShowCutoff,
+  getNoShowOutcome,
+  isOverrunDue,
+} from "@shared/sessionReconciliationPolicy";
+import type { TutoringSession } from "@shared/schema";
+
+export type SessionReconciliationResult = {
+  studentNoShows: number;
+  tutorNoShows: number;
+  autoEnded: number;
+};
+
+function getConfiguredMinutes(name: string, fallback: number): number {
+  const configured = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+}
+
+// SESSION_NO_SHOW_GRACE_MINUTES overrides how long after the start a participant may still join
+export function getNoShowGraceMinutes(): number {
+  return getConfiguredMinutes("SESSION_NO_SHOW_GRACE_MINUTES", DEFAULT_NO_SHOW_GRACE_MINUTES);
+}
+
+// SESSION_OVERRUN_GRACE_MINUTES overrides how long a session may run past its end before it is closed
+export function getOverrunGraceMinutes(): number {
+  return getConfiguredMinutes("SESSION_OVERRUN_GRACE_MINUTES", DEFAULT_OVERRUN_GRACE_MINUTES);
+}
+
+function describeSession(session: TutoringSession) {
+  return {
+    scheduledStartTime: session.scheduledStartTime,
+    scheduledEndTime: session.scheduledEndTime,
+    actualStartTime: session.actualStartTime,
+    tutorJoinTime: session.tutorJoinTime,
+    studentJoinTime: session.studentJoinTime,
+    reservedMinutes: session.reservedMinutes,
+    isGroupSession: session.isGroupSession,
+  };
+}
+
+async function notifyParticipant(
+  userId: string,
+  session: TutoringSession,
+  type: "session_cancelled" | "system",
+  title: string,
+  message: (sessionTime: string) => string,
+) {
+  try {
+    await storage.createNotification({
+      userId,
+      type,
+      title,
+      message: message(await formatSessionTimeForUser(userId, session.scheduledStartTime)),
+      link: "/calendar",
+      isRead: false,
+      relatedId: session.id,
+    });
+  } catch (notifError) {
+    console.error("Error creating reconciliation notification:", notifError);
+  }
+}
+
+// The student never joined a 1:1 session the tutor attended
+async function closeStudentNoShow(session: TutoringSession, cutoff: Date, graceMinutes: number): Promise<boolean> {
+  // A reservation carried over from a reschedule is refunded down to the charge
+  const reservedMinutes = session.reservedMinutes || 0;
+  const { walletCharges, chargeMinutes } = await getMissedSessionCharges(session, "Student no-show");
+
+  const closed = await storage.reconcileTutoringSession({
+    sessionId: session.id,
+    fromStatus: "scheduled",
+    updates: {
+      status: "missed",
+      billableMinutes: chargeMinutes,
+      notes: `Session marked as missed (student did not join). 50% charge applied.`,
+    },
+    walletCharges,
+    attendanceUpdates: [],
+    decision: {
+      sessionId: session.id,
+      outcome: "student_no_show",
+      previousStatus: "scheduled",
+      newStatus: "missed",
+      billableMinutes: chargeMinutes,
+      chargedMinutes: chargeMinutes,
+      refundedMinutes: Math.max(0, reservedMinutes - chargeMinutes),
+      reason: `Tutor joined but the student had not joined ${graceMinutes} minutes after the start`,
+      evidence: { ...describeSession(session), noShowCutoff: cutoff, graceMinutes },
+    },
+  });
+  if (!closed) return false;
+
+  if (session.studentId) {
+    await notifyParticipant(session.studentId, session, "session_cancelled", "Session Missed", (time) =>
+      `You did not join your session on ${time}. It has been marked as missed and ${chargeMinutes} minutes were charged.`
+    );
+  }
+  await notifyParticipant(session.tutorId, session, "session_cancelled", "Student No-Show", (time) =>
+    `Your student did not join the session on ${time}. It has been marked as missed.`
+  );
+  return true;
+}
+
+// The tutor never joined, so nothing took place and every student gets back what they paid
+async function closeTutorNoShow(session: TutoringSession, cutoff: Date, graceMinutes: number): Promise<boolean> {
+  const refund = (studentId: string, reserved: number): WalletCharge => ({
+    studentId,
+    courseId: session.courseId,
+    minutes: -reserved,
+    reason: `Tutor no-show: full refund (${reserved} min) for session ${session.id}`,
+  });
+
+  const studentIds: string[] = [];
+  const walletCharges: WalletCharge[] = [];
+  const attendanceUpdates: SessionReconciliation["attendanceUpdates"] = [];
+  const attendeeEvidence = [];
+  if (session.isGroupSession) {
+    const attendees = await storage.getSessionAttendance(session.id);
+    for (const attendee of attendees) {
+      studentIds.push(attendee.studentId);
+      attendeeEvidence.push({ studentId: attendee.studentId, joinTime: attendee.joinTime, reservedMinutes: attendee.reservedMinutes });
+      const reserved = attendee.reservedMinutes || 0;
+      if (reserved > 0) walletCharges.push(refund(attendee.studentId, reserved));
+      attendanceUpdates.push({ id: attendee.id, updates: { reservedMinutes: 0, consumedMinutes: 0 } });
+    }
+  } else if (session.studentId) {
+    studentIds.push(session.studentId);
+    const reserved = session.reservedMinutes || 0;
+    if (reserved > 0) walletCharges.push(refund(session.studentId, reserved));
+  }
+  const refundedMinutes = -walletCharges.reduce((sum, charge) => sum + charge.minutes, 0);
+
+  const closed = await storage.reconcileTutoringSession({
+    sessionId: session.id,
+    fromStatus: "scheduled",
+    updates: {
+      status: "cancelled",
+      billableMinutes: 0,
+      reservedMinutes: 0,
+      notes: "Session cancelled (tutor did not join). Reserved minutes refunded in full.",
+    },
+    walletCharges,
+    attendanceUpdates,
+    decision: {
+      sessionId: session.id,
+      outcome: "tutor_no_show",
+      previousStatus: "scheduled",
+      newStatus: "cancelled",
+      billableMinutes: 0,
+      chargedMinutes: 0,
+      refundedMinutes,
+      reason: `Tutor had not joined ${graceMinutes} minutes after the start`,
+      evidence: {
+        ...describeSession(session),
+        noShowCutoff: cutoff,
+        graceMinutes,
+        ...(session.isGroupSession ? { attendees: attendeeEvidence } : {}),
+      },
+    },
+  });
+  if (!closed) return false;
+
+  for (const studentId of studentIds) {
+    await notifyParticipant(studentId, session, "session_cancelled", "Session Cancelled", (time) =>
+      `Your tutor did not join the session on ${time}, so it has been cancelled. Any reserved minutes were refunded.`
+    );
+  }
+  await notifyParticipant(session.tutorId, session, "session_cancelled", "Missed Session", (time) =>
+    `You did not join your session on ${time}. It has been cancelled and the student refunded.`
+  );
+  return true;
+}
+
+// Nobody ended a running session; it is closed as if it ended on schedule
+async function autoEndSession(session: TutoringSession, graceMinutes: number): Promise<boolean> {
+  const endTime = getAutoEndTime(session);
+  const scheduledMinutes = getScheduledMinutes(session);
+  const billableMinutes = getAutoEndBillableMinutes(session.actualStartTime ?? session.scheduledStartTime, endTime, scheduledMinutes);
+
+  const attendanceUpdates: SessionReconciliation["attendanceUpdates"] = [];
+  const attendeeEvidence = [];
+  if (session.isGroupSession) {
+    const attendees = await storage.getSessionAttendance(session.id);
+    for (const attendee of attendees) {
+      attendeeEvidence.push({ studentId: attendee.studentId, joinTime: attendee.joinTime, leaveTime: attendee.leaveTime });
+      if (attendee.attended && attendee.joinTime && !attendee.leaveTime) {
+        attendanceUpdates.push({
+          id: attendee.id,
+          updates: {
+            leaveTime: endTime,
+            consumedMinutes: getAutoEndBillableMinutes(attendee.joinTime, endTime, attendee.reservedMinutes || scheduledMinutes),
+          },
+        });
+      }
+    }
+  }
+
+  const closed = await storage.reconcileTutoringSession({
+    sessionId: session.id,
+    fromStatus: "in_progress",
+    updates: {
+      status: "completed",
+      actualEndTime: endTime,
+      billableMinutes,
+    },
+    walletCharges: [],
+    attendanceUpdates,
+    decision: {
+      sessionId: session.id,
+      outcome: "auto_ended",
+      previousStatus: "in_progress",
+      newStatus: "completed",
+      billableMinutes,
+      chargedMinutes: 0,
+      refundedMinutes: 0,
+      reason: `Still in progress ${graceMinutes} minutes after the scheduled end; closed at the scheduled end`,
+      evidence: {
+        ...describeSession(session),
+        actualEndTime: endTime,
+        graceMinutes,
+        ...(session.isGroupSession ? { attendees: attendeeEvidence } : {}),
+      },
+    },
+  });
+  if (!closed) return false;
+
+  for (const userId of [session.tutorId, session.isGroupSession ? null : session.studentId]) {
+    if (!userId) continue;
+    await notifyParticipant(userId, session, "system", "Session Ended Automatically", (time) =>
+      `Your session on ${time} was never ended, so it has been closed at its scheduled end time. ${billableMinutes} minutes were billed.`
+    );
+  }
+  return true;
+}
+
+export async function runSessionReconciliation(now: Date = new Date()): Promise<SessionReconciliationResult> {
+  const result: SessionReconciliationResult = { studentNoShows: 0, tutorNoShows: 0, autoEnded: 0 };
+  const noShowGraceMinutes = getNoShowGraceMinutes();
+  const overrunGraceMinutes = getOverrunGraceMinutes();
+
+  const sessions = await storage.getSessionsAwaitingReconciliation(
+    now,
+    new Date(now.getTime() - overrunGraceMinutes * 60000),
+  );
+
+  for (const session of sessions) {
+    // One bad session must not hold up the rest of the run
+    try {
+      if (session.status === "in_progress") {
+        if (isOverrunDue(session, now, overrunGraceMinutes) && await autoEndSession(session, overrunGraceMinutes)) {
+          result.autoEnded++;
+        }
+        continue;
+      }
+
+      const outcome = getNoShowOutcome(session, now, noShowGraceMinutes);
+      const cutoff = getNoShowCutoff(session, noShowGraceMinutes);
+      if (outcome === "student_no_show" && await closeStudentNoShow(session, cutoff, noShowGraceMinutes)) {
+        result.studentNoShows++;
+      } else if (outcome === "tutor_no_show" && await closeTutorNoShow(session, cutoff, noShowGraceMinutes)) {
+        result.tutorNoShows++;
+      }
+    } catch (error) {
+      console.error(`Error reconciling session ${session.id}:`, error);
+    }
+  }
+
+  return result;
+}
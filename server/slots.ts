@@ -0,0 +1,113 @@
+// Bookable slots for a tutor: weekly availability adjusted by dated exceptions
+// (extra hours and time off), minus scheduled sessions and pending proposals,
+// each widened by the session buffer
+
+import { storage } from "./storage";
+import { expandRecurrence, type SessionOccurrence } from "@shared/schedulingPolicy";
+import {
+  DEFAULT_SESSION_BUFFER_MINUTES,
+  applyAvailabilityExceptions,
+  expandWeeklyAvailability,
+  getFreeRanges,
+  getSlotBlocker,
+  listBookableSlots,
+  padRange,
+  rangesOverlap,
+  type TimeRange,
+} from "@shared/slotPolicy";
+import type { SessionProposal, TutoringSessionWithDetails } from "@shared/schema";
+
+// SESSION_BUFFER_MINUTES overrides the gap kept between a tutor's sessions
+export function getSessionBufferMinutes(): number {
+  const configured = parseInt(process.env.SESSION_BUFFER_MINUTES || "", 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_SESSION_BUFFER_MINUTES;
+}
+
+export function getProposalOccurrences(
+  proposal: Pick<SessionProposal, "proposedStartTime" | "proposedEndTime" | "recurrenceFrequency" | "recurrenceEndDate" | "recurrenceCount">,
+): SessionOccurrence[] {
+  const start = new Date(proposal.proposedStartTime);
+  const end = new Date(proposal.proposedEndTime);
+  if (!proposal.recurrenceFrequency) {
+    return [{ start, end }];
+  }
+  return expandRecurrence(start, end, {
+    frequency: proposal.recurrenceFrequency,
+    until: proposal.recurrenceEndDate,
+    count: proposal.recurrenceCount,
+  });
+}
+
+// A session being moved can be left out so it does not block its own new time
+async function getTutorBusyRanges(tutorId: string, from: Date, to: Date, excludeSessionId?: string): Promise<TimeRange[]> {
+  const window = { start: from, end: to };
+  const sessions = (await storage.getActiveTutorSessionsInRange(tutorId, from, to))
+    .filter((session) => session.id !== excludeSessionId);
+  const proposals = await storage.getSessionProposalsByTutor(tutorId, "pending");
+
+  const busy: TimeRange[] = sessions.map((session) => ({
+    start: new Date(session.scheduledStartTime),
+    end: new Date(session.scheduledEndTime),
+  }));
+  for (const proposal of proposals) {
+    busy.push(...getProposalOccurrences(proposal).filter((occurrence) => rangesOverlap(occurrence, window)));
+  }
+  return busy;
+}
+
+// Free time in [from, to); busy time just outside the range still eats into it through the buffer
+async function getTutorFreeRanges(tutorId: string, from: Date, to: Date, excludeSessionId?: string): Promise<TimeRange[]> {
+  const bufferMinutes = getSessionBufferMinutes();
+  const padded = padRange({ start: from, end: to }, bufferMinutes);
+  const weekly = expandWeeklyAvailability(await storage.getTutorAvailability(tutorId), from, to);
+  const exceptions = await storage.getTutorAvailabilityExceptions(tutorId, from, to);
+  const availability = applyAvailabilityExceptions(weekly, exceptions, from, to);
+  if (availability.length === 0) return [];
+  return getFreeRanges(availability, await getTutorBusyRanges(tutorId, padded.start, padded.end, excludeSessionId), bufferMinutes);
+}
+
+export async function getBookableSlots(
+  tutorId: string,
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  now: Date = new Date(),
+): Promise<TimeRange[]> {
+  return listBookableSlots(await getTutorFreeRanges(tutorId, from, to), durationMinutes, now);
+}
+
+// Reason the proposed time is not a bookable slot for the tutor, or null when it is
+export async function getProposalSlotError(
+  tutorId: string,
+  start: Date,
+  end: Date,
+  now: Date = new Date(),
+  excludeSessionId?: string,
+): Promise<string | null> {
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return "Invalid session time";
+  const slot = { start, end };
+  return getSlotBlocker(slot, await getTutorFreeRanges(tutorId, start, end, excludeSessionId), now);
+}
+
+export async function getTutorTimeOff(tutorId: string, from: Date, to: Date): Promise<TimeRange[]> {
+  const exceptions = await storage.getTutorAvailabilityExceptions(tutorId, from, to);
+  return exceptions
+    .filter((exception) => exception.type === "time_off")
+    .map((exception) => ({ start: new Date(exception.startTime), end: new Date(exception.endTime) }));
+}
+
+export async function overlapsTimeOff(tutorId: string, start: Date, end: Date): Promise<boolean> {
+  return (await getTutorTimeOff(tutorId, start, end)).length > 0;
+}
+
+// Scheduled sessions that fall inside a block of time off and need moving or cancelling
+export async function getTimeOffConflicts(tutorId: string, start: Date, end: Date): Promise<TutoringSessionWithDetails[]> {
+  const sessions = await storage.getActiveTutorSessionsInRange(tutorId, start, end);
+  const conflicts: TutoringSessionWithDetails[] = [];
+  for (const session of sessions) {
+    if (session.status !== "scheduled") continue;
+    const detailed = await storage.getTutoringSession(session.id);
+    if (detailed) conflicts.push(detailed);
+  }
+  return conflicts;
+}
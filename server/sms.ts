@@ -0,0 +1,61 @@
+// Outgoing SMS sits behind a sender interface. Development uses the console
+// sender or the file sender (writes each message to SMS_OUTBOX_DIR); a provider
+// such as Twilio registers its own sender and is selected with SMS_SENDER.
+
+import path from "path";
+import { createTransportRegistry, writeOutboxFile } from "./transports";
+
+export type SmsMessage = {
+  to: string;
+  body: string;
+};
+
+export interface SmsSender {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+export class ConsoleSmsSender implements SmsSender {
+  readonly name = "console";
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[sms] To: ${message.to}\n${message.body}`);
+  }
+}
+
+export class FileSmsSender implements SmsSender {
+  readonly name = "file";
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await writeOutboxFile(this.outboxDir, message);
+  }
+}
+
+const senders = createTransportRegistry<SmsSender>({
+  label: "SMS sender",
+  envName: "SMS_SENDER",
+  developmentNames: ["console", "file"],
+});
+
+export function registerSmsSender(sender: SmsSender) {
+  senders.register(sender);
+}
+
+registerSmsSender(new ConsoleSmsSender());
+registerSmsSender(new FileSmsSender(process.env.SMS_OUTBOX_DIR || path.resolve(process.cwd(), "sms-outbox")));
+
+// Fail fast in production unless SMS_SENDER names a real provider
+export function assertSmsSenderConfigured(): void {
+  senders.assertConfigured();
+}
+
+// SMS_SENDER picks the sender; "console" unless configured
+export function getSmsSender(name?: string): SmsSender {
+  return senders.get(name);
+}
+
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await getSmsSender().send(message);
+}
@@ -8,13 +8,17 @@ import {
   grades,
   announcements,
   parentChildren,
+  parentLinkRequests,
   notifications,
   chatThreads,
   chatParticipants,
   chatMessages,
+  messageReceipts,
+  fileUploads,
   reports,
   disputes,
   tutorAvailability,
+  tutorAvailabilityExceptions,
   sessionProposals,
   tutoringSessions,
   hourWallets,
@@ -22,11 +26,17 @@ import {
   invoices,
   invoiceLineItems,
   invoicePayments,
+  sessionRescheduleRequests,
+  sessionReconciliationDecisions,
   walletTransactions,
+  invoiceReminders,
   invoiceSequence,
   payouts,
   payoutLines,
   payoutFlags,
+  courseRates,
+  tutorPayRates,
+  studentRateDiscounts,
   type User,
   type UpsertUser,
   type Course,
@@ -49,6 +59,9 @@ import {
   type ChatMessage,
   type InsertChatMessage,
   type ChatUserSummary,
+  type MessageReceipt,
+  type FileUpload,
+  type InsertFileUpload,
   type Report,
   type InsertReport,
   type ReportWithDetails,
@@ -66,9 +79,14 @@ import {
   type GradeWithDetails,
   type AnnouncementWithAuthor,
   type ParentChildWithDetails,
+  type ParentLinkRequest,
+  type InsertParentLinkRequest,
+  type ParentLinkRequestWithDetails,
   type UserRole,
   type TutorAvailability,
   type InsertTutorAvailability,
+  type TutorAvailabilityException,
+  type InsertTutorAvailabilityException,
   type SessionProposal,
   type InsertSessionProposal,
   type SessionProposalWithDetails,
@@ -80,6 +98,12 @@ import {
   type HourWalletWithDetails,
   type SessionAttendance,
   type InsertSessionAttendance,
+  type SessionAttendanceWithStudent,
+  type SessionRescheduleRequest,
+  type InsertSessionRescheduleRequest,
+  type SessionRescheduleRequestWithDetails,
+  type SessionReconciliationDecision,
+  type InsertSessionReconciliationDecision,
   type ProposalStatus,
   type TutoringSessionStatus,
   type Invoice,
@@ -87,10 +111,13 @@ import {
   type InvoiceWithDetails,
   type InvoiceLineItem,
   type InsertInvoiceLineItem,
+  type CurrencyCode,
   type InvoicePayment,
   type InsertInvoicePayment,
   type WalletTransaction,
   type InsertWalletTransaction,
+  type InvoiceReminder,
+  type InsertInvoiceReminder,
   type InvoiceStatus,
   type PaymentVerificationStatus,
   type Payout,
@@ -101,6 +128,15 @@ import {
   type PayoutLineWithDetails,
   type PayoutFlag,
   type InsertPayoutFlag,
+  type CourseRate,
+  type InsertCourseRate,
+  type CourseRateWithCourse,
+  type TutorPayRate,
+  type InsertTutorPayRate,
+  type TutorPayRateWithDetails,
+  type StudentRateDiscount,
+  type InsertStudentRateDiscount,
+  type StudentRateDiscountWithDetails,
   type PayoutStatus,
   staffRoleRequests,
   type StaffRoleRequest,
@@ -108,13 +144,66 @@ import {
   type StaffRoleRequestWithDetails,
   type UserStatus,
   auditLogs,
+  authTokens,
+  sessions,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type InsertAuthToken,
+  loginThrottles,
+  phoneOtps,
+  twoFactorCredentials,
+  type TwoFactorCredential,
+  type LoginSession,
+  appSettings,
+  type AppSetting,
+  type PhoneOtp,
+  type InsertPhoneOtp,
+  type LoginThrottle,
+  type LoginThrottleScope,
   type AuditLog,
   type InsertAuditLog,
   type AuditLogWithDetails,
 } from "@shared/schema";
-import { resolveMessagingRecipientIds } from "@shared/messagingPolicy";
+import { resolveCourseThreadAccess, resolveMessagingRecipientIds, type ChatThreadAccess } from "@shared/messagingPolicy";
+import { extendWalletExpiry } from "@shared/walletPolicy";
+import { applyLoginFailure } from "@shared/authPolicy";
+import type { AuditLogFilter } from "@shared/auditPolicy";
 import { db } from "./db";
-import { eq, and, desc, count, sql, inArray, or, gte, lte, ne, lt, asc } from "drizzle-orm";
+import { eq, and, desc, count, sql, inArray, or, gte, lte, ne, lt, asc, isNotNull, isNull, gt } from "drizzle-orm";
+
+// Wallet minutes charged (positive) or refunded (negative) as part of a larger change
+export type WalletCharge = { studentId: string; courseId: string; minutes: number; reason: string };
+
+// Moving a session to an accepted reschedule time, with its wallet charges
+export type RescheduleMove = {
+  requestId: string;
+  startTime: Date;
+  endTime: Date;
+  scheduledMinutes: number;
+  reservedMinutes: number;
+  walletCharges: WalletCharge[];
+};
+
+export type RescheduleMoveResult =
+  | { status: "moved"; session: TutoringSession; request: SessionRescheduleRequest }
+  | { status: "not_pending" | "session_unavailable" | "tutor_conflict" | "student_conflict" };
+
+export type SessionAttendanceUpdate = { id: string; updates: Partial<InsertSessionAttendance> };
+
+// Closing a session (cancelling it, or marking it missed or completed) with its wallet
+// charges and attendance updates. It only applies while the session still has fromStatus.
+export type SessionClosure = {
+  sessionId: string;
+  fromStatus: TutoringSessionStatus;
+  updates: Partial<InsertTutoringSession>;
+  walletCharges: WalletCharge[];
+  attendanceUpdates: SessionAttendanceUpdate[];
+};
+
+// Closing a session nobody closed, together with the decision record
+export type SessionReconciliation = SessionClosure & {
+  decision: InsertSessionReconciliationDecision;
+};
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -182,8 +271,32 @@ export interface IStorage {
   // Parent-child operations
   getParentChildren(parentId: string): Promise<ParentChildWithDetails[]>;
   getChildParents(childId: string): Promise<ParentChildWithDetails[]>;
+  getAllParentChildren(): Promise<ParentChild[]>;
+  getParentChild(id: string): Promise<ParentChild | undefined>;
   createParentChild(parentChild: InsertParentChild): Promise<ParentChild>;
+  updateParentChild(id: string, updates: Partial<InsertParentChild>): Promise<ParentChild | undefined>;
+  setPrimaryBillingParent(id: string): Promise<ParentChild | undefined>;
   deleteParentChild(id: string): Promise<boolean>;
+
+  // Parent link request operations
+  createParentLinkRequest(request: InsertParentLinkRequest): Promise<ParentLinkRequest>;
+  getParentLinkRequest(id: string): Promise<ParentLinkRequest | undefined>;
+  getPendingParentLinkRequestByCode(codeHash: string, now: Date): Promise<ParentLinkRequest | undefined>;
+  getPendingParentLinkRequests(userId: string | null, now: Date): Promise<ParentLinkRequestWithDetails[]>;
+  resolveParentLinkRequest(
+    id: string,
+    status: "accepted" | "declined" | "cancelled",
+    now: Date,
+    parentId?: string,
+  ): Promise<ParentLinkRequest | undefined>;
+
+  // Bulk user import
+  applyUserImport(
+    newUsers: UpsertUser[],
+    existingUserIds: Map<string, string>,
+    links: { parentEmail: string; childEmail: string; relationship: string | null }[],
+    courseEnrollments: { studentEmail: string; courseId: string }[],
+  ): Promise<{ createdUsers: User[]; linksCreated: number; enrollmentsCreated: number }>;
   
   // Dashboard stats
   getStudentStats(studentId: string): Promise<{
@@ -221,12 +334,23 @@ export interface IStorage {
   getChatThreadsByUser(
     userId: string,
     options?: { retentionCutoff?: Date },
-  ): Promise<Array<{ thread: ChatThread; participants: ChatUserSummary[]; lastMessage?: ChatMessage }>>;
+  ): Promise<Array<{
+    thread: ChatThread;
+    participants: ChatUserSummary[];
+    lastMessage?: ChatMessage;
+    course?: Pick<Course, "id" | "title">;
+    readOnly: boolean;
+  }>>;
   getChatMessages(threadId: string, options?: { retentionCutoff?: Date }): Promise<ChatMessage[]>;
   getChatThreadParticipantIds(threadId: string): Promise<string[]>;
   createOrGetChatThread(userId: string, otherUserId: string): Promise<ChatThread>;
   isChatParticipant(threadId: string, userId: string): Promise<boolean>;
+  getChatThreadAccess(threadId: string, userId: string): Promise<ChatThreadAccess>;
+  syncCourseChatMembers(courseId: string): Promise<ChatThread | undefined>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  getMessageReceipts(messageIds: string[]): Promise<MessageReceipt[]>;
+  markMessagesDelivered(threadId: string, messageIds: string[], userId: string): Promise<MessageReceipt[]>;
+  markThreadRead(threadId: string, userId: string): Promise<MessageReceipt[]>;
   deleteChatMessagesBefore(cutoff: Date): Promise<number>;
 
   // Reporting & dispute operations
@@ -281,6 +405,9 @@ export interface IStorage {
   createTutorAvailability(availability: InsertTutorAvailability): Promise<TutorAvailability>;
   updateTutorAvailability(id: string, tutorId: string, updates: Partial<InsertTutorAvailability>): Promise<TutorAvailability | undefined>;
   deleteTutorAvailability(id: string, tutorId: string): Promise<boolean>;
+  getTutorAvailabilityExceptions(tutorId: string, from?: Date, to?: Date): Promise<TutorAvailabilityException[]>;
+  createTutorAvailabilityException(exception: InsertTutorAvailabilityException): Promise<TutorAvailabilityException>;
+  deleteTutorAvailabilityException(id: string, tutorId: string): Promise<boolean>;
   
   // Session Proposal operations
   getSessionProposal(id: string): Promise<SessionProposalWithDetails | undefined>;
@@ -288,12 +415,15 @@ export interface IStorage {
   getSessionProposalsByStudent(studentId: string): Promise<SessionProposalWithDetails[]>;
   createSessionProposal(proposal: InsertSessionProposal): Promise<SessionProposal>;
   updateSessionProposalStatus(id: string, status: ProposalStatus, tutorResponse?: string): Promise<SessionProposal | undefined>;
+  approveSessionProposal(id: string, tutorResponse: string | undefined, sessions: InsertTutoringSession[]): Promise<TutoringSession[] | undefined>;
   
   // Tutoring Session operations
   getTutoringSession(id: string): Promise<TutoringSessionWithDetails | undefined>;
   getTutoringSessionsByTutor(tutorId: string, status?: TutoringSessionStatus): Promise<TutoringSessionWithDetails[]>;
   getTutoringSessionsByStudent(studentId: string, status?: TutoringSessionStatus): Promise<TutoringSessionWithDetails[]>;
   createTutoringSession(session: InsertTutoringSession): Promise<TutoringSession>;
+  getTutoringSessionsByRecurrenceGroup(recurrenceGroupId: string): Promise<TutoringSession[]>;
+  getActiveTutorSessionsInRange(tutorId: string, from: Date, to: Date): Promise<TutoringSession[]>;
   updateTutoringSession(id: string, updates: Partial<InsertTutoringSession>): Promise<TutoringSession | undefined>;
   checkDoubleBooking(tutorId: string, startTime: Date, endTime: Date, excludeSessionId?: string): Promise<boolean>;
   
@@ -305,7 +435,8 @@ export interface IStorage {
   getAllHourWallets(): Promise<HourWalletWithDetails[]>;
   createHourWallet(wallet: InsertHourWallet): Promise<HourWallet>;
   updateHourWallet(id: string, updates: Partial<InsertHourWallet>): Promise<HourWallet | undefined>;
-  addMinutesToWallet(studentId: string, courseId: string, minutes: number): Promise<HourWallet | undefined>;
+  addMinutesToWallet(studentId: string, courseId: string, minutes: number, validityDays?: number): Promise<HourWallet | undefined>;
+  getActiveWalletsExpiringBefore(cutoff: Date): Promise<HourWalletWithDetails[]>;
   deductMinutesFromWallet(studentId: string, courseId: string, minutes: number): Promise<HourWallet | undefined>;
   
   // Session Attendance operations (for group sessions)
@@ -313,6 +444,26 @@ export interface IStorage {
   getStudentSessionAttendance(sessionId: string, studentId: string): Promise<SessionAttendance | undefined>;
   createSessionAttendance(attendance: InsertSessionAttendance): Promise<SessionAttendance>;
   updateSessionAttendance(id: string, updates: Partial<InsertSessionAttendance>): Promise<SessionAttendance | undefined>;
+  deleteSessionAttendance(id: string): Promise<boolean>;
+  getSessionRoster(sessionId: string): Promise<SessionAttendanceWithStudent[]>;
+  getGroupSessionsByStudent(studentId: string, status?: TutoringSessionStatus): Promise<TutoringSessionWithDetails[]>;
+
+  // Session reschedule request operations
+  createRescheduleRequest(request: InsertSessionRescheduleRequest): Promise<SessionRescheduleRequest>;
+  getRescheduleRequest(id: string): Promise<SessionRescheduleRequest | undefined>;
+  getPendingRescheduleRequestForSession(sessionId: string): Promise<SessionRescheduleRequest | undefined>;
+  getPendingRescheduleRequestsForUser(userId: string): Promise<SessionRescheduleRequestWithDetails[]>;
+  updateRescheduleRequest(id: string, updates: Partial<InsertSessionRescheduleRequest>): Promise<SessionRescheduleRequest | undefined>;
+  resolvePendingRescheduleRequest(id: string, updates: Partial<InsertSessionRescheduleRequest>): Promise<SessionRescheduleRequest | undefined>;
+  moveSessionForRescheduleRequest(move: RescheduleMove): Promise<RescheduleMoveResult>;
+
+  // Session reconciliation operations
+  getSessionsAwaitingReconciliation(startedBefore: Date, endedBefore: Date): Promise<TutoringSession[]>;
+  closeTutoringSession(closure: SessionClosure): Promise<TutoringSession | undefined>;
+  reconcileTutoringSession(reconciliation: SessionReconciliation): Promise<TutoringSession | undefined>;
+  getSessionReconciliationDecisions(sessionId: string): Promise<SessionReconciliationDecision[]>;
+  getBillableSessionsInPeriod(periodStart: Date, periodEnd: Date): Promise<TutoringSession[]>;
+  getSessionAttendanceForSessions(sessionIds: string[]): Promise<SessionAttendance[]>;
   
   // ==========================================
   // FINANCIAL SYSTEM OPERATIONS
@@ -327,6 +478,11 @@ export interface IStorage {
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: string, updates: Partial<InsertInvoice>): Promise<Invoice | undefined>;
   generateInvoiceNumber(): Promise<string>;
+  getInvoicesForBillingPeriod(periodStart: Date, periodEnd: Date, currency: CurrencyCode): Promise<Invoice[]>;
+  createBillingRunInvoice(
+    invoice: Omit<InsertInvoice, "invoiceNumber">,
+    lineItems: Omit<InsertInvoiceLineItem, "invoiceId">[]
+  ): Promise<{ status: "created" | "duplicate"; invoice: Invoice }>;
   
   // Invoice Line Item operations
   getInvoiceLineItems(invoiceId: string): Promise<InvoiceLineItem[]>;
@@ -353,6 +509,11 @@ export interface IStorage {
     oldestOverdueDate: Date | null;
   }>;
   
+  // Dunning operations
+  getOpenInvoicesWithDueDate(): Promise<Invoice[]>;
+  getInvoiceReminders(invoiceIds: string[]): Promise<InvoiceReminder[]>;
+  createInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | undefined>;
+  
   // Unpaid invoice detection for payroll
   getUnpaidInvoicesByStudentInPeriod(
     studentId: string, 
@@ -371,16 +532,37 @@ export interface IStorage {
   getAllPayouts(status?: PayoutStatus): Promise<PayoutWithDetails[]>;
   createPayout(payout: InsertPayout): Promise<Payout>;
   updatePayout(id: string, updates: Partial<InsertPayout>): Promise<Payout | undefined>;
+  addPayrollRunLines(
+    payout: InsertPayout,
+    lines: Omit<InsertPayoutLine, "payoutId">[]
+  ): Promise<{ payout: Payout; addedToExisting: boolean }>;
   
   // Payout Line operations
   getPayoutLines(payoutId: string): Promise<PayoutLineWithDetails[]>;
   createPayoutLine(line: InsertPayoutLine): Promise<PayoutLine>;
+  getSessionIdsInPayouts(sessionIds: string[]): Promise<string[]>;
   
   // Payout Flag operations
   getPayoutFlags(payoutId: string): Promise<PayoutFlag[]>;
   createPayoutFlag(flag: InsertPayoutFlag): Promise<PayoutFlag>;
   updatePayoutFlag(id: string, updates: Partial<InsertPayoutFlag>): Promise<PayoutFlag | undefined>;
   
+  // ==========================================
+  // RATE CARD OPERATIONS
+  // ==========================================
+  
+  getCourseRates(courseId?: string): Promise<CourseRateWithCourse[]>;
+  createCourseRate(rate: InsertCourseRate): Promise<CourseRate>;
+  getTutorPayRates(tutorId?: string): Promise<TutorPayRateWithDetails[]>;
+  createTutorPayRate(rate: InsertTutorPayRate): Promise<TutorPayRate>;
+  getStudentRateDiscounts(studentId?: string): Promise<StudentRateDiscountWithDetails[]>;
+  createStudentRateDiscount(discount: InsertStudentRateDiscount): Promise<StudentRateDiscount>;
+
+  // File upload operations
+  createFileUpload(upload: InsertFileUpload): Promise<FileUpload>;
+  getFileUpload(id: string): Promise<FileUpload | undefined>;
+  linkFileUpload(id: string, recordId: string): Promise<FileUpload | undefined>;
+  
   // ==========================================
   // STAFF ROLE REQUEST OPERATIONS
   // ==========================================
@@ -390,7 +572,7 @@ export interface IStorage {
   getPendingStaffRequests(): Promise<StaffRoleRequestWithDetails[]>;
   getUserStaffRoleRequest(userId: string): Promise<StaffRoleRequest | undefined>;
   approveStaffRequest(id: string, reviewedById: string): Promise<void>;
-  rejectStaffRequest(id: string, reviewedById: string, reason: string): Promise<void>;
+  rejectStaffRequest(id: string, reviewedById: string, reason: string): Promise<StaffRoleRequest | undefined>;
   
   // User account status operations
   updateUserAccountStatus(id: string, status: UserStatus): Promise<User | undefined>;
@@ -400,6 +582,41 @@ export interface IStorage {
   getUserByPhone(phoneNumber: string): Promise<User | undefined>;
   updateUserForStaffSignup(id: string, data: { status: UserStatus; authProvider: string; proposedRole: UserRole; role: UserRole; passwordHash?: string }): Promise<User | undefined>;
   updateUserForPhoneSignup(id: string, data: { phoneNumber: string; role: UserRole; authProvider: string; status: UserStatus }): Promise<User | undefined>;
+
+  // Password reset / email verification tokens and login sessions
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  deleteUnusedAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void>;
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date): Promise<AuthToken | undefined>;
+  deleteUserSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  getUserSessions(userId: string, now: Date): Promise<LoginSession[]>;
+  deleteSession(sid: string): Promise<void>;
+
+  // Runtime settings
+  getAppSetting(key: string): Promise<AppSetting | undefined>;
+  setAppSetting(key: string, value: unknown, updatedById: string): Promise<AppSetting>;
+
+  // Phone sign-in codes
+  getPhoneOtp(phoneNumber: string): Promise<PhoneOtp | undefined>;
+  upsertPhoneOtp(otp: InsertPhoneOtp): Promise<PhoneOtp>;
+  consumePhoneOtp(phoneNumber: string, codeHash: string, now: Date, maxAttempts: number): Promise<PhoneOtp | undefined>;
+  incrementPhoneOtpAttempts(id: string): Promise<PhoneOtp | undefined>;
+  deletePhoneOtp(phoneNumber: string): Promise<void>;
+
+  // Two-factor authentication
+  getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined>;
+  savePendingTwoFactorCredential(userId: string, secret: string): Promise<TwoFactorCredential>;
+  confirmTwoFactorCredential(userId: string, recoveryCodeHashes: string[], step: number): Promise<TwoFactorCredential | undefined>;
+  markTwoFactorStepUsed(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  deleteTwoFactorCredential(userId: string): Promise<void>;
+
+  // Login throttling
+  getLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<LoginThrottle | undefined>;
+  recordLoginFailure(scope: LoginThrottleScope, identifier: string, now: Date): Promise<{ throttle: LoginThrottle; lockedNow: boolean }>;
+  resetLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<void>;
+  getActiveLoginLockouts(now: Date): Promise<LoginThrottle[]>;
+  clearLoginThrottle(id: string): Promise<LoginThrottle | undefined>;
   
   // ==========================================
   // SUPER ADMIN OPERATIONS
@@ -412,10 +629,92 @@ export interface IStorage {
   
   // Audit log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
-  getAuditLogs(limit?: number): Promise<AuditLogWithDetails[]>;
+  getAuditLogs(filter?: Partial<AuditLogFilter>): Promise<AuditLogWithDetails[]>;
   getAuditLogsByUser(userId: string): Promise<AuditLogWithDetails[]>;
 }
 
+// Sessions touching or overlapping [startTime, endTime]; back-to-back counts as a clash
+function activeSessionOverlaps(startTime: Date, endTime: Date) {
+  return or(
+    and(lte(tutoringSessions.scheduledStartTime, startTime), gte(tutoringSessions.scheduledEndTime, startTime)),
+    and(lte(tutoringSessions.scheduledStartTime, endTime), gte(tutoringSessions.scheduledEndTime, endTime)),
+    and(gte(tutoringSessions.scheduledStartTime, startTime), lte(tutoringSessions.scheduledEndTime, endTime))
+  )!;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Applies each charge to the student's locked wallet and records it as a wallet transaction
+async function applyWalletCharges(tx: Transaction, charges: WalletCharge[]) {
+  for (const charge of charges) {
+    if (charge.minutes === 0) continue;
+    const [wallet] = await tx
+      .select()
+      .from(hourWallets)
+      .where(and(eq(hourWallets.studentId, charge.studentId), eq(hourWallets.courseId, charge.courseId)))
+      .for("update");
+    if (!wallet) continue;
+    const consumedMinutes = Math.max(0, wallet.consumedMinutes + charge.minutes);
+    await tx.update(hourWallets).set({ consumedMinutes, updatedAt: new Date() }).where(eq(hourWallets.id, wallet.id));
+    await tx.insert(walletTransactions).values({
+      walletId: wallet.id,
+      minutesDelta: -charge.minutes,
+      balanceAfter: wallet.purchasedMinutes - consumedMinutes,
+      reason: charge.minutes < 0 ? `[REFUND] ${charge.reason}` : charge.reason,
+      performedById: null,
+    });
+  }
+}
+
+// Next INVyymmNN number; the month's sequence row is locked so numbers are never reused
+async function nextInvoiceNumber(tx: Transaction): Promise<string> {
+  const now = new Date();
+  const year = now.getFullYear().toString().slice(-2);
+  const month = (now.getMonth() + 1).toString().padStart(2, '0');
+  const yearMonth = `${year}${month}`;
+
+  const [existing] = await tx
+    .select()
+    .from(invoiceSequence)
+    .where(eq(invoiceSequence.yearMonth, yearMonth))
+    .for("update");
+
+  let sequence: number;
+  if (existing) {
+    sequence = existing.lastSequence + 1;
+    await tx
+      .update(invoiceSequence)
+      .set({ lastSequence: sequence })
+      .where(eq(invoiceSequence.yearMonth, yearMonth));
+  } else {
+    sequence = 1;
+    await tx.insert(invoiceSequence).values({ yearMonth, lastSequence: 1 });
+  }
+
+  const sequenceStr = sequence.toString().padStart(2, '0');
+  return `INV${yearMonth}${sequenceStr}`;
+}
+
+async function closeSessionInTransaction(tx: Transaction, closure: SessionClosure): Promise<TutoringSession | undefined> {
+  const [session] = await tx
+    .select()
+    .from(tutoringSessions)
+    .where(eq(tutoringSessions.id, closure.sessionId))
+    .for("update");
+  if (!session || session.status !== closure.fromStatus) return undefined;
+
+  const [updated] = await tx
+    .update(tutoringSessions)
+    .set(closure.updates)
+    .where(eq(tutoringSessions.id, session.id))
+    .returning();
+  await applyWalletCharges(tx, closure.walletCharges);
+  for (const attendance of closure.attendanceUpdates) {
+    await tx.update(sessionAttendance).set(attendance.updates).where(eq(sessionAttendance.id, attendance.id));
+  }
+  return updated;
+}
+
 export class DatabaseStorage implements IStorage {
   private calculateLetterGrade(percent: number): string {
     if (percent >= 90) return "A";
@@ -626,6 +925,7 @@ export class DatabaseStorage implements IStorage {
 
   async createCourse(course: InsertCourse): Promise<Course> {
     const [newCourse] = await db.insert(courses).values(course).returning();
+    await this.syncCourseChatMembers(newCourse.id);
     return newCourse;
   }
 
@@ -635,6 +935,9 @@ export class DatabaseStorage implements IStorage {
       .set({ ...course, updatedAt: new Date() })
       .where(eq(courses.id, id))
       .returning();
+    if (updated && course.tutorId !== undefined) {
+      await this.syncCourseChatMembers(id);
+    }
     return updated;
   }
 
@@ -683,6 +986,7 @@ export class DatabaseStorage implements IStorage {
 
   async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
     const [newEnrollment] = await db.insert(enrollments).values(enrollment).returning();
+    await this.syncCourseChatMembers(newEnrollment.courseId);
     return newEnrollment;
   }
 
@@ -695,6 +999,9 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(enrollments.id, id))
       .returning();
+    if (updated) {
+      await this.syncCourseChatMembers(updated.courseId);
+    }
     return updated;
   }
 
@@ -1009,16 +1316,185 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getAllParentChildren(): Promise<ParentChild[]> {
+    return db.select().from(parentChildren).orderBy(asc(parentChildren.createdAt));
+  }
+
+  async getParentChild(id: string): Promise<ParentChild | undefined> {
+    const [relation] = await db.select().from(parentChildren).where(eq(parentChildren.id, id));
+    return relation;
+  }
+
   async createParentChild(parentChild: InsertParentChild): Promise<ParentChild> {
     const [newRelation] = await db.insert(parentChildren).values(parentChild).returning();
     return newRelation;
   }
 
+  async updateParentChild(id: string, updates: Partial<InsertParentChild>): Promise<ParentChild | undefined> {
+    const [updated] = await db.update(parentChildren).set(updates).where(eq(parentChildren.id, id)).returning();
+    return updated;
+  }
+
+  // A child has at most one primary billing parent, so marking one clears the others
+  async setPrimaryBillingParent(id: string): Promise<ParentChild | undefined> {
+    return db.transaction(async (tx) => {
+      const [relation] = await tx.select().from(parentChildren).where(eq(parentChildren.id, id)).for("update");
+      if (!relation) return undefined;
+
+      await tx
+        .update(parentChildren)
+        .set({ isPrimaryBilling: false })
+        .where(and(eq(parentChildren.childId, relation.childId), ne(parentChildren.id, id)));
+      const [updated] = await tx
+        .update(parentChildren)
+        .set({ isPrimaryBilling: true })
+        .where(eq(parentChildren.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
   async deleteParentChild(id: string): Promise<boolean> {
     await db.delete(parentChildren).where(eq(parentChildren.id, id));
     return true;
   }
 
+  // Parent link request operations
+  async createParentLinkRequest(request: InsertParentLinkRequest): Promise<ParentLinkRequest> {
+    const [created] = await db.insert(parentLinkRequests).values(request).returning();
+    return created;
+  }
+
+  async getParentLinkRequest(id: string): Promise<ParentLinkRequest | undefined> {
+    const [request] = await db.select().from(parentLinkRequests).where(eq(parentLinkRequests.id, id));
+    return request;
+  }
+
+  async getPendingParentLinkRequestByCode(codeHash: string, now: Date): Promise<ParentLinkRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(parentLinkRequests)
+      .where(
+        and(
+          eq(parentLinkRequests.codeHash, codeHash),
+          eq(parentLinkRequests.status, "pending"),
+          gt(parentLinkRequests.expiresAt, now),
+        ),
+      );
+    return request;
+  }
+
+  // Unexpired pending requests where the user is the student or the parent; all of them when userId is null
+  async getPendingParentLinkRequests(userId: string | null, now: Date): Promise<ParentLinkRequestWithDetails[]> {
+    const conditions = [eq(parentLinkRequests.status, "pending"), gt(parentLinkRequests.expiresAt, now)];
+    if (userId) {
+      conditions.push(or(eq(parentLinkRequests.studentId, userId), eq(parentLinkRequests.parentId, userId))!);
+    }
+    const requests = await db
+      .select()
+      .from(parentLinkRequests)
+      .where(and(...conditions))
+      .orderBy(desc(parentLinkRequests.createdAt));
+    if (requests.length === 0) return [];
+
+    const userIds = Array.from(
+      new Set(requests.flatMap((request) => [request.studentId, request.parentId].filter((id): id is string => !!id))),
+    );
+    const linkedUsers = await db
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const usersById = new Map(linkedUsers.map((user) => [user.id, user]));
+
+    return requests
+      .filter((request) => usersById.has(request.studentId))
+      .map((request) => ({
+        ...request,
+        student: usersById.get(request.studentId)!,
+        parent: request.parentId ? usersById.get(request.parentId) ?? null : null,
+      }));
+  }
+
+  // Only a pending request can be resolved, so two responses cannot both win
+  async resolveParentLinkRequest(
+    id: string,
+    status: "accepted" | "declined" | "cancelled",
+    now: Date,
+    parentId?: string,
+  ): Promise<ParentLinkRequest | undefined> {
+    const [resolved] = await db
+      .update(parentLinkRequests)
+      .set({ status, respondedAt: now, ...(parentId ? { parentId } : {}) })
+      .where(and(eq(parentLinkRequests.id, id), eq(parentLinkRequests.status, "pending")))
+      .returning();
+    return resolved;
+  }
+
+  // Bulk user import: creates the new accounts, parent links and enrollments in
+  // one transaction so a failure leaves nothing half-imported. Links and
+  // enrollments that already exist are left as they are. Users are keyed by
+  // lower-cased email.
+  async applyUserImport(
+    newUsers: UpsertUser[],
+    existingUserIds: Map<string, string>,
+    links: { parentEmail: string; childEmail: string; relationship: string | null }[],
+    courseEnrollments: { studentEmail: string; courseId: string }[],
+  ): Promise<{ createdUsers: User[]; linksCreated: number; enrollmentsCreated: number }> {
+    return db.transaction(async (tx) => {
+      const createdUsers = newUsers.length > 0 ? await tx.insert(users).values(newUsers).returning() : [];
+      const idByEmail = new Map(existingUserIds);
+      for (const user of createdUsers) {
+        if (user.email) idByEmail.set(user.email.toLowerCase(), user.id);
+      }
+
+      const studentIds = Array.from(
+        new Set([
+          ...links.map((link) => idByEmail.get(link.childEmail)!),
+          ...courseEnrollments.map((enrollment) => idByEmail.get(enrollment.studentEmail)!),
+        ]),
+      );
+      if (studentIds.length === 0) {
+        return { createdUsers, linksCreated: 0, enrollmentsCreated: 0 };
+      }
+
+      const existingLinks = await tx
+        .select({ parentId: parentChildren.parentId, childId: parentChildren.childId })
+        .from(parentChildren)
+        .where(inArray(parentChildren.childId, studentIds));
+      const linked = new Set(existingLinks.map((link) => `${link.parentId}:${link.childId}`));
+      const newLinks = links
+        .map((link) => ({
+          parentId: idByEmail.get(link.parentEmail)!,
+          childId: idByEmail.get(link.childEmail)!,
+          relationship: link.relationship,
+        }))
+        .filter((link) => {
+          const key = `${link.parentId}:${link.childId}`;
+          if (linked.has(key)) return false;
+          linked.add(key);
+          return true;
+        });
+
+      const existingEnrollments = await tx
+        .select({ studentId: enrollments.studentId, courseId: enrollments.courseId })
+        .from(enrollments)
+        .where(inArray(enrollments.studentId, studentIds));
+      const enrolled = new Set(existingEnrollments.map((e) => `${e.studentId}:${e.courseId}`));
+      const newEnrollments = courseEnrollments
+        .map((enrollment) => ({ studentId: idByEmail.get(enrollment.studentEmail)!, courseId: enrollment.courseId }))
+        .filter((enrollment) => {
+          const key = `${enrollment.studentId}:${enrollment.courseId}`;
+          if (enrolled.has(key)) return false;
+          enrolled.add(key);
+          return true;
+        });
+
+      if (newLinks.length > 0) await tx.insert(parentChildren).values(newLinks);
+      if (newEnrollments.length > 0) await tx.insert(enrollments).values(newEnrollments);
+      return { createdUsers, linksCreated: newLinks.length, enrollmentsCreated: newEnrollments.length };
+    });
+  }
+
   // Dashboard stats
   async getStudentStats(studentId: string): Promise<{
     coursesEnrolled: number;
@@ -1404,13 +1880,21 @@ export class DatabaseStorage implements IStorage {
   async getChatThreadsByUser(
     userId: string,
     options?: { retentionCutoff?: Date },
-  ): Promise<Array<{ thread: ChatThread; participants: ChatUserSummary[]; lastMessage?: ChatMessage }>> {
+  ): Promise<Array<{
+    thread: ChatThread;
+    participants: ChatUserSummary[];
+    lastMessage?: ChatMessage;
+    course?: Pick<Course, "id" | "title">;
+    readOnly: boolean;
+  }>> {
     const participantThreads = await db
       .select({ threadId: chatParticipants.threadId })
       .from(chatParticipants)
       .where(eq(chatParticipants.userId, userId));
 
-    const threadIds = participantThreads.map((row) => row.threadId);
+    const memberThreadIds = new Set(participantThreads.map((row) => row.threadId));
+    const readableCourseThreadIds = await this.getReadableCourseThreadIds(userId);
+    const threadIds = Array.from(new Set([...Array.from(memberThreadIds), ...readableCourseThreadIds]));
     if (threadIds.length === 0) return [];
 
     const threads = await db
@@ -1460,15 +1944,49 @@ export class DatabaseStorage implements IStorage {
       participantsByThread.set(row.threadId, existing);
     }
 
+    const courseIds = threads.map((thread) => thread.courseId).filter((id): id is string => Boolean(id));
+    const threadCourses = courseIds.length > 0
+      ? await db.select({ id: courses.id, title: courses.title }).from(courses).where(inArray(courses.id, courseIds))
+      : [];
+    const courseById = new Map(threadCourses.map((course) => [course.id, course]));
+
     return threads.map((thread) => ({
       thread,
       participants: (participantsByThread.get(thread.id) ?? []).filter(
         (participant) => participant.id !== userId,
       ),
       lastMessage: lastMessageByThread.get(thread.id),
+      course: thread.courseId ? courseById.get(thread.courseId) : undefined,
+      readOnly: !memberThreadIds.has(thread.id),
     }));
   }
 
+  // Course threads a non-member may follow: every course for staff, their children's courses for parents
+  private async getReadableCourseThreadIds(userId: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+
+    if (user.isSuperAdmin || user.role === "admin" || user.role === "manager") {
+      const rows = await db
+        .select({ id: chatThreads.id })
+        .from(chatThreads)
+        .where(eq(chatThreads.type, "course"));
+      return rows.map((row) => row.id);
+    }
+
+    if (user.role === "parent") {
+      const rows = await db
+        .select({ id: chatThreads.id })
+        .from(chatThreads)
+        .innerJoin(chatParticipants, eq(chatParticipants.threadId, chatThreads.id))
+        .innerJoin(parentChildren, eq(parentChildren.childId, chatParticipants.userId))
+        .where(and(eq(chatThreads.type, "course"), eq(parentChildren.parentId, userId)));
+      return Array.from(new Set(rows.map((row) => row.id)));
+    }
+
+    return [];
+  }
+
   async getChatMessages(threadId: string, options?: { retentionCutoff?: Date }): Promise<ChatMessage[]> {
     const filters = [eq(chatMessages.threadId, threadId)];
     if (options?.retentionCutoff) {
@@ -1520,7 +2038,11 @@ export class DatabaseStorage implements IStorage {
 
       for (const [threadId, participantSet] of participantsByThread.entries()) {
         if (participantSet.size === 2 && participantSet.has(userId) && participantSet.has(otherUserId)) {
-          const [thread] = await db.select().from(chatThreads).where(eq(chatThreads.id, threadId));
+          // A course thread with just a tutor and one student is not their DM
+          const [thread] = await db
+            .select()
+            .from(chatThreads)
+            .where(and(eq(chatThreads.id, threadId), eq(chatThreads.type, "dm")));
           if (thread) return thread;
         }
       }
@@ -1542,6 +2064,66 @@ export class DatabaseStorage implements IStorage {
     return Boolean(participant);
   }
 
+  // A DM is usable only while the user is active, belongs to it, and may still message everyone
+  // else in it. Course threads follow resolveCourseThreadAccess.
+  async getChatThreadAccess(threadId: string, userId: string): Promise<ChatThreadAccess> {
+    const user = await this.getUser(userId);
+    if (!user || !user.isActive || user.status !== "active") return null;
+
+    const [thread] = await db.select().from(chatThreads).where(eq(chatThreads.id, threadId));
+    if (!thread) return null;
+
+    const participantIds = await this.getChatThreadParticipantIds(threadId);
+    const isParticipant = participantIds.includes(userId);
+
+    if (thread.type === "course") {
+      const children = user.role === "parent" ? await this.getParentChildren(userId) : [];
+      return resolveCourseThreadAccess({
+        role: user.role,
+        isSuperAdmin: user.isSuperAdmin,
+        isParticipant,
+        hasChildParticipant: children.some((link) => participantIds.includes(link.childId)),
+      });
+    }
+
+    if (!isParticipant) return null;
+    const allowedUserIds = new Set(await this.getMessagingAllowedUserIds(userId));
+    return participantIds.every((id) => id === userId || allowedUserIds.has(id)) ? "write" : null;
+  }
+
+  // Keeps a course's group thread membership in step with its tutor and active enrollments
+  async syncCourseChatMembers(courseId: string): Promise<ChatThread | undefined> {
+    const course = await this.getCourse(courseId);
+    if (!course) return undefined;
+
+    await db.insert(chatThreads).values({ type: "course", courseId }).onConflictDoNothing();
+    const [thread] = await db.select().from(chatThreads).where(eq(chatThreads.courseId, courseId));
+
+    const activeEnrollments = await db
+      .select({ studentId: enrollments.studentId })
+      .from(enrollments)
+      .where(and(eq(enrollments.courseId, courseId), eq(enrollments.status, "active")));
+    const memberIds = new Set([course.tutorId, ...activeEnrollments.map((row) => row.studentId)]);
+    const currentIds = await this.getChatThreadParticipantIds(thread.id);
+
+    const toAdd = Array.from(memberIds).filter((id) => !currentIds.includes(id));
+    if (toAdd.length > 0) {
+      await db
+        .insert(chatParticipants)
+        .values(toAdd.map((userId) => ({ threadId: thread.id, userId })))
+        .onConflictDoNothing();
+    }
+
+    const toRemove = currentIds.filter((id) => !memberIds.has(id));
+    if (toRemove.length > 0) {
+      await db
+        .delete(chatParticipants)
+        .where(and(eq(chatParticipants.threadId, thread.id), inArray(chatParticipants.userId, toRemove)));
+    }
+
+    return thread;
+  }
+
   async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const [created] = await db.insert(chatMessages).values(message).returning();
     await db
@@ -1551,6 +2133,58 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getMessageReceipts(messageIds: string[]): Promise<MessageReceipt[]> {
+    if (messageIds.length === 0) return [];
+    return db.select().from(messageReceipts).where(inArray(messageReceipts.messageId, messageIds));
+  }
+
+  // Returns only receipts created by this call, so callers can push just the changes
+  async markMessagesDelivered(threadId: string, messageIds: string[], userId: string): Promise<MessageReceipt[]> {
+    if (messageIds.length === 0) return [];
+    const deliverable = await db
+      .select({ id: chatMessages.id })
+      .from(chatMessages)
+      .where(and(
+        eq(chatMessages.threadId, threadId),
+        inArray(chatMessages.id, messageIds),
+        ne(chatMessages.senderId, userId)
+      ));
+    if (deliverable.length === 0) return [];
+
+    return db
+      .insert(messageReceipts)
+      .values(deliverable.map((row) => ({ messageId: row.id, userId, deliveredAt: new Date() })))
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  // Marks every message from other participants that the user has not read yet; returns the updated receipts
+  async markThreadRead(threadId: string, userId: string): Promise<MessageReceipt[]> {
+    const unread = await db
+      .select({ id: chatMessages.id })
+      .from(chatMessages)
+      .leftJoin(
+        messageReceipts,
+        and(eq(messageReceipts.messageId, chatMessages.id), eq(messageReceipts.userId, userId))
+      )
+      .where(and(
+        eq(chatMessages.threadId, threadId),
+        ne(chatMessages.senderId, userId),
+        isNull(messageReceipts.readAt)
+      ));
+    if (unread.length === 0) return [];
+
+    const now = new Date();
+    return db
+      .insert(messageReceipts)
+      .values(unread.map((row) => ({ messageId: row.id, userId, deliveredAt: now, readAt: now })))
+      .onConflictDoUpdate({
+        target: [messageReceipts.messageId, messageReceipts.userId],
+        set: { readAt: now, deliveredAt: sql`coalesce(${messageReceipts.deliveredAt}, now())` },
+      })
+      .returning();
+  }
+
   async deleteChatMessagesBefore(cutoff: Date): Promise<number> {
     const result = await db.delete(chatMessages).where(lt(chatMessages.createdAt, cutoff)).returning();
     return result.length;
@@ -1827,6 +2461,31 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Exceptions overlapping [from, to) when a range is given, otherwise all of them
+  async getTutorAvailabilityExceptions(tutorId: string, from?: Date, to?: Date): Promise<TutorAvailabilityException[]> {
+    const conditions = [eq(tutorAvailabilityExceptions.tutorId, tutorId)];
+    if (from) conditions.push(gt(tutorAvailabilityExceptions.endTime, from));
+    if (to) conditions.push(lt(tutorAvailabilityExceptions.startTime, to));
+    return db
+      .select()
+      .from(tutorAvailabilityExceptions)
+      .where(and(...conditions))
+      .orderBy(asc(tutorAvailabilityExceptions.startTime));
+  }
+
+  async createTutorAvailabilityException(exception: InsertTutorAvailabilityException): Promise<TutorAvailabilityException> {
+    const [created] = await db.insert(tutorAvailabilityExceptions).values(exception).returning();
+    return created;
+  }
+
+  async deleteTutorAvailabilityException(id: string, tutorId: string): Promise<boolean> {
+    const result = await db
+      .delete(tutorAvailabilityExceptions)
+      .where(and(eq(tutorAvailabilityExceptions.id, id), eq(tutorAvailabilityExceptions.tutorId, tutorId)))
+      .returning();
+    return result.length > 0;
+  }
+
   // Session Proposal operations
   async getSessionProposal(id: string): Promise<SessionProposalWithDetails | undefined> {
     const result = await db
@@ -1903,12 +2562,30 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Approves a still-pending proposal and creates its sessions in one transaction, so a
+  // failed insert leaves the proposal pending; undefined when it was no longer pending
+  async approveSessionProposal(
+    id: string,
+    tutorResponse: string | undefined,
+    sessions: InsertTutoringSession[]
+  ): Promise<TutoringSession[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [proposal] = await tx.select().from(sessionProposals).where(eq(sessionProposals.id, id)).for("update");
+      if (!proposal || proposal.status !== "pending") return undefined;
+
+      const created = sessions.length > 0 ? await tx.insert(tutoringSessions).values(sessions).returning() : [];
+      await tx.update(sessionProposals).set({ status: "approved", tutorResponse }).where(eq(sessionProposals.id, id));
+      return created;
+    });
+  }
+
   // Tutoring Session operations
   async getTutoringSession(id: string): Promise<TutoringSessionWithDetails | undefined> {
+    // Left join on student: group sessions have no single studentId
     const result = await db
       .select()
       .from(tutoringSessions)
-      .innerJoin(users, eq(tutoringSessions.studentId, users.id))
+      .leftJoin(users, eq(tutoringSessions.studentId, users.id))
       .innerJoin(courses, eq(tutoringSessions.courseId, courses.id))
       .where(eq(tutoringSessions.id, id));
     
@@ -1931,7 +2608,7 @@ export class DatabaseStorage implements IStorage {
     const result = await db
       .select()
       .from(tutoringSessions)
-      .innerJoin(users, eq(tutoringSessions.studentId, users.id))
+      .leftJoin(users, eq(tutoringSessions.studentId, users.id))
       .innerJoin(courses, eq(tutoringSessions.courseId, courses.id))
       .where(and(...conditions))
       .orderBy(desc(tutoringSessions.scheduledStartTime));
@@ -1973,6 +2650,28 @@ export class DatabaseStorage implements IStorage {
     return newSession;
   }
 
+  async getTutoringSessionsByRecurrenceGroup(recurrenceGroupId: string): Promise<TutoringSession[]> {
+    return db
+      .select()
+      .from(tutoringSessions)
+      .where(eq(tutoringSessions.recurrenceGroupId, recurrenceGroupId))
+      .orderBy(asc(tutoringSessions.scheduledStartTime));
+  }
+
+  // Scheduled or running sessions that overlap [from, to), for slot calculation
+  async getActiveTutorSessionsInRange(tutorId: string, from: Date, to: Date): Promise<TutoringSession[]> {
+    return db
+      .select()
+      .from(tutoringSessions)
+      .where(and(
+        eq(tutoringSessions.tutorId, tutorId),
+        inArray(tutoringSessions.status, ["scheduled", "in_progress"]),
+        lt(tutoringSessions.scheduledStartTime, to),
+        gt(tutoringSessions.scheduledEndTime, from)
+      ))
+      .orderBy(asc(tutoringSessions.scheduledStartTime));
+  }
+
   async updateTutoringSession(id: string, updates: Partial<InsertTutoringSession>): Promise<TutoringSession | undefined> {
     const [updated] = await db
       .update(tutoringSessions)
@@ -1986,11 +2685,7 @@ export class DatabaseStorage implements IStorage {
     const conditions = [
       eq(tutoringSessions.tutorId, tutorId),
       inArray(tutoringSessions.status, ["scheduled", "in_progress"]),
-      or(
-        and(lte(tutoringSessions.scheduledStartTime, startTime), gte(tutoringSessions.scheduledEndTime, startTime)),
-        and(lte(tutoringSessions.scheduledStartTime, endTime), gte(tutoringSessions.scheduledEndTime, endTime)),
-        and(gte(tutoringSessions.scheduledStartTime, startTime), lte(tutoringSessions.scheduledEndTime, endTime))
-      )
+      activeSessionOverlaps(startTime, endTime),
     ];
     
     if (excludeSessionId) {
@@ -2005,6 +2700,45 @@ export class DatabaseStorage implements IStorage {
     return Number(result[0]?.count || 0) > 0;
   }
 
+  // Session reconciliation operations
+  // Scheduled sessions that have started and running sessions past their end,
+  // the candidates for no-show detection and automatic closure
+  async getSessionsAwaitingReconciliation(startedBefore: Date, endedBefore: Date): Promise<TutoringSession[]> {
+    return db
+      .select()
+      .from(tutoringSessions)
+      .where(or(
+        and(eq(tutoringSessions.status, "scheduled"), lte(tutoringSessions.scheduledStartTime, startedBefore)),
+        and(eq(tutoringSessions.status, "in_progress"), lte(tutoringSessions.scheduledEndTime, endedBefore))
+      ))
+      .orderBy(asc(tutoringSessions.scheduledStartTime));
+  }
+
+  // Closes a session in one transaction: the session is locked and must still have the
+  // expected status, so a concurrent join, end or cancellation is never overwritten; then
+  // the session, wallets and attendance are updated together
+  async closeTutoringSession(closure: SessionClosure): Promise<TutoringSession | undefined> {
+    return db.transaction((tx) => closeSessionInTransaction(tx, closure));
+  }
+
+  // As closeTutoringSession, with the reconciler's decision recorded in the same transaction
+  async reconcileTutoringSession(reconciliation: SessionReconciliation): Promise<TutoringSession | undefined> {
+    return db.transaction(async (tx) => {
+      const updated = await closeSessionInTransaction(tx, reconciliation);
+      if (!updated) return undefined;
+      await tx.insert(sessionReconciliationDecisions).values(reconciliation.decision);
+      return updated;
+    });
+  }
+
+  async getSessionReconciliationDecisions(sessionId: string): Promise<SessionReconciliationDecision[]> {
+    return db
+      .select()
+      .from(sessionReconciliationDecisions)
+      .where(eq(sessionReconciliationDecisions.sessionId, sessionId))
+      .orderBy(asc(sessionReconciliationDecisions.decidedAt));
+  }
+
   // Hour Wallet operations
   async getHourWallet(id: string): Promise<HourWalletWithDetails | undefined> {
     const result = await db
@@ -2090,23 +2824,60 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async addMinutesToWallet(studentId: string, courseId: string, minutes: number): Promise<HourWallet | undefined> {
+  // Passing validityDays treats the minutes as a purchase: the expiry is extended and
+  // an expired wallet becomes active again
+  async addMinutesToWallet(studentId: string, courseId: string, minutes: number, validityDays?: number): Promise<HourWallet | undefined> {
     const existing = await this.getHourWalletByStudentCourse(studentId, courseId);
+    const now = new Date();
     if (!existing) {
-      return this.createHourWallet({ studentId, courseId, purchasedMinutes: minutes, consumedMinutes: 0 });
+      return this.createHourWallet({
+        studentId,
+        courseId,
+        purchasedMinutes: minutes,
+        consumedMinutes: 0,
+        expiresAt: validityDays !== undefined ? extendWalletExpiry(null, now, validityDays) : null,
+      });
     }
     
+    const expiryUpdates = validityDays !== undefined
+      ? {
+          status: "active" as const,
+          expiresAt: extendWalletExpiry(existing.expiresAt, now, validityDays),
+          expiryNotifiedAt: null,
+        }
+      : {};
     const [updated] = await db
       .update(hourWallets)
       .set({ 
         purchasedMinutes: existing.purchasedMinutes + minutes,
-        updatedAt: new Date()
+        ...expiryUpdates,
+        updatedAt: now
       })
       .where(eq(hourWallets.id, existing.id))
       .returning();
     return updated;
   }
 
+  async getActiveWalletsExpiringBefore(cutoff: Date): Promise<HourWalletWithDetails[]> {
+    const result = await db
+      .select()
+      .from(hourWallets)
+      .innerJoin(users, eq(hourWallets.studentId, users.id))
+      .innerJoin(courses, eq(hourWallets.courseId, courses.id))
+      .where(and(
+        eq(hourWallets.status, "active"),
+        isNotNull(hourWallets.expiresAt),
+        lte(hourWallets.expiresAt, cutoff)
+      ))
+      .orderBy(asc(hourWallets.expiresAt));
+    
+    return result.map(r => ({
+      ...r.hour_wallets,
+      student: r.users,
+      course: r.courses,
+    }));
+  }
+
   async deductMinutesFromWallet(studentId: string, courseId: string, minutes: number): Promise<HourWallet | undefined> {
     const existing = await this.getHourWalletByStudentCourse(studentId, courseId);
     if (!existing) return undefined;
@@ -2149,6 +2920,196 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async deleteSessionAttendance(id: string): Promise<boolean> {
+    await db.delete(sessionAttendance).where(eq(sessionAttendance.id, id));
+    return true;
+  }
+
+  async getSessionRoster(sessionId: string): Promise<SessionAttendanceWithStudent[]> {
+    const result = await db
+      .select()
+      .from(sessionAttendance)
+      .innerJoin(users, eq(sessionAttendance.studentId, users.id))
+      .where(eq(sessionAttendance.sessionId, sessionId))
+      .orderBy(sessionAttendance.createdAt);
+
+    return result.map(r => ({
+      ...r.session_attendance,
+      student: r.users,
+    }));
+  }
+
+  // Completed and missed sessions are the ones that consume wallet minutes
+  async getBillableSessionsInPeriod(periodStart: Date, periodEnd: Date): Promise<TutoringSession[]> {
+    return db
+      .select()
+      .from(tutoringSessions)
+      .where(and(
+        inArray(tutoringSessions.status, ["completed", "missed"]),
+        gte(tutoringSessions.scheduledStartTime, periodStart),
+        lte(tutoringSessions.scheduledStartTime, periodEnd)
+      ))
+      .orderBy(asc(tutoringSessions.scheduledStartTime));
+  }
+
+  async getSessionAttendanceForSessions(sessionIds: string[]): Promise<SessionAttendance[]> {
+    if (sessionIds.length === 0) return [];
+    return db.select().from(sessionAttendance).where(inArray(sessionAttendance.sessionId, sessionIds));
+  }
+
+  async getGroupSessionsByStudent(studentId: string, status?: TutoringSessionStatus): Promise<TutoringSessionWithDetails[]> {
+    const conditions = [
+      eq(sessionAttendance.studentId, studentId),
+      eq(tutoringSessions.isGroupSession, true),
+    ];
+    if (status) conditions.push(eq(tutoringSessions.status, status));
+
+    const result = await db
+      .select()
+      .from(sessionAttendance)
+      .innerJoin(tutoringSessions, eq(sessionAttendance.sessionId, tutoringSessions.id))
+      .innerJoin(users, eq(tutoringSessions.tutorId, users.id))
+      .innerJoin(courses, eq(tutoringSessions.courseId, courses.id))
+      .where(and(...conditions))
+      .orderBy(desc(tutoringSessions.scheduledStartTime));
+
+    return result.map(r => ({
+      ...r.tutoring_sessions,
+      student: null,
+      tutor: r.users,
+      course: r.courses,
+    }));
+  }
+
+  // Session reschedule request operations
+  async createRescheduleRequest(request: InsertSessionRescheduleRequest): Promise<SessionRescheduleRequest> {
+    const [created] = await db.insert(sessionRescheduleRequests).values(request).returning();
+    return created;
+  }
+
+  async getRescheduleRequest(id: string): Promise<SessionRescheduleRequest | undefined> {
+    const [request] = await db.select().from(sessionRescheduleRequests).where(eq(sessionRescheduleRequests.id, id));
+    return request;
+  }
+
+  async getPendingRescheduleRequestForSession(sessionId: string): Promise<SessionRescheduleRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(sessionRescheduleRequests)
+      .where(and(
+        eq(sessionRescheduleRequests.sessionId, sessionId),
+        eq(sessionRescheduleRequests.status, "pending")
+      ));
+    return request;
+  }
+
+  // Pending requests the user sent or has to answer, oldest first. Requests on
+  // sessions that have since started or been called off can no longer be acted on.
+  async getPendingRescheduleRequestsForUser(userId: string): Promise<SessionRescheduleRequestWithDetails[]> {
+    const requests = await db
+      .select()
+      .from(sessionRescheduleRequests)
+      .where(and(
+        eq(sessionRescheduleRequests.status, "pending"),
+        or(eq(sessionRescheduleRequests.requestedById, userId), eq(sessionRescheduleRequests.recipientId, userId))
+      ))
+      .orderBy(asc(sessionRescheduleRequests.createdAt));
+
+    const detailed: SessionRescheduleRequestWithDetails[] = [];
+    for (const request of requests) {
+      const session = await this.getTutoringSession(request.sessionId);
+      const requestedBy = await this.getUser(request.requestedById);
+      if (session?.status === "scheduled" && requestedBy) detailed.push({ ...request, session, requestedBy });
+    }
+    return detailed;
+  }
+
+  async updateRescheduleRequest(id: string, updates: Partial<InsertSessionRescheduleRequest>): Promise<SessionRescheduleRequest | undefined> {
+    const [updated] = await db
+      .update(sessionRescheduleRequests)
+      .set(updates)
+      .where(eq(sessionRescheduleRequests.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Closes a request only if it is still pending, so two responses cannot both win
+  async resolvePendingRescheduleRequest(id: string, updates: Partial<InsertSessionRescheduleRequest>): Promise<SessionRescheduleRequest | undefined> {
+    const [updated] = await db
+      .update(sessionRescheduleRequests)
+      .set(updates)
+      .where(and(eq(sessionRescheduleRequests.id, id), eq(sessionRescheduleRequests.status, "pending")))
+      .returning();
+    return updated;
+  }
+
+  // Accepts a reschedule request and moves its session in one transaction: the
+  // request and session are locked, both participants are checked for clashes at
+  // the new time, wallet charges are applied, and the session takes the new time
+  async moveSessionForRescheduleRequest(move: RescheduleMove): Promise<RescheduleMoveResult> {
+    return db.transaction(async (tx) => {
+      const [request] = await tx
+        .select()
+        .from(sessionRescheduleRequests)
+        .where(eq(sessionRescheduleRequests.id, move.requestId))
+        .for("update");
+      if (!request || request.status !== "pending") return { status: "not_pending" as const };
+
+      const [session] = await tx
+        .select()
+        .from(tutoringSessions)
+        .where(eq(tutoringSessions.id, request.sessionId))
+        .for("update");
+      if (!session || session.status !== "scheduled") return { status: "session_unavailable" as const };
+
+      const clashes = (participant: ReturnType<typeof eq>) => tx
+        .select({ count: count() })
+        .from(tutoringSessions)
+        .where(and(
+          participant,
+          ne(tutoringSessions.id, session.id),
+          inArray(tutoringSessions.status, ["scheduled", "in_progress"]),
+          activeSessionOverlaps(move.startTime, move.endTime)
+        ));
+      const [tutorClashes] = await clashes(eq(tutoringSessions.tutorId, session.tutorId));
+      if (Number(tutorClashes?.count || 0) > 0) return { status: "tutor_conflict" as const };
+      if (session.studentId) {
+        const [studentClashes] = await clashes(eq(tutoringSessions.studentId, session.studentId));
+        if (Number(studentClashes?.count || 0) > 0) return { status: "student_conflict" as const };
+      }
+
+      await applyWalletCharges(tx, move.walletCharges);
+
+      // Join times belong to the old slot; any reservation carries over to the new one
+      const [movedSession] = await tx
+        .update(tutoringSessions)
+        .set({
+          scheduledStartTime: move.startTime,
+          scheduledEndTime: move.endTime,
+          scheduledMinutes: move.scheduledMinutes,
+          reservedMinutes: move.reservedMinutes,
+          studentJoinTime: null,
+          tutorJoinTime: null,
+          tutorLate: false,
+        })
+        .where(eq(tutoringSessions.id, session.id))
+        .returning();
+
+      const [acceptedRequest] = await tx
+        .update(sessionRescheduleRequests)
+        .set({
+          status: "accepted",
+          acceptedStartTime: move.startTime,
+          acceptedEndTime: move.endTime,
+          respondedAt: new Date(),
+        })
+        .where(eq(sessionRescheduleRequests.id, request.id))
+        .returning();
+
+      return { status: "moved" as const, session: movedSession, request: acceptedRequest };
+    });
+  }
+
   // ==========================================
   // FINANCIAL SYSTEM OPERATIONS
   // ==========================================
@@ -2241,6 +3202,49 @@ export class DatabaseStorage implements IStorage {
     return results;
   }
 
+  async getInvoicesForBillingPeriod(periodStart: Date, periodEnd: Date, currency: CurrencyCode): Promise<Invoice[]> {
+    return db
+      .select()
+      .from(invoices)
+      .where(and(
+        eq(invoices.billingPeriodStart, periodStart),
+        eq(invoices.billingPeriodEnd, periodEnd),
+        eq(invoices.currency, currency)
+      ));
+  }
+
+  // Writes a billing-run invoice with its line items in one transaction. The student
+  // row is locked so concurrent runs for the same student take turns, and an invoice
+  // already made for the same period and currency is returned instead of a second one.
+  async createBillingRunInvoice(
+    invoice: Omit<InsertInvoice, "invoiceNumber">,
+    lineItems: Omit<InsertInvoiceLineItem, "invoiceId">[]
+  ): Promise<{ status: "created" | "duplicate"; invoice: Invoice }> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, invoice.studentId)).for("update");
+
+      const [existing] = await tx
+        .select()
+        .from(invoices)
+        .where(and(
+          eq(invoices.studentId, invoice.studentId),
+          eq(invoices.billingPeriodStart, invoice.billingPeriodStart),
+          eq(invoices.billingPeriodEnd, invoice.billingPeriodEnd),
+          eq(invoices.currency, invoice.currency ?? "ZAR")
+        ));
+      if (existing) return { status: "duplicate" as const, invoice: existing };
+
+      const [created] = await tx
+        .insert(invoices)
+        .values({ ...invoice, invoiceNumber: await nextInvoiceNumber(tx) })
+        .returning();
+      if (lineItems.length > 0) {
+        await tx.insert(invoiceLineItems).values(lineItems.map((item) => ({ ...item, invoiceId: created.id })));
+      }
+      return { status: "created" as const, invoice: created };
+    });
+  }
+
   async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
     const [newInvoice] = await db.insert(invoices).values(invoice).returning();
     return newInvoice;
@@ -2256,30 +3260,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async generateInvoiceNumber(): Promise<string> {
-    const now = new Date();
-    const year = now.getFullYear().toString().slice(-2);
-    const month = (now.getMonth() + 1).toString().padStart(2, '0');
-    const yearMonth = `${year}${month}`;
-    
-    const [existing] = await db
-      .select()
-      .from(invoiceSequence)
-      .where(eq(invoiceSequence.yearMonth, yearMonth));
-    
-    let sequence: number;
-    if (existing) {
-      sequence = existing.lastSequence + 1;
-      await db
-        .update(invoiceSequence)
-        .set({ lastSequence: sequence })
-        .where(eq(invoiceSequence.yearMonth, yearMonth));
-    } else {
-      sequence = 1;
-      await db.insert(invoiceSequence).values({ yearMonth, lastSequence: 1 });
-    }
-    
-    const sequenceStr = sequence.toString().padStart(2, '0');
-    return `INV${yearMonth}${sequenceStr}`;
+    return db.transaction((tx) => nextInvoiceNumber(tx));
   }
 
   // Invoice Line Item operations
@@ -2401,6 +3382,33 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Dunning operations
+  async getOpenInvoicesWithDueDate(): Promise<Invoice[]> {
+    return db
+      .select()
+      .from(invoices)
+      .where(and(
+        inArray(invoices.status, ["awaiting_payment", "overdue"]),
+        isNotNull(invoices.dueDate)
+      ))
+      .orderBy(asc(invoices.dueDate));
+  }
+
+  async getInvoiceReminders(invoiceIds: string[]): Promise<InvoiceReminder[]> {
+    if (invoiceIds.length === 0) return [];
+    return db.select().from(invoiceReminders).where(inArray(invoiceReminders.invoiceId, invoiceIds));
+  }
+
+  // Returns undefined when this stage was already recorded for the invoice
+  async createInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | undefined> {
+    const [created] = await db
+      .insert(invoiceReminders)
+      .values(reminder)
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
   async getUnpaidInvoicesByStudentInPeriod(
     studentId: string,
     periodStart: Date,
@@ -2533,6 +3541,51 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Adds a payroll run's lines to the tutor's draft payout for the period and currency
+  // (opening one if there is none) and updates its totals, all in one transaction.
+  // The tutor row is locked so concurrent runs for the same tutor take turns.
+  async addPayrollRunLines(
+    payout: InsertPayout,
+    lines: Omit<InsertPayoutLine, "payoutId">[]
+  ): Promise<{ payout: Payout; addedToExisting: boolean }> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, payout.tutorId)).for("update");
+
+      const [existing] = await tx
+        .select()
+        .from(payouts)
+        .where(and(
+          eq(payouts.tutorId, payout.tutorId),
+          eq(payouts.periodStart, payout.periodStart),
+          eq(payouts.periodEnd, payout.periodEnd),
+          eq(payouts.currency, payout.currency ?? "ZAR"),
+          eq(payouts.status, "draft")
+        ))
+        .orderBy(desc(payouts.createdAt))
+        .limit(1)
+        .for("update");
+      const [draft] = existing ? [existing] : await tx.insert(payouts).values(payout).returning();
+
+      if (lines.length > 0) {
+        await tx.insert(payoutLines).values(lines.map((line) => ({ ...line, payoutId: draft.id })));
+      }
+
+      const totalMinutes = draft.totalMinutes + lines.reduce((sum, line) => sum + (line.minutes ?? 0), 0);
+      const grossAmount = parseFloat(draft.grossAmount) + lines.reduce((sum, line) => sum + parseFloat(line.amount), 0);
+      const [updated] = await tx
+        .update(payouts)
+        .set({
+          totalMinutes,
+          grossAmount: grossAmount.toFixed(2),
+          netAmount: (grossAmount - parseFloat(draft.deductions)).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(payouts.id, draft.id))
+        .returning();
+      return { payout: updated, addedToExisting: !!existing };
+    });
+  }
+
   // Payout Line operations
   async getPayoutLines(payoutId: string): Promise<PayoutLineWithDetails[]> {
     const results = await db
@@ -2557,6 +3610,15 @@ export class DatabaseStorage implements IStorage {
     return newLine;
   }
 
+  async getSessionIdsInPayouts(sessionIds: string[]): Promise<string[]> {
+    if (sessionIds.length === 0) return [];
+    const rows = await db
+      .select({ sessionId: payoutLines.sessionId })
+      .from(payoutLines)
+      .where(inArray(payoutLines.sessionId, sessionIds));
+    return rows.map(r => r.sessionId).filter((id): id is string => id !== null);
+  }
+
   // Payout Flag operations
   async getPayoutFlags(payoutId: string): Promise<PayoutFlag[]> {
     return db
@@ -2580,6 +3642,91 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // ==========================================
+  // RATE CARD OPERATIONS
+  // ==========================================
+
+  async getCourseRates(courseId?: string): Promise<CourseRateWithCourse[]> {
+    const result = await db
+      .select()
+      .from(courseRates)
+      .innerJoin(courses, eq(courseRates.courseId, courses.id))
+      .where(courseId ? eq(courseRates.courseId, courseId) : undefined)
+      .orderBy(desc(courseRates.effectiveFrom));
+
+    return result.map(r => ({
+      ...r.course_rates,
+      course: r.courses,
+    }));
+  }
+
+  async createCourseRate(rate: InsertCourseRate): Promise<CourseRate> {
+    const [newRate] = await db.insert(courseRates).values(rate).returning();
+    return newRate;
+  }
+
+  async getTutorPayRates(tutorId?: string): Promise<TutorPayRateWithDetails[]> {
+    const result = await db
+      .select()
+      .from(tutorPayRates)
+      .innerJoin(users, eq(tutorPayRates.tutorId, users.id))
+      .leftJoin(courses, eq(tutorPayRates.courseId, courses.id))
+      .where(tutorId ? eq(tutorPayRates.tutorId, tutorId) : undefined)
+      .orderBy(desc(tutorPayRates.effectiveFrom));
+
+    return result.map(r => ({
+      ...r.tutor_pay_rates,
+      tutor: r.users,
+      course: r.courses,
+    }));
+  }
+
+  async createTutorPayRate(rate: InsertTutorPayRate): Promise<TutorPayRate> {
+    const [newRate] = await db.insert(tutorPayRates).values(rate).returning();
+    return newRate;
+  }
+
+  async getStudentRateDiscounts(studentId?: string): Promise<StudentRateDiscountWithDetails[]> {
+    const result = await db
+      .select()
+      .from(studentRateDiscounts)
+      .innerJoin(users, eq(studentRateDiscounts.studentId, users.id))
+      .leftJoin(courses, eq(studentRateDiscounts.courseId, courses.id))
+      .where(studentId ? eq(studentRateDiscounts.studentId, studentId) : undefined)
+      .orderBy(desc(studentRateDiscounts.effectiveFrom));
+
+    return result.map(r => ({
+      ...r.student_rate_discounts,
+      student: r.users,
+      course: r.courses,
+    }));
+  }
+
+  async createStudentRateDiscount(discount: InsertStudentRateDiscount): Promise<StudentRateDiscount> {
+    const [newDiscount] = await db.insert(studentRateDiscounts).values(discount).returning();
+    return newDiscount;
+  }
+
+  // File upload operations
+  async createFileUpload(upload: InsertFileUpload): Promise<FileUpload> {
+    const [created] = await db.insert(fileUploads).values(upload).returning();
+    return created;
+  }
+
+  async getFileUpload(id: string): Promise<FileUpload | undefined> {
+    const [upload] = await db.select().from(fileUploads).where(eq(fileUploads.id, id));
+    return upload;
+  }
+
+  async linkFileUpload(id: string, recordId: string): Promise<FileUpload | undefined> {
+    const [updated] = await db
+      .update(fileUploads)
+      .set({ recordId })
+      .where(eq(fileUploads.id, id))
+      .returning();
+    return updated;
+  }
+
   // ==========================================
   // STAFF ROLE REQUEST OPERATIONS
   // ==========================================
@@ -2663,13 +3810,13 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, request.userId));
   }
 
-  async rejectStaffRequest(id: string, reviewedById: string, reason: string): Promise<void> {
+  async rejectStaffRequest(id: string, reviewedById: string, reason: string): Promise<StaffRoleRequest | undefined> {
     const [request] = await db
       .select()
       .from(staffRoleRequests)
       .where(eq(staffRoleRequests.id, id));
     
-    if (!request) return;
+    if (!request) return undefined;
     
     await db
       .update(staffRoleRequests)
@@ -2688,6 +3835,8 @@ export class DatabaseStorage implements IStorage {
         updatedAt: new Date(),
       })
       .where(eq(users.id, request.userId));
+
+    return request;
   }
 
   // User account status operations
@@ -2737,6 +3886,260 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [created] = await db.insert(authTokens).values(token).returning();
+    return created;
+  }
+
+  async deleteUnusedAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
+  // Marks the token used in the same statement that checks it, so it can only be redeemed once
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gte(authTokens.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const filters = [sql`${sessions.sess}->>'userId' = ${userId}`];
+    if (exceptSessionId) {
+      filters.push(ne(sessions.sid, exceptSessionId));
+    }
+    const result = await db.delete(sessions).where(and(...filters)).returning({ sid: sessions.sid });
+    return result.length;
+  }
+
+  async getUserSessions(userId: string, now: Date): Promise<LoginSession[]> {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gt(sessions.expire, now)))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  // ==========================================
+  // APP SETTINGS OPERATIONS
+  // ==========================================
+
+  async getAppSetting(key: string): Promise<AppSetting | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting;
+  }
+
+  async setAppSetting(key: string, value: unknown, updatedById: string): Promise<AppSetting> {
+    const [setting] = await db
+      .insert(appSettings)
+      .values({ key, value, updatedById, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedById, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  // ==========================================
+  // PHONE OTP OPERATIONS
+  // ==========================================
+
+  async getPhoneOtp(phoneNumber: string): Promise<PhoneOtp | undefined> {
+    const [otp] = await db.select().from(phoneOtps).where(eq(phoneOtps.phoneNumber, phoneNumber));
+    return otp;
+  }
+
+  // A new code replaces any earlier one for the number and resets its attempts
+  async upsertPhoneOtp(otp: InsertPhoneOtp): Promise<PhoneOtp> {
+    const [saved] = await db
+      .insert(phoneOtps)
+      .values(otp)
+      .onConflictDoUpdate({
+        target: phoneOtps.phoneNumber,
+        set: {
+          codeHash: otp.codeHash,
+          expiresAt: otp.expiresAt,
+          attempts: 0,
+          lastSentAt: otp.lastSentAt,
+          signupData: otp.signupData,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Deletes the code in the same statement that checks it, so it can only be used once
+  async consumePhoneOtp(phoneNumber: string, codeHash: string, now: Date, maxAttempts: number): Promise<PhoneOtp | undefined> {
+    const [otp] = await db
+      .delete(phoneOtps)
+      .where(and(
+        eq(phoneOtps.phoneNumber, phoneNumber),
+        eq(phoneOtps.codeHash, codeHash),
+        gte(phoneOtps.expiresAt, now),
+        lt(phoneOtps.attempts, maxAttempts)
+      ))
+      .returning();
+    return otp;
+  }
+
+  async incrementPhoneOtpAttempts(id: string): Promise<PhoneOtp | undefined> {
+    const [otp] = await db
+      .update(phoneOtps)
+      .set({ attempts: sql`${phoneOtps.attempts} + 1` })
+      .where(eq(phoneOtps.id, id))
+      .returning();
+    return otp;
+  }
+
+  async deletePhoneOtp(phoneNumber: string): Promise<void> {
+    await db.delete(phoneOtps).where(eq(phoneOtps.phoneNumber, phoneNumber));
+  }
+
+  // ==========================================
+  // TWO-FACTOR OPERATIONS
+  // ==========================================
+
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  // Starting enrolment again discards any earlier unconfirmed secret
+  async savePendingTwoFactorCredential(userId: string, secret: string): Promise<TwoFactorCredential> {
+    const [credential] = await db
+      .insert(twoFactorCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, confirmedAt: null, recoveryCodeHashes: null, lastUsedStep: null, updatedAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+
+  async confirmTwoFactorCredential(userId: string, recoveryCodeHashes: string[], step: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db
+      .update(twoFactorCredentials)
+      .set({ confirmedAt: new Date(), recoveryCodeHashes, lastUsedStep: step, updatedAt: new Date() })
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    if (credential) {
+      await db.update(users).set({ twoFactorEnabled: true, updatedAt: new Date() }).where(eq(users.id, userId));
+    }
+    return credential;
+  }
+
+  // Each TOTP time step is accepted once, so a code seen over someone's shoulder cannot be replayed
+  async markTwoFactorStepUsed(userId: string, step: number): Promise<boolean> {
+    const result = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning({ id: twoFactorCredentials.id });
+    return result.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db
+      .update(twoFactorCredentials)
+      .set({ recoveryCodeHashes, updatedAt: new Date() })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  // Removes the code in the same statement that finds it, so it works only once
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(twoFactorCredentials)
+      .set({
+        recoveryCodeHashes: sql`${twoFactorCredentials.recoveryCodeHashes} - ${codeHash}::text`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        isNotNull(twoFactorCredentials.confirmedAt),
+        sql`jsonb_exists(${twoFactorCredentials.recoveryCodeHashes}, ${codeHash})`
+      ))
+      .returning({ id: twoFactorCredentials.id });
+    return result.length > 0;
+  }
+
+  async deleteTwoFactorCredential(userId: string): Promise<void> {
+    await db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    await db.update(users).set({ twoFactorEnabled: false, updatedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  // ==========================================
+  // LOGIN THROTTLE OPERATIONS
+  // ==========================================
+
+  async getLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier)));
+    return throttle;
+  }
+
+  // Locks the row while applying the failure so parallel attempts cannot share one count
+  async recordLoginFailure(
+    scope: LoginThrottleScope,
+    identifier: string,
+    now: Date,
+  ): Promise<{ throttle: LoginThrottle; lockedNow: boolean }> {
+    return db.transaction(async (tx) => {
+      await tx.insert(loginThrottles).values({ scope, identifier }).onConflictDoNothing();
+      const [current] = await tx
+        .select()
+        .from(loginThrottles)
+        .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier)))
+        .for("update");
+
+      const { state, lockedNow } = applyLoginFailure(scope, current, now);
+      const [throttle] = await tx
+        .update(loginThrottles)
+        .set({ ...state, updatedAt: now })
+        .where(eq(loginThrottles.id, current.id))
+        .returning();
+      return { throttle, lockedNow };
+    });
+  }
+
+  async resetLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier)));
+  }
+
+  async getActiveLoginLockouts(now: Date): Promise<LoginThrottle[]> {
+    return db
+      .select()
+      .from(loginThrottles)
+      .where(gte(loginThrottles.lockedUntil, now))
+      .orderBy(desc(loginThrottles.lockedUntil));
+  }
+
+  async clearLoginThrottle(id: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db.delete(loginThrottles).where(eq(loginThrottles.id, id)).returning();
+    return throttle;
+  }
+
   // ==========================================
   // SUPER ADMIN OPERATIONS
   // ==========================================
@@ -2780,13 +4183,22 @@ export class DatabaseStorage implements IStorage {
     return auditLog;
   }
 
-  async getAuditLogs(limit: number = 100): Promise<AuditLogWithDetails[]> {
+  async getAuditLogs(filter: Partial<AuditLogFilter> = {}): Promise<AuditLogWithDetails[]> {
+    const conditions = [];
+    if (filter.entityType) conditions.push(eq(auditLogs.entityType, filter.entityType));
+    if (filter.entityId) conditions.push(eq(auditLogs.entityId, filter.entityId));
+    if (filter.actorId) conditions.push(eq(auditLogs.performedById, filter.actorId));
+    if (filter.action) conditions.push(eq(auditLogs.action, filter.action));
+    if (filter.from) conditions.push(gte(auditLogs.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(auditLogs.createdAt, filter.to));
+
     const result = await db
       .select()
       .from(auditLogs)
-      .innerJoin(users, eq(auditLogs.performedById, users.id))
+      .leftJoin(users, eq(auditLogs.performedById, users.id))
+      .where(and(...conditions))
       .orderBy(desc(auditLogs.createdAt))
-      .limit(limit);
+      .limit(filter.limit ?? 100);
     
     return result.map(r => ({
       ...r.audit_logs,
@@ -2799,7 +4211,7 @@ export class DatabaseStorage implements IStorage {
     const result = await db
       .select()
       .from(auditLogs)
-      .innerJoin(users, eq(auditLogs.performedById, users.id))
+      .leftJoin(users, eq(auditLogs.performedById, users.id))
       .where(eq(auditLogs.targetUserId, userId))
       .orderBy(desc(auditLogs.createdAt));
     
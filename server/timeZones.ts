@@ -0,0 +1,14 @@
+// Times in server-written text (notifications, emails, PDFs) are shown in the
+// reader's own time zone rather than the server's
+
+import { storage } from "./storage";
+import { formatSessionTime, resolveTimeZone } from "@shared/timeZonePolicy";
+
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const user = await storage.getUser(userId);
+  return resolveTimeZone(user?.timeZone);
+}
+
+export async function formatSessionTimeForUser(userId: string, date: Date | string): Promise<string> {
+  return formatSessionTime(date, await getUserTimeZone(userId));
+}
@@ -0,0 +1,55 @@
+// Outgoing mail and SMS each pick a named transport from a registry with an
+// environment variable. The development transports (console output and outbox
+// files) would leave one-time links and codes readable on the server, so
+// production refuses to start on them.
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface NamedTransport {
+  readonly name: string;
+}
+
+// Writes one message to its own JSON file in the outbox directory
+export async function writeOutboxFile(outboxDir: string, message: object): Promise<void> {
+  await fs.promises.mkdir(outboxDir, { recursive: true });
+  const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.json`;
+  await fs.promises.writeFile(
+    path.join(outboxDir, fileName),
+    JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+  );
+}
+
+// developmentNames lists the transports refused in production; the first is the default elsewhere
+export function createTransportRegistry<T extends NamedTransport>(options: {
+  label: string;
+  envName: string;
+  developmentNames: string[];
+}) {
+  const transports = new Map<string, T>();
+
+  return {
+    register(transport: T) {
+      transports.set(transport.name, transport);
+    },
+
+    assertConfigured(): void {
+      const name = process.env[options.envName];
+      if (process.env.NODE_ENV === "production" && (!name || options.developmentNames.includes(name))) {
+        throw new Error(
+          `${options.envName} must name a registered ${options.label} in production; ` +
+          `${options.developmentNames.join(" and ")} are for development only.`,
+        );
+      }
+    },
+
+    get(name: string = process.env[options.envName] || options.developmentNames[0]): T {
+      const transport = transports.get(name);
+      if (!transport) {
+        throw new Error(`${options.label} "${name}" is not registered`);
+      }
+      return transport;
+    },
+  };
+}
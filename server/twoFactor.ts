@@ -0,0 +1,130 @@
+// TOTP two-factor authentication (RFC 6238, the scheme authenticator apps use)
+// plus single-use recovery codes for when the authenticator is lost
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { RECOVERY_CODE_COUNT } from "@shared/authPolicy";
+
+const TOTP_ISSUER = "MCEC LMS";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the neighbouring time steps to allow for clock drift on the phone
+const TOTP_DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(data)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateHotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// Returns the time step the code belongs to, or null when it does not match
+export function findTotpStep(secret: string, code: string, now: Date = new Date()): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (timingSafeEqual(Buffer.from(generateHotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function getOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function getQrCodeDataUrl(otpAuthUrl: string): Promise<string> {
+  return QRCode.toDataURL(otpAuthUrl, { margin: 1, width: 220 });
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+// Accepts a current authenticator code or, when allowed, an unused recovery code
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+  options: { allowRecoveryCode: boolean },
+): Promise<"totp" | "recovery" | null> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential?.confirmedAt) return null;
+
+  const step = findTotpStep(credential.secret, code.replace(/\s/g, ""));
+  if (step !== null) {
+    return (await storage.markTwoFactorStepUsed(userId, step)) ? "totp" : null;
+  }
+
+  if (options.allowRecoveryCode && (await storage.consumeRecoveryCode(userId, hashRecoveryCode(code)))) {
+    return "recovery";
+  }
+  return null;
+}
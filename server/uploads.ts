@@ -0,0 +1,105 @@
+// File uploads: validates and stores incoming files, decides who may download
+// them, and links each upload to the record that references it
+
+import { randomUUID } from "crypto";
+import path from "path";
+import { storage } from "./storage";
+import { getFileStorage } from "./fileStorage";
+import { userHasPermission } from "./permissions";
+import { UPLOAD_URL_PREFIX, getUploadIdFromUrl, validateUpload } from "@shared/uploadPolicy";
+import type { FileUpload, UploadPurpose, User } from "@shared/schema";
+
+export function getUploadUrl(upload: FileUpload): string {
+  return `${UPLOAD_URL_PREFIX}${upload.id}`;
+}
+
+export async function saveUpload(options: {
+  ownerId: string;
+  purpose: UploadPurpose;
+  originalName: string;
+  mimeType: string;
+  data: Buffer;
+}): Promise<{ upload?: FileUpload; error?: string }> {
+  const error = validateUpload(options.purpose, options.mimeType, options.data);
+  if (error) return { error };
+
+  const driver = getFileStorage();
+  const extension = path.extname(options.originalName).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  const key = `${options.purpose}/${new Date().getFullYear()}/${randomUUID()}${extension}`;
+  await driver.save(key, options.data);
+
+  const upload = await storage.createFileUpload({
+    ownerId: options.ownerId,
+    purpose: options.purpose,
+    originalName: path.basename(options.originalName).slice(0, 255) || "upload",
+    mimeType: options.mimeType.split(";")[0].trim().toLowerCase(),
+    sizeBytes: options.data.length,
+    storageDriver: driver.name,
+    storageKey: key,
+    recordId: null,
+  });
+  return { upload };
+}
+
+// The uploader can always fetch their own file. Images are visible to any signed-in
+// user; payment proofs and submissions follow the access rules of their record.
+export async function canDownloadUpload(upload: FileUpload, user: User): Promise<boolean> {
+  if (upload.ownerId === user.id) return true;
+
+  switch (upload.purpose) {
+    case "course_image":
+    case "profile_image":
+      return true;
+
+    case "payment_proof": {
+      if (await userHasPermission(user, "payments.verify")) return true;
+      if (!upload.recordId) return false;
+      const payment = await storage.getInvoicePayment(upload.recordId);
+      const invoice = payment ? await storage.getInvoice(payment.invoiceId) : undefined;
+      return !!invoice && invoice.parentId === user.id;
+    }
+
+    case "submission": {
+      if (user.isSuperAdmin || user.role === "admin" || user.role === "manager") return true;
+      if (!upload.recordId) return false;
+      const submission = await storage.getSubmission(upload.recordId);
+      if (!submission) return false;
+      if (submission.studentId === user.id) return true;
+      if (user.role === "tutor") {
+        const assignment = await storage.getAssignment(submission.assignmentId);
+        const course = assignment ? await storage.getCourse(assignment.courseId) : undefined;
+        return !!course && course.tutorId === user.id;
+      }
+      if (user.role === "parent") {
+        const parents = await storage.getChildParents(submission.studentId);
+        return parents.some(link => link.parentId === user.id);
+      }
+      return false;
+    }
+  }
+}
+
+// Checks that a URL field pointing at an upload references the caller's own,
+// unattached file of the right purpose. External URLs are left alone.
+export async function checkUploadReference(
+  url: string | null | undefined,
+  purpose: UploadPurpose,
+  ownerId: string,
+  recordId?: string,
+): Promise<string | null> {
+  if (!url?.startsWith(UPLOAD_URL_PREFIX)) return null;
+
+  const uploadId = getUploadIdFromUrl(url);
+  const upload = uploadId ? await storage.getFileUpload(uploadId) : undefined;
+  if (!upload || upload.ownerId !== ownerId) return "Uploaded file not found";
+  if (upload.purpose !== purpose) return "Uploaded file cannot be used here";
+  if (upload.recordId && upload.recordId !== recordId) return "Uploaded file is already attached to another record";
+  return null;
+}
+
+export async function linkUploadReference(url: string | null | undefined, recordId: string): Promise<void> {
+  const uploadId = getUploadIdFromUrl(url);
+  if (uploadId) {
+    await storage.linkFileUpload(uploadId, recordId);
+  }
+}
@@ -0,0 +1,151 @@
+// Bulk user import from a CSV or XLSX sheet. The preview validates every row;
+// the import re-validates, then creates or matches users, parent links and
+// enrollments in one transaction and emails invitations to the new accounts.
+
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import { sendInvitationEmail } from "./authTokens";
+import { parseCsv } from "@shared/csv";
+import {
+  tableToImportRows,
+  validateImportRows,
+  type UserImportRow,
+  type UserImportRowResult,
+} from "@shared/userImportPolicy";
+import type { UpsertUser, User } from "@shared/schema";
+
+export type UserImportSummary = {
+  created: number;
+  matched: number;
+  linksCreated: number;
+  enrollmentsCreated: number;
+  invitationsSent: number;
+};
+
+// XLSX files are zip archives; anything else is read as UTF-8 CSV
+function isXlsx(data: Buffer): boolean {
+  return data.length > 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+async function readSheet(data: Buffer): Promise<string[][]> {
+  if (!isXlsx(data)) return parseCsv(data.toString("utf8"));
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? "");
+    }
+    table.push(cells);
+  });
+  return table;
+}
+
+async function validateFile(
+  data: Buffer,
+): Promise<{ rows: UserImportRow[]; results: UserImportRowResult[]; usersByEmail: Map<string, User>; error?: string }> {
+  const usersByEmail = new Map<string, User>();
+
+  let table: string[][];
+  try {
+    table = await readSheet(data);
+  } catch (error) {
+    console.error("Error reading import file:", error);
+    return { rows: [], results: [], usersByEmail, error: "The file could not be read as CSV or XLSX" };
+  }
+
+  const { rows, error } = tableToImportRows(table);
+  if (error) return { rows, results: [], usersByEmail, error };
+
+  for (const user of await storage.getAllUsers()) {
+    if (user.email) usersByEmail.set(user.email.toLowerCase(), user);
+  }
+  const courses = await storage.getAllCourses();
+
+  const results = validateImportRows(rows, {
+    existingUsers: new Map(Array.from(usersByEmail.entries()).map(([email, user]) => [email, { role: user.role }])),
+    courses: courses.map((course) => ({ id: course.id, title: course.title })),
+  });
+  return { rows, results, usersByEmail };
+}
+
+export async function previewUserImport(data: Buffer): Promise<{ rows: UserImportRowResult[]; error?: string }> {
+  const { results, error } = await validateFile(data);
+  return { rows: results, error };
+}
+
+export async function runUserImport(
+  fileName: string,
+  data: Buffer,
+  performedById: string,
+  baseUrl: string,
+): Promise<{ rows: UserImportRowResult[]; summary?: UserImportSummary; error?: string }> {
+  const { rows, results, usersByEmail, error } = await validateFile(data);
+  if (error) return { rows: results, error };
+  if (results.some((result) => result.errors.length > 0)) {
+    return { rows: results, error: "Fix the rows with errors and upload the file again; nothing was imported" };
+  }
+
+  const newUsers: UpsertUser[] = [];
+  const links: { parentEmail: string; childEmail: string; relationship: string | null }[] = [];
+  const courseEnrollments: { studentEmail: string; courseId: string }[] = [];
+  rows.forEach((row, index) => {
+    const result = results[index];
+    if (result.action === "create") {
+      newUsers.push({
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        phoneNumber: row.phoneNumber,
+        role: result.role as UpsertUser["role"],
+        authProvider: "local",
+        status: "active",
+        isActive: true,
+      });
+    }
+    for (const parentEmail of row.parentEmails) {
+      links.push({ parentEmail, childEmail: row.email, relationship: row.relationship });
+    }
+    for (const courseId of result.courseIds) {
+      courseEnrollments.push({ studentEmail: row.email, courseId });
+    }
+  });
+
+  const existingUserIds = new Map(Array.from(usersByEmail.entries()).map(([email, user]) => [email, user.id]));
+  const { createdUsers, linksCreated, enrollmentsCreated } = await storage.applyUserImport(
+    newUsers,
+    existingUserIds,
+    links,
+    courseEnrollments,
+  );
+
+  // Sent after the transaction commits; a failed email does not undo the import
+  let invitationsSent = 0;
+  for (const user of createdUsers) {
+    try {
+      await sendInvitationEmail(user, baseUrl);
+      invitationsSent++;
+    } catch (mailError) {
+      console.error(`Error sending invitation to ${user.email}:`, mailError);
+    }
+  }
+
+  const summary: UserImportSummary = {
+    created: createdUsers.length,
+    matched: results.filter((result) => result.action === "match").length,
+    linksCreated,
+    enrollmentsCreated,
+    invitationsSent,
+  };
+  await storage.createAuditLog({
+    performedById,
+    action: "import_users",
+    metadata: { fileName, ...summary },
+  });
+  return { rows: results, summary };
+}
@@ -0,0 +1,78 @@
+// Lists and revokes a user's signed-in sessions, and signs users out
+// everywhere when they lose access to their account or privileges
+
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { disconnectChatSockets } from "./chatSocket";
+import type { SessionDevice } from "./auth";
+import { shouldRevokeSessions } from "@shared/authPolicy";
+import type { ActiveSession, LoginSession, User } from "@shared/schema";
+
+// Session ids are the cookie secret, so clients only ever see a hash of them
+function getPublicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+function toActiveSession(row: LoginSession, currentSid?: string): ActiveSession {
+  const device = (row.sess as { device?: SessionDevice }).device;
+  return {
+    id: getPublicSessionId(row.sid),
+    userAgent: device?.userAgent ?? null,
+    ipAddress: device?.ipAddress ?? null,
+    signedInAt: device ? new Date(device.signedInAt).toISOString() : null,
+    lastSeenAt: device ? new Date(device.lastSeenAt).toISOString() : null,
+    expiresAt: row.expire.toISOString(),
+    current: row.sid === currentSid,
+  };
+}
+
+export async function listUserSessions(userId: string, currentSid?: string): Promise<ActiveSession[]> {
+  const rows = await storage.getUserSessions(userId, new Date());
+  return rows.map((row) => toActiveSession(row, currentSid));
+}
+
+// Returns the revoked session, or undefined when the id does not belong to the user
+export async function revokeUserSession(userId: string, sessionId: string): Promise<ActiveSession | undefined> {
+  const rows = await storage.getUserSessions(userId, new Date());
+  const row = rows.find((r) => getPublicSessionId(r.sid) === sessionId);
+  if (!row) return undefined;
+
+  await storage.deleteSession(row.sid);
+  disconnectChatSockets(userId, [row.sid]);
+  return toActiveSession(row);
+}
+
+export async function revokeAllUserSessions(userId: string, exceptSid?: string): Promise<number> {
+  if (!exceptSid) {
+    const revoked = await storage.deleteUserSessions(userId);
+    disconnectChatSockets(userId);
+    return revoked;
+  }
+
+  const others = (await storage.getUserSessions(userId, new Date())).filter((row) => row.sid !== exceptSid);
+  const revoked = await storage.deleteUserSessions(userId, exceptSid);
+  disconnectChatSockets(userId, others.map((row) => row.sid));
+  return revoked;
+}
+
+// Called after an admin changes an account; suspension, rejection and demotion
+// end every live session so the old access cannot be used
+export async function revokeSessionsOnAccessChange(
+  before: User,
+  after: User | undefined,
+  performedById: string,
+): Promise<number> {
+  if (!after || !shouldRevokeSessions(before, after)) return 0;
+
+  const revoked = await revokeAllUserSessions(after.id);
+  if (revoked > 0) {
+    await storage.createAuditLog({
+      performedById,
+      targetUserId: after.id,
+      action: "revoke_sessions",
+      newValue: String(revoked),
+      metadata: { targetEmail: after.email, reason: "access_change" },
+    });
+  }
+  return revoked;
+}
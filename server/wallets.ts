@@ -0,0 +1,103 @@
+// Hour wallet expiry: purchased minutes are valid for a configurable period.
+// The scheduled job warns students and parents ahead of expiry, then forfeits
+// whatever balance is left and records it as a wallet transaction.
+
+import { format } from "date-fns";
+import { storage } from "./storage";
+import {
+  DEFAULT_WALLET_VALIDITY_DAYS,
+  WALLET_EXPIRY_NOTICE_DAYS,
+  isExpiryNoticeDue,
+} from "@shared/walletPolicy";
+import type { HourWalletWithDetails } from "@shared/schema";
+
+// WALLET_VALIDITY_DAYS overrides the default validity applied to each purchase
+export function getWalletValidityDays(): number {
+  const configured = parseInt(process.env.WALLET_VALIDITY_DAYS || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_WALLET_VALIDITY_DAYS;
+}
+
+export type WalletExpiryRunResult = {
+  expiredWallets: number;
+  forfeitedMinutes: number;
+  noticesSent: number;
+};
+
+async function notifyStudentAndParents(
+  wallet: HourWalletWithDetails,
+  title: string,
+  message: string,
+): Promise<void> {
+  const parents = await storage.getChildParents(wallet.studentId);
+  const recipients = [
+    { userId: wallet.studentId, link: "/scheduling" },
+    ...parents.map(p => ({ userId: p.parentId, link: "/invoices" })),
+  ];
+
+  for (const recipient of recipients) {
+    try {
+      await storage.createNotification({
+        userId: recipient.userId,
+        type: "system",
+        title,
+        message,
+        link: recipient.link,
+        isRead: false,
+        relatedId: wallet.id,
+      });
+    } catch (notifError) {
+      console.error("Error creating wallet expiry notification:", notifError);
+    }
+  }
+}
+
+export async function runWalletExpiry(now: Date = new Date()): Promise<WalletExpiryRunResult> {
+  const result: WalletExpiryRunResult = { expiredWallets: 0, forfeitedMinutes: 0, noticesSent: 0 };
+
+  const noticeCutoff = new Date(now.getTime() + WALLET_EXPIRY_NOTICE_DAYS * 24 * 60 * 60 * 1000);
+  const wallets = await storage.getActiveWalletsExpiringBefore(noticeCutoff);
+
+  for (const wallet of wallets) {
+    const expiresAt = new Date(wallet.expiresAt!);
+    const balance = wallet.purchasedMinutes - wallet.consumedMinutes;
+    const studentName = `${wallet.student.firstName || ""} ${wallet.student.lastName || ""}`.trim() || "Your child";
+
+    if (expiresAt <= now) {
+      // Forfeit the remaining balance; an overdrawn wallet has nothing to forfeit
+      const forfeited = Math.max(0, balance);
+      await storage.updateHourWallet(wallet.id, {
+        status: "expired",
+        purchasedMinutes: wallet.purchasedMinutes - forfeited,
+      });
+      if (forfeited > 0) {
+        await storage.createWalletTransaction({
+          walletId: wallet.id,
+          minutesDelta: -forfeited,
+          balanceAfter: balance - forfeited,
+          reason: `Wallet expired on ${format(expiresAt, "MMM d, yyyy")}: ${forfeited} min forfeited`,
+          performedById: null,
+        });
+        await notifyStudentAndParents(
+          wallet,
+          "Tutoring Hours Expired",
+          `${forfeited} unused minutes of ${wallet.course.title} for ${studentName} expired on ${format(expiresAt, "MMM d, yyyy")}.`,
+        );
+      }
+      result.expiredWallets++;
+      result.forfeitedMinutes += forfeited;
+      continue;
+    }
+
+    if (balance > 0 && !wallet.expiryNotifiedAt && isExpiryNoticeDue(expiresAt, now)) {
+      await notifyStudentAndParents(
+        wallet,
+        "Tutoring Hours Expiring Soon",
+        `${balance} minutes of ${wallet.course.title} for ${studentName} will expire on ${format(expiresAt, "MMM d, yyyy")}. Book sessions before then to use them.`,
+      );
+      await storage.updateHourWallet(wallet.id, { expiryNotifiedAt: now });
+      result.noticesSent++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { auditLogFilterSchema, buildAuditLogCsv, diffAuditValues } from "../auditPolicy";
+
+describe("diffAuditValues", () => {
+  it("keeps only fields that changed and skips bookkeeping timestamps", () => {
+    const before = { id: "g1", score: "70", feedback: null, updatedAt: new Date("2026-01-01") };
+    const after = { id: "g1", score: "85", feedback: "Better", updatedAt: new Date("2026-01-02") };
+    expect(diffAuditValues(before, after)).toEqual({
+      score: { from: "70", to: "85" },
+      feedback: { from: null, to: "Better" },
+    });
+  });
+
+  it("compares dates and nested values by content", () => {
+    const at = "2026-03-01T10:00:00.000Z";
+    expect(
+      diffAuditValues(
+        { verifiedAt: new Date(at), tags: ["a"] },
+        { verifiedAt: new Date(at), tags: ["a"] },
+      ),
+    ).toEqual({});
+    expect(diffAuditValues({ verifiedAt: null }, { verifiedAt: new Date(at) })).toEqual({
+      verifiedAt: { from: null, to: at },
+    });
+  });
+
+  it("treats a missing side as a created or deleted record", () => {
+    expect(diffAuditValues(null, { status: "draft" })).toEqual({ status: { from: null, to: "draft" } });
+    expect(diffAuditValues({ status: "draft" }, null)).toEqual({ status: { from: "draft", to: null } });
+  });
+});
+
+describe("auditLogFilterSchema", () => {
+  it("coerces query strings and rejects unknown entity types", () => {
+    const parsed = auditLogFilterSchema.parse({ entityType: "payment", from: "2026-01-01", limit: "50" });
+    expect(parsed).toMatchObject({ entityType: "payment", limit: 50 });
+    expect(parsed.from).toBeInstanceOf(Date);
+    expect(auditLogFilterSchema.parse({}).limit).toBe(100);
+    expect(auditLogFilterSchema.safeParse({ entityType: "course" }).success).toBe(false);
+  });
+});
+
+describe("buildAuditLogCsv", () => {
+  it("writes the actor, entity and a readable diff", () => {
+    const csv = buildAuditLogCsv([
+      {
+        createdAt: new Date("2026-02-01T09:30:00Z"),
+        action: "verify_payment",
+        entityType: "payment",
+        entityId: "p1",
+        targetUserId: "u2",
+        previousValue: null,
+        newValue: null,
+        changes: { status: { from: "pending", to: "verified" } },
+        metadata: null,
+        performedBy: { email: "admin@x.com", firstName: "Ada", lastName: null },
+      },
+      {
+        createdAt: "2026-02-02T00:00:00Z",
+        action: "lock_account",
+        entityType: null,
+        entityId: null,
+        targetUserId: "u3",
+        previousValue: "active",
+        newValue: "locked",
+        changes: null,
+        metadata: { attempts: 5 },
+        performedBy: null,
+      },
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "Time,Actor,Action,Entity Type,Entity ID,Target User,Changes,Metadata",
+      "2026-02-01T09:30:00.000Z,Ada <admin@x.com>,verify_payment,payment,p1,u2,status: pending -> verified,",
+      '2026-02-02T00:00:00.000Z,System,lock_account,,,u3,active -> locked,"{""attempts"":5}"',
+    ]);
+  });
+});
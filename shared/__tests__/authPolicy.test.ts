@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyLoginFailure,
+  canUseTwoFactor,
+  checkOtpUsable,
+  getAuthTokenExpiry,
+  getImpersonationBlocker,
+  getImpersonationExpiry,
+  getLockoutMinutes,
+  getLoginDelaySeconds,
+  getLoginRetryAfterSeconds,
+  getOtpExpiry,
+  getOtpResendWaitSeconds,
+  isTwoFactorRequired,
+  shouldRevokeSessions,
+  validateNewPassword,
+  type LoginThrottleState,
+} from "../authPolicy";
+
+describe("getAuthTokenExpiry", () => {
+  const issuedAt = new Date(2025, 4, 1, 9, 0);
+
+  it("expires password reset tokens after an hour", () => {
+    expect(getAuthTokenExpiry("password_reset", issuedAt)).toEqual(new Date(2025, 4, 1, 10, 0));
+  });
+
+  it("keeps email verification tokens for two days", () => {
+    expect(getAuthTokenExpiry("email_verification", issuedAt)).toEqual(new Date(2025, 4, 3, 9, 0));
+  });
+});
+
+describe("validateNewPassword", () => {
+  it("accepts passwords of the minimum length", () => {
+    expect(validateNewPassword("secret")).toBeNull();
+  });
+
+  it("rejects missing and short passwords", () => {
+    expect(validateNewPassword(undefined)).toBe("Password is required");
+    expect(validateNewPassword("abc")).toBe("Password must be at least 6 characters");
+  });
+});
+
+describe("login throttling", () => {
+  const now = new Date(2025, 4, 1, 9, 0, 0);
+  const clean: LoginThrottleState = { failedCount: 0, lastFailedAt: null, lockedUntil: null, lockoutCount: 0 };
+
+  it("allows the free attempts without delay, then doubles the wait", () => {
+    expect(getLoginDelaySeconds("account", 3)).toBe(0);
+    expect(getLoginDelaySeconds("account", 4)).toBe(1);
+    expect(getLoginDelaySeconds("ip", 14)).toBe(8);
+    expect(getLoginDelaySeconds("ip", 29)).toBe(30);
+  });
+
+  it("makes the caller wait out the delay since the last failure", () => {
+    const state = { ...clean, failedCount: 4, lastFailedAt: now };
+    expect(getLoginRetryAfterSeconds("account", state, now)).toBe(1);
+    expect(getLoginRetryAfterSeconds("account", state, new Date(now.getTime() + 1000))).toBe(0);
+  });
+
+  it("forgets failures outside the window", () => {
+    const state = { ...clean, failedCount: 4, lastFailedAt: new Date(2025, 4, 1, 8, 0) };
+    expect(getLoginRetryAfterSeconds("account", state, now)).toBe(0);
+    expect(applyLoginFailure("account", state, now).state.failedCount).toBe(1);
+  });
+
+  it("locks the account on reaching the threshold", () => {
+    const state = { ...clean, failedCount: 4, lastFailedAt: new Date(2025, 4, 1, 8, 59) };
+    const result = applyLoginFailure("account", state, now);
+    expect(result.lockedNow).toBe(true);
+    expect(result.state.failedCount).toBe(0);
+    expect(result.state.lockedUntil).toEqual(new Date(2025, 4, 1, 9, 15));
+    expect(getLoginRetryAfterSeconds("account", result.state, now)).toBe(15 * 60);
+  });
+
+  it("lengthens repeat lockouts up to a day", () => {
+    expect(getLockoutMinutes(1)).toBe(15);
+    expect(getLockoutMinutes(2)).toBe(30);
+    expect(getLockoutMinutes(10)).toBe(24 * 60);
+  });
+});
+
+describe("phone OTP rules", () => {
+  const now = new Date(2025, 4, 1, 9, 0, 0);
+
+  it("expires codes after ten minutes", () => {
+    expect(getOtpExpiry(now)).toEqual(new Date(2025, 4, 1, 9, 10, 0));
+  });
+
+  it("enforces a cooldown between sends", () => {
+    expect(getOtpResendWaitSeconds(null, now)).toBe(0);
+    expect(getOtpResendWaitSeconds(new Date(2025, 4, 1, 8, 59, 30), now)).toBe(30);
+    expect(getOtpResendWaitSeconds(new Date(2025, 4, 1, 8, 59, 0), now)).toBe(0);
+  });
+
+  it("refuses missing, expired and exhausted codes", () => {
+    const later = new Date(2025, 4, 1, 9, 5);
+    expect(checkOtpUsable(undefined, now)).toBe("missing");
+    expect(checkOtpUsable({ expiresAt: now, attempts: 0 }, now)).toBe("expired");
+    expect(checkOtpUsable({ expiresAt: later, attempts: 5 }, now)).toBe("too_many_attempts");
+    expect(checkOtpUsable({ expiresAt: later, attempts: 4 }, now)).toBe("ok");
+  });
+});
+
+describe("two-factor rules", () => {
+  const user = (role: string, adminLevel = 1, isSuperAdmin = false) => ({ role, adminLevel, isSuperAdmin });
+
+  it("offers two-factor to staff only", () => {
+    expect(canUseTwoFactor(user("tutor"))).toBe(true);
+    expect(canUseTwoFactor(user("manager"))).toBe(true);
+    expect(canUseTwoFactor(user("student"))).toBe(false);
+    expect(canUseTwoFactor(user("parent", 1, true))).toBe(true);
+  });
+
+  it("requires it for admins at level 3 and above and for super admins", () => {
+    expect(isTwoFactorRequired(user("admin", 2))).toBe(false);
+    expect(isTwoFactorRequired(user("admin", 3))).toBe(true);
+    expect(isTwoFactorRequired(user("manager", 4))).toBe(false);
+    expect(isTwoFactorRequired(user("tutor", 1, true))).toBe(true);
+  });
+});
+
+describe("session revocation rules", () => {
+  const base = { role: "tutor", status: "active", isActive: true, adminLevel: 2, isSuperAdmin: false };
+
+  it("revokes when an account is deactivated, suspended or rejected", () => {
+    expect(shouldRevokeSessions(base, { ...base, isActive: false })).toBe(true);
+    expect(shouldRevokeSessions(base, { ...base, status: "suspended" })).toBe(true);
+    expect(shouldRevokeSessions({ ...base, status: "pending" }, { ...base, status: "rejected" })).toBe(true);
+    expect(shouldRevokeSessions({ ...base, status: "pending" }, base)).toBe(false);
+  });
+
+  it("revokes on demotion but not on promotion", () => {
+    expect(shouldRevokeSessions(base, { ...base, role: "student" })).toBe(true);
+    expect(shouldRevokeSessions(base, { ...base, adminLevel: 1 })).toBe(true);
+    expect(shouldRevokeSessions({ ...base, isSuperAdmin: true }, base)).toBe(true);
+    expect(shouldRevokeSessions(base, { ...base, role: "admin", adminLevel: 3 })).toBe(false);
+  });
+
+  it("treats a sideways role change as a loss of access", () => {
+    expect(shouldRevokeSessions({ ...base, role: "student" }, { ...base, role: "parent" })).toBe(true);
+  });
+});
+
+describe("impersonation rules", () => {
+  const superAdmin = { id: "sa", isSuperAdmin: true, isActive: true };
+  const parent = { id: "p1", isSuperAdmin: false, isActive: true };
+
+  it("lets super admins sign in as active, non-super-admin users", () => {
+    expect(getImpersonationBlocker(superAdmin, parent)).toBeNull();
+  });
+
+  it("refuses other actors, themselves, super admins and inactive users", () => {
+    expect(getImpersonationBlocker(parent, superAdmin)).not.toBeNull();
+    expect(getImpersonationBlocker(superAdmin, superAdmin)).not.toBeNull();
+    expect(getImpersonationBlocker(superAdmin, { ...superAdmin, id: "sa2" })).not.toBeNull();
+    expect(getImpersonationBlocker(superAdmin, { ...parent, isActive: false })).not.toBeNull();
+  });
+
+  it("clamps the time limit to between one minute and two hours", () => {
+    const start = new Date(2025, 4, 1, 9, 0);
+    expect(getImpersonationExpiry(start)).toEqual(new Date(2025, 4, 1, 9, 30));
+    expect(getImpersonationExpiry(start, 600)).toEqual(new Date(2025, 4, 1, 11, 0));
+    expect(getImpersonationExpiry(start, 0)).toEqual(new Date(2025, 4, 1, 9, 1));
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateBlendedRate,
+  calculateLineAmount,
+  calculateTopUpMinutes,
+  getBillingPeriod,
+  getDunningStageToSend,
+  isPastDue,
+} from "../billingPolicy";
+
+describe("getBillingPeriod", () => {
+  it("spans the whole calendar month", () => {
+    const period = getBillingPeriod("2025-02");
+    expect(period?.start).toEqual(new Date(2025, 1, 1, 0, 0, 0, 0));
+    expect(period?.end).toEqual(new Date(2025, 1, 28, 23, 59, 59, 999));
+  });
+
+  it("rejects malformed months", () => {
+    expect(getBillingPeriod("2025-13")).toBeNull();
+    expect(getBillingPeriod("Feb 2025")).toBeNull();
+  });
+});
+
+describe("calculateTopUpMinutes", () => {
+  it("bills nothing when the balance already covers usage", () => {
+    expect(calculateTopUpMinutes(120, 180)).toBe(0);
+  });
+
+  it("bills the shortfall in 15-minute blocks", () => {
+    expect(calculateTopUpMinutes(120, 50)).toBe(75);
+  });
+
+  it("adds an overdrawn balance on top of usage", () => {
+    expect(calculateTopUpMinutes(120, -60)).toBe(180);
+    expect(calculateTopUpMinutes(0, -30)).toBe(30);
+  });
+});
+
+describe("calculateLineAmount", () => {
+  it("prices minutes at the hourly rate", () => {
+    expect(calculateLineAmount(90, 400)).toEqual({ hours: "1.50", amount: "600.00" });
+    expect(calculateLineAmount(45, 266.67)).toEqual({ hours: "0.75", amount: "200.00" });
+  });
+});
+
+describe("calculateBlendedRate", () => {
+  it("weights each session's rate by its minutes", () => {
+    expect(calculateBlendedRate([
+      { minutes: 60, hourlyRate: 400, baseRate: 400 },
+      { minutes: 120, hourlyRate: 500, baseRate: 500 },
+    ])).toEqual({ hourlyRate: 466.67, baseRate: 466.67, discountPercent: 0 });
+  });
+
+  it("reports the effective discount across sessions", () => {
+    expect(calculateBlendedRate([
+      { minutes: 60, hourlyRate: 360, baseRate: 400 },
+      { minutes: 60, hourlyRate: 400, baseRate: 400 },
+    ])).toEqual({ hourlyRate: 380, baseRate: 400, discountPercent: 5 });
+  });
+
+  it("has no rate without usage", () => {
+    expect(calculateBlendedRate([])).toBeNull();
+    expect(calculateBlendedRate([{ minutes: 0, hourlyRate: 400, baseRate: 400 }])).toBeNull();
+  });
+});
+
+describe("isPastDue", () => {
+  const dueDate = new Date(2025, 2, 10, 9, 0);
+
+  it("is not overdue during the due date itself", () => {
+    expect(isPastDue(dueDate, new Date(2025, 2, 10, 23, 0))).toBe(false);
+  });
+
+  it("is overdue from the following day", () => {
+    expect(isPastDue(dueDate, new Date(2025, 2, 11, 0, 1))).toBe(true);
+  });
+});
+
+describe("getDunningStageToSend", () => {
+  const dueDate = new Date(2025, 2, 10, 9, 0);
+
+  it("sends nothing before the first reminder", () => {
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 6, 12, 0), [])).toBeNull();
+  });
+
+  it("sends each stage once it is reached", () => {
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 7, 0, 0), [])).toBe("due_soon");
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 10, 0, 0), ["due_soon"])).toBe("due_today");
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 17, 8, 0), ["due_soon", "due_today"])).toBe("overdue_7");
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 24, 8, 0), ["overdue_7"])).toBe("overdue_14");
+  });
+
+  it("never repeats a stage that was already sent", () => {
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 12, 0, 0), ["due_today"])).toBeNull();
+    expect(getDunningStageToSend(dueDate, new Date(2025, 4, 1, 0, 0), ["overdue_14"])).toBeNull();
+  });
+
+  it("skips missed stages and sends only the latest one", () => {
+    expect(getDunningStageToSend(dueDate, new Date(2025, 2, 20, 0, 0), [])).toBe("overdue_7");
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "../csv";
+
+describe("parseCsv", () => {
+  it("handles quoted fields, doubled quotes and CRLF line endings", () => {
+    const csv = 'email,firstName\r\n"a@x.com","Smith, ""Jo"""\r\nb@x.com,"Two\nLines"\r\n';
+    expect(parseCsv(csv)).toEqual([
+      ["email", "firstName"],
+      ["a@x.com", 'Smith, "Jo"'],
+      ["b@x.com", "Two\nLines"],
+    ]);
+  });
+
+  it("drops a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFemail\n\na@x.com\n,\n")).toEqual([["email"], ["a@x.com"]]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells with commas, quotes or line breaks", () => {
+    expect(toCsv([["a", "b,c"], ['say "hi"', "two\nlines"]])).toBe('a,"b,c"\r\n"say ""hi""","two\nlines"');
+  });
+
+  it("stops spreadsheet apps from running cells as formulas", () => {
+    expect(toCsv([["=SUM(A1)", "+1", "-2", "@x", "ok"]])).toBe("'=SUM(A1),'+1,'-2,'@x,ok");
+  });
+
+  it("reads back what it writes", () => {
+    const rows = [["name", "note"], ["Jo", 'Said "yes", then left']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
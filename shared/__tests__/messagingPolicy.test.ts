@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { getMessagingRetentionCutoff, resolveMessagingRecipientIds } from "../messagingPolicy";
+import {
+  getMessagingRetentionCutoff,
+  resolveCourseThreadAccess,
+  resolveMessagingRecipientIds,
+} from "../messagingPolicy";
 
 describe("resolveMessagingRecipientIds", () => {
   const relationships = {
@@ -40,6 +44,31 @@ describe("resolveMessagingRecipientIds", () => {
   });
 });
 
+describe("resolveCourseThreadAccess", () => {
+  const viewer = { isSuperAdmin: false, isParticipant: false, hasChildParticipant: false };
+
+  it("lets members of the course post", () => {
+    expect(resolveCourseThreadAccess({ ...viewer, role: "tutor", isParticipant: true })).toBe("write");
+    expect(resolveCourseThreadAccess({ ...viewer, role: "student", isParticipant: true })).toBe("write");
+  });
+
+  it("gives staff read-only access for moderation", () => {
+    expect(resolveCourseThreadAccess({ ...viewer, role: "manager" })).toBe("read");
+    expect(resolveCourseThreadAccess({ ...viewer, role: "admin" })).toBe("read");
+    expect(resolveCourseThreadAccess({ ...viewer, role: "tutor", isSuperAdmin: true })).toBe("read");
+  });
+
+  it("gives parents read-only access only when a child is in the course", () => {
+    expect(resolveCourseThreadAccess({ ...viewer, role: "parent", hasChildParticipant: true })).toBe("read");
+    expect(resolveCourseThreadAccess({ ...viewer, role: "parent" })).toBeNull();
+  });
+
+  it("denies students and tutors outside the course", () => {
+    expect(resolveCourseThreadAccess({ ...viewer, role: "student" })).toBeNull();
+    expect(resolveCourseThreadAccess({ ...viewer, role: "tutor", hasChildParticipant: true })).toBeNull();
+  });
+});
+
 describe("getMessagingRetentionCutoff", () => {
   it("returns a cutoff 12 months before the reference date by default", () => {
     const reference = new Date("2025-03-15T00:00:00.000Z");
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatInviteCode,
+  getParentLinkBlocker,
+  normalizeInviteCode,
+  pickBillingParents,
+} from "../parentLinkPolicy";
+
+describe("normalizeInviteCode", () => {
+  it("accepts the code however it was typed", () => {
+    expect(normalizeInviteCode("abcd-efgh")).toBe("ABCDEFGH");
+    expect(normalizeInviteCode(" ABCD EFGH ")).toBe("ABCDEFGH");
+    expect(normalizeInviteCode(formatInviteCode("K7M2P9QR"))).toBe("K7M2P9QR");
+  });
+
+  it("rejects the wrong length and characters that are never issued", () => {
+    expect(normalizeInviteCode("ABCDEFG")).toBeNull();
+    expect(normalizeInviteCode("ABCDEFGHJ")).toBeNull();
+    expect(normalizeInviteCode("ABCDEFG0")).toBeNull();
+    expect(normalizeInviteCode("ABCDEFG1")).toBeNull();
+  });
+});
+
+describe("getParentLinkBlocker", () => {
+  const parent = { id: "p1", role: "parent" };
+  const student = { id: "s1", role: "student" };
+
+  it("allows a parent and a student who are not yet linked", () => {
+    expect(getParentLinkBlocker(parent, student, [{ parentId: "p2", childId: "s1" }])).toBeNull();
+  });
+
+  it("refuses the wrong roles and existing links", () => {
+    expect(getParentLinkBlocker({ id: "t1", role: "tutor" }, student, [])).toMatch(/parent accounts/);
+    expect(getParentLinkBlocker(parent, { id: "p2", role: "parent" }, [])).toMatch(/student accounts/);
+    expect(getParentLinkBlocker(parent, student, [{ parentId: "p1", childId: "s1" }])).toMatch(/already linked/);
+  });
+});
+
+describe("pickBillingParents", () => {
+  const link = (parentId: string, childId: string, createdAt: string, isPrimaryBilling = false) => ({
+    parentId,
+    childId,
+    createdAt: new Date(createdAt),
+    isPrimaryBilling,
+  });
+
+  it("bills the earliest link when no parent is marked as primary", () => {
+    const parents = pickBillingParents([
+      link("p2", "s1", "2025-02-01"),
+      link("p1", "s1", "2025-01-01"),
+    ]);
+    expect(parents.get("s1")).toBe("p1");
+  });
+
+  it("bills the primary billing contact over an earlier link", () => {
+    const parents = pickBillingParents([
+      link("p1", "s1", "2025-01-01"),
+      link("p2", "s1", "2025-02-01", true),
+      link("p1", "s2", "2025-01-01"),
+    ]);
+    expect(parents.get("s1")).toBe("p2");
+    expect(parents.get("s2")).toBe("p1");
+  });
+});
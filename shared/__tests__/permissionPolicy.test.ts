@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_PERMISSION_MAP,
+  getPermissions,
+  hasPermission,
+  validatePermissionMap,
+} from "../permissionPolicy";
+
+const user = (role: string, adminLevel = 1, isSuperAdmin = false) => ({ role, adminLevel, isSuperAdmin });
+
+describe("getPermissions", () => {
+  it("adds grants for higher admin levels on top of the base role grant", () => {
+    const staff = getPermissions(user("admin", 1), DEFAULT_PERMISSION_MAP);
+    const finance = getPermissions(user("admin", 3), DEFAULT_PERMISSION_MAP);
+
+    expect(staff).toContain("users.manage");
+    expect(staff).not.toContain("invoices.write");
+    expect(finance).toContain("users.manage");
+    expect(finance).toContain("invoices.write");
+  });
+
+  it("does not give managers finance access through their admin level", () => {
+    expect(hasPermission(user("manager", 4), "payroll.approve", DEFAULT_PERMISSION_MAP)).toBe(false);
+    expect(hasPermission(user("manager", 1), "wallets.adjust", DEFAULT_PERMISSION_MAP)).toBe(true);
+  });
+
+  it("gives super admins every permission regardless of the map", () => {
+    expect(getPermissions(user("tutor", 1, true), [])).toEqual(ALL_PERMISSIONS);
+  });
+
+  it("gives students and parents nothing by default", () => {
+    expect(getPermissions(user("student"), DEFAULT_PERMISSION_MAP)).toEqual([]);
+    expect(getPermissions(user("parent"), DEFAULT_PERMISSION_MAP)).toEqual([]);
+  });
+});
+
+describe("validatePermissionMap", () => {
+  it("accepts the default map", () => {
+    expect(validatePermissionMap(DEFAULT_PERMISSION_MAP)).toBeNull();
+  });
+
+  it("rejects unknown roles, permissions and levels", () => {
+    expect(validatePermissionMap({})).not.toBeNull();
+    expect(validatePermissionMap([{ role: "owner", minAdminLevel: 1, permissions: [] }])).toMatch(/role/);
+    expect(validatePermissionMap([{ role: "admin", minAdminLevel: 9, permissions: [] }])).toMatch(/level/);
+    expect(validatePermissionMap([{ role: "admin", minAdminLevel: 1, permissions: ["root"] }])).toMatch(/root/);
+    expect(validatePermissionMap([{ role: "admin", minAdminLevel: 1, permissions: ["toString"] }])).toMatch(/toString/);
+  });
+
+  it("rejects two grants for the same role and level", () => {
+    const grant = { role: "admin", minAdminLevel: 2, permissions: [] };
+    expect(validatePermissionMap([grant, grant])).toMatch(/Duplicate/);
+  });
+});
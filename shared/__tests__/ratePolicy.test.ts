@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { applyDiscount, findEffectiveEntry, findEffectiveScopedEntry } from "../ratePolicy";
+
+describe("findEffectiveEntry", () => {
+  const rates = [
+    { id: "jan", effectiveFrom: new Date(2025, 0, 1) },
+    { id: "mar", effectiveFrom: new Date(2025, 2, 1) },
+    { id: "jun", effectiveFrom: new Date(2025, 5, 1) },
+  ];
+
+  it("picks the latest rate effective on the date", () => {
+    expect(findEffectiveEntry(rates, new Date(2025, 3, 15))?.id).toBe("mar");
+    expect(findEffectiveEntry(rates, new Date(2025, 2, 1))?.id).toBe("mar");
+  });
+
+  it("returns nothing before the first rate", () => {
+    expect(findEffectiveEntry(rates, new Date(2024, 11, 31))).toBeUndefined();
+  });
+});
+
+describe("findEffectiveScopedEntry", () => {
+  const rates = [
+    { id: "general", courseId: null, effectiveFrom: new Date(2025, 0, 1) },
+    { id: "maths", courseId: "maths", effectiveFrom: new Date(2025, 3, 1) },
+  ];
+
+  it("prefers a course-specific rate once it is effective", () => {
+    expect(findEffectiveScopedEntry(rates, "maths", new Date(2025, 4, 1))?.id).toBe("maths");
+  });
+
+  it("falls back to the general rate", () => {
+    expect(findEffectiveScopedEntry(rates, "maths", new Date(2025, 1, 1))?.id).toBe("general");
+    expect(findEffectiveScopedEntry(rates, "science", new Date(2025, 4, 1))?.id).toBe("general");
+  });
+});
+
+describe("applyDiscount", () => {
+  it("reduces the rate by the percentage", () => {
+    expect(applyDiscount(400, 10)).toBe(360);
+    expect(applyDiscount(266.67, 15)).toBe(226.67);
+  });
+
+  it("clamps out-of-range discounts", () => {
+    expect(applyDiscount(400, 120)).toBe(0);
+    expect(applyDiscount(400, -5)).toBe(400);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLateChangeChargeMinutes,
+  getMissedSessionChargeMinutes,
+  getRescheduleChargeMinutes,
+  getRescheduleOptionError,
+  getScheduledMinutes,
+  isLateChange,
+  rescheduleAcceptInputSchema,
+  rescheduleRequestInputSchema,
+  toRescheduleOptions,
+} from "../reschedulePolicy";
+
+const at = (hour: number, minute = 0) => new Date(Date.UTC(2025, 6, 15, hour, minute));
+const option = (startHour: number, endHour: number) => ({ startTime: at(startHour), endTime: at(endHour) });
+
+describe("getScheduledMinutes", () => {
+  it("prefers the stored length and rounds up to billing blocks", () => {
+    expect(getScheduledMinutes({ scheduledMinutes: 50, scheduledStartTime: at(10), scheduledEndTime: at(11) })).toBe(60);
+  });
+
+  it("falls back to the scheduled times", () => {
+    expect(getScheduledMinutes({ scheduledMinutes: null, scheduledStartTime: at(10), scheduledEndTime: at(11, 30) })).toBe(90);
+  });
+});
+
+describe("late change charges", () => {
+  it("treats less than two hours of notice as late", () => {
+    expect(isLateChange(at(12), at(10, 1))).toBe(true);
+    expect(isLateChange(at(12), at(10))).toBe(false);
+  });
+
+  it("charges half the session, rounded up to a 15-minute block", () => {
+    expect(getMissedSessionChargeMinutes(60)).toBe(30);
+    expect(getMissedSessionChargeMinutes(45)).toBe(30);
+    expect(getLateChangeChargeMinutes(90, at(12), at(11))).toBe(45);
+  });
+
+  it("charges nothing with enough notice", () => {
+    expect(getLateChangeChargeMinutes(60, at(12), at(9))).toBe(0);
+  });
+});
+
+describe("getRescheduleChargeMinutes", () => {
+  it("charges the student for asking late", () => {
+    expect(getRescheduleChargeMinutes(60, at(12), at(11), false)).toBe(30);
+    expect(getRescheduleChargeMinutes(60, at(12), at(9), false)).toBe(0);
+  });
+
+  it("never charges for a move the tutor asks for", () => {
+    expect(getRescheduleChargeMinutes(60, at(12), at(11), true)).toBe(0);
+  });
+});
+
+describe("rescheduleRequestInputSchema", () => {
+  it("accepts up to three aligned, separate times", () => {
+    const parsed = rescheduleRequestInputSchema.parse({
+      proposedTimes: [option(9, 10), option(10, 11), option(14, 15)],
+      reason: "  Clash with exams ",
+    });
+    expect(parsed.proposedTimes).toHaveLength(3);
+    expect(parsed.reason).toBe("Clash with exams");
+  });
+
+  it("rejects empty, oversized, overlapping and misaligned proposals", () => {
+    expect(rescheduleRequestInputSchema.safeParse({ proposedTimes: [] }).success).toBe(false);
+    expect(
+      rescheduleRequestInputSchema.safeParse({ proposedTimes: [option(8, 9), option(9, 10), option(10, 11), option(11, 12)] }).success
+    ).toBe(false);
+    expect(rescheduleRequestInputSchema.safeParse({ proposedTimes: [option(9, 11), option(10, 12)] }).success).toBe(false);
+    expect(
+      rescheduleRequestInputSchema.safeParse({ proposedTimes: [{ startTime: at(9, 10), endTime: at(10, 10) }] }).success
+    ).toBe(false);
+    expect(rescheduleRequestInputSchema.safeParse({ proposedTimes: [option(10, 9)] }).success).toBe(false);
+  });
+
+  it("keeps proposals as ISO strings for storage", () => {
+    expect(toRescheduleOptions([option(9, 10)])).toEqual([
+      { startTime: "2025-07-15T09:00:00.000Z", endTime: "2025-07-15T10:00:00.000Z" },
+    ]);
+  });
+});
+
+describe("rescheduleAcceptInputSchema", () => {
+  it("only allows an index within the option limit", () => {
+    expect(rescheduleAcceptInputSchema.parse({ optionIndex: "2" }).optionIndex).toBe(2);
+    expect(rescheduleAcceptInputSchema.safeParse({ optionIndex: 3 }).success).toBe(false);
+  });
+});
+
+describe("getRescheduleOptionError", () => {
+  const session = { scheduledStartTime: at(15), scheduledEndTime: at(16) };
+
+  it("rejects past times and the session's current time", () => {
+    expect(getRescheduleOptionError(option(8, 9), session, at(9))).toBe("Proposed times must be in the future");
+    expect(getRescheduleOptionError(option(15, 16), session, at(9))).toBe("A proposed time matches the current session time");
+  });
+
+  it("allows a future time that moves the session", () => {
+    expect(getRescheduleOptionError(option(17, 18), session, at(9))).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_RECURRENCE_OCCURRENCES,
+  describeRecurrence,
+  expandRecurrence,
+  shiftOccurrence,
+} from "../schedulingPolicy";
+
+describe("expandRecurrence", () => {
+  const start = new Date(2025, 0, 6, 16, 0);
+  const end = new Date(2025, 0, 6, 17, 0);
+
+  it("creates weekly occurrences up to the requested count", () => {
+    const occurrences = expandRecurrence(start, end, { frequency: "weekly", count: 3 });
+    expect(occurrences.map((o) => o.start)).toEqual([
+      new Date(2025, 0, 6, 16, 0),
+      new Date(2025, 0, 13, 16, 0),
+      new Date(2025, 0, 20, 16, 0),
+    ]);
+    expect(occurrences[2].end).toEqual(new Date(2025, 0, 20, 17, 0));
+  });
+
+  it("spaces fortnightly occurrences two weeks apart and includes the end date", () => {
+    const occurrences = expandRecurrence(start, end, {
+      frequency: "fortnightly",
+      until: new Date(2025, 1, 3),
+    });
+    expect(occurrences.map((o) => o.start)).toEqual([
+      new Date(2025, 0, 6, 16, 0),
+      new Date(2025, 0, 20, 16, 0),
+      new Date(2025, 1, 3, 16, 0),
+    ]);
+  });
+
+  it("caps series length", () => {
+    const occurrences = expandRecurrence(start, end, { frequency: "weekly", count: 500 });
+    expect(occurrences).toHaveLength(MAX_RECURRENCE_OCCURRENCES);
+  });
+});
+
+describe("shiftOccurrence", () => {
+  it("moves start and end by the offset", () => {
+    const shifted = shiftOccurrence(
+      { start: new Date(2025, 0, 6, 16, 0), end: new Date(2025, 0, 6, 17, 0) },
+      -30,
+    );
+    expect(shifted).toEqual({
+      start: new Date(2025, 0, 6, 15, 30),
+      end: new Date(2025, 0, 6, 16, 30),
+    });
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("returns null for one-off proposals", () => {
+    expect(
+      describeRecurrence({ recurrenceFrequency: null, recurrenceCount: null, recurrenceEndDate: null }),
+    ).toBeNull();
+  });
+
+  it("describes count and end-date series", () => {
+    expect(
+      describeRecurrence({ recurrenceFrequency: "weekly", recurrenceCount: 6, recurrenceEndDate: null }),
+    ).toBe("Weekly, 6 sessions");
+    expect(
+      describeRecurrence({
+        recurrenceFrequency: "fortnightly",
+        recurrenceCount: null,
+        recurrenceEndDate: new Date(2025, 2, 31),
+      }),
+    ).toBe("Fortnightly until Mar 31, 2025");
+  });
+});
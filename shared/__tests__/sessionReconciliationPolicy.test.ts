@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAutoEndBillableMinutes,
+  getAutoEndTime,
+  getNoShowCutoff,
+  getNoShowOutcome,
+  isOverrunDue,
+} from "../sessionReconciliationPolicy";
+
+const at = (hour: number, minute = 0) => new Date(Date.UTC(2025, 6, 15, hour, minute));
+
+const session = (overrides: Partial<Parameters<typeof getNoShowOutcome>[0]> = {}) => ({
+  scheduledStartTime: at(10),
+  scheduledEndTime: at(11),
+  isGroupSession: false,
+  studentJoinTime: null,
+  tutorJoinTime: null,
+  ...overrides,
+});
+
+describe("getNoShowCutoff", () => {
+  it("waits out the grace period after the start", () => {
+    expect(getNoShowCutoff(session(), 15)).toEqual(at(10, 15));
+  });
+
+  it("never waits past the scheduled end", () => {
+    expect(getNoShowCutoff(session({ scheduledEndTime: at(10, 10) }), 15)).toEqual(at(10, 10));
+  });
+});
+
+describe("getNoShowOutcome", () => {
+  it("decides nothing before the cutoff", () => {
+    expect(getNoShowOutcome(session({ tutorJoinTime: at(10) }), at(10, 14), 15)).toBeNull();
+  });
+
+  it("blames the student when only the tutor joined", () => {
+    expect(getNoShowOutcome(session({ tutorJoinTime: at(10) }), at(10, 15), 15)).toBe("student_no_show");
+  });
+
+  it("blames the tutor when only the student joined", () => {
+    expect(getNoShowOutcome(session({ studentJoinTime: at(10) }), at(10, 15), 15)).toBe("tutor_no_show");
+  });
+
+  it("does not charge the student when nobody joined", () => {
+    expect(getNoShowOutcome(session(), at(10, 30), 15)).toBe("tutor_no_show");
+  });
+
+  it("only waits on the tutor for group sessions", () => {
+    expect(getNoShowOutcome(session({ isGroupSession: true }), at(10, 30), 15)).toBe("tutor_no_show");
+    expect(getNoShowOutcome(session({ isGroupSession: true, tutorJoinTime: at(10) }), at(10, 30), 15)).toBeNull();
+  });
+});
+
+describe("overrunning sessions", () => {
+  it("are due once the grace period after the end has passed", () => {
+    expect(isOverrunDue(session(), at(11, 14), 15)).toBe(false);
+    expect(isOverrunDue(session(), at(11, 15), 15)).toBe(true);
+  });
+
+  it("end at the scheduled end, or at the start if they began after it", () => {
+    expect(getAutoEndTime({ ...session(), actualStartTime: at(10, 5) })).toEqual(at(11));
+    expect(getAutoEndTime({ ...session(), actualStartTime: at(11, 5) })).toEqual(at(11, 5));
+  });
+
+  it("bill the time run up to the scheduled length", () => {
+    expect(getAutoEndBillableMinutes(at(10, 5), at(11), 60)).toBe(55);
+    expect(getAutoEndBillableMinutes(at(9, 30), at(11), 60)).toBe(60);
+    expect(getAutoEndBillableMinutes(at(11, 5), at(11, 5), 60)).toBe(0);
+  });
+});
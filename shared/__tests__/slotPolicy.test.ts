@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyAvailabilityExceptions,
+  availabilityExceptionInputSchema,
+  expandWeeklyAvailability,
+  getFreeRanges,
+  getSlotBlocker,
+  listBookableSlots,
+  mergeRanges,
+  parseTimeOfDay,
+  slotSearchSchema,
+  subtractRanges,
+} from "../slotPolicy";
+
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 0, day, hour, minute);
+const range = (start: Date, end: Date) => ({ start, end });
+// at() builds dates in the runtime's zone, so windows are read in the same zone
+const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+describe("parseTimeOfDay", () => {
+  it("reads HH:MM and rejects anything else", () => {
+    expect(parseTimeOfDay("09:30")).toBe(570);
+    expect(parseTimeOfDay("24:00")).toBe(1440);
+    expect(parseTimeOfDay("9:75")).toBeNull();
+    expect(parseTimeOfDay("noon")).toBeNull();
+  });
+});
+
+describe("range arithmetic", () => {
+  it("merges overlapping and touching ranges", () => {
+    expect(mergeRanges([range(at(6, 12), at(6, 13)), range(at(6, 9), at(6, 10)), range(at(6, 10), at(6, 11))])).toEqual([
+      range(at(6, 9), at(6, 11)),
+      range(at(6, 12), at(6, 13)),
+    ]);
+  });
+
+  it("cuts busy time out of the middle and edges", () => {
+    expect(subtractRanges([range(at(6, 9), at(6, 17))], [range(at(6, 8), at(6, 10)), range(at(6, 12), at(6, 13))])).toEqual([
+      range(at(6, 10), at(6, 12)),
+      range(at(6, 13), at(6, 17)),
+    ]);
+  });
+});
+
+describe("expandWeeklyAvailability", () => {
+  it("places weekly windows on matching dates inside the range", () => {
+    // 6 Jan 2025 is a Monday
+    const ranges = expandWeeklyAvailability(
+      [
+        { dayOfWeek: 1, startTime: "09:00", endTime: "12:00", timeZone: localZone },
+        { dayOfWeek: 1, startTime: "11:00", endTime: "13:00", timeZone: localZone },
+        { dayOfWeek: 3, startTime: "14:00", endTime: "16:00", timeZone: localZone },
+      ],
+      at(6, 10),
+      at(13, 0),
+    );
+    expect(ranges).toEqual([range(at(6, 10), at(6, 13)), range(at(8, 14), at(8, 16))]);
+  });
+
+  it("keeps the tutor's wall-clock hours across a DST change in their zone", () => {
+    // London moves from GMT to BST on Sunday 30 March 2025
+    const ranges = expandWeeklyAvailability(
+      [{ dayOfWeek: 6, startTime: "09:00", endTime: "10:00", timeZone: "Europe/London" },
+        { dayOfWeek: 1, startTime: "09:00", endTime: "10:00", timeZone: "Europe/London" }],
+      new Date("2025-03-29T00:00:00Z"),
+      new Date("2025-04-01T00:00:00Z"),
+    );
+    expect(ranges).toEqual([
+      range(new Date("2025-03-29T09:00:00Z"), new Date("2025-03-29T10:00:00Z")),
+      range(new Date("2025-03-31T08:00:00Z"), new Date("2025-03-31T09:00:00Z")),
+    ]);
+  });
+
+  it("reads days in the window's zone rather than the range's", () => {
+    // 23:00 Monday in New York is already Tuesday in UTC
+    const ranges = expandWeeklyAvailability(
+      [{ dayOfWeek: 1, startTime: "22:00", endTime: "23:30", timeZone: "America/New_York" }],
+      new Date("2025-01-06T00:00:00Z"),
+      new Date("2025-01-08T00:00:00Z"),
+    );
+    expect(ranges).toEqual([range(new Date("2025-01-07T03:00:00Z"), new Date("2025-01-07T04:30:00Z"))]);
+  });
+});
+
+describe("bookable slots", () => {
+  const availability = [range(at(6, 9), at(6, 12))];
+  const now = at(1, 0);
+
+  it("steps through free time in 15-minute starts and keeps the buffer around busy time", () => {
+    const free = getFreeRanges(availability, [range(at(6, 10), at(6, 10, 30))], 15);
+    expect(free).toEqual([range(at(6, 9), at(6, 9, 45)), range(at(6, 10, 45), at(6, 12))]);
+    const slots = listBookableSlots(free, 45, now);
+    expect(slots.map((slot) => slot.start)).toEqual([at(6, 9), at(6, 10, 45), at(6, 11), at(6, 11, 15)]);
+  });
+
+  it("skips slots that have already started and rounds up to the next boundary", () => {
+    const slots = listBookableSlots(availability, 60, at(6, 10, 5));
+    expect(slots.map((slot) => slot.start)).toEqual([at(6, 10, 15), at(6, 10, 30), at(6, 10, 45), at(6, 11)]);
+  });
+
+  it("explains why a requested time is not bookable", () => {
+    expect(getSlotBlocker(range(at(6, 9), at(6, 10)), availability, now)).toBeNull();
+    expect(getSlotBlocker(range(at(6, 9), at(6, 9, 50)), availability, now)).toMatch(/15-minute blocks/);
+    expect(getSlotBlocker(range(at(6, 9, 5), at(6, 9, 20)), availability, now)).toMatch(/boundary/);
+    expect(getSlotBlocker(range(at(6, 11, 30), at(6, 12, 30)), availability, now)).toMatch(/not available/);
+    expect(getSlotBlocker(range(at(6, 9), at(6, 10)), availability, at(7, 0))).toMatch(/past/);
+  });
+});
+
+describe("slotSearchSchema", () => {
+  it("defaults the duration and limits the range", () => {
+    expect(slotSearchSchema.parse({ from: "2025-01-06", to: "2025-01-20" }).duration).toBe(60);
+    expect(slotSearchSchema.safeParse({ from: "2025-01-06", to: "2025-03-20" }).success).toBe(false);
+    expect(slotSearchSchema.safeParse({ from: "2025-01-06", to: "2025-01-07", duration: "50" }).success).toBe(false);
+  });
+});
+
+describe("availability exceptions", () => {
+  const weekly = [range(at(6, 9), at(6, 12)), range(at(7, 9), at(7, 12))];
+
+  it("adds extra hours and removes time off", () => {
+    const ranges = applyAvailabilityExceptions(
+      weekly,
+      [
+        { type: "extra_hours", startTime: at(6, 12), endTime: at(6, 14) },
+        { type: "extra_hours", startTime: at(8, 15), endTime: at(8, 16) },
+        { type: "time_off", startTime: at(6, 10), endTime: at(6, 11) },
+        { type: "time_off", startTime: at(7, 0), endTime: at(8, 0) },
+      ],
+      at(6, 0),
+      at(9, 0),
+    );
+    expect(ranges).toEqual([range(at(6, 9), at(6, 10)), range(at(6, 11), at(6, 14)), range(at(8, 15), at(8, 16))]);
+  });
+
+  it("validates exception input by type", () => {
+    const input = (type: "time_off" | "extra_hours", start: Date, end: Date) =>
+      availabilityExceptionInputSchema.safeParse({ type, startTime: start.toISOString(), endTime: end.toISOString() });
+    expect(input("time_off", at(6, 9, 5), at(20, 17)).success).toBe(true);
+    expect(input("time_off", at(6, 9), at(6, 9)).success).toBe(false);
+    expect(input("extra_hours", at(6, 18), at(6, 20)).success).toBe(true);
+    expect(input("extra_hours", at(6, 18, 10), at(6, 20)).success).toBe(false);
+    expect(input("extra_hours", at(6, 18), at(8, 20)).success).toBe(false);
+  });
+});
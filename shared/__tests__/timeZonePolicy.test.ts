@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  formatSessionTime,
+  fromZonedTime,
+  getTimeZoneOffsetMinutes,
+  resolveTimeZone,
+  timeZoneSchema,
+  toZonedTime,
+  zonedTimeToDate,
+} from "../timeZonePolicy";
+
+describe("time zone preferences", () => {
+  it("accepts IANA zones and falls back to the default", () => {
+    expect(timeZoneSchema.safeParse("Europe/London").success).toBe(true);
+    expect(timeZoneSchema.safeParse("Mars/Olympus_Mons").success).toBe(false);
+    expect(resolveTimeZone("America/New_York")).toBe("America/New_York");
+    expect(resolveTimeZone("nowhere")).toBe(DEFAULT_TIME_ZONE);
+    expect(resolveTimeZone(null)).toBe(DEFAULT_TIME_ZONE);
+  });
+});
+
+describe("zoned wall-clock times", () => {
+  it("follows DST offsets", () => {
+    expect(getTimeZoneOffsetMinutes(new Date("2025-01-15T12:00:00Z"), "Europe/London")).toBe(0);
+    expect(getTimeZoneOffsetMinutes(new Date("2025-07-15T12:00:00Z"), "Europe/London")).toBe(60);
+    expect(getTimeZoneOffsetMinutes(new Date("2025-07-15T12:00:00Z"), "America/New_York")).toBe(-240);
+    expect(getTimeZoneOffsetMinutes(new Date("2025-07-15T12:00:00Z"), "Africa/Johannesburg")).toBe(120);
+  });
+
+  it("turns wall-clock times into instants, including around DST changes", () => {
+    expect(zonedTimeToDate(2025, 7, 15, 9 * 60, "Europe/London")).toEqual(new Date("2025-07-15T08:00:00Z"));
+    expect(zonedTimeToDate(2025, 1, 15, 24 * 60, "Africa/Johannesburg")).toEqual(new Date("2025-01-15T22:00:00Z"));
+    // 01:30 does not exist in London on 30 March 2025 and moves forward to 02:30 BST
+    expect(zonedTimeToDate(2025, 3, 30, 90, "Europe/London")).toEqual(new Date("2025-03-30T01:30:00Z"));
+    // 01:30 happens twice on 26 October 2025; the later (GMT) one is used
+    expect(zonedTimeToDate(2025, 10, 26, 90, "Europe/London")).toEqual(new Date("2025-10-26T01:30:00Z"));
+  });
+
+  it("round-trips through zoned display dates", () => {
+    const instant = new Date("2025-03-31T16:45:00Z");
+    const zoned = toZonedTime(instant, "America/Los_Angeles");
+    expect([zoned.getDate(), zoned.getHours(), zoned.getMinutes()]).toEqual([31, 9, 45]);
+    expect(fromZonedTime(zoned, "America/Los_Angeles")).toEqual(instant);
+  });
+
+  it("formats session times for the reader's zone", () => {
+    const start = new Date("2025-07-15T14:00:00Z");
+    expect(formatInTimeZone(start, "Europe/London", "yyyy-MM-dd HH:mm")).toBe("2025-07-15 15:00");
+    expect(formatSessionTime(start, "Africa/Johannesburg")).toBe("Tue, Jul 15, 2025 at 4:00 PM SAST");
+    expect(formatSessionTime(start, "Europe/London")).toBe("Tue, Jul 15, 2025 at 3:00 PM BST");
+    expect(formatSessionTime(start, "America/New_York")).toBe("Tue, Jul 15, 2025 at 10:00 AM EDT");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { decodeFileNameHeader, getUploadIdFromUrl, isUploadPurpose, sniffMimeType, validateUpload } from "../uploadPolicy";
+
+const pdfBytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+const exeBytes = new Uint8Array([0x4d, 0x5a, 0x90, 0x00]);
+
+describe("isUploadPurpose", () => {
+  it("accepts only the configured purposes", () => {
+    expect(isUploadPurpose("submission")).toBe(true);
+    expect(isUploadPurpose("toString")).toBe(false);
+    expect(isUploadPurpose("constructor")).toBe(false);
+    expect(isUploadPurpose(undefined)).toBe(false);
+  });
+});
+
+describe("decodeFileNameHeader", () => {
+  it("decodes the header or falls back when it is missing", () => {
+    expect(decodeFileNameHeader("R%C3%A9sum%C3%A9.pdf", "upload")).toBe("Résumé.pdf");
+    expect(decodeFileNameHeader(undefined, "upload")).toBe("upload");
+  });
+
+  it("rejects malformed encodings", () => {
+    expect(decodeFileNameHeader("%E0%A4%A", "upload")).toBeNull();
+  });
+});
+
+describe("sniffMimeType", () => {
+  it("recognises common document and image signatures", () => {
+    expect(sniffMimeType(pdfBytes)).toBe("application/pdf");
+    expect(sniffMimeType(pngBytes)).toBe("image/png");
+    expect(sniffMimeType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+  });
+
+  it("returns null for unknown content", () => {
+    expect(sniffMimeType(exeBytes)).toBeNull();
+  });
+});
+
+describe("validateUpload", () => {
+  it("accepts an allowed type whose contents match", () => {
+    expect(validateUpload("payment_proof", "application/pdf", pdfBytes)).toBeNull();
+    expect(validateUpload("course_image", "image/png; charset=binary", pngBytes)).toBeNull();
+  });
+
+  it("rejects types not allowed for the purpose", () => {
+    expect(validateUpload("profile_image", "application/pdf", pdfBytes)).toMatch(/not allowed/);
+  });
+
+  it("rejects files whose contents do not match the declared type", () => {
+    expect(validateUpload("payment_proof", "application/pdf", exeBytes)).toMatch(/do not match/);
+  });
+
+  it("rejects empty and oversized files", () => {
+    expect(validateUpload("payment_proof", "application/pdf", new Uint8Array())).toBe("File is empty");
+    const oversized = new Uint8Array(2 * 1024 * 1024 + 1);
+    oversized.set(pngBytes);
+    expect(validateUpload("profile_image", "image/png", oversized)).toMatch(/too large/);
+  });
+});
+
+describe("getUploadIdFromUrl", () => {
+  it("extracts the id from an upload download URL", () => {
+    expect(getUploadIdFromUrl("/api/uploads/0f8fad5b-d9cb-469f-a165-70867728950e"))
+      .toBe("0f8fad5b-d9cb-469f-a165-70867728950e");
+  });
+
+  it("ignores external and malformed URLs", () => {
+    expect(getUploadIdFromUrl("https://example.com/image.png")).toBeNull();
+    expect(getUploadIdFromUrl("/api/uploads/../../etc/passwd")).toBeNull();
+    expect(getUploadIdFromUrl(null)).toBeNull();
+  });
+});
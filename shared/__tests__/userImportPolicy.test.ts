@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildImportReportCsv,
+  tableToImportRows,
+  validateImportRows,
+  type UserImportContext,
+} from "../userImportPolicy";
+
+describe("tableToImportRows", () => {
+  it("matches headers loosely and splits list columns", () => {
+    const { rows } = tableToImportRows([
+      ["E-mail", "First Name", "Role", "Parent Emails", "Courses"],
+      ["Kid@X.com", "Kid", "Student", "mum@x.com; DAD@x.com", "Maths|Physics"],
+    ]);
+    expect(rows[0]).toMatchObject({
+      rowNumber: 2,
+      email: "kid@x.com",
+      firstName: "Kid",
+      role: "student",
+      parentEmails: ["mum@x.com", "dad@x.com"],
+      courses: ["Maths", "Physics"],
+    });
+  });
+
+  it("needs an email column and at least one row", () => {
+    expect(tableToImportRows([["name"], ["x"]]).error).toMatch(/email column/);
+    expect(tableToImportRows([["email"]]).error).toMatch(/no data rows/);
+  });
+});
+
+describe("validateImportRows", () => {
+  const context: UserImportContext = {
+    existingUsers: new Map([
+      ["dad@x.com", { role: "parent" }],
+      ["tutor@x.com", { role: "tutor" }],
+    ]),
+    courses: [
+      { id: "c1", title: "Maths" },
+      { id: "c2", title: "Physics" },
+      { id: "c3", title: "Physics" },
+    ],
+  };
+
+  const rows = (table: string[][]) => tableToImportRows([["email", "role", "parentEmails", "courses"], ...table]).rows;
+
+  it("creates new users, matches existing ones and resolves parents from the file", () => {
+    const results = validateImportRows(
+      rows([
+        ["mum@x.com", "parent", "", ""],
+        ["kid@x.com", "", "mum@x.com;dad@x.com", "maths;c2"],
+        ["dad@x.com", "", "", ""],
+      ]),
+      context,
+    );
+    expect(results.map((r) => r.errors)).toEqual([[], [], []]);
+    expect(results.map((r) => r.action)).toEqual(["create", "create", "match"]);
+    expect(results[1]).toMatchObject({ role: "student", courseIds: ["c1", "c2"] });
+  });
+
+  it("reports every problem on the row it belongs to", () => {
+    const results = validateImportRows(
+      rows([
+        ["not-an-email", "student", "", ""],
+        ["a@x.com", "admin", "", ""],
+        ["tutor@x.com", "student", "", ""],
+        ["kid@x.com", "student", "tutor@x.com;nobody@x.com", "Physics;Chemistry"],
+        ["b@x.com", "", "", ""],
+        ["b@x.com", "", "", ""],
+        ["newtutor@x.com", "tutor", "", ""],
+      ]),
+      context,
+    );
+    expect(results[0].errors).toContain("Invalid email address");
+    expect(results[1].errors[0]).toMatch(/Role must be one of/);
+    expect(results[2].errors).toContain("Existing account is a tutor; imports do not change roles");
+    expect(results[3].errors).toEqual([
+      "tutor@x.com is not a parent account",
+      "Parent nobody@x.com is not in the file or an existing user",
+      'Course "Physics" matches more than one course; use its ID',
+      'Course "Chemistry" not found',
+    ]);
+    expect(results[4].errors).toContain("Email appears more than once in the file");
+    expect(results[6].errors[0]).toMatch(/Role must be one of: student, parent$/);
+    expect(results.every((r) => r.action === null)).toBe(true);
+  });
+});
+
+describe("buildImportReportCsv", () => {
+  it("writes one line per row and quotes fields that need it", () => {
+    const csv = buildImportReportCsv([
+      { rowNumber: 2, email: "a@x.com", role: "student", action: "create", parentEmails: ["p@x.com"], courseIds: [], errors: [] },
+      { rowNumber: 3, email: "b@x.com", role: null, action: null, parentEmails: [], courseIds: [], errors: ["Bad, very bad"] },
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "Row,Email,Role,Result,Parents,Courses,Errors",
+      "2,a@x.com,student,created,1,0,",
+      '3,b@x.com,,error,0,0,"Bad, very bad"',
+    ]);
+  });
+});
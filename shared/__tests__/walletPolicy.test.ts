@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { extendWalletExpiry, isExpiryNoticeDue, isWalletExpired } from "../walletPolicy";
+
+describe("extendWalletExpiry", () => {
+  const purchasedAt = new Date(2025, 0, 1, 10, 0);
+
+  it("starts the validity period at the purchase", () => {
+    expect(extendWalletExpiry(null, purchasedAt, 90)).toEqual(new Date(2025, 3, 1, 10, 0));
+  });
+
+  it("pushes an earlier expiry out to the new period", () => {
+    expect(extendWalletExpiry(new Date(2025, 1, 1), purchasedAt, 90)).toEqual(new Date(2025, 3, 1, 10, 0));
+  });
+
+  it("never shortens a later expiry", () => {
+    const later = new Date(2026, 0, 1);
+    expect(extendWalletExpiry(later, purchasedAt, 90)).toBe(later);
+  });
+});
+
+describe("isWalletExpired", () => {
+  const now = new Date(2025, 5, 1, 12, 0);
+
+  it("treats wallets without an expiry date as valid", () => {
+    expect(isWalletExpired({ status: "active", expiresAt: null }, now)).toBe(false);
+  });
+
+  it("expires at the expiry instant even before the job runs", () => {
+    expect(isWalletExpired({ status: "active", expiresAt: new Date(2025, 5, 1, 12, 0) }, now)).toBe(true);
+    expect(isWalletExpired({ status: "active", expiresAt: new Date(2025, 5, 2) }, now)).toBe(false);
+  });
+
+  it("respects an expired status", () => {
+    expect(isWalletExpired({ status: "expired", expiresAt: null }, now)).toBe(true);
+  });
+});
+
+describe("isExpiryNoticeDue", () => {
+  const expiresAt = new Date(2025, 5, 15, 0, 0);
+
+  it("is due within the notice window", () => {
+    expect(isExpiryNoticeDue(expiresAt, new Date(2025, 5, 1, 0, 0), 14)).toBe(true);
+    expect(isExpiryNoticeDue(expiresAt, new Date(2025, 5, 14, 23, 0), 14)).toBe(true);
+  });
+
+  it("is not due before the window or after expiry", () => {
+    expect(isExpiryNoticeDue(expiresAt, new Date(2025, 4, 31, 23, 0), 14)).toBe(false);
+    expect(isExpiryNoticeDue(expiresAt, new Date(2025, 5, 15, 0, 0), 14)).toBe(false);
+  });
+});
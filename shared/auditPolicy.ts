@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { toCsv } from "./csv";
+
+// Records an audited mutation can point at; entityId is that record's id
+export const AUDIT_ENTITY_TYPES = {
+  user: "User",
+  grade: "Grade",
+  hour_wallet: "Hour wallet",
+  payment: "Payment",
+  invoice: "Invoice",
+  payout: "Payout",
+  report: "Report",
+} as const;
+
+export type AuditEntityType = keyof typeof AUDIT_ENTITY_TYPES;
+
+export const MAX_AUDIT_LOG_LIMIT = 1000;
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+export type AuditChange = { from: unknown; to: unknown };
+export type AuditChanges = Record<string, AuditChange>;
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(["updatedAt", "createdAt"]);
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Field-level diff of a record before and after a mutation. A null side means
+// the record was created or deleted, so every field on the other side counts.
+export function diffAuditValues(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (!sameValue(from, to)) changes[key] = { from, to };
+  }
+  return changes;
+}
+
+// Query string filters for the super-admin audit log views
+export const auditLogFilterSchema = z.object({
+  entityType: z.enum(Object.keys(AUDIT_ENTITY_TYPES) as [AuditEntityType, ...AuditEntityType[]]).optional(),
+  entityId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  action: z.string().min(1).max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_LOG_LIMIT).default(100),
+});
+
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "(empty)";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatAuditChanges(changes: AuditChanges | null | undefined): string[] {
+  return Object.entries(changes ?? {}).map(
+    ([field, change]) => `${field}: ${formatValue(change.from)} -> ${formatValue(change.to)}`,
+  );
+}
+
+type AuditCsvRow = {
+  createdAt: Date | string | null;
+  action: string;
+  entityType: string | null;
+  entityId: string | null;
+  targetUserId: string | null;
+  previousValue: string | null;
+  newValue: string | null;
+  changes: unknown;
+  metadata: unknown;
+  performedBy: { email: string | null; firstName: string | null; lastName: string | null } | null;
+};
+
+function actorLabel(actor: AuditCsvRow["performedBy"]): string {
+  if (!actor) return "System";
+  const name = [actor.firstName, actor.lastName].filter(Boolean).join(" ");
+  return name && actor.email ? `${name} <${actor.email}>` : name || actor.email || "";
+}
+
+export function buildAuditLogCsv(logs: AuditCsvRow[]): string {
+  const lines = [["Time", "Actor", "Action", "Entity Type", "Entity ID", "Target User", "Changes", "Metadata"]];
+  for (const log of logs) {
+    const changes = formatAuditChanges(log.changes as AuditChanges | null);
+    if (changes.length === 0 && (log.previousValue || log.newValue)) {
+      changes.push(`${formatValue(log.previousValue)} -> ${formatValue(log.newValue)}`);
+    }
+    lines.push([
+      log.createdAt ? new Date(log.createdAt).toISOString() : "",
+      actorLabel(log.performedBy),
+      log.action,
+      log.entityType ?? "",
+      log.entityId ?? "",
+      log.targetUserId ?? "",
+      changes.join("; "),
+      log.metadata ? JSON.stringify(log.metadata) : "",
+    ]);
+  }
+  return toCsv(lines);
+}
@@ -0,0 +1,196 @@
+import { addMinutes, addSeconds, differenceInMinutes } from "date-fns";
+import type { AuthTokenPurpose, LoginThrottleScope } from "./schema";
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Reset links are short-lived; verification links can sit in an inbox for a couple of days
+// and invitations to imported accounts for a week
+export const AUTH_TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 48 * 60,
+  invitation: 7 * 24 * 60,
+};
+
+export function getAuthTokenExpiry(purpose: AuthTokenPurpose, issuedAt: Date): Date {
+  return addMinutes(issuedAt, AUTH_TOKEN_TTL_MINUTES[purpose]);
+}
+
+// Returns why the password is unacceptable, or null when it can be used
+export function validateNewPassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length === 0) return "Password is required";
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Failed sign-ins are counted per account and per client IP. After the free
+// attempts each further failure doubles the wait before the next try, and
+// reaching the lockout threshold locks the key; repeat lockouts last longer.
+export const LOGIN_THROTTLE_RULES: Record<LoginThrottleScope, { freeAttempts: number; lockAfter: number }> = {
+  account: { freeAttempts: 3, lockAfter: 5 },
+  ip: { freeAttempts: 10, lockAfter: 30 },
+};
+
+export const LOGIN_FAILURE_WINDOW_MINUTES = 30;
+export const LOGIN_LOCKOUT_BASE_MINUTES = 15;
+export const LOGIN_LOCKOUT_MAX_MINUTES = 24 * 60;
+export const LOGIN_MAX_DELAY_SECONDS = 30;
+
+export type LoginThrottleState = {
+  failedCount: number;
+  lastFailedAt: Date | null;
+  lockedUntil: Date | null;
+  lockoutCount: number;
+};
+
+// Failures older than the window no longer count against the key
+export function getRecentFailureCount(state: LoginThrottleState, now: Date): number {
+  if (!state.lastFailedAt) return 0;
+  if (differenceInMinutes(now, state.lastFailedAt) >= LOGIN_FAILURE_WINDOW_MINUTES) return 0;
+  return state.failedCount;
+}
+
+export function getLoginDelaySeconds(scope: LoginThrottleScope, failures: number): number {
+  const extra = failures - LOGIN_THROTTLE_RULES[scope].freeAttempts;
+  if (extra <= 0) return 0;
+  return Math.min(LOGIN_MAX_DELAY_SECONDS, 2 ** (extra - 1));
+}
+
+export function getLockoutMinutes(lockoutCount: number): number {
+  return Math.min(LOGIN_LOCKOUT_MAX_MINUTES, LOGIN_LOCKOUT_BASE_MINUTES * 2 ** Math.max(0, lockoutCount - 1));
+}
+
+// Seconds until the key may try again; 0 when an attempt is allowed now
+export function getLoginRetryAfterSeconds(scope: LoginThrottleScope, state: LoginThrottleState, now: Date): number {
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return Math.ceil((state.lockedUntil.getTime() - now.getTime()) / 1000);
+  }
+  const delay = getLoginDelaySeconds(scope, getRecentFailureCount(state, now));
+  if (delay === 0 || !state.lastFailedAt) return 0;
+  const readyAt = addSeconds(state.lastFailedAt, delay);
+  return Math.max(0, Math.ceil((readyAt.getTime() - now.getTime()) / 1000));
+}
+
+// Records one more failure. Hitting the threshold starts a lockout and resets
+// the counter; a day without failures forgets earlier lockouts.
+export function applyLoginFailure(
+  scope: LoginThrottleScope,
+  state: LoginThrottleState,
+  now: Date,
+): { state: LoginThrottleState; lockedNow: boolean } {
+  const failedCount = getRecentFailureCount(state, now) + 1;
+  const lockoutCount =
+    state.lastFailedAt && differenceInMinutes(now, state.lastFailedAt) < LOGIN_LOCKOUT_MAX_MINUTES ? state.lockoutCount : 0;
+
+  if (failedCount >= LOGIN_THROTTLE_RULES[scope].lockAfter) {
+    const nextLockoutCount = lockoutCount + 1;
+    return {
+      state: {
+        failedCount: 0,
+        lastFailedAt: now,
+        lockedUntil: addMinutes(now, getLockoutMinutes(nextLockoutCount)),
+        lockoutCount: nextLockoutCount,
+      },
+      lockedNow: true,
+    };
+  }
+
+  return {
+    state: { failedCount, lastFailedAt: now, lockedUntil: state.lockedUntil, lockoutCount },
+    lockedNow: false,
+  };
+}
+
+// Phone sign-in codes
+export const OTP_LENGTH = 6;
+export const OTP_TTL_MINUTES = 10;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+export function getOtpExpiry(sentAt: Date): Date {
+  return addMinutes(sentAt, OTP_TTL_MINUTES);
+}
+
+// Seconds before another code may be sent to the same number; 0 when allowed now
+export function getOtpResendWaitSeconds(lastSentAt: Date | null, now: Date): number {
+  if (!lastSentAt) return 0;
+  const readyAt = addSeconds(lastSentAt, OTP_RESEND_COOLDOWN_SECONDS);
+  return Math.max(0, Math.ceil((readyAt.getTime() - now.getTime()) / 1000));
+}
+
+export type OtpCheck = "ok" | "missing" | "expired" | "too_many_attempts";
+
+// Decides whether a stored code may still be checked; attempts counts earlier wrong guesses
+export function checkOtpUsable(otp: { expiresAt: Date; attempts: number } | undefined, now: Date): OtpCheck {
+  if (!otp) return "missing";
+  if (otp.expiresAt <= now) return "expired";
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) return "too_many_attempts";
+  return "ok";
+}
+
+// Two-factor authentication is offered to staff and enforced for senior admins
+const TWO_FACTOR_ROLES = ["tutor", "manager", "admin"];
+
+export const TWO_FACTOR_CHALLENGE_TTL_MINUTES = 5;
+export const RECOVERY_CODE_COUNT = 10;
+
+type TwoFactorSubject = { role: string; adminLevel: number | null; isSuperAdmin: boolean };
+
+export function canUseTwoFactor(user: TwoFactorSubject): boolean {
+  return user.isSuperAdmin || TWO_FACTOR_ROLES.includes(user.role);
+}
+
+export function isTwoFactorRequired(user: TwoFactorSubject): boolean {
+  return user.isSuperAdmin || (user.role === "admin" && (user.adminLevel ?? 0) >= 3);
+}
+
+// Signed-in sessions are revoked when an account loses access or privileges
+export const SESSION_ACTIVITY_INTERVAL_SECONDS = 60;
+
+const ROLE_PRIVILEGE: Record<string, number> = {
+  student: 0,
+  parent: 0,
+  tutor: 1,
+  manager: 2,
+  admin: 3,
+};
+
+const REVOKING_STATUSES = ["suspended", "rejected"];
+
+type SessionAccessState = {
+  role: string;
+  status: string;
+  isActive: boolean;
+  adminLevel: number | null;
+  isSuperAdmin: boolean;
+};
+
+export function shouldRevokeSessions(before: SessionAccessState, after: SessionAccessState): boolean {
+  if (before.isActive && !after.isActive) return true;
+  if (before.status !== after.status && REVOKING_STATUSES.includes(after.status)) return true;
+  if (before.isSuperAdmin && !after.isSuperAdmin) return true;
+  if ((ROLE_PRIVILEGE[after.role] ?? 0) < (ROLE_PRIVILEGE[before.role] ?? 0)) return true;
+  if (before.role !== after.role && ROLE_PRIVILEGE[after.role] === ROLE_PRIVILEGE[before.role]) return true;
+  return (after.adminLevel ?? 0) < (before.adminLevel ?? 0);
+}
+
+// Super admins may sign in as another user for support, for a limited time
+export const IMPERSONATION_DEFAULT_MINUTES = 30;
+export const IMPERSONATION_MAX_MINUTES = 120;
+
+type ImpersonationSubject = { id: string; isSuperAdmin: boolean; isActive: boolean };
+
+// Returns why the actor may not impersonate the target, or null when allowed
+export function getImpersonationBlocker(actor: ImpersonationSubject, target: ImpersonationSubject): string | null {
+  if (!actor.isSuperAdmin) return "Only Super Admins can sign in as another user";
+  if (actor.id === target.id) return "You cannot sign in as yourself";
+  if (target.isSuperAdmin) return "Super Admin accounts cannot be impersonated";
+  if (!target.isActive) return "Inactive accounts cannot be impersonated";
+  return null;
+}
+
+export function getImpersonationExpiry(startedAt: Date, minutes: number = IMPERSONATION_DEFAULT_MINUTES): Date {
+  const clamped = Math.min(Math.max(Math.round(minutes), 1), IMPERSONATION_MAX_MINUTES);
+  return new Date(startedAt.getTime() + clamped * 60 * 1000);
+}
@@ -0,0 +1,83 @@
+import { addDays, endOfDay, endOfMonth, isValid, parse, startOfDay, startOfMonth } from "date-fns";
+
+export const BILLING_BLOCK_MINUTES = 15;
+
+export type BillingPeriod = {
+  label: string;
+  start: Date;
+  end: Date;
+};
+
+// Parses a "yyyy-MM" billing month into its first and last instant
+export function getBillingPeriod(month: string): BillingPeriod | null {
+  if (!/^\d{4}-\d{2}$/.test(month)) return null;
+  const parsed = parse(month, "yyyy-MM", new Date());
+  if (!isValid(parsed)) return null;
+  return {
+    label: month,
+    start: startOfMonth(parsed),
+    end: endOfMonth(parsed),
+  };
+}
+
+// Minutes to invoice so the wallet covers another period at the same usage.
+// A negative balance (overdrawn wallet) is always topped back up.
+export function calculateTopUpMinutes(usedMinutes: number, walletBalanceMinutes: number): number {
+  const needed = Math.max(0, usedMinutes - walletBalanceMinutes);
+  return Math.ceil(needed / BILLING_BLOCK_MINUTES) * BILLING_BLOCK_MINUTES;
+}
+
+export function calculateLineAmount(minutes: number, hourlyRate: number): { hours: string; amount: string } {
+  const hours = minutes / 60;
+  return {
+    hours: hours.toFixed(2),
+    amount: (Math.round(hours * hourlyRate * 100) / 100).toFixed(2),
+  };
+}
+
+export type PricedUsage = {
+  minutes: number;
+  hourlyRate: number;
+  baseRate: number;
+};
+
+// Averages the rates of individually priced sessions, weighted by their minutes, so
+// a period that spans a rate change is billed at what each session actually cost
+export function calculateBlendedRate(usage: PricedUsage[]): { hourlyRate: number; baseRate: number; discountPercent: number } | null {
+  const totalMinutes = usage.reduce((sum, u) => sum + u.minutes, 0);
+  if (totalMinutes <= 0) return null;
+
+  const hourlyRate = Math.round(usage.reduce((sum, u) => sum + u.minutes * u.hourlyRate, 0) / totalMinutes * 100) / 100;
+  const baseRate = Math.round(usage.reduce((sum, u) => sum + u.minutes * u.baseRate, 0) / totalMinutes * 100) / 100;
+  const discountPercent = baseRate > 0 ? Math.round((1 - hourlyRate / baseRate) * 10000) / 100 : 0;
+  return { hourlyRate, baseRate, discountPercent };
+}
+
+export type DunningStage = "due_soon" | "due_today" | "overdue_7" | "overdue_14";
+
+// Reminder stages relative to the invoice due date, in days
+export const DUNNING_SCHEDULE: { stage: DunningStage; offsetDays: number }[] = [
+  { stage: "due_soon", offsetDays: -3 },
+  { stage: "due_today", offsetDays: 0 },
+  { stage: "overdue_7", offsetDays: 7 },
+  { stage: "overdue_14", offsetDays: 14 },
+];
+
+// An invoice becomes overdue once its whole due date has passed
+export function isPastDue(dueDate: Date, now: Date): boolean {
+  return now > endOfDay(dueDate);
+}
+
+// The latest reminder stage reached by now, unless it (or a later one) was already sent.
+// Earlier stages that were missed are not sent late.
+export function getDunningStageToSend(dueDate: Date, now: Date, sentStages: DunningStage[]): DunningStage | null {
+  const reached = DUNNING_SCHEDULE.filter((s) => startOfDay(addDays(dueDate, s.offsetDays)) <= now);
+  const latest = reached[reached.length - 1];
+  if (!latest) return null;
+
+  const latestIndex = DUNNING_SCHEDULE.indexOf(latest);
+  const alreadySent = DUNNING_SCHEDULE.some(
+    (s, index) => index >= latestIndex && sentStages.includes(s.stage),
+  );
+  return alreadySent ? null : latest.stage;
+}
@@ -3,6 +3,8 @@ import type { UserRole } from "./schema";
 
 export const MESSAGING_RETENTION_MONTHS = 12;
 
+export const CHAT_SOCKET_PATH = "/ws/chat";
+
 export type MessagingRelationshipSet = {
   allUserIds?: string[];
   staffIds: string[];
@@ -31,6 +33,22 @@ export function resolveMessagingRecipientIds(
   }
 }
 
+// Course threads are written by their members (tutor and actively enrolled students);
+// staff can read them for moderation and parents can follow their children's courses
+export type ChatThreadAccess = "write" | "read" | null;
+
+export function resolveCourseThreadAccess(viewer: {
+  role: UserRole;
+  isSuperAdmin: boolean;
+  isParticipant: boolean;
+  hasChildParticipant: boolean;
+}): ChatThreadAccess {
+  if (viewer.isParticipant) return "write";
+  if (viewer.isSuperAdmin || viewer.role === "admin" || viewer.role === "manager") return "read";
+  if (viewer.role === "parent" && viewer.hasChildParticipant) return "read";
+  return null;
+}
+
 export function getMessagingRetentionCutoff(
   referenceDate: Date = new Date(),
   retentionMonths: number = MESSAGING_RETENTION_MONTHS,
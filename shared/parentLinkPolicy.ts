@@ -0,0 +1,67 @@
+import { addDays } from "date-fns";
+
+export const PARENT_INVITE_CODE_LENGTH = 8;
+// No 0/O or 1/I/L, so a code read out over the phone is still typed correctly
+export const PARENT_INVITE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const PARENT_LINK_REQUEST_VALIDITY_DAYS = 7;
+export const MAX_RELATIONSHIP_LENGTH = 50;
+export const RELATIONSHIP_SUGGESTIONS = ["Mother", "Father", "Guardian", "Grandparent", "Other"];
+
+export function getParentLinkRequestExpiry(now: Date): Date {
+  return addDays(now, PARENT_LINK_REQUEST_VALIDITY_DAYS);
+}
+
+// Shown as two groups of four so it is easier to read and copy
+export function formatInviteCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+// Accepts the code as typed (any case, with or without the dash or spaces);
+// returns null when it cannot be a code at all
+export function normalizeInviteCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, "");
+  if (code.length !== PARENT_INVITE_CODE_LENGTH) return null;
+  return Array.from(code).every((char) => PARENT_INVITE_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+type LinkUser = { id: string; role: string };
+
+export function getParentLinkBlocker(
+  parent: LinkUser,
+  student: LinkUser,
+  existingLinks: { parentId: string; childId: string }[],
+): string | null {
+  if (parent.role !== "parent") return "Only parent accounts can be linked as a parent";
+  if (student.role !== "student") return "Only student accounts can be linked as a child";
+  if (existingLinks.some((link) => link.parentId === parent.id && link.childId === student.id)) {
+    return "This parent and student are already linked";
+  }
+  return null;
+}
+
+type BillingLink = {
+  parentId: string;
+  childId: string;
+  isPrimaryBilling: boolean;
+  createdAt: Date | string | null;
+};
+
+// The parent billed for each child: the link marked as the primary billing
+// contact, or the earliest link when none is marked
+export function pickBillingParents(links: BillingLink[]): Map<string, string> {
+  const time = (link: BillingLink) => (link.createdAt ? new Date(link.createdAt).getTime() : 0);
+  const chosen = new Map<string, BillingLink>();
+
+  for (const link of links) {
+    const current = chosen.get(link.childId);
+    if (
+      !current ||
+      (link.isPrimaryBilling && !current.isPrimaryBilling) ||
+      (link.isPrimaryBilling === current.isPrimaryBilling && time(link) < time(current))
+    ) {
+      chosen.set(link.childId, link);
+    }
+  }
+
+  return new Map(Array.from(chosen.entries()).map(([childId, link]) => [childId, link.parentId]));
+}
@@ -0,0 +1,105 @@
+import type { UserRole } from "./schema";
+
+// Named permissions checked by route middleware and by client navigation.
+// Roles and admin levels map onto these through a permission map that
+// super admins can edit; super admins themselves hold every permission.
+export const PERMISSIONS = {
+  "users.manage": "View and manage user accounts, sessions and sign-in lockouts",
+  "staff.approve": "Approve or reject staff sign-up requests",
+  "wallets.view": "View all hour wallets",
+  "wallets.adjust": "Create hour wallets and top up hours",
+  "payments.verify": "Verify or reject parent payments",
+  "invoices.view": "View all invoices",
+  "invoices.write": "Create, edit and send invoices and run monthly billing",
+  "payroll.view": "View tutor payouts",
+  "payroll.approve": "Create and update payouts and run payroll",
+  "rates.view": "View rate cards",
+  "rates.write": "Add course rates, tutor pay rates and student discounts",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Grants apply to users with the role whose admin level is at least minAdminLevel
+export type PermissionGrant = {
+  role: UserRole;
+  minAdminLevel: number;
+  permissions: Permission[];
+};
+
+export type PermissionMap = PermissionGrant[];
+
+export const MIN_ADMIN_LEVEL = 1;
+export const MAX_ADMIN_LEVEL = 5;
+
+export const DEFAULT_PERMISSION_MAP: PermissionMap = [
+  {
+    role: "manager",
+    minAdminLevel: 1,
+    permissions: ["wallets.view", "wallets.adjust", "payments.verify", "rates.view"],
+  },
+  {
+    role: "admin",
+    minAdminLevel: 1,
+    permissions: ["users.manage", "staff.approve", "wallets.view", "wallets.adjust", "payments.verify", "rates.view"],
+  },
+  {
+    role: "admin",
+    minAdminLevel: 3,
+    permissions: ["invoices.view", "invoices.write", "payroll.view", "payroll.approve", "rates.write"],
+  },
+];
+
+type PermissionSubject = { role: string; adminLevel: number | null; isSuperAdmin: boolean };
+
+export function getPermissions(user: PermissionSubject, map: PermissionMap): Permission[] {
+  if (user.isSuperAdmin) return [...ALL_PERMISSIONS];
+
+  const level = user.adminLevel ?? MIN_ADMIN_LEVEL;
+  const granted = new Set<Permission>();
+  for (const grant of map) {
+    if (grant.role === user.role && level >= grant.minAdminLevel) {
+      grant.permissions.forEach((permission) => granted.add(permission));
+    }
+  }
+  return ALL_PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+export function hasPermission(user: PermissionSubject, permission: Permission, map: PermissionMap): boolean {
+  return getPermissions(user, map).includes(permission);
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && Object.hasOwn(PERMISSIONS, value);
+}
+
+const USER_ROLES: UserRole[] = ["student", "parent", "tutor", "manager", "admin"];
+
+// Checks a map submitted by a super admin; returns an error message or null
+export function validatePermissionMap(input: unknown): string | null {
+  if (!Array.isArray(input)) return "Permission map must be a list of grants";
+
+  const seen = new Set<string>();
+  for (const grant of input) {
+    if (!grant || typeof grant !== "object") return "Each grant must be an object";
+    const { role, minAdminLevel, permissions } = grant as Record<string, unknown>;
+    if (!USER_ROLES.includes(role as UserRole)) return `Invalid role: ${String(role)}`;
+    if (
+      typeof minAdminLevel !== "number" ||
+      !Number.isInteger(minAdminLevel) ||
+      minAdminLevel < MIN_ADMIN_LEVEL ||
+      minAdminLevel > MAX_ADMIN_LEVEL
+    ) {
+      return `Admin level must be between ${MIN_ADMIN_LEVEL} and ${MAX_ADMIN_LEVEL}`;
+    }
+    if (!Array.isArray(permissions)) return "Grant permissions must be a list";
+    const unknown = permissions.find((permission) => !isPermission(permission));
+    if (unknown !== undefined) return `Unknown permission: ${String(unknown)}`;
+
+    const key = `${role}:${minAdminLevel}`;
+    if (seen.has(key)) return `Duplicate grant for ${role} at level ${minAdminLevel}`;
+    seen.add(key);
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+export type EffectiveDated = {
+  effectiveFrom: Date | string;
+};
+
+export type CourseScoped = EffectiveDated & {
+  courseId: string | null;
+};
+
+// Latest entry whose effectiveFrom is on or before the date
+export function findEffectiveEntry<T extends EffectiveDated>(entries: T[], date: Date): T | undefined {
+  let effective: T | undefined;
+  for (const entry of entries) {
+    const from = new Date(entry.effectiveFrom);
+    if (from > date) continue;
+    if (!effective || from >= new Date(effective.effectiveFrom)) {
+      effective = entry;
+    }
+  }
+  return effective;
+}
+
+// A course-specific entry wins over a general (null courseId) one
+export function findEffectiveScopedEntry<T extends CourseScoped>(
+  entries: T[],
+  courseId: string,
+  date: Date,
+): T | undefined {
+  return (
+    findEffectiveEntry(entries.filter((e) => e.courseId === courseId), date) ??
+    findEffectiveEntry(entries.filter((e) => e.courseId === null), date)
+  );
+}
+
+export function applyDiscount(hourlyRate: number, discountPercent: number): number {
+  const clamped = Math.min(Math.max(discountPercent, 0), 100);
+  return Math.round(hourlyRate * (100 - clamped)) / 100;
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { SLOT_STEP_MINUTES, isSlotAligned, rangesOverlap } from "./slotPolicy";
+
+// Changing a session less than this long before it starts costs the student
+// LATE_CHANGE_CHARGE_RATE of its scheduled minutes
+export const LATE_CHANGE_NOTICE_MINUTES = 120;
+export const LATE_CHANGE_CHARGE_RATE = 0.5;
+export const MAX_RESCHEDULE_OPTIONS = 3;
+
+export type RescheduleOption = {
+  startTime: string;
+  endTime: string;
+};
+
+// Billing rounds every charge up to whole 15-minute blocks
+export function roundUpToBillingBlock(minutes: number): number {
+  return Math.ceil(minutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+}
+
+export function getScheduledMinutes(session: {
+  scheduledMinutes: number | null;
+  scheduledStartTime: Date | string;
+  scheduledEndTime: Date | string;
+}): number {
+  const raw = session.scheduledMinutes ||
+    Math.ceil((new Date(session.scheduledEndTime).getTime() - new Date(session.scheduledStartTime).getTime()) / 60000);
+  return roundUpToBillingBlock(raw);
+}
+
+export function isLateChange(scheduledStart: Date | string, changedAt: Date): boolean {
+  return (new Date(scheduledStart).getTime() - changedAt.getTime()) / 60000 < LATE_CHANGE_NOTICE_MINUTES;
+}
+
+// Minutes charged when a session is missed or called off late
+export function getMissedSessionChargeMinutes(scheduledMinutes: number): number {
+  return roundUpToBillingBlock(Math.ceil(scheduledMinutes * LATE_CHANGE_CHARGE_RATE));
+}
+
+// Minutes charged for a late change, or 0 when there was enough notice
+export function getLateChangeChargeMinutes(scheduledMinutes: number, scheduledStart: Date | string, changedAt: Date): number {
+  return isLateChange(scheduledStart, changedAt) ? getMissedSessionChargeMinutes(scheduledMinutes) : 0;
+}
+
+// Charge fixed on a reschedule request when it is made: only the student pays for
+// asking late, a move the tutor asks for never costs the student anything
+export function getRescheduleChargeMinutes(
+  scheduledMinutes: number,
+  scheduledStart: Date | string,
+  requestedAt: Date,
+  requestedByTutor: boolean,
+): number {
+  return requestedByTutor ? 0 : getLateChangeChargeMinutes(scheduledMinutes, scheduledStart, requestedAt);
+}
+
+const rescheduleOptionSchema = z
+  .object({
+    startTime: z.coerce.date(),
+    endTime: z.coerce.date(),
+  })
+  .refine((option) => option.endTime > option.startTime, { message: "Each time must end after it starts" })
+  .refine((option) => isSlotAligned(option.startTime) && isSlotAligned(option.endTime), {
+    message: `Times must start and end on a ${SLOT_STEP_MINUTES}-minute boundary`,
+  });
+
+const proposedTimesSchema = z
+  .array(rescheduleOptionSchema)
+  .min(1, "Propose at least one new time")
+  .max(MAX_RESCHEDULE_OPTIONS, `Propose at most ${MAX_RESCHEDULE_OPTIONS} times`)
+  .refine(
+    (options) => options.every((option, i) => options.slice(0, i).every((other) => !rangesOverlap(
+      { start: option.startTime, end: option.endTime },
+      { start: other.startTime, end: other.endTime },
+    ))),
+    { message: "Proposed times must not overlap" },
+  );
+
+export const rescheduleRequestInputSchema = z.object({
+  proposedTimes: proposedTimesSchema,
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const rescheduleCounterInputSchema = z.object({
+  proposedTimes: proposedTimesSchema,
+  message: z.string().trim().max(500).optional(),
+});
+
+export const rescheduleAcceptInputSchema = z.object({
+  optionIndex: z.coerce.number().int().min(0).max(MAX_RESCHEDULE_OPTIONS - 1),
+});
+
+export const rescheduleDeclineInputSchema = z.object({
+  message: z.string().trim().max(500).optional(),
+});
+
+export function toRescheduleOptions(options: { startTime: Date; endTime: Date }[]): RescheduleOption[] {
+  return options.map((option) => ({
+    startTime: option.startTime.toISOString(),
+    endTime: option.endTime.toISOString(),
+  }));
+}
+
+// Reason a proposed time cannot be offered, or null when it can
+export function getRescheduleOptionError(
+  option: { startTime: Date; endTime: Date },
+  session: { scheduledStartTime: Date | string; scheduledEndTime: Date | string },
+  now: Date,
+): string | null {
+  if (option.startTime <= now) return "Proposed times must be in the future";
+  if (
+    option.startTime.getTime() === new Date(session.scheduledStartTime).getTime() &&
+    option.endTime.getTime() === new Date(session.scheduledEndTime).getTime()
+  ) {
+    return "A proposed time matches the current session time";
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import { addWeeks, endOfDay, format } from "date-fns";
+import type { RecurrenceFrequency } from "./schema";
+
+export const MAX_RECURRENCE_OCCURRENCES = 52;
+
+export type SessionOccurrence = {
+  start: Date;
+  end: Date;
+};
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  until?: Date | null;
+  count?: number | null;
+};
+
+export function getRecurrenceIntervalWeeks(frequency: RecurrenceFrequency): number {
+  return frequency === "fortnightly" ? 2 : 1;
+}
+
+// Expands the first occurrence into the full series. The end date is inclusive of
+// its whole day, and a series never exceeds MAX_RECURRENCE_OCCURRENCES.
+export function expandRecurrence(
+  start: Date,
+  end: Date,
+  rule: RecurrenceRule,
+): SessionOccurrence[] {
+  const intervalWeeks = getRecurrenceIntervalWeeks(rule.frequency);
+  const durationMs = end.getTime() - start.getTime();
+  const limit = Math.min(rule.count ?? MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES);
+  const until = rule.until ? endOfDay(rule.until) : null;
+
+  const occurrences: SessionOccurrence[] = [];
+  for (let i = 0; occurrences.length < limit; i++) {
+    const occurrenceStart = addWeeks(start, i * intervalWeeks);
+    if (until && occurrenceStart > until) break;
+    occurrences.push({
+      start: occurrenceStart,
+      end: new Date(occurrenceStart.getTime() + durationMs),
+    });
+  }
+  return occurrences;
+}
+
+export function shiftOccurrence(occurrence: SessionOccurrence, offsetMinutes: number): SessionOccurrence {
+  const offsetMs = offsetMinutes * 60 * 1000;
+  return {
+    start: new Date(occurrence.start.getTime() + offsetMs),
+    end: new Date(occurrence.end.getTime() + offsetMs),
+  };
+}
+
+export function describeRecurrence(rule: {
+  recurrenceFrequency: RecurrenceFrequency | null;
+  recurrenceCount: number | null;
+  recurrenceEndDate: Date | string | null;
+}): string | null {
+  if (!rule.recurrenceFrequency) return null;
+  const frequency = rule.recurrenceFrequency === "fortnightly" ? "Fortnightly" : "Weekly";
+  if (rule.recurrenceCount) return `${frequency}, ${rule.recurrenceCount} sessions`;
+  if (rule.recurrenceEndDate) return `${frequency} until ${format(new Date(rule.recurrenceEndDate), "MMM d, yyyy")}`;
+  return frequency;
+}
@@ -4,6 +4,7 @@ import {
   jsonb,
   pgTable,
   timestamp,
+  uniqueIndex,
   varchar,
   text,
   integer,
@@ -88,6 +89,15 @@ export const notificationTypeEnum = pgEnum("notification_type", [
   "session_approved",
   "session_rejected",
   "session_cancelled",
+  "session_rescheduled",
+  "parent_link",
+]);
+
+export const parentLinkRequestStatusEnum = pgEnum("parent_link_request_status", [
+  "pending",
+  "accepted",
+  "declined",
+  "cancelled",
 ]);
 
 // Authentication and user status enums
@@ -112,6 +122,30 @@ export const proposalStatusEnum = pgEnum("proposal_status", [
   "rejected",
 ]);
 
+export const recurrenceFrequencyEnum = pgEnum("recurrence_frequency", [
+  "weekly",
+  "fortnightly",
+]);
+
+export const availabilityExceptionTypeEnum = pgEnum("availability_exception_type", [
+  "time_off",
+  "extra_hours",
+]);
+
+export const rescheduleRequestStatusEnum = pgEnum("reschedule_request_status", [
+  "pending",
+  "accepted",
+  "declined",
+  "countered",
+  "withdrawn",
+]);
+
+export const sessionReconciliationOutcomeEnum = pgEnum("session_reconciliation_outcome", [
+  "student_no_show",
+  "tutor_no_show",
+  "auto_ended",
+]);
+
 export const tutoringSessionStatusEnum = pgEnum("tutoring_session_status", [
   "scheduled",
   "in_progress",
@@ -158,6 +192,13 @@ export const disputeStatusEnum = pgEnum("dispute_status", [
   "rejected",
 ]);
 
+export const uploadPurposeEnum = pgEnum("upload_purpose", [
+  "submission",
+  "payment_proof",
+  "course_image",
+  "profile_image",
+]);
+
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
   "sessions",
@@ -186,23 +227,113 @@ export const users = pgTable("users", {
   adminLevel: integer("admin_level").default(1),
   isSuperAdmin: boolean("is_super_admin").default(false).notNull(),
   passwordHash: text("password_hash"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  twoFactorEnabled: boolean("two_factor_enabled").default(false).notNull(),
+  // IANA zone used to show and enter times for this user
+  timeZone: varchar("time_zone", { length: 64 }).default("Africa/Johannesburg").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Audit Logs table (for tracking Super Admin actions)
-export const auditLogs = pgTable("audit_logs", {
+// Audit Logs table (for tracking admin actions). performedById is null for
+// events raised by the system itself, such as login lockouts, and entries
+// outlive the accounts that made them. entityType and
+// entityId name the record a mutation touched; changes holds its field-level
+// before/after diff (see shared/auditPolicy.ts).
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    performedById: varchar("performed_by_id")
+      .references(() => users.id, { onDelete: "set null" }),
+    targetUserId: varchar("target_user_id")
+      .references(() => users.id, { onDelete: "set null" }),
+    action: varchar("action", { length: 100 }).notNull(),
+    entityType: varchar("entity_type", { length: 50 }),
+    entityId: varchar("entity_id"),
+    previousValue: text("previous_value"),
+    newValue: text("new_value"),
+    changes: jsonb("changes"),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+    index("IDX_audit_logs_performed_by").on(table.performedById),
+    index("IDX_audit_logs_created_at").on(table.createdAt),
+  ],
+);
+
+// Single-use password reset and email verification tokens; only a SHA-256 hash
+// of the token is stored, the raw value exists only in the emailed link
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    purpose: varchar("purpose", { length: 30 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_auth_tokens_user_purpose").on(table.userId, table.purpose)],
+);
+
+// Pending phone sign-in codes, at most one per number. Only a hash of the code
+// is kept; signupData carries the details entered when the code was requested.
+export const phoneOtps = pgTable("phone_otps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phoneNumber: varchar("phone_number", { length: 30 }).notNull().unique(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastSentAt: timestamp("last_sent_at").notNull(),
+  signupData: jsonb("signup_data"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// TOTP second factor for staff. Kept apart from users so the secret never
+// travels with user records; confirmedAt stays null until enrolment finishes.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  performedById: varchar("performed_by_id")
+  userId: varchar("user_id")
     .notNull()
+    .unique()
     .references(() => users.id, { onDelete: "cascade" }),
-  targetUserId: varchar("target_user_id")
-    .references(() => users.id, { onDelete: "set null" }),
-  action: varchar("action", { length: 100 }).notNull(),
-  previousValue: text("previous_value"),
-  newValue: text("new_value"),
-  metadata: jsonb("metadata"),
+  secret: varchar("secret", { length: 64 }).notNull(),
+  confirmedAt: timestamp("confirmed_at"),
+  recoveryCodeHashes: jsonb("recovery_code_hashes"),
+  lastUsedStep: integer("last_used_step"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Failed sign-in counters, one row per account identifier or client IP
+export const loginThrottles = pgTable(
+  "login_throttles",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scope: varchar("scope", { length: 20 }).notNull(),
+    identifier: varchar("identifier", { length: 255 }).notNull(),
+    failedCount: integer("failed_count").default(0).notNull(),
+    lastFailedAt: timestamp("last_failed_at"),
+    lockedUntil: timestamp("locked_until"),
+    lockoutCount: integer("lockout_count").default(0).notNull(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_login_throttles_scope_identifier").on(table.scope, table.identifier)],
+);
+
+// System-wide settings edited at runtime, one JSON value per key (for example
+// the role-to-permission map)
+export const appSettings = pgTable("app_settings", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedById: varchar("updated_by_id").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Staff Role Requests (for tracking approval workflow)
@@ -229,9 +360,39 @@ export const parentChildren = pgTable("parent_children", {
   childId: varchar("child_id")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
+  relationship: varchar("relationship", { length: 50 }),
+  // The parent invoices go to when a child has more than one linked parent
+  isPrimaryBilling: boolean("is_primary_billing").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Pending parent-child links: an invite code a student shares with a parent
+// (parentId is set once a parent redeems it), or a parent's request by the
+// student's email that the student accepts or declines
+export const parentLinkRequests = pgTable(
+  "parent_link_requests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    studentId: varchar("student_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    parentId: varchar("parent_id").references(() => users.id, { onDelete: "cascade" }),
+    initiatedById: varchar("initiated_by_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    codeHash: varchar("code_hash", { length: 64 }).unique(),
+    relationship: varchar("relationship", { length: 50 }),
+    status: parentLinkRequestStatusEnum("status").default("pending").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    respondedAt: timestamp("responded_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_parent_link_requests_student").on(table.studentId),
+    index("IDX_parent_link_requests_parent").on(table.parentId),
+  ],
+);
+
 // Courses table
 export const courses = pgTable("courses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -342,13 +503,18 @@ export const notifications = pgTable("notifications", {
 });
 
 // Chat system tables (Direct Messages and Course Chats)
-export const chatThreads = pgTable("chat_threads", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: chatThreadTypeEnum("type").default("dm").notNull(),
-  courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+export const chatThreads = pgTable(
+  "chat_threads",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    type: chatThreadTypeEnum("type").default("dm").notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  // One group thread per course; DM threads leave courseId null
+  (table) => [uniqueIndex("UQ_chat_threads_course").on(table.courseId)],
+);
 
 export const chatParticipants = pgTable(
   "chat_participants",
@@ -365,6 +531,7 @@ export const chatParticipants = pgTable(
   (table) => [
     index("IDX_chat_participants_thread").on(table.threadId),
     index("IDX_chat_participants_user").on(table.userId),
+    uniqueIndex("UQ_chat_participants_thread_user").on(table.threadId, table.userId),
   ],
 );
 
@@ -404,6 +571,7 @@ export const messageReceipts = pgTable(
   (table) => [
     index("IDX_message_receipts_message").on(table.messageId),
     index("IDX_message_receipts_user").on(table.userId),
+    uniqueIndex("UQ_message_receipts_message_user").on(table.messageId, table.userId),
   ],
 );
 
@@ -418,12 +586,32 @@ export const tutorAvailability = pgTable("tutor_availability", {
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
   dayOfWeek: integer("day_of_week").notNull(),
+  // Wall-clock "HH:MM" times in timeZone, the tutor's zone when the slot was saved
   startTime: varchar("start_time", { length: 5 }).notNull(),
   endTime: varchar("end_time", { length: 5 }).notNull(),
+  timeZone: varchar("time_zone", { length: 64 }).default("Africa/Johannesburg").notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Dated changes to a tutor's weekly availability: time off blocks the range,
+// extra hours open it up even outside the weekly windows
+export const tutorAvailabilityExceptions = pgTable(
+  "tutor_availability_exceptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tutorId: varchar("tutor_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: availabilityExceptionTypeEnum("type").notNull(),
+    startTime: timestamp("start_time").notNull(),
+    endTime: timestamp("end_time").notNull(),
+    reason: varchar("reason", { length: 200 }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_tutor_availability_exceptions_tutor").on(table.tutorId, table.startTime)],
+);
+
 // Session Proposals (student requests awaiting tutor approval)
 export const sessionProposals = pgTable("session_proposals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -441,6 +629,10 @@ export const sessionProposals = pgTable("session_proposals", {
   status: proposalStatusEnum("status").default("pending").notNull(),
   studentMessage: text("student_message"),
   tutorResponse: text("tutor_response"),
+  // Recurring series: set frequency plus either an end date or an occurrence count
+  recurrenceFrequency: recurrenceFrequencyEnum("recurrence_frequency"),
+  recurrenceEndDate: timestamp("recurrence_end_date"),
+  recurrenceCount: integer("recurrence_count"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -491,6 +683,66 @@ export const sessionAttendance = pgTable("session_attendance", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Requests to move a scheduled 1:1 session. The recipient accepts one of the
+// proposed times, declines, or counters with a new request of their own.
+// lateChargeMinutes is fixed when the change is first asked for and is charged
+// to the student if the move goes ahead.
+export const sessionRescheduleRequests = pgTable(
+  "session_reschedule_requests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => tutoringSessions.id, { onDelete: "cascade" }),
+    requestedById: varchar("requested_by_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    recipientId: varchar("recipient_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // [{ startTime, endTime }] as ISO strings (see RescheduleOption)
+    proposedTimes: jsonb("proposed_times").notNull(),
+    reason: text("reason"),
+    status: rescheduleRequestStatusEnum("status").default("pending").notNull(),
+    counterOfId: varchar("counter_of_id"),
+    lateChargeMinutes: integer("late_charge_minutes").default(0).notNull(),
+    acceptedStartTime: timestamp("accepted_start_time"),
+    acceptedEndTime: timestamp("accepted_end_time"),
+    responseMessage: text("response_message"),
+    respondedAt: timestamp("responded_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_session_reschedule_requests_session").on(table.sessionId),
+    index("IDX_session_reschedule_requests_recipient").on(table.recipientId, table.status),
+  ],
+);
+
+// What the session reconciler decided for a session nobody closed, and the
+// evidence it went on, kept for dispute review
+export const sessionReconciliationDecisions = pgTable(
+  "session_reconciliation_decisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => tutoringSessions.id, { onDelete: "cascade" }),
+    outcome: sessionReconciliationOutcomeEnum("outcome").notNull(),
+    previousStatus: tutoringSessionStatusEnum("previous_status").notNull(),
+    newStatus: tutoringSessionStatusEnum("new_status").notNull(),
+    billableMinutes: integer("billable_minutes").default(0).notNull(),
+    chargedMinutes: integer("charged_minutes").default(0).notNull(),
+    refundedMinutes: integer("refunded_minutes").default(0).notNull(),
+    reason: text("reason").notNull(),
+    // Join times, scheduled times and cutoffs the decision was based on
+    evidence: jsonb("evidence").notNull(),
+    decidedAt: timestamp("decided_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_session_reconciliation_decisions_session").on(table.sessionId),
+  ],
+);
+
 // ==========================================
 // REPORTING & DISPUTES
 // ==========================================
@@ -566,6 +818,7 @@ export const hourWallets = pgTable("hour_wallets", {
   consumedMinutes: integer("consumed_minutes").default(0).notNull(),
   status: walletStatusEnum("status").default("active").notNull(),
   expiresAt: timestamp("expires_at"),
+  expiryNotifiedAt: timestamp("expiry_notified_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -607,6 +860,23 @@ export const invoices = pgTable("invoices", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Invoice Reminders (dunning notices sent to the parent, at most once per stage)
+export const invoiceReminders = pgTable(
+  "invoice_reminders",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    invoiceId: varchar("invoice_id")
+      .notNull()
+      .references(() => invoices.id, { onDelete: "cascade" }),
+    stage: varchar("stage", { length: 20 }).notNull(),
+    recipientId: varchar("recipient_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    sentAt: timestamp("sent_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_invoice_reminders_invoice_stage").on(table.invoiceId, table.stage)],
+);
+
 // Invoice Line Items (one per subject/course)
 export const invoiceLineItems = pgTable("invoice_line_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -696,7 +966,8 @@ export const payoutLines = pgTable("payout_lines", {
   courseId: varchar("course_id")
     .notNull()
     .references(() => courses.id, { onDelete: "cascade" }),
-  sessionId: varchar("session_id").references(() => tutoringSessions.id),
+  // Unique so a session can never be paid out twice
+  sessionId: varchar("session_id").references(() => tutoringSessions.id).unique(),
   minutes: integer("minutes").notNull(),
   hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
@@ -720,6 +991,75 @@ export const payoutFlags = pgTable("payout_flags", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// ==========================================
+// RATE CARDS
+// ==========================================
+
+// Course billing rates per currency; the latest row effective on a date applies
+export const courseRates = pgTable("course_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id")
+    .notNull()
+    .references(() => courses.id, { onDelete: "cascade" }),
+  currency: currencyCodeEnum("currency").default("ZAR").notNull(),
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tutor pay rates; a null courseId applies to all of the tutor's courses
+export const tutorPayRates = pgTable("tutor_pay_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tutorId: varchar("tutor_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }),
+  currency: currencyCodeEnum("currency").default("ZAR").notNull(),
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-student discounts on the course rate; a null courseId applies to all courses
+export const studentRateDiscounts = pgTable("student_rate_discounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }),
+  discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  reason: text("reason"),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Uploaded files; the bytes live in the storage driver named on each row.
+// recordId points at the submission, invoice payment, course or user the file is attached to.
+export const fileUploads = pgTable(
+  "file_uploads",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    ownerId: varchar("owner_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    purpose: uploadPurposeEnum("purpose").notNull(),
+    originalName: varchar("original_name", { length: 255 }).notNull(),
+    mimeType: varchar("mime_type", { length: 100 }).notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    storageDriver: varchar("storage_driver", { length: 20 }).notNull(),
+    storageKey: varchar("storage_key", { length: 500 }).notNull(),
+    recordId: varchar("record_id"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_file_uploads_owner").on(table.ownerId),
+    index("IDX_file_uploads_record").on(table.purpose, table.recordId),
+  ],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   courses: many(courses),
@@ -983,6 +1323,7 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
   }),
   lineItems: many(invoiceLineItems),
   payments: many(invoicePayments),
+  reminders: many(invoiceReminders),
 }));
 
 export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) => ({
@@ -996,6 +1337,17 @@ export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) =
   }),
 }));
 
+export const invoiceRemindersRelations = relations(invoiceReminders, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceReminders.invoiceId],
+    references: [invoices.id],
+  }),
+  recipient: one(users, {
+    fields: [invoiceReminders.recipientId],
+    references: [users.id],
+  }),
+}));
+
 export const invoicePaymentsRelations = relations(invoicePayments, ({ one }) => ({
   invoice: one(invoices, {
     fields: [invoicePayments.invoiceId],
@@ -1057,6 +1409,42 @@ export const payoutLinesRelations = relations(payoutLines, ({ one }) => ({
   }),
 }));
 
+export const courseRatesRelations = relations(courseRates, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseRates.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const tutorPayRatesRelations = relations(tutorPayRates, ({ one }) => ({
+  tutor: one(users, {
+    fields: [tutorPayRates.tutorId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [tutorPayRates.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const studentRateDiscountsRelations = relations(studentRateDiscounts, ({ one }) => ({
+  student: one(users, {
+    fields: [studentRateDiscounts.studentId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [studentRateDiscounts.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const fileUploadsRelations = relations(fileUploads, ({ one }) => ({
+  owner: one(users, {
+    fields: [fileUploads.ownerId],
+    references: [users.id],
+  }),
+}));
+
 export const payoutFlagsRelations = relations(payoutFlags, ({ one }) => ({
   payout: one(payouts, {
     fields: [payoutFlags.payoutId],
@@ -1119,6 +1507,11 @@ export const insertParentChildSchema = createInsertSchema(parentChildren).omit({
   createdAt: true,
 });
 
+export const insertParentLinkRequestSchema = createInsertSchema(parentLinkRequests).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -1156,6 +1549,11 @@ export const insertTutorAvailabilitySchema = createInsertSchema(tutorAvailabilit
   createdAt: true,
 });
 
+export const insertTutorAvailabilityExceptionSchema = createInsertSchema(tutorAvailabilityExceptions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertSessionProposalSchema = createInsertSchema(sessionProposals).omit({
   id: true,
   createdAt: true,
@@ -1177,6 +1575,16 @@ export const insertSessionAttendanceSchema = createInsertSchema(sessionAttendanc
   createdAt: true,
 });
 
+export const insertSessionRescheduleRequestSchema = createInsertSchema(sessionRescheduleRequests).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSessionReconciliationDecisionSchema = createInsertSchema(sessionReconciliationDecisions).omit({
+  id: true,
+  decidedAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -1295,6 +1703,27 @@ export type ParentChildWithDetails = ParentChild & {
   child: User;
 };
 
+export type ParentLinkRequest = typeof parentLinkRequests.$inferSelect;
+export type InsertParentLinkRequest = z.infer<typeof insertParentLinkRequestSchema>;
+
+// Who is on a link request, without contact details
+export type ParentLinkRequestUser = Pick<User, "id" | "firstName" | "lastName">;
+
+export type ParentLinkRequestWithDetails = ParentLinkRequest & {
+  student: ParentLinkRequestUser;
+  parent: ParentLinkRequestUser | null;
+};
+
+// As sent to clients: invite code hashes stay on the server
+export type PublicParentLinkRequest = Omit<ParentLinkRequestWithDetails, "codeHash"> & {
+  isInviteCode: boolean;
+};
+
+export type ParentLinksOverview = {
+  links: ParentChildWithDetails[];
+  requests: PublicParentLinkRequest[];
+};
+
 export type ReportWithDetails = Report & {
   student?: User | null;
   createdBy: User;
@@ -1332,8 +1761,66 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type AuthTokenPurpose = "password_reset" | "email_verification" | "invitation";
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+
+export const insertLoginThrottleSchema = createInsertSchema(loginThrottles).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertPhoneOtpSchema = createInsertSchema(phoneOtps).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PhoneOtpSignupData = { firstName: string; lastName: string; role: "student" | "parent" };
+export type PhoneOtp = typeof phoneOtps.$inferSelect;
+export type InsertPhoneOtp = z.infer<typeof insertPhoneOtpSchema>;
+
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+
+// Sign-in sessions as shown to the account holder and to admins; the id is a
+// hash of the session id so the cookie value itself is never exposed
+export type LoginSession = typeof sessions.$inferSelect;
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
+// Sent with the current user while a super admin is signed in as them
+export type ImpersonationSummary = {
+  impersonatorName: string;
+  expiresAt: string;
+  allowWrites: boolean;
+};
+
+export type LoginThrottleScope = "account" | "ip";
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type InsertLoginThrottle = z.infer<typeof insertLoginThrottleSchema>;
+
 export type AuditLogWithDetails = AuditLog & {
-  performedBy: User;
+  performedBy: User | null;
   targetUser?: User;
 };
 
@@ -1341,6 +1828,9 @@ export type AuditLogWithDetails = AuditLog & {
 export type TutorAvailability = typeof tutorAvailability.$inferSelect;
 export type InsertTutorAvailability = z.infer<typeof insertTutorAvailabilitySchema>;
 
+export type TutorAvailabilityException = typeof tutorAvailabilityExceptions.$inferSelect;
+export type InsertTutorAvailabilityException = z.infer<typeof insertTutorAvailabilityExceptionSchema>;
+
 export type SessionProposal = typeof sessionProposals.$inferSelect;
 export type InsertSessionProposal = z.infer<typeof insertSessionProposalSchema>;
 
@@ -1353,7 +1843,17 @@ export type InsertHourWallet = z.infer<typeof insertHourWalletSchema>;
 export type SessionAttendance = typeof sessionAttendance.$inferSelect;
 export type InsertSessionAttendance = z.infer<typeof insertSessionAttendanceSchema>;
 
+export type SessionRescheduleRequest = typeof sessionRescheduleRequests.$inferSelect;
+export type InsertSessionRescheduleRequest = z.infer<typeof insertSessionRescheduleRequestSchema>;
+export type RescheduleRequestStatus = "pending" | "accepted" | "declined" | "countered" | "withdrawn";
+
+export type SessionReconciliationDecision = typeof sessionReconciliationDecisions.$inferSelect;
+export type InsertSessionReconciliationDecision = z.infer<typeof insertSessionReconciliationDecisionSchema>;
+export type SessionReconciliationOutcome = "student_no_show" | "tutor_no_show" | "auto_ended";
+
 export type ProposalStatus = "pending" | "approved" | "rejected";
+export type RecurrenceFrequency = "weekly" | "fortnightly";
+export type AvailabilityExceptionType = "time_off" | "extra_hours";
 export type TutoringSessionStatus = "scheduled" | "in_progress" | "completed" | "missed" | "postponed" | "cancelled";
 
 // Extended types for scheduling
@@ -1364,11 +1864,20 @@ export type SessionProposalWithDetails = SessionProposal & {
 };
 
 export type TutoringSessionWithDetails = TutoringSession & {
-  student: User;
+  student: User | null;
   tutor: User;
   course: Course;
 };
 
+export type SessionAttendanceWithStudent = SessionAttendance & {
+  student: User;
+};
+
+export type SessionRescheduleRequestWithDetails = SessionRescheduleRequest & {
+  session: TutoringSessionWithDetails;
+  requestedBy: User;
+};
+
 export type HourWalletWithDetails = HourWallet & {
   student: User;
   course: Course;
@@ -1397,6 +1906,11 @@ export const insertWalletTransactionSchema = createInsertSchema(walletTransactio
   createdAt: true,
 });
 
+export const insertInvoiceReminderSchema = createInsertSchema(invoiceReminders).omit({
+  id: true,
+  sentAt: true,
+});
+
 // Financial system types
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
@@ -1410,6 +1924,9 @@ export type InsertInvoicePayment = z.infer<typeof insertInvoicePaymentSchema>;
 export type WalletTransaction = typeof walletTransactions.$inferSelect;
 export type InsertWalletTransaction = z.infer<typeof insertWalletTransactionSchema>;
 
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+export type InsertInvoiceReminder = z.infer<typeof insertInvoiceReminderSchema>;
+
 export type InvoiceStatus = "draft" | "awaiting_payment" | "paid" | "overdue" | "disputed" | "verified";
 export type CurrencyCode = "ZAR" | "USD" | "GBP";
 export type PaymentVerificationStatus = "pending" | "verified" | "rejected";
@@ -1450,6 +1967,26 @@ export const insertPayoutFlagSchema = createInsertSchema(payoutFlags).omit({
   createdAt: true,
 });
 
+export const insertCourseRateSchema = createInsertSchema(courseRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTutorPayRateSchema = createInsertSchema(tutorPayRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStudentRateDiscountSchema = createInsertSchema(studentRateDiscounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFileUploadSchema = createInsertSchema(fileUploads).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Payroll system types
 export type Payout = typeof payouts.$inferSelect;
 export type InsertPayout = z.infer<typeof insertPayoutSchema>;
@@ -1473,3 +2010,32 @@ export type PayoutLineWithDetails = PayoutLine & {
   course: Course;
   session?: TutoringSession;
 };
+
+// Rate card types
+export type CourseRate = typeof courseRates.$inferSelect;
+export type InsertCourseRate = z.infer<typeof insertCourseRateSchema>;
+
+export type TutorPayRate = typeof tutorPayRates.$inferSelect;
+export type InsertTutorPayRate = z.infer<typeof insertTutorPayRateSchema>;
+
+export type StudentRateDiscount = typeof studentRateDiscounts.$inferSelect;
+export type InsertStudentRateDiscount = z.infer<typeof insertStudentRateDiscountSchema>;
+
+export type CourseRateWithCourse = CourseRate & {
+  course: Course;
+};
+
+export type TutorPayRateWithDetails = TutorPayRate & {
+  tutor: User;
+  course: Course | null;
+};
+
+export type StudentRateDiscountWithDetails = StudentRateDiscount & {
+  student: User;
+  course: Course | null;
+};
+
+// File upload types
+export type UploadPurpose = "submission" | "payment_proof" | "course_image" | "profile_image";
+export type FileUpload = typeof fileUploads.$inferSelect;
+export type InsertFileUpload = z.infer<typeof insertFileUploadSchema>;
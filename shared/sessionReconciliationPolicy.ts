@@ -0,0 +1,60 @@
+import type { SessionReconciliationOutcome } from "./schema";
+
+// A participant who has not joined this long after the start is a no-show
+export const DEFAULT_NO_SHOW_GRACE_MINUTES = 15;
+// A session still running this long after its scheduled end is closed automatically
+export const DEFAULT_OVERRUN_GRACE_MINUTES = 15;
+
+export const RECONCILIATION_OUTCOME_LABELS: Record<SessionReconciliationOutcome, string> = {
+  student_no_show: "Student no-show",
+  tutor_no_show: "Tutor no-show",
+  auto_ended: "Ended automatically",
+};
+
+type ScheduledTimes = {
+  scheduledStartTime: Date | string;
+  scheduledEndTime: Date | string;
+};
+
+// No-shows are decided after the grace period, or at the scheduled end for
+// sessions shorter than that
+export function getNoShowCutoff(session: ScheduledTimes, graceMinutes: number): Date {
+  const graceEnd = new Date(session.scheduledStartTime).getTime() + graceMinutes * 60000;
+  return new Date(Math.min(graceEnd, new Date(session.scheduledEndTime).getTime()));
+}
+
+// Who failed to turn up to a session that is still scheduled, or null while it is
+// too early to say. Without the tutor nothing could take place, so a session
+// nobody joined counts as the tutor's no-show and the student is not charged.
+// Group sessions only wait on the tutor; attendees are charged when they join.
+export function getNoShowOutcome(
+  session: ScheduledTimes & {
+    isGroupSession: boolean | null;
+    studentJoinTime: Date | string | null;
+    tutorJoinTime: Date | string | null;
+  },
+  now: Date,
+  graceMinutes: number,
+): Extract<SessionReconciliationOutcome, "student_no_show" | "tutor_no_show"> | null {
+  if (now < getNoShowCutoff(session, graceMinutes)) return null;
+  if (!session.tutorJoinTime) return "tutor_no_show";
+  if (!session.isGroupSession && !session.studentJoinTime) return "student_no_show";
+  return null;
+}
+
+export function isOverrunDue(session: ScheduledTimes, now: Date, graceMinutes: number): boolean {
+  return now.getTime() >= new Date(session.scheduledEndTime).getTime() + graceMinutes * 60000;
+}
+
+// An overrunning session is closed as if it ended on time, so nothing past the
+// scheduled end is billed; a session that started after its slot bills nothing
+export function getAutoEndTime(session: ScheduledTimes & { actualStartTime: Date | string | null }): Date {
+  const scheduledEnd = new Date(session.scheduledEndTime);
+  const actualStart = session.actualStartTime ? new Date(session.actualStartTime) : null;
+  return actualStart && actualStart > scheduledEnd ? actualStart : scheduledEnd;
+}
+
+export function getAutoEndBillableMinutes(start: Date | string, end: Date, scheduledMinutes: number): number {
+  const minutes = Math.ceil((end.getTime() - new Date(start).getTime()) / 60000);
+  return Math.max(0, Math.min(minutes, scheduledMinutes));
+}
@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { insertTutorAvailabilityExceptionSchema, type AvailabilityExceptionType } from "./schema";
+import { getZonedParts, zonedTimeToDate } from "./timeZonePolicy";
+
+// Bookable slots start on a quarter hour and last a whole number of quarter hours
+export const SLOT_STEP_MINUTES = 15;
+export const DEFAULT_SESSION_BUFFER_MINUTES = 15;
+export const DEFAULT_SLOT_DURATION_MINUTES = 60;
+export const MAX_SLOT_DURATION_MINUTES = 240;
+export const MAX_SLOT_SEARCH_DAYS = 31;
+export const MAX_TIME_OFF_DAYS = 90;
+export const MAX_EXTRA_HOURS_MINUTES = 24 * 60;
+
+const STEP_MS = SLOT_STEP_MINUTES * 60 * 1000;
+
+export type TimeRange = {
+  start: Date;
+  end: Date;
+};
+
+// Times are wall-clock "HH:MM" in the window's IANA time zone
+export type WeeklyWindow = {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+};
+
+export const slotSearchSchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    duration: z.coerce
+      .number()
+      .int()
+      .min(SLOT_STEP_MINUTES)
+      .max(MAX_SLOT_DURATION_MINUTES)
+      .refine((minutes) => minutes % SLOT_STEP_MINUTES === 0, {
+        message: `Duration must be a multiple of ${SLOT_STEP_MINUTES} minutes`,
+      })
+      .default(DEFAULT_SLOT_DURATION_MINUTES),
+  })
+  .refine((search) => search.to > search.from, { message: "The range must end after it starts", path: ["to"] })
+  .refine((search) => search.to.getTime() - search.from.getTime() <= MAX_SLOT_SEARCH_DAYS * 24 * 60 * 60 * 1000, {
+    message: `Search at most ${MAX_SLOT_SEARCH_DAYS} days at a time`,
+    path: ["to"],
+  });
+
+export type SlotSearch = z.infer<typeof slotSearchSchema>;
+
+// "HH:MM" to minutes after midnight; "24:00" is accepted as the end of the day
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 24 * 60 ? minutes : null;
+}
+
+// Sorts ranges and joins any that overlap or touch
+export function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = ranges
+    .filter((range) => range.end > range.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ start: range.start, end: range.end });
+    }
+  }
+  return merged;
+}
+
+export function subtractRanges(ranges: TimeRange[], remove: TimeRange[]): TimeRange[] {
+  let remaining = mergeRanges(ranges);
+  for (const cut of mergeRanges(remove)) {
+    remaining = remaining.flatMap((range) => {
+      if (cut.end <= range.start || cut.start >= range.end) return [range];
+      const pieces: TimeRange[] = [];
+      if (cut.start > range.start) pieces.push({ start: range.start, end: cut.start });
+      if (cut.end < range.end) pieces.push({ start: cut.end, end: range.end });
+      return pieces;
+    });
+  }
+  return remaining;
+}
+
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Turns weekly windows into dated ranges covering [from, to). Each window is read
+// on the calendar days of its own time zone, so it keeps its wall-clock hours
+// across DST changes.
+export function expandWeeklyAvailability(windows: WeeklyWindow[], from: Date, to: Date): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  for (const window of windows) {
+    const startMinutes = parseTimeOfDay(window.startTime);
+    const endMinutes = parseTimeOfDay(window.endTime);
+    if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) continue;
+    const first = getZonedParts(from, window.timeZone);
+    for (let offset = 0; ; offset++) {
+      const day = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+      const [year, month, date] = [day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate()];
+      if (zonedTimeToDate(year, month, date, 0, window.timeZone) >= to) break;
+      if (window.dayOfWeek !== day.getUTCDay()) continue;
+      ranges.push({
+        start: zonedTimeToDate(year, month, date, startMinutes, window.timeZone),
+        end: zonedTimeToDate(year, month, date, endMinutes, window.timeZone),
+      });
+    }
+  }
+  return mergeRanges(ranges)
+    .map((range) => ({ start: range.start < from ? from : range.start, end: range.end > to ? to : range.end }))
+    .filter((range) => range.end > range.start);
+}
+
+export type AvailabilityException = {
+  type: AvailabilityExceptionType;
+  startTime: Date | string;
+  endTime: Date | string;
+};
+
+export const availabilityExceptionInputSchema = insertTutorAvailabilityExceptionSchema
+  .pick({ type: true, reason: true })
+  .extend({
+    startTime: z.coerce.date(),
+    endTime: z.coerce.date(),
+  })
+  .superRefine((exception, ctx) => {
+    const minutes = (exception.endTime.getTime() - exception.startTime.getTime()) / 60000;
+    if (minutes <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The end must be after the start", path: ["endTime"] });
+    } else if (exception.type === "time_off" && minutes > MAX_TIME_OFF_DAYS * 24 * 60) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Time off can cover at most ${MAX_TIME_OFF_DAYS} days`, path: ["endTime"] });
+    } else if (exception.type === "extra_hours") {
+      if (minutes > MAX_EXTRA_HOURS_MINUTES) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Extra hours must fit within one day", path: ["endTime"] });
+      }
+      if (!isSlotAligned(exception.startTime) || !isSlotAligned(exception.endTime)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Extra hours must start and end on a ${SLOT_STEP_MINUTES}-minute boundary`,
+          path: ["startTime"],
+        });
+      }
+    }
+  });
+
+// Weekly availability plus extra hours, minus time off, within [from, to)
+export function applyAvailabilityExceptions(
+  weekly: TimeRange[],
+  exceptions: AvailabilityException[],
+  from: Date,
+  to: Date,
+): TimeRange[] {
+  const toRange = (exception: AvailabilityException) => ({
+    start: new Date(exception.startTime),
+    end: new Date(exception.endTime),
+  });
+  const extra = exceptions
+    .filter((exception) => exception.type === "extra_hours")
+    .map(toRange)
+    .map((range) => ({ start: range.start < from ? from : range.start, end: range.end > to ? to : range.end }));
+  const timeOff = exceptions.filter((exception) => exception.type === "time_off").map(toRange);
+  return subtractRanges([...weekly, ...extra], timeOff);
+}
+
+export function isSlotAligned(time: Date): boolean {
+  return time.getTime() % STEP_MS === 0;
+}
+
+function ceilToStep(time: Date): Date {
+  return new Date(Math.ceil(time.getTime() / STEP_MS) * STEP_MS);
+}
+
+export function padRange(range: TimeRange, minutes: number): TimeRange {
+  const padMs = minutes * 60 * 1000;
+  return { start: new Date(range.start.getTime() - padMs), end: new Date(range.end.getTime() + padMs) };
+}
+
+// Availability minus busy time, where busy time is widened by the buffer on
+// both sides so back-to-back bookings keep a gap
+export function getFreeRanges(availability: TimeRange[], busy: TimeRange[], bufferMinutes: number): TimeRange[] {
+  return subtractRanges(availability, busy.map((range) => padRange(range, bufferMinutes)));
+}
+
+// Every aligned start in the free ranges where a session of the given length
+// fits, skipping anything that starts before `now`
+export function listBookableSlots(free: TimeRange[], durationMinutes: number, now: Date): TimeRange[] {
+  const durationMs = durationMinutes * 60 * 1000;
+  const slots: TimeRange[] = [];
+  for (const range of free) {
+    let start = ceilToStep(range.start < now ? now : range.start);
+    while (start.getTime() + durationMs <= range.end.getTime()) {
+      slots.push({ start, end: new Date(start.getTime() + durationMs) });
+      start = new Date(start.getTime() + STEP_MS);
+    }
+  }
+  return slots;
+}
+
+// Reason a requested time is not one of the bookable slots, or null when it is
+export function getSlotBlocker(slot: TimeRange, free: TimeRange[], now: Date): string | null {
+  const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / 60000;
+  if (durationMinutes <= 0 || durationMinutes % SLOT_STEP_MINUTES !== 0) {
+    return `Session duration must be in ${SLOT_STEP_MINUTES}-minute blocks`;
+  }
+  if (!isSlotAligned(slot.start)) return `Sessions must start on a ${SLOT_STEP_MINUTES}-minute boundary`;
+  if (slot.start < now) return "Cannot schedule a session in the past";
+  if (!free.some((range) => range.start <= slot.start && range.end >= slot.end)) {
+    return "The tutor is not available at this time";
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { format } from "date-fns";
+
+// Matches the users.time_zone column default; most families are in South Africa
+export const DEFAULT_TIME_ZONE = "Africa/Johannesburg";
+
+export type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .refine(isValidTimeZone, { message: "Unknown time zone" });
+
+// Stored preferences predate validation, so anything unusable falls back to the default
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// Wall-clock date and time of an instant in the zone; month is 1-12, weekday 0 is Sunday
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") values[part.type] = Number(part.value);
+  }
+  const { year, month, day, hour, minute, second } = values;
+  return { year, month, day, hour, minute, second, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant a wall-clock time occurs in the zone. Minutes past 24:00 roll into
+// the next day. A time skipped by a DST change moves forward by the gap, and a
+// time that happens twice resolves to the later occurrence.
+export function zonedTimeToDate(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(wallAsUtc), timeZone);
+  const guess = wallAsUtc - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(guess), timeZone);
+  return new Date(secondOffset === firstOffset ? guess : wallAsUtc - secondOffset * 60000);
+}
+
+// A Date whose local fields show the zone's wall-clock time, for date-fns
+// formatting and calendar-day comparisons. Not a real instant.
+export function toZonedTime(date: Date | string, timeZone: string): Date {
+  const instant = new Date(date);
+  const parts = getZonedParts(instant, timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant.getMilliseconds());
+}
+
+// Reverse of toZonedTime: reads the local fields as a wall-clock time in the zone
+export function fromZonedTime(wallTime: Date, timeZone: string): Date {
+  const minutes = wallTime.getHours() * 60 + wallTime.getMinutes();
+  const instant = zonedTimeToDate(wallTime.getFullYear(), wallTime.getMonth() + 1, wallTime.getDate(), minutes, timeZone);
+  return new Date(instant.getTime() + wallTime.getSeconds() * 1000 + wallTime.getMilliseconds());
+}
+
+export function formatInTimeZone(date: Date | string, timeZone: string, pattern: string): string {
+  return format(toZonedTime(date, timeZone), pattern);
+}
+
+// Each English locale only knows the abbreviations of its own region
+const ABBREVIATION_LOCALES = ["en-ZA", "en-GB", "en-US"];
+
+// Short zone name at the instant, such as "SAST", "BST" or "EST", falling back
+// to an offset like "GMT+1" where no abbreviation is in common use
+export function getTimeZoneAbbreviation(date: Date | string, timeZone: string): string {
+  const names = ABBREVIATION_LOCALES.map((locale) =>
+    new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: "short" })
+      .formatToParts(new Date(date))
+      .find((part) => part.type === "timeZoneName")?.value,
+  ).filter((name): name is string => !!name);
+  return names.find((name) => !/^(GMT|UTC)[+-]/.test(name)) ?? names[0] ?? timeZone;
+}
+
+// Session time for notification and email text, labelled with the reader's zone
+export function formatSessionTime(date: Date | string, timeZone: string): string {
+  return `${formatInTimeZone(date, timeZone, "EEE, MMM d, yyyy 'at' h:mm a")} ${getTimeZoneAbbreviation(date, timeZone)}`;
+}
+
+export function listTimeZones(): string[] {
+  const supported = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return supported.includes(DEFAULT_TIME_ZONE) ? supported : [DEFAULT_TIME_ZONE, ...supported];
+}
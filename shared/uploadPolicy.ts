@@ -0,0 +1,73 @@
+import type { UploadPurpose } from "./schema";
+
+const MB = 1024 * 1024;
+
+const PDF = "application/pdf";
+const PNG = "image/png";
+const JPEG = "image/jpeg";
+const WEBP = "image/webp";
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export const UPLOAD_RULES: Record<UploadPurpose, { mimeTypes: string[]; maxBytes: number }> = {
+  submission: { mimeTypes: [PDF, PNG, JPEG, DOCX], maxBytes: 20 * MB },
+  payment_proof: { mimeTypes: [PDF, PNG, JPEG], maxBytes: 10 * MB },
+  course_image: { mimeTypes: [PNG, JPEG, WEBP], maxBytes: 5 * MB },
+  profile_image: { mimeTypes: [PNG, JPEG, WEBP], maxBytes: 2 * MB },
+};
+
+export const MAX_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_RULES).map(rule => rule.maxBytes));
+
+export const UPLOAD_URL_PREFIX = "/api/uploads/";
+
+export function isUploadPurpose(value: unknown): value is UploadPurpose {
+  return typeof value === "string" && Object.hasOwn(UPLOAD_RULES, value);
+}
+
+// Clients send the file name URI-encoded in X-File-Name; null when it cannot be decoded
+export function decodeFileNameHeader(header: string | undefined, fallback: string): string | null {
+  if (!header) return fallback;
+  try {
+    return decodeURIComponent(header);
+  } catch {
+    return null;
+  }
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+// Identifies the file from its leading bytes so a renamed executable cannot pass as a PDF.
+// DOCX files are zip archives and can only be recognised as such.
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return PDF;
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return PNG;
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return JPEG;
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return WEBP;
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return DOCX;
+  return null;
+}
+
+// Returns a message describing why the file is rejected, or null when it is acceptable
+export function validateUpload(purpose: UploadPurpose, declaredMimeType: string, bytes: Uint8Array): string | null {
+  const rule = UPLOAD_RULES[purpose];
+  const mimeType = declaredMimeType.split(";")[0].trim().toLowerCase();
+
+  if (bytes.length === 0) return "File is empty";
+  if (bytes.length > rule.maxBytes) {
+    return `File is too large (max ${Math.round(rule.maxBytes / MB)} MB)`;
+  }
+  if (!rule.mimeTypes.includes(mimeType)) {
+    return `File type ${mimeType || "unknown"} is not allowed`;
+  }
+  if (sniffMimeType(bytes) !== mimeType) {
+    return "File contents do not match its type";
+  }
+  return null;
+}
+
+export function getUploadIdFromUrl(url: string | null | undefined): string | null {
+  if (!url || !url.startsWith(UPLOAD_URL_PREFIX)) return null;
+  const id = url.slice(UPLOAD_URL_PREFIX.length);
+  return /^[0-9a-f-]{36}$/i.test(id) ? id : null;
+}
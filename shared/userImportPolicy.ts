@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { insertUserSchema } from "./schema";
+import { MAX_RELATIONSHIP_LENGTH } from "./parentLinkPolicy";
+import { toCsv } from "./csv";
+
+export const MAX_IMPORT_ROWS = 1000;
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// Tutors and other staff go through the staff approval flow, so imports only create these
+export const USER_IMPORT_ROLES = ["student", "parent"] as const;
+
+export const USER_IMPORT_COLUMNS = [
+  "email",
+  "firstName",
+  "lastName",
+  "role",
+  "phoneNumber",
+  "parentEmails",
+  "relationship",
+  "courses",
+] as const;
+
+type ImportColumn = (typeof USER_IMPORT_COLUMNS)[number];
+
+// Headers are matched ignoring case, spaces and punctuation
+const HEADER_ALIASES: Record<string, ImportColumn> = {
+  email: "email",
+  emailaddress: "email",
+  firstname: "firstName",
+  givenname: "firstName",
+  lastname: "lastName",
+  surname: "lastName",
+  familyname: "lastName",
+  role: "role",
+  phone: "phoneNumber",
+  phonenumber: "phoneNumber",
+  mobile: "phoneNumber",
+  parentemail: "parentEmails",
+  parentemails: "parentEmails",
+  parents: "parentEmails",
+  relationship: "relationship",
+  course: "courses",
+  courses: "courses",
+};
+
+export type UserImportRow = {
+  rowNumber: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: string | null;
+  phoneNumber: string | null;
+  parentEmails: string[];
+  relationship: string | null;
+  courses: string[];
+};
+
+export type UserImportRowResult = {
+  rowNumber: number;
+  email: string;
+  role: string | null;
+  action: "create" | "match" | null;
+  parentEmails: string[];
+  courseIds: string[];
+  errors: string[];
+};
+
+export type UserImportContext = {
+  // Keyed by lower-cased email
+  existingUsers: Map<string, { role: string }>;
+  courses: { id: string; title: string }[];
+};
+
+const importUserSchema = insertUserSchema
+  .pick({ firstName: true, lastName: true, phoneNumber: true })
+  .extend({
+    email: z.string().email("Invalid email address"),
+    role: z.enum(USER_IMPORT_ROLES, { message: `Role must be one of: ${USER_IMPORT_ROLES.join(", ")}` }),
+    relationship: z.string().max(MAX_RELATIONSHIP_LENGTH, "Relationship is too long").nullable(),
+  });
+
+function splitList(value: string): string[] {
+  return value.split(/[;|]/).map((item) => item.trim()).filter(Boolean);
+}
+
+// Maps a sheet (header row first) to import rows; row numbers match the sheet
+export function tableToImportRows(table: string[][]): { rows: UserImportRow[]; error?: string } {
+  if (table.length < 2) return { rows: [], error: "The file has no data rows" };
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` };
+  }
+
+  const columns = table[0].map((header) => HEADER_ALIASES[header.toLowerCase().replace(/[^a-z]/g, "")]);
+  if (!columns.includes("email")) return { rows: [], error: "The file needs an email column" };
+
+  const rows = table.slice(1).map((cells, index) => {
+    const values: Partial<Record<ImportColumn, string>> = {};
+    columns.forEach((column, i) => {
+      if (column && values[column] === undefined) values[column] = (cells[i] ?? "").trim();
+    });
+    return {
+      rowNumber: index + 2,
+      email: (values.email ?? "").toLowerCase(),
+      firstName: values.firstName || null,
+      lastName: values.lastName || null,
+      role: values.role ? values.role.toLowerCase() : null,
+      phoneNumber: values.phoneNumber || null,
+      parentEmails: splitList(values.parentEmails ?? "").map((email) => email.toLowerCase()),
+      relationship: values.relationship || null,
+      courses: splitList(values.courses ?? ""),
+    };
+  });
+  return { rows };
+}
+
+// A course can be named by its ID or its exact title (ignoring case)
+function resolveCourse(courses: UserImportContext["courses"], key: string): { id?: string; error?: string } {
+  const byId = courses.find((course) => course.id === key);
+  if (byId) return { id: byId.id };
+  const byTitle = courses.filter((course) => course.title.toLowerCase() === key.toLowerCase());
+  if (byTitle.length === 1) return { id: byTitle[0].id };
+  if (byTitle.length > 1) return { error: `Course "${key}" matches more than one course; use its ID` };
+  return { error: `Course "${key}" not found` };
+}
+
+// Checks every row against the users schema and against the rest of the file
+// and the existing data; the import only runs when no row has errors
+export function validateImportRows(rows: UserImportRow[], context: UserImportContext): UserImportRowResult[] {
+  const emailCounts = new Map<string, number>();
+  for (const row of rows) emailCounts.set(row.email, (emailCounts.get(row.email) ?? 0) + 1);
+
+  const roleInFile = new Map<string, string>();
+  for (const row of rows) {
+    const role = row.role ?? context.existingUsers.get(row.email)?.role ?? "student";
+    if (!roleInFile.has(row.email)) roleInFile.set(row.email, role);
+  }
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+    const existing = context.existingUsers.get(row.email);
+    const role = row.role ?? existing?.role ?? "student";
+
+    const parsed = importUserSchema.safeParse({
+      email: row.email,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      phoneNumber: row.phoneNumber,
+      role,
+      relationship: row.relationship,
+    });
+    if (!parsed.success) errors.push(...parsed.error.errors.map((issue) => issue.message));
+
+    if ((emailCounts.get(row.email) ?? 0) > 1) errors.push("Email appears more than once in the file");
+    if (existing && row.role && row.role !== existing.role) {
+      errors.push(`Existing account is a ${existing.role}; imports do not change roles`);
+    }
+
+    if (role !== "student" && (row.parentEmails.length > 0 || row.courses.length > 0)) {
+      errors.push("Only students can have parents or courses");
+    }
+
+    for (const parentEmail of row.parentEmails) {
+      const parentRole = roleInFile.get(parentEmail) ?? context.existingUsers.get(parentEmail)?.role;
+      if (!parentRole) errors.push(`Parent ${parentEmail} is not in the file or an existing user`);
+      else if (parentRole !== "parent") errors.push(`${parentEmail} is not a parent account`);
+    }
+
+    const courseIds: string[] = [];
+    for (const key of row.courses) {
+      const course = resolveCourse(context.courses, key);
+      if (course.id) courseIds.push(course.id);
+      else errors.push(course.error!);
+    }
+
+    return {
+      rowNumber: row.rowNumber,
+      email: row.email,
+      role,
+      action: errors.length > 0 ? null : existing ? "match" : "create",
+      parentEmails: row.parentEmails,
+      courseIds,
+      errors,
+    };
+  });
+}
+
+export function buildImportReportCsv(results: UserImportRowResult[]): string {
+  const lines = [["Row", "Email", "Role", "Result", "Parents", "Courses", "Errors"]];
+  for (const result of results) {
+    lines.push([
+      String(result.rowNumber),
+      result.email,
+      result.role ?? "",
+      result.errors.length > 0 ? "error" : result.action === "match" ? "matched" : "created",
+      String(result.parentEmails.length),
+      String(result.courseIds.length),
+      result.errors.join("; "),
+    ]);
+  }
+  return toCsv(lines);
+}
@@ -0,0 +1,24 @@
+import { addDays, subDays } from "date-fns";
+
+export const DEFAULT_WALLET_VALIDITY_DAYS = 365;
+export const WALLET_EXPIRY_NOTICE_DAYS = 14;
+
+// A purchase keeps the whole balance valid for the validity period from the purchase,
+// never shortening an expiry date that is already later
+export function extendWalletExpiry(currentExpiresAt: Date | null, purchasedAt: Date, validityDays: number): Date {
+  const purchaseExpiry = addDays(purchasedAt, validityDays);
+  if (currentExpiresAt && currentExpiresAt > purchaseExpiry) return currentExpiresAt;
+  return purchaseExpiry;
+}
+
+export function isWalletExpired(
+  wallet: { status: string; expiresAt: Date | string | null },
+  now: Date,
+): boolean {
+  if (wallet.status === "expired") return true;
+  return !!wallet.expiresAt && new Date(wallet.expiresAt) <= now;
+}
+
+export function isExpiryNoticeDue(expiresAt: Date, now: Date, noticeDays: number = WALLET_EXPIRY_NOTICE_DAYS): boolean {
+  return now < expiresAt && now >= subDays(expiresAt, noticeDays);
+}